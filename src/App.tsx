@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { 
   Users, 
   FileText, 
@@ -6,7 +6,9 @@ import {
   MessageSquare, 
   BarChart2,
   Settings,
-  Search 
+  Search,
+  Loader2,
+  AlertCircle
 } from 'lucide-react';
 import CustomerList from './components/CustomerList';
 import CustomerForm from './components/CustomerForm';
@@ -21,15 +23,77 @@ import DocumentVersioning from './components/DocumentVersioning';
 import DocumentPreview from './components/DocumentPreview';
 import BatchOperations from './components/BatchOperations';
 import WelcomeGuide from './components/WelcomeGuide';
+import ValidationRuleSettings from './components/ValidationRuleSettings';
 import { Toaster } from 'react-hot-toast';
-import { mockCustomers, mockDocuments } from './data/mockData';
+import { UNASSIGNED_CUSTOMER, repositories } from './lib/repositories';
+import { processingQueue } from './lib/jobQueue';
+import { expiryTracker } from './lib/expiryTracker';
+import type { Customer, CustomerDocument } from './types';
 
 function App() {
   const [activeTab, setActiveTab] = useState('documents');
-  const [selectedDocument, setSelectedDocument] = useState(Object.values(mockDocuments).flat()[0]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [documents, setDocuments] = useState<Record<string, CustomerDocument[]>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [selectedDocument, setSelectedDocument] = useState<CustomerDocument | null>(null);
   const [showPreview, setShowPreview] = useState(false);
   const [showWelcomeGuide, setShowWelcomeGuide] = useState(true);
 
+  const allDocuments = Object.values(documents).flat();
+
+  const loadData = useCallback(async () => {
+    setIsLoading(true);
+    setLoadError(null);
+    try {
+      const [loadedCustomers, loadedDocuments] = await Promise.all([
+        repositories.customers.list(),
+        repositories.documents.listAll()
+      ]);
+      setCustomers(loadedCustomers);
+      setDocuments(loadedDocuments);
+      setSelectedDocument(prev => prev ?? Object.values(loadedDocuments).flat()[0] ?? null);
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : 'Failed to load data');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  // Resumes processing jobs left over from the last session
+  useEffect(() => {
+    processingQueue.start().catch(error => {
+      console.error('Processing queue failed to start:', error);
+    });
+    return () => processingQueue.stop();
+  }, []);
+
+  // Watches received documents for expiry and requests their renewal; new
+  // requests join the customer's documents
+  useEffect(() => {
+    const unsubscribe = expiryTracker.onChange(expirations => {
+      setDocuments(prev => {
+        let next = prev;
+        for (const { renewal } of expirations) {
+          if (!renewal?.customer_id) continue;
+          const docs = next[renewal.customer_id] ?? [];
+          if (docs.some(doc => doc.id === renewal.id)) continue;
+          next = { ...next, [renewal.customer_id]: [...docs, renewal] };
+        }
+        return next;
+      });
+    });
+    expiryTracker.start();
+    return () => {
+      unsubscribe();
+      expiryTracker.stop();
+    };
+  }, []);
+
   // Check if it's the first visit
   useEffect(() => {
     const hasSeenGuide = localStorage.getItem('hasSeenWelcomeGuide');
@@ -46,6 +110,27 @@ function App() {
     // Implement batch action handling
   };
 
+  // Documents not loaded yet, such as an upload's new record, join their
+  // customer's list
+  const handleDocumentsChange = (updated: CustomerDocument[]) => {
+    const byId = new Map(updated.map(doc => [doc.id, doc]));
+    setDocuments(prev => {
+      const next = Object.fromEntries(
+        Object.entries(prev).map(([customerId, docs]) => [
+          customerId,
+          docs.map(doc => byId.get(doc.id) ?? doc)
+        ])
+      );
+      const known = new Set(Object.values(prev).flat().map(doc => doc.id));
+      updated.filter(doc => !known.has(doc.id)).forEach(doc => {
+        const customerId = doc.customer_id ?? UNASSIGNED_CUSTOMER;
+        next[customerId] = [...(next[customerId] ?? []), doc];
+      });
+      return next;
+    });
+    setSelectedDocument(prev => (prev && byId.get(prev.id)) ?? prev);
+  };
+
   const tabs = [
     { id: 'documents', label: 'Documents', icon: FileText },
     { id: 'customers', label: 'Customers', icon: Users },
@@ -80,8 +165,8 @@ function App() {
         {/* Global Search */}
         <div className="mb-8">
           <SmartSearch 
-            customers={mockCustomers} 
-            documents={mockDocuments}
+            customers={customers} 
+            documents={documents}
           />
         </div>
 
@@ -107,7 +192,9 @@ function App() {
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Left Sidebar - Context-aware secondary navigation */}
           <div className="lg:col-span-1">
-            {activeTab === 'documents' && <DocumentUpload />}
+            {activeTab === 'documents' && (
+              <DocumentUpload documents={allDocuments} onDocumentsChange={handleDocumentsChange} />
+            )}
             {activeTab === 'customers' && <CustomerForm />}
             {activeTab === 'followup' && (
               <div className="bg-white rounded-lg shadow-lg p-6">
@@ -119,33 +206,49 @@ function App() {
 
           {/* Main Content Area */}
           <div className="lg:col-span-2">
-            {activeTab === 'documents' && (
+            {activeTab === 'documents' && isLoading && (
+              <div className="bg-white rounded-lg shadow-lg p-6 flex items-center justify-center text-gray-500">
+                <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+                Loading documents...
+              </div>
+            )}
+            {activeTab === 'documents' && !isLoading && loadError && (
+              <div className="bg-white rounded-lg shadow-lg p-6">
+                <div className="flex items-center text-red-600 mb-4">
+                  <AlertCircle className="h-5 w-5 mr-2" />
+                  {loadError}
+                </div>
+                <button
+                  onClick={loadData}
+                  className="px-4 py-2 bg-black text-white rounded-lg hover:bg-gray-800 transition-colors"
+                >
+                  Retry
+                </button>
+              </div>
+            )}
+            {activeTab === 'documents' && !isLoading && !loadError && (
               <div className="space-y-8">
                 <BatchOperations 
-                  documents={Object.values(mockDocuments).flat()}
+                  documents={allDocuments}
                   onBatchAction={handleBatchAction}
+                  onDocumentsChange={handleDocumentsChange}
                 />
-                <DocumentComparison documents={Object.values(mockDocuments).flat()} />
-                <DocumentVersioning document={selectedDocument} />
-                <AIRecommendations documents={Object.values(mockDocuments).flat()} />
+                <DocumentComparison documents={allDocuments} />
+                {selectedDocument && <DocumentVersioning document={selectedDocument} />}
+                <AIRecommendations documents={allDocuments} />
               </div>
             )}
             {activeTab === 'customers' && <CustomerList />}
             {activeTab === 'followup' && <FollowUpScheduler />}
             {activeTab === 'messages' && <SmartTemplateBuilder />}
             {activeTab === 'analytics' && <SmartAnalyticsDashboard />}
-            {activeTab === 'settings' && (
-              <div className="bg-white rounded-lg shadow-lg p-6">
-                <h3 className="text-lg font-medium mb-4">System Settings</h3>
-                {/* Add settings content */}
-              </div>
-            )}
+            {activeTab === 'settings' && <ValidationRuleSettings />}
           </div>
         </div>
       </main>
 
       {/* Document Preview Modal */}
-      {showPreview && (
+      {showPreview && selectedDocument && (
         <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
           <div className="bg-white rounded-lg w-full max-w-4xl max-h-[90vh] overflow-auto">
             <DocumentPreview
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   CheckSquare,
@@ -11,17 +11,50 @@ import {
   Trash2,
   AlertCircle,
   CheckCircle,
-  X
+  X,
+  Inbox,
+  Eye,
+  XCircle,
+  Cpu,
+  RotateCw
 } from 'lucide-react';
-import type { CustomerDocument } from '../types';
+import toast from 'react-hot-toast';
+import type { CustomerDocument, DocumentStatus, ProcessingJob, ProcessingJobStatus } from '../types';
 import { format } from 'date-fns';
+import { documentLifecycle } from '../lib/documentLifecycle';
+import { documentStatusColors, documentStatusLabels } from '../lib/documentStatus';
+import { findOriginalFile } from '../lib/documentStorage';
+import { isFinished, processingQueue } from '../lib/jobQueue';
 
 interface BatchOperationsProps {
   documents: CustomerDocument[];
-  onBatchAction?: (action: string, documents: CustomerDocument[]) => void;
+  onBatchAction?: (action: string, documents: CustomerDocument[], options?: Record<string, string>) => void;
+  onDocumentsChange?: (documents: CustomerDocument[]) => void;
 }
 
-function BatchOperations({ documents, onBatchAction }: BatchOperationsProps) {
+// Batch actions that move documents through the lifecycle
+const lifecycleActions: Record<string, DocumentStatus> = {
+  receive: 'received',
+  review: 'under_review',
+  approve: 'approved',
+  reject: 'rejected',
+  archive: 'archived'
+};
+
+const jobStatusLabels: Record<ProcessingJobStatus, string> = {
+  queued: 'Queued',
+  running: 'Processing',
+  completed: 'Processed',
+  cancelled: 'Cancelled',
+  dead_letter: 'Failed'
+};
+
+interface SkippedDocument {
+  name: string;
+  reason: string;
+}
+
+function BatchOperations({ documents, onBatchAction, onDocumentsChange }: BatchOperationsProps) {
   const [selectedDocs, setSelectedDocs] = useState<Set<string>>(new Set());
   const [showConfirmation, setShowConfirmation] = useState(false);
   const [confirmationAction, setConfirmationAction] = useState<string>('');
@@ -29,6 +62,98 @@ function BatchOperations({ documents, onBatchAction }: BatchOperationsProps) {
   const [newTag, setNewTag] = useState('');
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [selectedDate, setSelectedDate] = useState('');
+  const [showRejectInput, setShowRejectInput] = useState(false);
+  const [rejectReason, setRejectReason] = useState('');
+  const [isTransitioning, setIsTransitioning] = useState(false);
+  const [skippedDocuments, setSkippedDocuments] = useState<SkippedDocument[]>([]);
+  const [jobs, setJobs] = useState<ProcessingJob[]>(() => processingQueue.list());
+
+  useEffect(() => processingQueue.onChange(setJobs), []);
+
+  // Latest job per document, for the status badges
+  const jobsByDocument = new Map(jobs.map(job => [job.document_id, job]));
+  const jobCounts = jobs.reduce<Record<ProcessingJobStatus, number>>(
+    (counts, job) => ({ ...counts, [job.status]: counts[job.status] + 1 }),
+    { queued: 0, running: 0, completed: 0, cancelled: 0, dead_letter: 0 }
+  );
+  const finishedJobs = jobs.filter(isFinished).length;
+
+  // Queues OCR and analysis for each selected document that has a file; the
+  // work happens in background workers
+  const processSelected = async () => {
+    const selectedDocuments = documents.filter(doc => selectedDocs.has(doc.id));
+    const skipped: SkippedDocument[] = [];
+    let queued = 0;
+
+    for (const doc of selectedDocuments) {
+      if (doc.status === 'quarantined') {
+        skipped.push({ name: doc.name, reason: 'File is quarantined' });
+        continue;
+      }
+      if (!findOriginalFile(doc)) {
+        skipped.push({ name: doc.name, reason: 'No file uploaded yet' });
+        continue;
+      }
+      try {
+        await processingQueue.enqueue(doc.id);
+        queued++;
+      } catch (error) {
+        skipped.push({ name: doc.name, reason: error instanceof Error ? error.message : 'Could not queue' });
+      }
+    }
+
+    setSkippedDocuments(skipped);
+    setSelectedDocs(new Set());
+    if (queued > 0) {
+      toast.success(`${queued} document${queued === 1 ? '' : 's'} queued for processing`);
+    }
+    if (skipped.length > 0) {
+      toast.error(`${skipped.length} document${skipped.length === 1 ? '' : 's'} could not be queued`);
+    }
+  };
+
+  const cancelPendingJobs = () => {
+    jobs.filter(job => !isFinished(job)).forEach(job => processingQueue.cancel(job.id));
+  };
+
+  const retryFailedJobs = () => {
+    jobs.filter(job => job.status === 'dead_letter').forEach(job => processingQueue.retry(job.id));
+  };
+
+  const applyTransition = async (action: string, reason?: string) => {
+    const to = lifecycleActions[action];
+    const selectedDocuments = documents.filter(doc => selectedDocs.has(doc.id));
+    const context = { actor: 'batch', reason };
+
+    setIsTransitioning(true);
+    const updated: CustomerDocument[] = [];
+    const skipped: SkippedDocument[] = [];
+
+    for (const doc of selectedDocuments) {
+      const check = documentLifecycle.canTransition(doc, to, context);
+      if (!check.allowed) {
+        skipped.push({ name: doc.name, reason: check.reason! });
+        continue;
+      }
+      try {
+        updated.push(await documentLifecycle.apply(doc, to, context));
+      } catch (error) {
+        skipped.push({ name: doc.name, reason: error instanceof Error ? error.message : 'Update failed' });
+      }
+    }
+
+    setIsTransitioning(false);
+    setSkippedDocuments(skipped);
+    setSelectedDocs(new Set());
+
+    if (updated.length > 0) {
+      toast.success(`${updated.length} document${updated.length === 1 ? '' : 's'} moved to ${documentStatusLabels[to]}`);
+      onDocumentsChange?.(updated);
+    }
+    if (skipped.length > 0) {
+      toast.error(`${skipped.length} document${skipped.length === 1 ? '' : 's'} could not be moved`);
+    }
+  };
 
   const handleSelectAll = () => {
     if (selectedDocs.size === documents.length) {
@@ -67,6 +192,16 @@ function BatchOperations({ documents, onBatchAction }: BatchOperationsProps) {
       return;
     }
 
+    if (action === 'reject') {
+      setShowRejectInput(true);
+      return;
+    }
+
+    if (action in lifecycleActions) {
+      applyTransition(action);
+      return;
+    }
+
     const selectedDocuments = documents.filter(doc => selectedDocs.has(doc.id));
     if (onBatchAction) {
       onBatchAction(action, selectedDocuments);
@@ -74,14 +209,26 @@ function BatchOperations({ documents, onBatchAction }: BatchOperationsProps) {
   };
 
   const confirmAction = () => {
+    setShowConfirmation(false);
+    if (confirmationAction in lifecycleActions) {
+      applyTransition(confirmationAction);
+      return;
+    }
+
     const selectedDocuments = documents.filter(doc => selectedDocs.has(doc.id));
     if (onBatchAction) {
       onBatchAction(confirmationAction, selectedDocuments);
     }
-    setShowConfirmation(false);
     setSelectedDocs(new Set());
   };
 
+  const handleReject = () => {
+    if (!rejectReason.trim()) return;
+    applyTransition('reject', rejectReason.trim());
+    setShowRejectInput(false);
+    setRejectReason('');
+  };
+
   const handleAddTag = () => {
     if (!newTag.trim()) return;
     
@@ -159,17 +306,129 @@ function BatchOperations({ documents, onBatchAction }: BatchOperationsProps) {
                 {doc.type} • Due: {format(new Date(doc.due_date), 'MMM d, yyyy')}
               </div>
             </div>
-            <span className={`px-2 py-1 rounded text-xs font-medium ${
-              doc.status === 'received' ? 'bg-green-100 text-green-800' :
-              doc.status === 'overdue' ? 'bg-red-100 text-red-800' :
-              'bg-yellow-100 text-yellow-800'
-            }`}>
-              {doc.status}
+            {jobsByDocument.has(doc.id) && (
+              <span
+                className="mr-2 text-xs text-gray-500"
+                title={jobsByDocument.get(doc.id)!.last_error ?? undefined}
+              >
+                {jobStatusLabels[jobsByDocument.get(doc.id)!.status]}
+              </span>
+            )}
+            <span className={`px-2 py-1 rounded text-xs font-medium ${documentStatusColors[doc.status]}`}>
+              {documentStatusLabels[doc.status]}
             </span>
           </motion.div>
         ))}
       </div>
 
+      {skippedDocuments.length > 0 && (
+        <div className="mb-6 p-3 bg-red-50 rounded-lg">
+          <div className="flex items-center justify-between mb-1">
+            <p className="flex items-center text-sm font-medium text-red-800">
+              <AlertCircle className="h-4 w-4 mr-1" />
+              Skipped documents
+            </p>
+            <button
+              onClick={() => setSkippedDocuments([])}
+              className="text-red-400 hover:text-red-600"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+          <ul className="text-sm text-red-700 list-disc list-inside">
+            {skippedDocuments.map((skipped, index) => (
+              <li key={index}>{skipped.name}: {skipped.reason}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Processing Queue */}
+      {jobs.length > 0 && (
+        <div className="mb-6 p-3 bg-purple-50 rounded-lg">
+          <div className="flex items-center justify-between mb-2">
+            <p className="flex items-center text-sm font-medium text-purple-900">
+              <Cpu className="h-4 w-4 mr-1" />
+              Processing {finishedJobs} of {jobs.length} done
+            </p>
+            <div className="flex items-center space-x-3 text-sm">
+              {jobCounts.dead_letter > 0 && (
+                <button onClick={retryFailedJobs} className="flex items-center text-purple-700 hover:text-purple-900">
+                  <RotateCw className="h-4 w-4 mr-1" />
+                  Retry failed
+                </button>
+              )}
+              {finishedJobs < jobs.length && (
+                <button onClick={cancelPendingJobs} className="text-purple-700 hover:text-purple-900">
+                  Cancel pending
+                </button>
+              )}
+              {finishedJobs > 0 && (
+                <button onClick={() => processingQueue.clearFinished()} className="text-purple-700 hover:text-purple-900">
+                  Clear finished
+                </button>
+              )}
+            </div>
+          </div>
+          <div className="w-full bg-purple-100 rounded-full h-2 mb-2">
+            <div
+              className="bg-purple-600 h-2 rounded-full transition-all"
+              style={{ width: `${(finishedJobs / jobs.length) * 100}%` }}
+            />
+          </div>
+          <p className="text-xs text-purple-700">
+            {(Object.keys(jobCounts) as ProcessingJobStatus[])
+              .filter(status => jobCounts[status] > 0)
+              .map(status => `${jobCounts[status]} ${jobStatusLabels[status].toLowerCase()}`)
+              .join(' • ')}
+          </p>
+        </div>
+      )}
+
+      {/* Lifecycle Actions */}
+      <div className="flex flex-wrap gap-3 mb-3">
+        <button
+          onClick={() => handleBatchAction('receive')}
+          disabled={selectedDocs.size === 0 || isTransitioning}
+          className="flex items-center px-3 py-2 bg-blue-50 text-blue-700 rounded-lg hover:bg-blue-100 transition-colors disabled:opacity-50"
+        >
+          <Inbox className="h-4 w-4 mr-2" />
+          Mark Received
+        </button>
+        <button
+          onClick={() => handleBatchAction('review')}
+          disabled={selectedDocs.size === 0 || isTransitioning}
+          className="flex items-center px-3 py-2 bg-indigo-50 text-indigo-700 rounded-lg hover:bg-indigo-100 transition-colors disabled:opacity-50"
+        >
+          <Eye className="h-4 w-4 mr-2" />
+          Start Review
+        </button>
+        <button
+          onClick={() => handleBatchAction('approve')}
+          disabled={selectedDocs.size === 0 || isTransitioning}
+          className="flex items-center px-3 py-2 bg-green-50 text-green-700 rounded-lg hover:bg-green-100 transition-colors disabled:opacity-50"
+        >
+          <CheckCircle className="h-4 w-4 mr-2" />
+          Approve
+        </button>
+        <button
+          onClick={() => handleBatchAction('reject')}
+          disabled={selectedDocs.size === 0 || isTransitioning}
+          className="flex items-center px-3 py-2 bg-orange-50 text-orange-700 rounded-lg hover:bg-orange-100 transition-colors disabled:opacity-50"
+        >
+          <XCircle className="h-4 w-4 mr-2" />
+          Reject
+        </button>
+        <button
+          onClick={processSelected}
+          disabled={selectedDocs.size === 0}
+          className="flex items-center px-3 py-2 bg-purple-50 text-purple-700 rounded-lg hover:bg-purple-100 transition-colors disabled:opacity-50"
+        >
+          <Cpu className="h-4 w-4 mr-2" />
+          Process
+        </button>
+      </div>
+
       {/* Action Buttons */}
       <div className="flex flex-wrap gap-3">
         <button
@@ -198,7 +457,7 @@ function BatchOperations({ documents, onBatchAction }: BatchOperationsProps) {
         </button>
         <button
           onClick={() => handleBatchAction('archive')}
-          disabled={selectedDocs.size === 0}
+          disabled={selectedDocs.size === 0 || isTransitioning}
           className="flex items-center px-3 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors disabled:opacity-50"
         >
           <Archive className="h-4 w-4 mr-2" />
@@ -316,6 +575,58 @@ function BatchOperations({ documents, onBatchAction }: BatchOperationsProps) {
           </motion.div>
         )}
 
+        {/* Reject Reason Modal */}
+        {showRejectInput && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"
+          >
+            <motion.div
+              initial={{ scale: 0.9, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.9, opacity: 0 }}
+              className="bg-white rounded-lg p-6 max-w-md w-full mx-4"
+            >
+              <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center">
+                  <XCircle className="h-6 w-6 text-orange-600 mr-2" />
+                  <h4 className="text-lg font-semibold text-gray-900">Reject Documents</h4>
+                </div>
+                <button
+                  onClick={() => setShowRejectInput(false)}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  <X className="h-5 w-5" />
+                </button>
+              </div>
+              <textarea
+                value={rejectReason}
+                onChange={(e) => setRejectReason(e.target.value)}
+                placeholder="Why are these documents being rejected?"
+                rows={3}
+                className="w-full mb-4 rounded-lg"
+              />
+              <div className="flex justify-end space-x-3">
+                <button
+                  onClick={() => setShowRejectInput(false)}
+                  className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleReject}
+                  disabled={!rejectReason.trim()}
+                  className="px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors disabled:opacity-50"
+                >
+                  Reject
+                </button>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+
         {/* Date Picker Modal */}
         {showDatePicker && (
           <motion.div
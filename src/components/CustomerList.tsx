@@ -1,8 +1,9 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { format } from 'date-fns';
-import { Users, ChevronRight, AlertCircle, CheckCircle, Clock, TrendingUp, Brain, Target, Calendar, Mail, MessageSquare, Send } from 'lucide-react';
-import { mockCustomers, mockDocuments } from '../data/mockData';
-import type { Customer } from '../types';
+import { Users, ChevronRight, AlertCircle, CheckCircle, Clock, TrendingUp, Brain, Target, Calendar, Mail, MessageSquare, Send, Loader2 } from 'lucide-react';
+import { repositories } from '../lib/repositories';
+import { documentStatusColors, documentStatusLabels, isOutstanding } from '../lib/documentStatus';
+import type { Customer, CustomerDocument } from '../types';
 import { Dialog } from '@headlessui/react';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, LineChart, Line } from 'recharts';
 import DocumentTimeline from './DocumentTimeline';
@@ -13,6 +14,55 @@ import SmartOutreach from './SmartOutreach';
 function CustomerList() {
   const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
   const [showSmartOutreach, setShowSmartOutreach] = useState(false);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [customerDocuments, setCustomerDocuments] = useState<CustomerDocument[]>([]);
+  const [documentsLoading, setDocumentsLoading] = useState(false);
+  const [documentsError, setDocumentsError] = useState<string | null>(null);
+
+  const loadCustomers = useCallback(async () => {
+    setIsLoading(true);
+    setLoadError(null);
+    try {
+      setCustomers(await repositories.customers.list());
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : 'Failed to load customers');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCustomers();
+  }, [loadCustomers]);
+
+  useEffect(() => {
+    if (!selectedCustomer) {
+      setCustomerDocuments([]);
+      return;
+    }
+
+    let cancelled = false;
+    setDocumentsLoading(true);
+    setDocumentsError(null);
+    repositories.documents.listByCustomer(selectedCustomer.id)
+      .then(docs => {
+        if (!cancelled) setCustomerDocuments(docs);
+      })
+      .catch(error => {
+        if (!cancelled) {
+          setDocumentsError(error instanceof Error ? error.message : 'Failed to load documents');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setDocumentsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedCustomer]);
 
   const getPriorityColor = (level: string) => {
     switch (level) {
@@ -64,8 +114,34 @@ function CustomerList() {
           </div>
         </div>
 
+        {isLoading && (
+          <div className="flex items-center justify-center py-12 text-gray-500">
+            <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+            Loading customers...
+          </div>
+        )}
+
+        {!isLoading && loadError && (
+          <div className="flex items-center justify-between p-4 bg-red-50 rounded-lg">
+            <p className="flex items-center text-sm text-red-700">
+              <AlertCircle className="h-4 w-4 mr-2" />
+              {loadError}
+            </p>
+            <button
+              onClick={loadCustomers}
+              className="px-3 py-1 text-sm bg-white text-red-700 rounded-lg border border-red-200 hover:bg-red-100 transition-colors"
+            >
+              Retry
+            </button>
+          </div>
+        )}
+
+        {!isLoading && !loadError && customers.length === 0 && (
+          <p className="py-12 text-center text-sm text-gray-500">No customers yet.</p>
+        )}
+
         <div className="space-y-4">
-          {mockCustomers.map(customer => (
+          {customers.map(customer => (
             <div
               key={customer.id}
               className="border border-gray-100 rounded-lg p-4 hover:border-gray-300 transition-colors cursor-pointer"
@@ -282,16 +358,32 @@ function CustomerList() {
                   </div>
                 </div>
 
+                {documentsLoading && (
+                  <div className="flex items-center justify-center py-8 text-gray-500">
+                    <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+                    Loading documents...
+                  </div>
+                )}
+
+                {!documentsLoading && documentsError && (
+                  <p className="flex items-center mb-6 p-4 bg-red-50 rounded-lg text-sm text-red-700">
+                    <AlertCircle className="h-4 w-4 mr-2" />
+                    {documentsError}
+                  </p>
+                )}
+
+                {!documentsLoading && !documentsError && (
+                <>
                 {/* Add Document Categories before the Documents Section */}
                 <div className="mb-6">
-                  <DocumentCategories documents={mockDocuments[selectedCustomer.id]} />
+                  <DocumentCategories documents={customerDocuments} />
                 </div>
 
                 {/* Documents Section */}
                 <div className="mb-6">
                   <h3 className="text-lg font-medium text-gray-900 mb-4">Required Documents</h3>
                   <div className="space-y-3">
-                    {mockDocuments[selectedCustomer.id].map(doc => (
+                    {customerDocuments.map(doc => (
                       <div
                         key={doc.id}
                         className="border border-gray-100 rounded-lg p-4"
@@ -302,16 +394,12 @@ function CustomerList() {
                             <p className="text-sm text-gray-500">Due: {format(new Date(doc.due_date), 'MMM d, yyyy')}</p>
                           </div>
                           <span
-                            className={`px-3 py-1 rounded-full text-xs font-medium ${
-                              doc.status === 'received' ? 'bg-green-50 text-green-700' :
-                              doc.status === 'overdue' ? 'bg-red-50 text-red-700' :
-                              'bg-yellow-50 text-yellow-700'
-                            }`}
+                            className={`px-3 py-1 rounded-full text-xs font-medium ${documentStatusColors[doc.status]}`}
                           >
-                            {doc.status.charAt(0).toUpperCase() + doc.status.slice(1)}
+                            {documentStatusLabels[doc.status]}
                           </span>
                         </div>
-                        {doc.status !== 'received' && (
+                        {isOutstanding(doc.status) && (
                           <div className="mt-3 text-sm">
                             <p className="text-gray-500">
                               Last reminder: {format(new Date(doc.last_reminder), 'MMM d, yyyy')}
@@ -327,7 +415,9 @@ function CustomerList() {
                 </div>
 
                 {/* Add Document Timeline */}
-                <DocumentTimeline documents={mockDocuments[selectedCustomer.id]} />
+                <DocumentTimeline documents={customerDocuments} />
+                </>
+                )}
 
                 <div className="mt-6">
                   <button
@@ -374,7 +464,7 @@ function CustomerList() {
             >
               <SmartOutreach
                 customer={selectedCustomer}
-                documents={mockDocuments[selectedCustomer.id]}
+                documents={customerDocuments}
                 onClose={() => setShowSmartOutreach(false)}
                 onSend={(message) => {
                   console.log('Sending message:', message);
@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Tags, FileText, BarChart2, Brain, Filter, Search, Plus, X } from 'lucide-react';
 import { CustomerDocument } from '../types';
+import { documentStatusColors, documentStatusLabels } from '../lib/documentStatus';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, Legend } from 'recharts';
 
 interface DocumentCategoriesProps {
@@ -341,12 +342,8 @@ function DocumentCategories({ documents }: DocumentCategoriesProps) {
                           className="flex items-center justify-between text-sm bg-white p-2 rounded-lg"
                         >
                           <span className="text-gray-700">{doc.name}</span>
-                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${
-                            doc.status === 'received' ? 'bg-green-100 text-green-800' :
-                            doc.status === 'overdue' ? 'bg-red-100 text-red-800' :
-                            'bg-yellow-100 text-yellow-800'
-                          }`}>
-                            {doc.status}
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${documentStatusColors[doc.status]}`}>
+                            {documentStatusLabels[doc.status]}
                           </span>
                         </div>
                       ))
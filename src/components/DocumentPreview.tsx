@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { motion } from 'framer-motion';
 import { Document, Page, pdfjs } from 'react-pdf';
 import { 
@@ -11,24 +11,277 @@ import {
   Maximize2,
   Minimize2,
   Printer,
-  Share2
+  Share2,
+  Search,
+  X,
+  AlertTriangle
 } from 'lucide-react';
-import type { CustomerDocument } from '../types';
+import type { CustomerDocument, DocumentTransaction } from '../types';
+import { documentStatusColors, documentStatusLabels } from '../lib/documentStatus';
+import { findOriginalFile, findPreviewFile, loadDocumentLayout, signedFileUrl } from '../lib/documentStorage';
+import type { DocumentLayout, LayoutField, PageLayout } from '../lib/textLayout';
+import { boxPercentages, findInLayout, lowConfidenceWords } from '../lib/textLayout';
+import { transactionsToCsv, transactionsToJson } from '../lib/tableExtraction';
+import RedactionReview from './RedactionReview';
 
 // Set up PDF.js worker
 pdfjs.GlobalWorkerOptions.workerSrc = `//unpkg.com/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.js`;
 
 interface DocumentPreviewProps {
   document: CustomerDocument;
+  // Local PDF to show instead of the stored copy, e.g. the rendition of an uploaded image
+  file?: File;
+  // The file as it was uploaded, when it differs from the PDF rendition
+  originalFile?: File;
   onClose?: () => void;
 }
 
-function DocumentPreview({ document, onClose }: DocumentPreviewProps) {
+// Browsers can't render HEIC or TIFF, so those originals are offered as a download only
+const displayableImageTypes = ['image/jpeg', 'image/png'];
+
+interface TextLayerProps {
+  page: PageLayout;
+  // Rendered page height in CSS pixels, to size the invisible text
+  height: number;
+  fields: LayoutField[];
+  query: string;
+  showFields: boolean;
+  showLowConfidence: boolean;
+}
+
+// Invisible words over the page image so scans can be searched and copied
+// from, with highlights drawn underneath
+function TextLayer({ page, height, fields, query, showFields, showLowConfidence }: TextLayerProps) {
+  const fieldHits = useMemo(
+    () => (showFields ? fields.flatMap(field => findInLayout(page, field.value)) : []),
+    [page, fields, showFields]
+  );
+  const searchHits = useMemo(() => findInLayout(page, query), [page, query]);
+  const doubtful = useMemo(() => (showLowConfidence ? lowConfidenceWords(page) : []), [page, showLowConfidence]);
+
+  return (
+    <div className="absolute inset-0">
+      {fieldHits.map((box, i) => (
+        <div key={`field-${i}`} className="absolute bg-yellow-300/40 border border-yellow-500 pointer-events-none" style={boxPercentages(box)} />
+      ))}
+      {doubtful.map((word, i) => (
+        <div key={`doubt-${i}`} className="absolute bg-red-500/10 border border-red-500 pointer-events-none" style={boxPercentages(word.box)} />
+      ))}
+      {searchHits.map((box, i) => (
+        <div key={`hit-${i}`} className="absolute bg-orange-400/50 pointer-events-none" style={boxPercentages(box)} />
+      ))}
+      {page.lines.flatMap((line, l) => line.words.map((word, w) => (
+        <span
+          key={`${l}-${w}`}
+          className="absolute text-transparent whitespace-pre leading-none cursor-text selection:bg-blue-400/40"
+          style={{ ...boxPercentages(word.box), fontSize: word.box.height * height * 0.9 }}
+        >
+          {word.text}{w === line.words.length - 1 ? '\n' : ' '}
+        </span>
+      )))}
+    </div>
+  );
+}
+
+function formatAmount(value: number | null): string {
+  return value === null ? '' : value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function downloadText(content: string, name: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = window.document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+interface TransactionTableProps {
+  transactions: DocumentTransaction[];
+  baseName: string;
+  onSelect: (transaction: DocumentTransaction) => void;
+}
+
+// Rows read from the document's statement or invoice tables
+function TransactionTable({ transactions, baseName, onSelect }: TransactionTableProps) {
+  const totalDebit = transactions.reduce((sum, row) => sum + (row.debit ?? 0), 0);
+  const totalCredit = transactions.reduce((sum, row) => sum + (row.credit ?? 0), 0);
+  const mismatches = transactions.filter(row => row.reconciled === false).length;
+
+  return (
+    <div className="w-full bg-white rounded-lg">
+      <div className="flex items-center justify-between p-3 border-b text-sm">
+        <span className="text-gray-600">
+          {transactions.length} row{transactions.length === 1 ? '' : 's'}
+          {mismatches > 0 && (
+            <span className="ml-2 text-red-600">
+              {mismatches} balance{mismatches === 1 ? '' : 's'} don't add up
+            </span>
+          )}
+        </span>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => downloadText(transactionsToCsv(transactions), `${baseName}-transactions.csv`, 'text/csv')}
+            className="flex items-center px-3 py-1 border rounded hover:bg-gray-50"
+          >
+            <Download className="h-4 w-4 mr-1" />
+            CSV
+          </button>
+          <button
+            onClick={() => downloadText(transactionsToJson(transactions), `${baseName}-transactions.json`, 'application/json')}
+            className="flex items-center px-3 py-1 border rounded hover:bg-gray-50"
+          >
+            <Download className="h-4 w-4 mr-1" />
+            JSON
+          </button>
+        </div>
+      </div>
+      <table className="w-full text-sm">
+        <thead className="bg-gray-50 text-gray-600">
+          <tr>
+            <th className="px-3 py-2 text-left font-medium">Date</th>
+            <th className="px-3 py-2 text-left font-medium">Description</th>
+            <th className="px-3 py-2 text-right font-medium">Debit</th>
+            <th className="px-3 py-2 text-right font-medium">Credit</th>
+            <th className="px-3 py-2 text-right font-medium">Balance</th>
+            <th className="px-3 py-2 text-right font-medium">Page</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y">
+          {transactions.map((row, i) => (
+            <tr
+              key={i}
+              onClick={() => onSelect(row)}
+              className={`cursor-pointer hover:bg-blue-50 ${row.reconciled === false ? 'bg-red-50' : ''}`}
+              title="Show on the page"
+            >
+              <td className="px-3 py-2 whitespace-nowrap">{row.date ?? ''}</td>
+              <td className="px-3 py-2">{row.description}</td>
+              <td className="px-3 py-2 text-right tabular-nums">{formatAmount(row.debit)}</td>
+              <td className="px-3 py-2 text-right tabular-nums">{formatAmount(row.credit)}</td>
+              <td className="px-3 py-2 text-right tabular-nums">
+                {row.reconciled === false && (
+                  <AlertTriangle className="inline h-4 w-4 mr-1 text-red-500" aria-label="Doesn't follow from the previous balance" />
+                )}
+                {formatAmount(row.balance)}
+              </td>
+              <td className="px-3 py-2 text-right text-gray-500">{row.page}</td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot className="bg-gray-50 font-medium">
+          <tr>
+            <td className="px-3 py-2" colSpan={2}>Total</td>
+            <td className="px-3 py-2 text-right tabular-nums">{formatAmount(totalDebit)}</td>
+            <td className="px-3 py-2 text-right tabular-nums">{formatAmount(totalCredit)}</td>
+            <td colSpan={2} />
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+}
+
+function DocumentPreview({ document, file, originalFile, onClose }: DocumentPreviewProps) {
+  const [view, setView] = useState<'rendition' | 'original' | 'transactions'>('rendition');
   const [numPages, setNumPages] = useState<number | null>(null);
   const [pageNumber, setPageNumber] = useState(1);
   const [scale, setScale] = useState(1);
   const [rotation, setRotation] = useState(0);
   const [isFullscreen, setIsFullscreen] = useState(false);
+  const [signedUrls, setSignedUrls] = useState<{ preview?: string; original?: string }>({});
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [layout, setLayout] = useState<DocumentLayout | null>(null);
+  // Unscaled page height from the PDF, in CSS pixels at 100%
+  const [pageHeight, setPageHeight] = useState<number | null>(null);
+  const [query, setQuery] = useState('');
+  const [showFields, setShowFields] = useState(true);
+  const [showLowConfidence, setShowLowConfidence] = useState(false);
+  // The transaction row picked in the table view, outlined on its page
+  const [selectedRow, setSelectedRow] = useState<DocumentTransaction | null>(null);
+  // Documents go to third parties as a redacted copy
+  const [sharing, setSharing] = useState(false);
+
+  // Stored copies are only used when no local file was passed in
+  const storedFiles = document.files;
+  const storedPreview = file ? undefined : findPreviewFile({ files: storedFiles });
+  const storedOriginal = originalFile ? undefined : findOriginalFile({ files: storedFiles });
+
+  const localOriginalUrl = useMemo(
+    () => (originalFile ? URL.createObjectURL(originalFile) : null),
+    [originalFile]
+  );
+
+  useEffect(() => {
+    return () => {
+      if (localOriginalUrl) URL.revokeObjectURL(localOriginalUrl);
+    };
+  }, [localOriginalUrl]);
+
+  // Signed URLs are short-lived, so they are requested each time the preview opens
+  useEffect(() => {
+    let cancelled = false;
+    setSignedUrls({});
+    setStorageError(null);
+
+    const preview = file ? undefined : findPreviewFile({ files: storedFiles });
+    const original = originalFile ? undefined : findOriginalFile({ files: storedFiles });
+    Promise.all([
+      preview ? signedFileUrl(preview) : undefined,
+      original && original !== preview ? signedFileUrl(original) : undefined
+    ])
+      .then(([previewUrl, originalUrl]) => {
+        if (!cancelled) setSignedUrls({ preview: previewUrl, original: originalUrl });
+      })
+      .catch(error => {
+        if (!cancelled) setStorageError(error instanceof Error ? error.message : 'Failed to load file');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [storedFiles, file, originalFile]);
+
+  // The text layout belongs to the stored rendition, so a local file goes without
+  useEffect(() => {
+    let cancelled = false;
+    setLayout(null);
+    if (file) return;
+
+    loadDocumentLayout({ files: storedFiles })
+      .then(loaded => {
+        if (!cancelled) setLayout(loaded);
+      })
+      .catch(error => console.error('Failed to load text layout:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [storedFiles, file]);
+
+  const pageLayout = layout?.pages.find(page => page.number === pageNumber);
+  const matchCount = useMemo(
+    () => (layout && query.trim()
+      ? layout.pages.map(page => ({ number: page.number, hits: findInLayout(page, query).length }))
+      : []),
+    [layout, query]
+  );
+  const totalMatches = matchCount.reduce((sum, page) => sum + page.hits, 0);
+
+  const original = originalFile && localOriginalUrl
+    ? { name: originalFile.name, type: originalFile.type, url: localOriginalUrl }
+    : storedOriginal && signedUrls.original
+      ? { name: storedOriginal.name, type: storedOriginal.content_type, url: signedUrls.original }
+      : null;
+  const pdfSource = file ?? signedUrls.preview;
+  // Like the layout, transactions belong to the stored rendition
+  const transactions = file ? [] : document.extraction?.transactions ?? [];
+
+  const showTransaction = (transaction: DocumentTransaction) => {
+    setSelectedRow(transaction);
+    setPageNumber(transaction.page);
+    setView('rendition');
+  };
 
   const onDocumentLoadSuccess = ({ numPages }: { numPages: number }) => {
     setNumPages(numPages);
@@ -58,11 +311,30 @@ function DocumentPreview({ document, onClose }: DocumentPreviewProps) {
     window.print();
   };
 
-  const handleShare = () => {
-    // Implement sharing functionality
-    console.log('Share document:', document.id);
+  const handleDownload = async () => {
+    const link = window.document.createElement('a');
+    const local = view === 'original' ? originalFile : file;
+    if (local) {
+      const url = URL.createObjectURL(local);
+      link.href = url;
+      link.download = local.name;
+      link.click();
+      URL.revokeObjectURL(url);
+      return;
+    }
+
+    const stored = view === 'original' ? storedOriginal : storedPreview;
+    if (!stored) return;
+    try {
+      link.href = await signedFileUrl(stored, { download: stored.name });
+      link.download = stored.name;
+      link.click();
+    } catch (error) {
+      setStorageError(error instanceof Error ? error.message : 'Failed to download file');
+    }
   };
 
+
   return (
     <div className={`bg-white rounded-lg shadow-lg ${
       isFullscreen ? 'fixed inset-0 z-50' : ''
@@ -71,12 +343,8 @@ function DocumentPreview({ document, onClose }: DocumentPreviewProps) {
         <div className="flex items-center justify-between mb-6">
           <div className="flex items-center">
             <h3 className="text-xl font-semibold text-gray-900">{document.name}</h3>
-            <span className={`ml-3 px-2 py-1 rounded text-xs font-medium ${
-              document.status === 'received' ? 'bg-green-100 text-green-800' :
-              document.status === 'overdue' ? 'bg-red-100 text-red-800' :
-              'bg-yellow-100 text-yellow-800'
-            }`}>
-              {document.status}
+            <span className={`ml-3 px-2 py-1 rounded text-xs font-medium ${documentStatusColors[document.status]}`}>
+              {documentStatusLabels[document.status]}
             </span>
           </div>
           <div className="flex items-center space-x-2">
@@ -88,9 +356,9 @@ function DocumentPreview({ document, onClose }: DocumentPreviewProps) {
               <Printer className="h-5 w-5 text-gray-600" />
             </button>
             <button
-              onClick={handleShare}
+              onClick={() => setSharing(true)}
               className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
-              title="Share"
+              title="Share a redacted copy"
             >
               <Share2 className="h-5 w-5 text-gray-600" />
             </button>
@@ -105,98 +373,256 @@ function DocumentPreview({ document, onClose }: DocumentPreviewProps) {
                 <Maximize2 className="h-5 w-5 text-gray-600" />
               )}
             </button>
+            {onClose && (
+              <button
+                onClick={onClose}
+                className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+                title="Close"
+              >
+                <X className="h-5 w-5 text-gray-600" />
+              </button>
+            )}
           </div>
         </div>
 
-        {/* Toolbar */}
-        <div className="flex items-center justify-between mb-4 bg-gray-50 rounded-lg p-2">
-          <div className="flex items-center space-x-2">
-            <button
-              onClick={handleZoomOut}
-              className="p-2 hover:bg-gray-200 rounded transition-colors"
-              title="Zoom Out"
-            >
-              <ZoomOut className="h-5 w-5 text-gray-600" />
-            </button>
-            <span className="text-sm text-gray-600">{Math.round(scale * 100)}%</span>
-            <button
-              onClick={handleZoomIn}
-              className="p-2 hover:bg-gray-200 rounded transition-colors"
-              title="Zoom In"
-            >
-              <ZoomIn className="h-5 w-5 text-gray-600" />
-            </button>
-            <button
-              onClick={handleRotate}
-              className="p-2 hover:bg-gray-200 rounded transition-colors"
-              title="Rotate"
-            >
-              <RotateCw className="h-5 w-5 text-gray-600" />
-            </button>
+        {(original || transactions.length > 0) && (
+          <div className="flex items-center mb-4 text-sm">
+            <div className="inline-flex rounded-lg bg-gray-100 p-1">
+              <button
+                onClick={() => setView('rendition')}
+                className={`px-3 py-1 rounded-md ${view === 'rendition' ? 'bg-white shadow text-gray-900' : 'text-gray-600'}`}
+              >
+                {original ? 'Normalized PDF' : 'Document'}
+              </button>
+              {original && (
+                <button
+                  onClick={() => setView('original')}
+                  className={`px-3 py-1 rounded-md ${view === 'original' ? 'bg-white shadow text-gray-900' : 'text-gray-600'}`}
+                >
+                  Original
+                </button>
+              )}
+              {transactions.length > 0 && (
+                <button
+                  onClick={() => setView('transactions')}
+                  className={`px-3 py-1 rounded-md ${view === 'transactions' ? 'bg-white shadow text-gray-900' : 'text-gray-600'}`}
+                >
+                  Transactions ({transactions.length})
+                </button>
+              )}
+            </div>
+            {original && <span className="ml-3 text-gray-500">{original.name}</span>}
           </div>
+        )}
 
-          <div className="flex items-center space-x-2">
-            <button
-              onClick={handlePrevPage}
-              disabled={pageNumber <= 1}
-              className="p-2 hover:bg-gray-200 rounded transition-colors disabled:opacity-50"
-            >
-              <ChevronLeft className="h-5 w-5 text-gray-600" />
-            </button>
-            <span className="text-sm text-gray-600">
-              Page {pageNumber} of {numPages || '?'}
-            </span>
+        {/* Toolbar */}
+        {view !== 'transactions' && (
+          <div className="flex items-center justify-between mb-4 bg-gray-50 rounded-lg p-2">
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={handleZoomOut}
+                className="p-2 hover:bg-gray-200 rounded transition-colors"
+                title="Zoom Out"
+              >
+                <ZoomOut className="h-5 w-5 text-gray-600" />
+              </button>
+              <span className="text-sm text-gray-600">{Math.round(scale * 100)}%</span>
+              <button
+                onClick={handleZoomIn}
+                className="p-2 hover:bg-gray-200 rounded transition-colors"
+                title="Zoom In"
+              >
+                <ZoomIn className="h-5 w-5 text-gray-600" />
+              </button>
+              <button
+                onClick={handleRotate}
+                className="p-2 hover:bg-gray-200 rounded transition-colors"
+                title="Rotate"
+              >
+                <RotateCw className="h-5 w-5 text-gray-600" />
+              </button>
+            </div>
+  
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={handlePrevPage}
+                disabled={pageNumber <= 1}
+                className="p-2 hover:bg-gray-200 rounded transition-colors disabled:opacity-50"
+              >
+                <ChevronLeft className="h-5 w-5 text-gray-600" />
+              </button>
+              <span className="text-sm text-gray-600">
+                Page {pageNumber} of {numPages || '?'}
+              </span>
+              <button
+                onClick={handleNextPage}
+                disabled={pageNumber >= (numPages || 1)}
+                className="p-2 hover:bg-gray-200 rounded transition-colors disabled:opacity-50"
+              >
+                <ChevronRight className="h-5 w-5 text-gray-600" />
+              </button>
+            </div>
+  
             <button
-              onClick={handleNextPage}
-              disabled={pageNumber >= (numPages || 1)}
-              className="p-2 hover:bg-gray-200 rounded transition-colors disabled:opacity-50"
+              onClick={handleDownload}
+              className="flex items-center px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
             >
-              <ChevronRight className="h-5 w-5 text-gray-600" />
+              <Download className="h-4 w-4 mr-1" />
+              Download
             </button>
           </div>
+        )}
 
-          <button
-            onClick={() => {/* Implement download */}}
-            className="flex items-center px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
-          >
-            <Download className="h-4 w-4 mr-1" />
-            Download
-          </button>
-        </div>
+        {layout && view === 'rendition' && (
+          <div className="flex flex-wrap items-center gap-4 mb-4 text-sm">
+            <div className="relative">
+              <Search className="h-4 w-4 text-gray-400 absolute left-2 top-1/2 -translate-y-1/2" />
+              <input
+                type="search"
+                value={query}
+                onChange={event => setQuery(event.target.value)}
+                placeholder="Search text"
+                className="pl-8 pr-3 py-1 border rounded-lg"
+              />
+            </div>
+            {query.trim() && (
+              <span className="text-gray-600">
+                {totalMatches} match{totalMatches === 1 ? '' : 'es'}
+                {totalMatches > 0 && (
+                  <>
+                    {' on pages '}
+                    {matchCount.filter(page => page.hits > 0).map((page, i) => (
+                      <React.Fragment key={page.number}>
+                        {i > 0 && ', '}
+                        <button onClick={() => setPageNumber(page.number)} className="text-blue-600 hover:underline">
+                          {page.number}
+                        </button>
+                      </React.Fragment>
+                    ))}
+                  </>
+                )}
+              </span>
+            )}
+            <label className="flex items-center text-gray-600">
+              <input
+                type="checkbox"
+                checked={showFields}
+                onChange={event => setShowFields(event.target.checked)}
+                className="mr-1"
+              />
+              <span className="inline-block w-3 h-3 mr-1 bg-yellow-300 border border-yellow-500" />
+              Extracted fields
+            </label>
+            <label className="flex items-center text-gray-600">
+              <input
+                type="checkbox"
+                checked={showLowConfidence}
+                onChange={event => setShowLowConfidence(event.target.checked)}
+                className="mr-1"
+              />
+              <span className="inline-block w-3 h-3 mr-1 bg-red-100 border border-red-500" />
+              Low-confidence words
+            </label>
+            {rotation !== 0 && <span className="text-gray-500">Rotate back to see highlights</span>}
+          </div>
+        )}
 
         {/* PDF Viewer */}
         <div className="flex justify-center bg-gray-100 rounded-lg p-4 overflow-auto max-h-[calc(100vh-300px)]">
-          <Document
-            file={`https://example.com/documents/${document.id}.pdf`} // Replace with actual URL
-            onLoadSuccess={onDocumentLoadSuccess}
-            loading={
-              <div className="flex items-center justify-center h-96">
-                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          {view === 'transactions' ? (
+            <TransactionTable
+              transactions={transactions}
+              baseName={document.name.replace(/\.[^.]+$/, '')}
+              onSelect={showTransaction}
+            />
+          ) : view === 'original' && original ? (
+            displayableImageTypes.includes(original.type) ? (
+              <img
+                src={original.url}
+                alt={original.name}
+                className="shadow-lg max-w-none"
+                style={{ transform: `scale(${scale}) rotate(${rotation}deg)` }}
+              />
+            ) : (
+              <div className="flex flex-col items-center justify-center h-96 text-gray-600">
+                <p className="mb-2">This format can't be shown in the browser.</p>
+                <a href={original.url} download={original.name} className="text-blue-600 hover:underline">
+                  Download the original
+                </a>
               </div>
-            }
-            error={
-              <div className="flex flex-col items-center justify-center h-96">
-                <p className="text-red-600 mb-2">Failed to load PDF</p>
-                <button
-                  onClick={() => window.location.reload()}
-                  className="text-blue-600 hover:underline"
-                >
-                  Try again
-                </button>
+            )
+          ) : storageError ? (
+            <div className="flex flex-col items-center justify-center h-96">
+              <p className="text-red-600">{storageError}</p>
+            </div>
+          ) : !pdfSource ? (
+            <div className="flex items-center justify-center h-96 text-gray-500">
+              {storedPreview ? (
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              ) : (
+                'No file has been uploaded for this document yet'
+              )}
+            </div>
+          ) : (
+            <Document
+              file={pdfSource}
+              onLoadSuccess={onDocumentLoadSuccess}
+              loading={
+                <div className="flex items-center justify-center h-96">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                </div>
+              }
+              error={
+                <div className="flex flex-col items-center justify-center h-96">
+                  <p className="text-red-600 mb-2">Failed to load PDF</p>
+                  <button
+                    onClick={() => window.location.reload()}
+                    className="text-blue-600 hover:underline"
+                  >
+                    Try again
+                  </button>
+                </div>
+              }
+            >
+              <div className="relative shadow-lg">
+                <Page
+                  pageNumber={pageNumber}
+                  scale={scale}
+                  rotate={rotation}
+                  onLoadSuccess={page => setPageHeight(page.originalHeight)}
+                  renderTextLayer={false}
+                  renderAnnotationLayer={false}
+                />
+                {/* Boxes are laid out for the upright page */}
+                {pageLayout && pageHeight && rotation === 0 && (
+                  <TextLayer
+                    page={pageLayout}
+                    height={pageHeight * scale}
+                    fields={layout?.fields ?? []}
+                    query={query}
+                    showFields={showFields}
+                    showLowConfidence={showLowConfidence}
+                  />
+                )}
+                {selectedRow?.page === pageNumber && rotation === 0 && (
+                  <div
+                    className="absolute border-2 border-blue-600 bg-blue-400/20 pointer-events-none"
+                    style={boxPercentages(selectedRow.box)}
+                  />
+                )}
               </div>
-            }
-          >
-            <Page
-              pageNumber={pageNumber}
-              scale={scale}
-              rotate={rotation}
-              className="shadow-lg"
-              renderTextLayer={false}
-              renderAnnotationLayer={false}
-            />
-          </Document>
+            </Document>
+          )}
         </div>
       </div>
+
+      {sharing && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+          <div className="w-full max-w-3xl max-h-[90vh] overflow-auto">
+            <RedactionReview document={document} onClose={() => setSharing(false)} />
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -1,43 +1,96 @@
-import React, { useEffect, useState } from 'react';
+import { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
-import { Clock, CheckCircle, AlertCircle, RefreshCw, FileText, Brain } from 'lucide-react';
-import type { ProcessingStatus, ProcessingMetrics } from '../lib/documentProcessing';
-import { documentProcessor } from '../lib/documentProcessing';
-import type { CustomerDocument } from '../types';
+import { Clock, CheckCircle, AlertCircle, RefreshCw, FileText, Brain, Loader2, ClipboardCheck, Scissors } from 'lucide-react';
+import type { ProcessingMetrics, ProcessingResult, ProcessingRun, ProcessingStageStatus } from '../lib/documentProcessor';
+import { documentProcessor } from '../lib/documentProcessor';
+import { findOriginalFile } from '../lib/documentStorage';
+import { formatFieldValue } from '../lib/fieldExtraction';
+import { formatDate, formatMoney } from '../lib/localeFormats';
+import { processingQueue } from '../lib/jobQueue';
+import { repositories } from '../lib/repositories';
+import type { CustomerDocument, ProcessingJob } from '../types';
+import DocumentSplitReview from './DocumentSplitReview';
+import ExtractionReview from './ExtractionReview';
 
 interface DocumentProcessingStatusProps {
   document: CustomerDocument;
-  onProcessingComplete?: (status: ProcessingStatus) => void;
+  onProcessingComplete?: (result: ProcessingResult) => void;
 }
 
 function DocumentProcessingStatus({ document, onProcessingComplete }: DocumentProcessingStatusProps) {
-  const [processingStatus, setProcessingStatus] = useState<ProcessingStatus | null>(null);
+  const [run, setRun] = useState<ProcessingRun | null>(() => documentProcessor.getLatestRun(document.id) ?? null);
   const [metrics, setMetrics] = useState<ProcessingMetrics | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [job, setJob] = useState<ProcessingJob | undefined>();
+  const [reviewing, setReviewing] = useState<CustomerDocument | null>(null);
+  const [splitting, setSplitting] = useState<CustomerDocument | null>(null);
 
+  // Follows runs for this document whether they were started here or by an upload
+  useEffect(() => {
+    setRun(documentProcessor.getLatestRun(document.id) ?? null);
+    return documentProcessor.onProgress(event => {
+      if (event.run.documentId !== document.id) return;
+      setRun(event.run);
+      if (event.type === 'run_completed' || event.type === 'run_failed') {
+        setMetrics(documentProcessor.getProcessingMetrics());
+      }
+      if (event.type === 'run_completed' && event.run.result) {
+        onProcessingComplete?.(event.run.result);
+      }
+    });
+  }, [document.id, onProcessingComplete]);
+
+  useEffect(() => {
+    const latestJob = (jobs: ProcessingJob[]) =>
+      setJob(jobs.filter(j => j.document_id === document.id).pop());
+    latestJob(processingQueue.list());
+    return processingQueue.onChange(latestJob);
+  }, [document.id]);
+
+  // Processing runs on the background queue; its events arrive through onProgress
   const startProcessing = async () => {
-    const status = await documentProcessor.processDocument(document);
-    setProcessingStatus(status);
-    if (status.stage === 'completed' && onProcessingComplete) {
-      onProcessingComplete(status);
+    setLoadError(null);
+    if (!findOriginalFile(document)) {
+      setLoadError('No file has been uploaded for this document yet');
+      return;
+    }
+    try {
+      await processingQueue.enqueue(document.id);
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : 'Could not queue the document');
     }
-    updateMetrics();
   };
 
-  const updateMetrics = () => {
-    setMetrics(documentProcessor.getProcessingMetrics());
+  // The runner stores the extraction after the run, so the latest copy is loaded
+  const openProcessed = async (open: (latest: CustomerDocument) => void) => {
+    setLoadError(null);
+    try {
+      const latest = await repositories.documents.get(document.id);
+      if (latest?.extraction) {
+        open(latest);
+      } else {
+        setLoadError('This document has not been processed yet');
+      }
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : 'Could not load the document');
+    }
   };
 
-  const getStepIcon = (status: 'pending' | 'completed' | 'failed') => {
+  const getStepIcon = (status: ProcessingStageStatus) => {
     switch (status) {
       case 'completed':
         return <CheckCircle className="h-4 w-4 text-green-500" />;
       case 'failed':
         return <AlertCircle className="h-4 w-4 text-red-500" />;
+      case 'running':
+        return <Loader2 className="h-4 w-4 text-purple-500 animate-spin" />;
       default:
         return <Clock className="h-4 w-4 text-yellow-500" />;
     }
   };
 
+  const isRunning = run?.status === 'running' || job?.status === 'queued' || job?.status === 'running';
+
   return (
     <div className="bg-white rounded-lg shadow-lg p-6">
       <div className="flex items-center justify-between mb-6">
@@ -45,21 +98,83 @@ function DocumentProcessingStatus({ document, onProcessingComplete }: DocumentPr
           <Brain className="h-6 w-6 text-purple-600 mr-2" />
           <h3 className="text-xl font-semibold text-gray-900">Document Processing</h3>
         </div>
-        <button
-          onClick={startProcessing}
-          disabled={processingStatus?.stage === 'processing'}
-          className="flex items-center px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50"
-        >
-          {processingStatus?.stage === 'processing' ? (
-            <RefreshCw className="h-5 w-5 mr-2 animate-spin" />
-          ) : (
-            <FileText className="h-5 w-5 mr-2" />
+        <div className="flex items-center space-x-2">
+          {(document.extraction || job?.status === 'completed') && (
+            <button
+              onClick={() => openProcessed(setReviewing)}
+              disabled={isRunning}
+              className="flex items-center px-4 py-2 border border-purple-600 text-purple-700 rounded-lg hover:bg-purple-50 transition-colors disabled:opacity-50"
+            >
+              <ClipboardCheck className="h-5 w-5 mr-2" />
+              Review Fields
+            </button>
+          )}
+          {((document.extraction?.segments?.length ?? 0) > 1 || (run?.result?.segments.length ?? 0) > 1) && (
+            <button
+              onClick={() => openProcessed(setSplitting)}
+              disabled={isRunning || document.status === 'archived'}
+              className="flex items-center px-4 py-2 border border-purple-600 text-purple-700 rounded-lg hover:bg-purple-50 transition-colors disabled:opacity-50"
+            >
+              <Scissors className="h-5 w-5 mr-2" />
+              Split Document
+            </button>
           )}
-          Process Document
-        </button>
+          <button
+            onClick={startProcessing}
+            disabled={isRunning || document.status === 'quarantined'}
+            className="flex items-center px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50"
+          >
+            {isRunning ? (
+              <RefreshCw className="h-5 w-5 mr-2 animate-spin" />
+            ) : (
+              <FileText className="h-5 w-5 mr-2" />
+            )}
+            Process Document
+          </button>
+        </div>
       </div>
 
-      {processingStatus && (
+      {job?.status === 'queued' && job.attempts > 0 && (
+        <div className="mb-4 rounded-md bg-yellow-50 p-3 text-sm text-yellow-800">
+          Attempt {job.attempts} of {job.max_attempts} failed{job.last_error && `: ${job.last_error}`}.
+          Retrying at {new Date(job.run_at).toLocaleTimeString()}.
+        </div>
+      )}
+      {job?.status === 'dead_letter' && (
+        <div className="mb-4 rounded-md bg-red-50 p-3 text-sm text-red-700">
+          Gave up after {job.attempts} attempts{job.last_error && `: ${job.last_error}`}
+        </div>
+      )}
+
+      {reviewing && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+          <div className="w-full max-w-6xl max-h-[90vh] overflow-auto">
+            <ExtractionReview
+              document={reviewing}
+              onSaved={setReviewing}
+              onClose={() => setReviewing(null)}
+            />
+          </div>
+        </div>
+      )}
+
+      {splitting && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+          <div className="w-full max-w-4xl max-h-[90vh] overflow-auto">
+            <DocumentSplitReview
+              document={splitting}
+              onSplit={() => setSplitting(null)}
+              onClose={() => setSplitting(null)}
+            />
+          </div>
+        </div>
+      )}
+
+      {loadError && (
+        <div className="mb-4 rounded-md bg-red-50 p-3 text-sm text-red-700">{loadError}</div>
+      )}
+
+      {run && (
         <motion.div
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
@@ -69,21 +184,24 @@ function DocumentProcessingStatus({ document, onProcessingComplete }: DocumentPr
           <div>
             <div className="flex justify-between items-center mb-2">
               <span className="text-sm font-medium text-gray-700">Processing Progress</span>
-              <span className="text-sm text-gray-500">{processingStatus.progress}%</span>
+              <span className="text-sm text-gray-500">{run.progress}%</span>
             </div>
             <div className="w-full bg-gray-200 rounded-full h-2">
               <motion.div
-                className="bg-purple-600 h-2 rounded-full"
+                className={`h-2 rounded-full ${run.status === 'failed' ? 'bg-red-500' : 'bg-purple-600'}`}
                 initial={{ width: 0 }}
-                animate={{ width: `${processingStatus.progress}%` }}
-                transition={{ duration: 0.5 }}
+                animate={{ width: `${run.progress}%` }}
+                transition={{ duration: 0.3 }}
               />
             </div>
+            {run.error && (
+              <p className="mt-2 text-sm text-red-600">{run.error}</p>
+            )}
           </div>
 
           {/* Processing Steps */}
           <div className="space-y-3">
-            {processingStatus.metadata.processingSteps.map((step, index) => (
+            {run.stages.map((step, index) => (
               <motion.div
                 key={step.name}
                 initial={{ opacity: 0, x: -20 }}
@@ -93,25 +211,44 @@ function DocumentProcessingStatus({ document, onProcessingComplete }: DocumentPr
               >
                 <div className="flex items-center">
                   {getStepIcon(step.status)}
-                  <span className="ml-2 text-sm font-medium text-gray-700">{step.name}</span>
+                  <span className="ml-2 text-sm font-medium text-gray-700">{step.label}</span>
+                  {step.message && (
+                    <span className="ml-2 text-xs text-gray-500">{step.message}</span>
+                  )}
                 </div>
                 <span className={`text-sm ${
                   step.status === 'completed' ? 'text-green-600' :
                   step.status === 'failed' ? 'text-red-600' :
+                  step.status === 'running' ? 'text-purple-600' :
                   'text-yellow-600'
                 }`}>
-                  {step.status}
+                  {step.status === 'running' ? `${step.progress}%` : step.status}
+                  {step.duration !== undefined && step.status === 'completed' && (
+                    <span className="ml-1 text-xs text-gray-400">{(step.duration / 1000).toFixed(1)}s</span>
+                  )}
                 </span>
               </motion.div>
             ))}
           </div>
 
           {/* Extracted Data */}
-          {processingStatus.metadata.extractedData && (
+          {run.result && (
             <div className="bg-purple-50 rounded-lg p-4">
               <h4 className="text-sm font-medium text-purple-900 mb-3">Extracted Information</h4>
               <div className="space-y-2">
-                {Object.entries(processingStatus.metadata.extractedData).map(([key, value]) => (
+                {Object.entries({
+                  category: run.result.classification.category,
+                  languages: run.result.metadata.languages,
+                  pages: run.result.metadata.pages.map(page =>
+                    `${page.number} (${page.method === 'ocr' ? `OCR, ${Math.round(page.confidence)}%` : 'text layer'}${
+                      page.corrections ? `; ${page.corrections.join(', ')}` : ''
+                    })`
+                  ),
+                  dates: run.result.entities.dates.map(formatDate),
+                  names: run.result.entities.names,
+                  organizations: run.result.entities.organizations,
+                  amounts: run.result.entities.amounts.map(amount => formatMoney(amount.value))
+                }).filter(([, value]) => value.length > 0).map(([key, value]) => (
                   <div key={key} className="flex items-start">
                     <span className="text-sm font-medium text-purple-800 mr-2">{key}:</span>
                     <span className="text-sm text-purple-600">
@@ -120,6 +257,47 @@ function DocumentProcessingStatus({ document, onProcessingComplete }: DocumentPr
                   </div>
                 ))}
               </div>
+              {Object.values(run.result.fields).length > 0 && (
+                <div className="mt-3 pt-3 border-t border-purple-100 space-y-1">
+                  {Object.values(run.result.fields).map(field => (
+                    <div key={field.name} className="flex items-center justify-between text-sm">
+                      <span className="font-medium text-purple-800">{field.name.replace(/_/g, ' ')}</span>
+                      <span className="text-purple-600">
+                        {formatFieldValue(field)}
+                        <span className={`ml-2 text-xs ${field.confidence >= 70 ? 'text-green-600' : 'text-yellow-600'}`}>
+                          {field.confidence}%
+                        </span>
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {run.result.identity && (
+                <div className="mt-3 pt-3 border-t border-purple-100 text-sm">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium text-purple-800">
+                      {run.result.identity.format} {run.result.identity.documentCode.startsWith('P') ? 'passport' : 'ID card'}
+                    </span>
+                    {run.result.identity.valid ? (
+                      <span className="flex items-center text-xs text-green-600">
+                        <CheckCircle className="w-3 h-3 mr-1" />
+                        Check digits verified
+                      </span>
+                    ) : (
+                      <span className="flex items-center text-xs text-red-600">
+                        <AlertCircle className="w-3 h-3 mr-1" />
+                        Check digits failed
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-purple-600">
+                    {run.result.identity.givenNames} {run.result.identity.surname}, {run.result.identity.nationality}
+                    {' · '}No. {run.result.identity.documentNumber}
+                    {' · '}born {run.result.identity.dateOfBirth ?? 'unknown'}
+                    {' · '}expires {run.result.identity.expiryDate ?? 'unknown'}
+                  </div>
+                </div>
+              )}
             </div>
           )}
 
@@ -0,0 +1,243 @@
+import { useEffect, useMemo, useState } from 'react';
+import { FileText, Link2, Loader2, Scissors, X } from 'lucide-react';
+import type { CustomerDocument } from '../types';
+import { findPreviewFile, loadDocumentLayout } from '../lib/documentStorage';
+import type { SplitPart, SplitResult } from '../lib/documentSplitting';
+import { checkParts, openRequests, proposeParts, splitDocument } from '../lib/documentSplitting';
+import { classifyPage, pageKindLabel } from '../lib/pageClassification';
+import type { DocumentLayout } from '../lib/textLayout';
+
+interface DocumentSplitReviewProps {
+  document: CustomerDocument;
+  onSplit?: (result: SplitResult) => void;
+  onClose?: () => void;
+}
+
+// Characters of each page's opening text shown to tell the pages apart
+const SNIPPET_LENGTH = 90;
+
+// Lists the pages of a packet grouped into the documents processing found.
+// Boundaries can be moved by splitting or joining between any two pages, and
+// each part is matched to an open request or becomes a new document.
+function DocumentSplitReview({ document, onSplit, onClose }: DocumentSplitReviewProps) {
+  const segments = document.extraction?.segments;
+  const [layout, setLayout] = useState<DocumentLayout | null>(null);
+  const [requests, setRequests] = useState<CustomerDocument[]>([]);
+  const [parts, setParts] = useState<SplitPart[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [splitting, setSplitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    Promise.all([openRequests(document), loadDocumentLayout(document)])
+      .then(([open, loaded]) => {
+        if (cancelled) return;
+        setRequests(open);
+        setLayout(loaded);
+        setParts(proposeParts(document, document.extraction?.segments ?? [], open));
+      })
+      .catch(error => {
+        if (!cancelled) setError(error instanceof Error ? error.message : 'Failed to load the document');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [document]);
+
+  const pageCount = layout?.pages.length ?? segments?.[segments.length - 1]?.to ?? 0;
+  const pages = useMemo(
+    () => Array.from({ length: pageCount }, (_, i) => {
+      const text = layout?.pages.find(page => page.number === i + 1)?.lines.map(line => line.text).join(' ') ?? '';
+      return { number: i + 1, snippet: text.slice(0, SNIPPET_LENGTH), kind: classifyPage(i + 1, text).kind };
+    }),
+    [layout, pageCount]
+  );
+
+  if (!segments) {
+    return (
+      <div className="bg-white rounded-lg shadow-lg p-6 text-gray-600">
+        Processing found a single document in this file, so there is nothing to split.
+      </div>
+    );
+  }
+
+  const problem = parts.length > 0 ? checkParts(parts, pageCount) : null;
+
+  const updatePart = (index: number, changes: Partial<SplitPart>) => {
+    setParts(prev => prev.map((part, i) => (i === index ? { ...part, ...changes } : part)));
+  };
+
+  // A new part starts at the page; it has no request until one is picked
+  const splitAt = (page: number) => {
+    setParts(prev => prev.flatMap(part => {
+      if (page <= part.from || page > part.to) return [part];
+      return [
+        { ...part, to: page - 1 },
+        { from: page, to: part.to, name: `${document.name} (pages ${page}–${part.to})` }
+      ];
+    }));
+  };
+
+  // Joins the part that starts at the page onto the one before it
+  const joinAt = (page: number) => {
+    setParts(prev => {
+      const index = prev.findIndex(part => part.from === page);
+      if (index < 1) return prev;
+      const merged = { ...prev[index - 1], to: prev[index].to };
+      return [...prev.slice(0, index - 1), merged, ...prev.slice(index + 1)];
+    });
+  };
+
+  const chooseRequest = (index: number, requestId: string) => {
+    const request = requests.find(candidate => candidate.id === requestId);
+    updatePart(index, request ? { requestId, name: request.name } : { requestId: undefined });
+  };
+
+  const handleSplit = async () => {
+    setSplitting(true);
+    setError(null);
+    try {
+      onSplit?.(await splitDocument(document, parts));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to split the document');
+    } finally {
+      setSplitting(false);
+    }
+  };
+
+  const taken = new Set(parts.flatMap(part => (part.requestId ? [part.requestId] : [])));
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h3 className="text-xl font-semibold text-gray-900">Split Document</h3>
+          <p className="text-sm text-gray-500">
+            {document.name} · {pageCount} page{pageCount === 1 ? '' : 's'} · {parts.length} document{parts.length === 1 ? '' : 's'}
+          </p>
+        </div>
+        {onClose && (
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition-colors" title="Close">
+            <X className="h-5 w-5 text-gray-600" />
+          </button>
+        )}
+      </div>
+
+      {error && <div className="mb-4 rounded-md bg-red-50 p-3 text-sm text-red-700">{error}</div>}
+
+      {loading ? (
+        <div className="flex items-center justify-center h-48">
+          <Loader2 className="h-8 w-8 animate-spin text-purple-600" />
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {parts.map((part, index) => {
+            const segment = segments.find(candidate => candidate.from === part.from);
+            return (
+              <div key={`${part.from}-${part.to}`}>
+                {index > 0 && (
+                  <div className="flex items-center justify-center -mt-2 mb-2">
+                    <button
+                      onClick={() => joinAt(part.from)}
+                      className="flex items-center px-2 py-0.5 text-xs text-gray-600 border rounded-full hover:bg-gray-50"
+                      title="Make these pages part of the document above"
+                    >
+                      <Link2 className="h-3 w-3 mr-1" />
+                      Join with above
+                    </button>
+                  </div>
+                )}
+                <div className="rounded-lg border p-4">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-3">
+                    <div>
+                      <label htmlFor={`split-name-${index}`} className="block text-xs font-medium text-gray-500 mb-1">
+                        {part.from === part.to ? `Page ${part.from}` : `Pages ${part.from}–${part.to}`}
+                        {segment?.reason && <span className="ml-2 font-normal text-gray-400">{segment.reason}</span>}
+                      </label>
+                      <input
+                        id={`split-name-${index}`}
+                        value={part.name}
+                        onChange={event => updatePart(index, { name: event.target.value })}
+                        className="w-full border rounded-lg px-3 py-2 text-sm"
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor={`split-request-${index}`} className="block text-xs font-medium text-gray-500 mb-1">
+                        Fulfils
+                      </label>
+                      <select
+                        id={`split-request-${index}`}
+                        value={part.requestId ?? ''}
+                        onChange={event => chooseRequest(index, event.target.value)}
+                        className="w-full border rounded-lg px-3 py-2 text-sm"
+                      >
+                        <option value="">A new document</option>
+                        {requests
+                          .filter(request => request.id === part.requestId || !taken.has(request.id))
+                          .map(request => (
+                            <option key={request.id} value={request.id}>
+                              {request.name} (due {new Date(request.due_date).toLocaleDateString()})
+                            </option>
+                          ))}
+                      </select>
+                    </div>
+                  </div>
+
+                  <ul className="divide-y border rounded-lg">
+                    {pages.slice(part.from - 1, part.to).map(page => (
+                      <li key={page.number} className="flex items-center justify-between px-3 py-2 text-sm">
+                        <div className="flex items-center min-w-0">
+                          <FileText className="h-4 w-4 text-gray-400 mr-2 flex-shrink-0" />
+                          <span className="font-medium text-gray-700 mr-2">{page.number}</span>
+                          <span className="text-gray-500 truncate">{page.snippet || 'No text'}</span>
+                        </div>
+                        <div className="flex items-center space-x-2 ml-2 flex-shrink-0">
+                          {page.kind && <span className="text-xs text-purple-700">{pageKindLabel(page.kind)}</span>}
+                          {page.number > part.from && (
+                            <button
+                              onClick={() => splitAt(page.number)}
+                              className="p-1 text-gray-500 hover:text-purple-700 hover:bg-purple-50 rounded"
+                              title="Start a new document at this page"
+                            >
+                              <Scissors className="h-4 w-4" />
+                            </button>
+                          )}
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+            );
+          })}
+
+          <div className="flex items-center justify-between pt-2">
+            <span className={`text-sm ${problem ? 'text-red-600' : 'text-gray-600'}`}>
+              {problem ?? (findPreviewFile(document)
+                ? 'Each part is filed as its own document and processed again; the original is archived'
+                : 'Only PDF documents can be split')}
+            </span>
+            <button
+              onClick={handleSplit}
+              disabled={splitting || problem !== null || !findPreviewFile(document)}
+              className="flex items-center px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50"
+            >
+              {splitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Scissors className="h-4 w-4 mr-2" />}
+              Split into {parts.length} documents
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default DocumentSplitReview;
\ No newline at end of file
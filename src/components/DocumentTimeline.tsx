@@ -1,18 +1,21 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { format } from 'date-fns';
-import { Calendar, Clock, AlertCircle, CheckCircle, FileText, Brain, TrendingUp, BarChart2, Target } from 'lucide-react';
+import { Calendar, Clock, AlertCircle, CheckCircle, FileText, Brain, TrendingUp, BarChart2, Target, ArrowRight, Hourglass } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { Dialog } from '@headlessui/react';
 import { LineChart, Line, BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid, Legend } from 'recharts';
-import type { CustomerDocument } from '../types';
+import type { CustomerDocument, DocumentStatus } from '../types';
+import { documentLifecycle } from '../lib/documentLifecycle';
+import { documentStatusLabels } from '../lib/documentStatus';
+import { daysUntil, documentExpiry, expiryTracker } from '../lib/expiryTracker';
 
 interface TimelineEvent {
   id: string;
   date: Date;
-  type: 'document' | 'reminder' | 'status';
+  type: 'document' | 'reminder' | 'status' | 'transition' | 'expiry';
   title: string;
   description: string;
-  status: 'pending' | 'completed' | 'overdue';
+  status: DocumentStatus;
   document: CustomerDocument;
 }
 
@@ -22,18 +25,49 @@ interface DocumentTimelineProps {
 
 function DocumentTimeline({ documents }: DocumentTimelineProps) {
   const [selectedEvent, setSelectedEvent] = useState<TimelineEvent | null>(null);
+  const [timelineDocuments, setTimelineDocuments] = useState(documents);
+
+  useEffect(() => {
+    setTimelineDocuments(documents);
+  }, [documents]);
+
+  // Pick up lifecycle transitions made elsewhere without waiting for a reload
+  useEffect(() => {
+    return documentLifecycle.onTransition(event => {
+      setTimelineDocuments(prev =>
+        prev.map(doc => (doc.id === event.documentId ? event.document : doc))
+      );
+    });
+  }, []);
+
+  // Renewal requests the expiry tracker opens for these documents
+  useEffect(() => {
+    return expiryTracker.onChange(expirations => {
+      setTimelineDocuments(prev => {
+        const added = expirations.flatMap(({ document, renewal }) =>
+          renewal && prev.some(doc => doc.id === document.id) && !prev.some(doc => doc.id === renewal.id)
+            ? [renewal]
+            : []
+        );
+        return added.length > 0 ? [...prev, ...added] : prev;
+      });
+    });
+  }, []);
 
   const generateTimelineEvents = (docs: CustomerDocument[]): TimelineEvent[] => {
     const events: TimelineEvent[] = [];
 
     docs.forEach(doc => {
-      // Add document creation event
+      // Add document creation event; documents from before created_at was
+      // kept fall back to their first status change
       events.push({
         id: `creation-${doc.id}`,
-        date: new Date(doc.created_at || new Date()),
+        date: new Date(doc.created_at || doc.status_history?.[0]?.at || new Date()),
         type: 'document',
         title: `Document Created: ${doc.name}`,
-        description: `New document ${doc.name} added to the system`,
+        description: doc.renewal_of
+          ? `Renewal of ${doc.name} requested before the current one expires`
+          : `New document ${doc.name} added to the system`,
         status: doc.status,
         document: doc
       });
@@ -49,6 +83,43 @@ function DocumentTimeline({ documents }: DocumentTimelineProps) {
         document: doc
       });
 
+      // Add lifecycle transition events
+      doc.status_history?.forEach((change, index) => {
+        events.push({
+          id: `transition-${doc.id}-${index}`,
+          date: new Date(change.at),
+          type: 'transition',
+          title: `${documentStatusLabels[change.to]}: ${doc.name}`,
+          description: `Moved from ${documentStatusLabels[change.from]} to ${documentStatusLabels[change.to]}` +
+            (change.actor ? ` by ${change.actor}` : '') +
+            (change.reason ? ` (${change.reason})` : ''),
+          status: change.to,
+          document: doc
+        });
+      });
+
+      // Add expiry event, with where the renewal stands
+      const expiry = documentExpiry(doc);
+      if (expiry) {
+        const daysLeft = daysUntil(expiry.date);
+        const renewal = docs.find(other => other.renewal_of === doc.id);
+        const when = daysLeft < 0
+          ? `Expired ${-daysLeft} day${daysLeft === -1 ? '' : 's'} ago`
+          : daysLeft === 0 ? 'Expires today' : `Expires in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`;
+        const renewalNote = renewal
+          ? `renewal requested, due ${format(new Date(renewal.due_date), 'MMM d, yyyy')}`
+          : `renewal is requested ${expiryTracker.leadTimeDays} days ahead`;
+        events.push({
+          id: `expiry-${doc.id}`,
+          date: new Date(`${expiry.date}T00:00:00`),
+          type: 'expiry',
+          title: `${daysLeft < 0 ? 'Expired' : 'Expires'}: ${doc.name}`,
+          description: `${when}; ${renewalNote}`,
+          status: daysLeft < 0 ? 'expired' : doc.status,
+          document: doc
+        });
+      }
+
       // Add reminder events
       if (doc.last_reminder) {
         events.push({
@@ -71,14 +142,24 @@ function DocumentTimeline({ documents }: DocumentTimelineProps) {
       case 'document': return <FileText className="h-5 w-5" />;
       case 'reminder': return <Clock className="h-5 w-5" />;
       case 'status': return <Calendar className="h-5 w-5" />;
+      case 'transition': return <ArrowRight className="h-5 w-5" />;
+      case 'expiry': return <Hourglass className="h-5 w-5" />;
       default: return <CheckCircle className="h-5 w-5" />;
     }
   };
 
-  const getEventColor = (status: string) => {
+  const getEventColor = (status: DocumentStatus) => {
     switch (status) {
-      case 'completed': return 'bg-green-100 text-green-800 border-green-200';
-      case 'overdue': return 'bg-red-100 text-red-800 border-red-200';
+      case 'received':
+      case 'approved':
+        return 'bg-green-100 text-green-800 border-green-200';
+      case 'overdue':
+      case 'rejected':
+      case 'expired':
+      case 'quarantined':
+        return 'bg-red-100 text-red-800 border-red-200';
+      case 'archived':
+        return 'bg-gray-100 text-gray-600 border-gray-200';
       default: return 'bg-blue-100 text-blue-800 border-blue-200';
     }
   };
@@ -116,7 +197,7 @@ function DocumentTimeline({ documents }: DocumentTimelineProps) {
     return null;
   };
 
-  const timelineEvents = generateTimelineEvents(documents);
+  const timelineEvents = generateTimelineEvents(timelineDocuments);
 
   return (
     <div className="bg-white rounded-lg shadow-lg p-6">
@@ -146,7 +227,7 @@ function DocumentTimeline({ documents }: DocumentTimelineProps) {
                 <div className="flex justify-between items-start mb-2">
                   <h4 className="text-lg font-medium">{event.title}</h4>
                   <span className={`px-3 py-1 rounded-full text-xs font-medium ${getEventColor(event.status)}`}>
-                    {event.document.status.charAt(0).toUpperCase() + event.document.status.slice(1)}
+                    {documentStatusLabels[event.document.status]}
                   </span>
                 </div>
                 <p className="text-sm text-gray-600 mb-2">{event.description}</p>
@@ -1,81 +1,441 @@
-import React, { useCallback, useState } from 'react';
-import { Upload, File, CheckCircle, AlertCircle, Loader2, Shield } from 'lucide-react';
+import React, { useCallback, useRef, useState } from 'react';
+import { Upload, File, CheckCircle, AlertCircle, Loader2, Shield, ShieldAlert, Eye, Pause, Play, X, RotateCw, Link2, Copy } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { validateDocument } from '../lib/documentValidation';
+import { MAX_FILE_SIZE, MAX_RESUMABLE_FILE_SIZE, validateDocument } from '../lib/documentValidation';
 import type { ValidationResult } from '../lib/documentValidation';
+import { isImageType } from '../lib/fileInspection';
+import { normalizeImage } from '../lib/imageNormalization';
+import type { NormalizedDocument } from '../lib/imageNormalization';
+import { processingQueue } from '../lib/jobQueue';
+import { ResumableUpload, uploadTransport } from '../lib/resumableUpload';
+import type { UploadOutcome } from '../lib/resumableUpload';
+import { UPLOAD_BUCKET, attachFiles, documentFileKey, persistDocumentFiles } from '../lib/documentStorage';
+import { documentLifecycle } from '../lib/documentLifecycle';
+import { isOutstanding } from '../lib/documentStatus';
+import { findDuplicates, fingerprintDocument, renderPdfPages } from '../lib/duplicateDetection';
+import { malwareScanner } from '../lib/malwareScanning';
+import type { ScanResult } from '../lib/malwareScanning';
+import type { DocumentFingerprint, DuplicateMatch } from '../lib/duplicateDetection';
+import { repositories } from '../lib/repositories';
+import type { NewCustomerDocument } from '../lib/repositories';
+import DocumentPreview from './DocumentPreview';
+import type { CustomerDocument, StoredDocumentFile } from '../types';
+
+interface DocumentUploadProps {
+  // Requests an upload can be attached to
+  documents?: CustomerDocument[];
+  onDocumentsChange?: (documents: CustomerDocument[]) => void;
+}
 
 interface UploadStatus {
   id: string;
   name: string;
   progress: number;
-  status: 'validating' | 'uploading' | 'processing' | 'complete' | 'error';
+  status:
+    | 'validating'
+    | 'scanning'
+    | 'converting'
+    | 'uploading'
+    | 'paused'
+    | 'processing'
+    | 'complete'
+    | 'quarantined'
+    | 'cancelled'
+    | 'error';
+  bytesUploaded: number;
+  bytesTotal: number;
   error?: string;
   validation?: ValidationResult;
+  normalized?: NormalizedDocument;
+  // The request the files were linked to once stored
+  document?: CustomerDocument;
+  duplicates?: DuplicateMatch[];
+  scan?: ScanResult;
+}
+
+interface TransferEntry {
+  kind: StoredDocumentFile['kind'];
+  key: string;
+  file: File;
+  fingerprint?: DocumentFingerprint;
+}
+
+// The chunked transfers behind one upload row: the original file, plus the
+// PDF rendition for images
+interface Transfer {
+  entries: TransferEntry[];
+  files: ResumableUpload[];
+  normalized?: NormalizedDocument;
+  // The document the files are attached to
+  target: CustomerDocument;
+  // The target was made for this upload rather than picked, so a cancelled
+  // upload takes it away again
+  created?: boolean;
+  // Set when the scan found something; the file is stored but never processed
+  quarantine?: ScanResult;
+  // PDFs and images go on to text extraction; Word files are stored only
+  processable?: boolean;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// The record for an upload that wasn't handed in for a request
+function unrequestedDocument(name: string, type: string): NewCustomerDocument {
+  const now = new Date().toISOString();
+  return {
+    name,
+    type,
+    status: 'requested',
+    due_date: now.slice(0, 10),
+    last_reminder: now,
+    reminder_count: 0,
+    ai_urgency_score: 0
+  };
+}
+
+// Documents made for uploads that weren't for a request, by file, until the
+// files are attached. Picking the same file again after a reload reuses the
+// document, so the upload resumes into the same object.
+const PENDING_DOCUMENTS_KEY = 'pending-upload-documents';
+
+function fileIdentity(file: File): string {
+  return [file.name, file.size, file.lastModified].join(':');
+}
+
+function readPendingDocuments(): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(PENDING_DOCUMENTS_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+}
+
+function rememberPendingDocument(file: File, documentId: string | null) {
+  const pending = readPendingDocuments();
+  if (documentId) {
+    pending[fileIdentity(file)] = documentId;
+  } else {
+    delete pending[fileIdentity(file)];
+  }
+  try {
+    localStorage.setItem(PENDING_DOCUMENTS_KEY, JSON.stringify(pending));
+  } catch {
+    // Without storage a reload just starts the upload over
+  }
+}
+
+function forgetPendingDocument(transfer: Transfer) {
+  const original = transfer.entries.find(entry => entry.kind === 'original');
+  if (original) rememberPendingDocument(original.file, null);
+}
+
+// The pending document for the file, while it is still waiting for it
+async function findPendingDocument(file: File): Promise<CustomerDocument | null> {
+  const documentId = readPendingDocuments()[fileIdentity(file)];
+  if (!documentId) return null;
+  const document = await repositories.documents.get(documentId);
+  if (document?.status === 'requested' && !document.files?.length) return document;
+  rememberPendingDocument(file, null);
+  return null;
+}
+
+// Uploads have no stored document yet, so the preview gets a stand-in record
+function previewDocument(upload: UploadStatus): CustomerDocument {
+  const now = new Date().toISOString();
+  return {
+    id: upload.id,
+    name: upload.name,
+    type: upload.validation?.format ?? 'PDF',
+    status: 'received',
+    due_date: now,
+    last_reminder: now,
+    ai_urgency_score: 0
+  };
 }
 
-function DocumentUpload() {
+function DocumentUpload({ documents = [], onDocumentsChange }: DocumentUploadProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [uploads, setUploads] = useState<UploadStatus[]>([]);
+  const [targetId, setTargetId] = useState('');
+  const [previewUpload, setPreviewUpload] = useState<UploadStatus | null>(null);
+  const [previewMatch, setPreviewMatch] = useState<CustomerDocument | null>(null);
+  const transfers = useRef(new Map<string, Transfer>());
 
-  const processFile = async (file: File) => {
+  const updateUpload = useCallback((id: string, changes: Partial<UploadStatus>) => {
+    setUploads(prev => prev.map(u => (u.id === id ? { ...u, ...changes } : u)));
+  }, []);
+
+  const createTransfer = useCallback((
+    id: string,
+    entries: TransferEntry[],
+    target: CustomerDocument,
+    { normalized, created, quarantine, processable }: Pick<Transfer, 'normalized' | 'created' | 'quarantine' | 'processable'> = {}
+  ): Transfer => {
+    const bytesTotal = entries.reduce((sum, entry) => sum + entry.file.size, 0);
+    const sent = entries.map(() => 0);
+    const transport = uploadTransport;
+
+    const transfer: Transfer = {
+      entries,
+      normalized,
+      target,
+      created,
+      quarantine,
+      processable,
+      // Objects land at their storage key, so they need no second copy.
+      // Without a transport the files are stored in one go below.
+      files: !transport ? [] : entries.map(({ key, file }, index) => new ResumableUpload(file, {
+        transport,
+        metadata: {
+          bucketName: UPLOAD_BUCKET,
+          objectName: key
+        },
+        onProgress: bytesUploaded => {
+          sent[index] = bytesUploaded;
+          const total = sent.reduce((sum, bytes) => sum + bytes, 0);
+          updateUpload(id, {
+            bytesUploaded: total,
+            progress: bytesTotal > 0 ? Math.round((total / bytesTotal) * 100) : 100
+          });
+        }
+      }))
+    };
+    transfers.current.set(id, transfer);
+    return transfer;
+  }, [updateUpload]);
+
+  // Uploads whatever is left of each file, then hands the document to processing.
+  // Also used to resume a paused upload or retry a failed one.
+  const runTransfer = useCallback(async (id: string) => {
+    const transfer = transfers.current.get(id);
+    if (!transfer) return;
+
+    updateUpload(id, { status: 'uploading', error: undefined });
+
+    let outcome: UploadOutcome = 'complete';
+    try {
+      for (const file of transfer.files) {
+        outcome = await file.start();
+        if (outcome !== 'complete') break;
+      }
+    } catch (error) {
+      updateUpload(id, {
+        status: 'error',
+        error: `Upload interrupted: ${error instanceof Error ? error.message : 'unknown error'}`
+      });
+      return;
+    }
+
+    if (outcome !== 'complete') {
+      updateUpload(id, { status: outcome });
+      return;
+    }
+
+    // Keep the files and link them to the request; a failure here leaves the
+    // transfer in place so Retry only repeats this step
+    let linked: CustomerDocument;
+    try {
+      const stored = await persistDocumentFiles(transfer.entries);
+      if (transfer.quarantine) {
+        const reason = transfer.quarantine.findings.map(finding => finding.description).join('; ');
+        linked = await attachFiles(transfer.target, stored, { validation_passed: false });
+        if (documentLifecycle.canTransition(linked, 'quarantined', { reason }).allowed) {
+          linked = await documentLifecycle.apply(linked, 'quarantined', { actor: 'malware-scan', reason });
+        }
+        onDocumentsChange?.([linked]);
+      } else {
+        linked = await attachFiles(transfer.target, stored, { validation_passed: true });
+        if (documentLifecycle.canTransition(linked, 'received').allowed) {
+          linked = await documentLifecycle.apply(linked, 'received', { actor: 'upload' });
+        }
+        onDocumentsChange?.([linked]);
+      }
+    } catch (error) {
+      updateUpload(id, {
+        status: 'error',
+        error: `Could not store document: ${error instanceof Error ? error.message : 'unknown error'}`
+      });
+      return;
+    }
+
+    transfers.current.delete(id);
+    if (transfer.created) forgetPendingDocument(transfer);
+    if (transfer.quarantine) {
+      updateUpload(id, { status: 'quarantined', progress: 100, document: linked });
+      return;
+    }
+    updateUpload(id, { status: 'processing', progress: 100, document: linked });
+
+    // OCR runs on the processing queue so the upload screen stays responsive
+    if (transfer.processable) {
+      try {
+        await processingQueue.enqueue(linked.id);
+      } catch (error) {
+        console.error('Document could not be queued for processing:', error);
+      }
+    }
+
+    updateUpload(id, { status: 'complete' });
+  }, [updateUpload, onDocumentsChange]);
+
+  const pauseUpload = (id: string) => {
+    transfers.current.get(id)?.files.forEach(file => file.pause());
+  };
+
+  const cancelUpload = async (id: string) => {
+    const transfer = transfers.current.get(id);
+    if (!transfer) return;
+    transfers.current.delete(id);
+    await Promise.all(transfer.files.map(file => file.cancel()));
+    if (transfer.created) {
+      forgetPendingDocument(transfer);
+      await repositories.documents.remove(transfer.target.id).catch(error => {
+        console.error('Document made for the upload could not be removed:', error);
+      });
+    }
+    updateUpload(id, { status: 'cancelled' });
+  };
+
+  const processFile = useCallback(async (file: File) => {
     const upload: UploadStatus = {
       id: Math.random().toString(36).substr(2, 9),
       name: file.name,
       progress: 0,
-      status: 'validating'
+      status: 'validating',
+      bytesUploaded: 0,
+      bytesTotal: file.size
     };
 
     setUploads(prev => [...prev, upload]);
 
     // Validate file
-    const validationResult = await validateDocument(file);
+    const validationResult = await validateDocument(file, uploadTransport ? MAX_RESUMABLE_FILE_SIZE : MAX_FILE_SIZE);
     
     if (!validationResult.passed) {
       setUploads(prev =>
         prev.map(u =>
           u.id === upload.id
-            ? { ...u, status: 'error', error: 'Validation failed', validation: validationResult }
+            ? {
+                ...u,
+                status: 'error',
+                error: `File rejected: ${validationResult.issues.filter(i => i.severity === 'error').length} problem(s) found`,
+                validation: validationResult
+              }
             : u
         )
       );
       return;
     }
 
-    // Update with validation results
-    setUploads(prev =>
-      prev.map(u =>
-        u.id === upload.id
-          ? { ...u, status: 'uploading', validation: validationResult }
-          : u
-      )
-    );
-
-    // Simulate upload progress
-    for (let i = 0; i <= 100; i += 10) {
-      await new Promise(resolve => setTimeout(resolve, 200));
+    updateUpload(upload.id, { status: 'scanning', validation: validationResult });
+    const scan = await malwareScanner.scan(file);
+    if (scan.verdict === 'error') {
+      // Fail closed: a file nobody could scan is not accepted
+      updateUpload(upload.id, {
+        status: 'error',
+        error: `File could not be scanned for malware: ${scan.errors.join('; ')}`,
+        scan
+      });
+      return;
+    }
+    const quarantine = scan.verdict === 'infected' ? scan : undefined;
+    updateUpload(upload.id, { scan });
+
+    // Images are converted to a single PDF; the original is kept alongside it
+    let normalized: NormalizedDocument | undefined;
+    if (!quarantine && isImageType(validationResult.type)) {
       setUploads(prev =>
         prev.map(u =>
-          u.id === upload.id ? { ...u, progress: i } : u
+          u.id === upload.id
+            ? { ...u, status: 'converting', validation: validationResult }
+            : u
         )
       );
+
+      try {
+        normalized = await normalizeImage(file, validationResult.type);
+      } catch (error) {
+        setUploads(prev =>
+          prev.map(u =>
+            u.id === upload.id
+              ? {
+                  ...u,
+                  status: 'error',
+                  error: `Could not convert image: ${error instanceof Error ? error.message : 'unknown error'}`
+                }
+              : u
+          )
+        );
+        return;
+      }
     }
 
-    // Simulate processing
-    setUploads(prev =>
-      prev.map(u =>
-        u.id === upload.id ? { ...u, status: 'processing' } : u
-      )
-    );
-
-    await new Promise(resolve => setTimeout(resolve, 1000));
-
-    // Complete
-    setUploads(prev =>
-      prev.map(u =>
-        u.id === upload.id ? { ...u, status: 'complete' } : u
-      )
-    );
-  };
+    let target = documents.find(doc => doc.id === targetId);
+    let created = false;
+    // A file that wasn't for a request still gets a document, so it can be
+    // processed and an infected one's quarantine is on record
+    if (!target) {
+      try {
+        // Unless the same file is already uploading into it in this session
+        const pending = await findPendingDocument(file);
+        target = pending && !Array.from(transfers.current.values()).some(transfer => transfer.target.id === pending.id)
+          ? pending
+          : await repositories.documents.create(null, unrequestedDocument(file.name, validationResult.format));
+        rememberPendingDocument(file, target.id);
+        created = true;
+      } catch (error) {
+        updateUpload(upload.id, {
+          status: 'error',
+          error: `Could not record document: ${error instanceof Error ? error.message : 'unknown error'}`
+        });
+        return;
+      }
+    }
+
+    // Duplicates are flagged, not blocked: a resubmission can be legitimate
+    let fingerprint: DocumentFingerprint | undefined;
+    try {
+      // Infected files are never opened by pdf.js. A PDF that won't render
+      // still gets its exact-match hash.
+      const pageImages = normalized?.pageImages
+        ?? (!quarantine && validationResult.type === 'pdf' ? await renderPdfPages(file).catch(() => []) : []);
+      fingerprint = await fingerprintDocument(file, pageImages);
+      const duplicates = await findDuplicates(fingerprint, target.customer_id);
+      if (duplicates.length > 0) {
+        updateUpload(upload.id, { duplicates });
+      }
+    } catch (error) {
+      console.error('Duplicate check failed:', error);
+    }
+
+    const owner = { customerId: target.customer_id, documentId: target.id };
+    // Infected files are kept apart from clean ones for later review
+    const originalKey = documentFileKey(owner, 'original', file.name);
+    const entries: TransferEntry[] = [
+      { kind: 'original', key: quarantine ? `quarantine/${originalKey}` : originalKey, file, fingerprint },
+      ...(normalized
+        ? [{ kind: 'rendition' as const, key: documentFileKey(owner, 'rendition', normalized.rendition.name), file: normalized.rendition }]
+        : [])
+    ];
+    createTransfer(upload.id, entries, target, {
+      normalized,
+      created,
+      quarantine,
+      processable: Boolean(normalized) || validationResult.type === 'pdf'
+    });
+
+    // Update with validation results
+    updateUpload(upload.id, {
+      validation: validationResult,
+      normalized,
+      bytesTotal: entries.reduce((sum, entry) => sum + entry.file.size, 0)
+    });
+
+    await runTransfer(upload.id);
+  }, [createTransfer, runTransfer, updateUpload, documents, targetId]);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -92,12 +452,12 @@ function DocumentUpload() {
     setIsDragging(false);
     const files = Array.from(e.dataTransfer.files);
     files.forEach(processFile);
-  }, []);
+  }, [processFile]);
 
   const handleFileSelect = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []);
     files.forEach(processFile);
-  }, []);
+  }, [processFile]);
 
   return (
     <div className="bg-white rounded-lg shadow-lg p-6">
@@ -111,10 +471,31 @@ function DocumentUpload() {
         </div>
         <div className="flex items-center text-sm text-gray-500">
           <CheckCircle className="h-4 w-4 text-green-500 mr-1" />
-          Supports PDF, DOC, DOCX
+          Supports PDF, DOC, DOCX, JPEG, PNG, HEIC, TIFF
         </div>
       </div>
 
+      {documents.length > 0 && (
+        <div className="mb-4">
+          <label htmlFor="upload-target" className="block text-sm font-medium text-gray-700 mb-1">
+            Attach to request
+          </label>
+          <select
+            id="upload-target"
+            value={targetId}
+            onChange={e => setTargetId(e.target.value)}
+            className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">Don't attach</option>
+            {documents.filter(doc => isOutstanding(doc.status)).map(doc => (
+              <option key={doc.id} value={doc.id}>
+                {doc.name} (due {new Date(doc.due_date).toLocaleDateString()})
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
       <div
         onDragOver={handleDragOver}
         onDragLeave={handleDragLeave}
@@ -131,7 +512,7 @@ function DocumentUpload() {
           onChange={handleFileSelect}
           className="hidden"
           id="file-upload"
-          accept=".pdf,.doc,.docx"
+          accept=".pdf,.doc,.docx,.jpg,.jpeg,.png,.heic,.heif,.tif,.tiff"
         />
         <label htmlFor="file-upload" className="cursor-pointer">
           <Upload className="h-12 w-12 text-gray-400 mx-auto mb-4" />
@@ -173,8 +554,58 @@ function DocumentUpload() {
                         <span className="text-sm text-blue-600">Validating</span>
                       </div>
                     )}
+                    {upload.status === 'scanning' && (
+                      <div className="flex items-center">
+                        <Shield className="h-5 w-5 text-blue-500 animate-pulse mr-2" />
+                        <span className="text-sm text-blue-600">Scanning</span>
+                      </div>
+                    )}
+                    {upload.status === 'quarantined' && (
+                      <ShieldAlert className="h-5 w-5 text-purple-600" />
+                    )}
+                    {upload.status === 'converting' && (
+                      <div className="flex items-center">
+                        <Loader2 className="h-5 w-5 text-blue-500 animate-spin mr-2" />
+                        <span className="text-sm text-blue-600">Converting to PDF</span>
+                      </div>
+                    )}
                     {upload.status === 'uploading' && (
-                      <span className="text-sm text-blue-600">{upload.progress}%</span>
+                      <div className="flex items-center space-x-2">
+                        <span className="text-sm text-blue-600">{upload.progress}%</span>
+                        <button
+                          onClick={() => pauseUpload(upload.id)}
+                          className="p-1 hover:bg-gray-200 rounded"
+                          title="Pause"
+                        >
+                          <Pause className="h-4 w-4 text-gray-600" />
+                        </button>
+                        <button
+                          onClick={() => cancelUpload(upload.id)}
+                          className="p-1 hover:bg-gray-200 rounded"
+                          title="Cancel"
+                        >
+                          <X className="h-4 w-4 text-gray-600" />
+                        </button>
+                      </div>
+                    )}
+                    {upload.status === 'paused' && (
+                      <div className="flex items-center space-x-2">
+                        <span className="text-sm text-gray-600">Paused at {upload.progress}%</span>
+                        <button
+                          onClick={() => runTransfer(upload.id)}
+                          className="p-1 hover:bg-gray-200 rounded"
+                          title="Resume"
+                        >
+                          <Play className="h-4 w-4 text-blue-600" />
+                        </button>
+                        <button
+                          onClick={() => cancelUpload(upload.id)}
+                          className="p-1 hover:bg-gray-200 rounded"
+                          title="Cancel"
+                        >
+                          <X className="h-4 w-4 text-gray-600" />
+                        </button>
+                      </div>
                     )}
                     {upload.status === 'processing' && (
                       <Loader2 className="h-5 w-5 text-blue-500 animate-spin" />
@@ -183,15 +614,26 @@ function DocumentUpload() {
                       <CheckCircle className="h-5 w-5 text-green-500" />
                     )}
                     {upload.status === 'error' && (
-                      <AlertCircle className="h-5 w-5 text-red-500" />
+                      <div className="flex items-center space-x-2">
+                        {transfers.current.has(upload.id) && (
+                          <button
+                            onClick={() => runTransfer(upload.id)}
+                            className="flex items-center text-sm text-blue-600 hover:text-blue-700"
+                          >
+                            <RotateCw className="h-4 w-4 mr-1" />
+                            Retry
+                          </button>
+                        )}
+                        <AlertCircle className="h-5 w-5 text-red-500" />
+                      </div>
                     )}
                   </div>
                 </div>
 
-                {upload.status === 'uploading' && (
+                {(upload.status === 'uploading' || upload.status === 'paused') && (
                   <div className="w-full bg-gray-200 rounded-full h-2">
                     <motion.div
-                      className="bg-blue-500 h-2 rounded-full"
+                      className={`h-2 rounded-full ${upload.status === 'paused' ? 'bg-gray-400' : 'bg-blue-500'}`}
                       initial={{ width: 0 }}
                       animate={{ width: `${upload.progress}%` }}
                       transition={{ duration: 0.2 }}
@@ -199,6 +641,50 @@ function DocumentUpload() {
                   </div>
                 )}
 
+                {upload.scan?.verdict === 'infected' && (
+                  <div className="mt-2 rounded-md bg-purple-50 p-2 text-sm text-purple-800">
+                    <p className="flex items-center font-medium">
+                      <ShieldAlert className="h-4 w-4 mr-1" />
+                      Threat detected
+                    </p>
+                    <ul className="mt-1 space-y-0.5">
+                      {upload.scan.findings.map(finding => (
+                        <li key={`${finding.scanner}-${finding.signature}`}>
+                          {finding.description}
+                          <span className="ml-2 text-xs font-mono opacity-75">{finding.signature}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {upload.duplicates && upload.duplicates.length > 0 && (
+                  <div className="mt-2 rounded-md bg-yellow-50 p-2 text-sm text-yellow-800">
+                    <p className="flex items-center font-medium">
+                      <Copy className="h-4 w-4 mr-1" />
+                      Possible duplicate
+                    </p>
+                    <ul className="mt-1 space-y-1">
+                      {upload.duplicates.map(match => (
+                        <li key={`${match.document.id}-${match.file.key}`} className="flex items-center justify-between">
+                          <span>
+                            {match.kind === 'exact' ? 'Identical to' : `${match.similarity}% similar to`}{' '}
+                            <span className="font-medium">{match.document.name}</span>
+                            {match.scope === 'customer' ? ' from this customer' : ' from another customer'}
+                            , uploaded {new Date(match.file.uploaded_at).toLocaleDateString()}
+                          </span>
+                          <button
+                            onClick={() => setPreviewMatch(match.document)}
+                            className="ml-2 shrink-0 text-blue-600 hover:text-blue-700 hover:underline"
+                          >
+                            View earlier document
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
                 {upload.validation && (
                   <div className="mt-2">
                     <div className="flex items-center">
@@ -212,25 +698,64 @@ function DocumentUpload() {
                       </span>
                     </div>
                     {upload.validation.issues.length > 0 && (
-                      <ul className="mt-1 text-sm text-red-600 list-disc list-inside">
+                      <ul className="mt-2 space-y-2">
                         {upload.validation.issues.map((issue, index) => (
-                          <li key={index}>{issue}</li>
+                          <li
+                            key={`${issue.code}-${index}`}
+                            className={`text-sm rounded-md p-2 ${
+                              issue.severity === 'error' ? 'bg-red-50 text-red-700' : 'bg-yellow-50 text-yellow-700'
+                            }`}
+                          >
+                            <p className="font-medium">
+                              {issue.message}
+                              <span className="ml-2 text-xs font-mono opacity-75">{issue.code}</span>
+                            </p>
+                            <p className="text-xs mt-0.5 opacity-90">{issue.remediation}</p>
+                          </li>
                         ))}
                       </ul>
                     )}
-                    {upload.validation.extractedData && (
+                    {upload.validation.passed && (
                       <div className="mt-2 text-sm text-gray-600">
-                        <p>Category: {upload.validation.extractedData.category}</p>
-                        <p>Date: {upload.validation.extractedData.date}</p>
+                        <p>Format: {upload.validation.format}</p>
+                        {upload.validation.details.pageCount !== undefined && (
+                          <p>Pages: {upload.validation.details.pageCount}</p>
+                        )}
+                        {upload.normalized && (
+                          <div className="flex items-center justify-between">
+                            <p>
+                              Converted to {upload.normalized.rendition.name} ({upload.normalized.pageImages.length}{' '}
+                              {upload.normalized.pageImages.length === 1 ? 'page' : 'pages'})
+                            </p>
+                            <button
+                              onClick={() => setPreviewUpload(upload)}
+                              className="flex items-center text-blue-600 hover:text-blue-700"
+                            >
+                              <Eye className="h-4 w-4 mr-1" />
+                              Preview
+                            </button>
+                          </div>
+                        )}
                       </div>
                     )}
                   </div>
                 )}
 
                 <p className="text-sm mt-1">
-                  {upload.status === 'uploading' && 'Uploading...'}
+                  {(upload.status === 'uploading' || upload.status === 'paused') &&
+                    `${formatBytes(upload.bytesUploaded)} of ${formatBytes(upload.bytesTotal)} uploaded`}
                   {upload.status === 'processing' && 'Processing document...'}
                   {upload.status === 'complete' && 'Upload complete'}
+                  {upload.status === 'complete' && upload.document && (
+                    <span className="inline-flex items-center ml-2 text-gray-600">
+                      <Link2 className="h-3 w-3 mr-1" />
+                      Attached to {upload.document.name}
+                    </span>
+                  )}
+                  {upload.status === 'cancelled' && <span className="text-gray-500">Upload cancelled</span>}
+                  {upload.status === 'quarantined' && (
+                    <span className="text-purple-700">Quarantined: the file was kept for review and will not be processed</span>
+                  )}
                   {upload.status === 'error' && (
                     <span className="text-red-600">{upload.error}</span>
                   )}
@@ -240,6 +765,27 @@ function DocumentUpload() {
           </motion.div>
         )}
       </AnimatePresence>
+
+      {previewMatch && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-lg w-full max-w-4xl max-h-[90vh] overflow-auto">
+            <DocumentPreview document={previewMatch} onClose={() => setPreviewMatch(null)} />
+          </div>
+        </div>
+      )}
+
+      {previewUpload?.normalized && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-lg w-full max-w-4xl max-h-[90vh] overflow-auto">
+            <DocumentPreview
+              document={previewUpload.document ?? previewDocument(previewUpload)}
+              file={previewUpload.normalized.rendition}
+              originalFile={previewUpload.normalized.original}
+              onClose={() => setPreviewUpload(null)}
+            />
+          </div>
+        </div>
+      )}
     </div>
   );
 }
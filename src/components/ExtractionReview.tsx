@@ -0,0 +1,445 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Document, Page } from 'react-pdf';
+import { AlertTriangle, Check, ChevronLeft, ChevronRight, Download, Link2, Loader2, Save, X } from 'lucide-react';
+import type { Customer, CustomerDocument, EntityLink } from '../types';
+import { categoryFields, documentCategoryNames } from '../lib/documentProcessor';
+import { findPreviewFile, loadDocumentLayout, signedFileUrl } from '../lib/documentStorage';
+import {
+  CATEGORY_FIELD,
+  REVIEW_CONFIDENCE,
+  buildTrainingData,
+  categoryNeedsReview,
+  editableValue,
+  fieldLabel,
+  needsReview,
+  reviewFieldType,
+  saveReview,
+  toJsonLines
+} from '../lib/extractionReview';
+import { parseFieldValue } from '../lib/fieldExtraction';
+import { relationshipIssues, relationshipLabels } from '../lib/relationshipExtraction';
+import { validationSeverityColors } from '../lib/validationRules';
+import { repositories } from '../lib/repositories';
+import type { DocumentLayout } from '../lib/textLayout';
+import { boxPercentages, findInLayout } from '../lib/textLayout';
+
+interface ExtractionReviewProps {
+  document: CustomerDocument;
+  onSaved?: (document: CustomerDocument) => void;
+  onClose?: () => void;
+}
+
+// Rendered page width in CSS pixels; the form takes the other half
+const PAGE_WIDTH = 520;
+
+const placeholders = {
+  date: 'YYYY-MM-DD',
+  money: '0.00 USD',
+  id: '',
+  name: '',
+  text: ''
+};
+
+// Shows the page next to the extracted values so a reviewer can check each
+// one where it was read from. Low-confidence values have to be confirmed or
+// corrected before the review can be saved.
+function ExtractionReview({ document, onSaved, onClose }: ExtractionReviewProps) {
+  const extraction = document.extraction;
+  const [pdfUrl, setPdfUrl] = useState<string | null>(null);
+  const [layout, setLayout] = useState<DocumentLayout | null>(null);
+  const [numPages, setNumPages] = useState<number | null>(null);
+  const [pageNumber, setPageNumber] = useState(1);
+  const [category, setCategory] = useState(extraction?.category ?? '');
+  // Only what the reviewer has typed; everything else shows the extracted value
+  const [edits, setEdits] = useState<Record<string, string>>({});
+  const [confirmed, setConfirmed] = useState<Set<string>>(new Set());
+  const [focused, setFocused] = useState<string | null>(null);
+  const [hovered, setHovered] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const inputs = useRef<Record<string, HTMLInputElement | null>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    setPdfUrl(null);
+    setLayout(null);
+    setError(null);
+
+    const preview = findPreviewFile(document);
+    Promise.all([preview ? signedFileUrl(preview) : null, loadDocumentLayout(document)])
+      .then(([url, loaded]) => {
+        if (cancelled) return;
+        setPdfUrl(url);
+        setLayout(loaded);
+      })
+      .catch(error => {
+        if (!cancelled) setError(error instanceof Error ? error.message : 'Failed to load the document');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [document]);
+
+  // The parties the document names are checked against its customer's record
+  useEffect(() => {
+    let cancelled = false;
+    setCustomer(null);
+    if (!document.customer_id) return;
+    repositories.customers
+      .get(document.customer_id)
+      .then(found => {
+        if (!cancelled) setCustomer(found);
+      })
+      .catch(error => console.error('Failed to load the customer:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [document.customer_id]);
+
+  // The category's required fields first, then anything else that was read
+  const names = useMemo(
+    () => Array.from(new Set([...categoryFields(category), ...Object.keys(extraction?.fields ?? {})])),
+    [category, extraction]
+  );
+
+  const pageLayout = layout?.pages.find(page => page.number === pageNumber);
+  const fieldBoxes = useMemo(() => {
+    if (!extraction || !pageLayout) return [];
+    return names.flatMap(name => {
+      const field = extraction.fields[name];
+      if (!field || (field.location && field.location.page !== pageNumber)) return [];
+      return findInLayout(pageLayout, field.raw).map(box => ({ name, box }));
+    });
+  }, [extraction, names, pageLayout, pageNumber]);
+
+  const relationships = extraction?.relationships ?? [];
+  const mismatches = customer ? relationshipIssues(relationships, customer) : [];
+
+  if (!extraction) {
+    return (
+      <div className="bg-white rounded-lg shadow-lg p-6 text-gray-600">
+        This document hasn't been processed yet, so there is nothing to review.
+      </div>
+    );
+  }
+
+  const value = (name: string) => edits[name] ?? editableValue(extraction.fields[name]);
+  const isInvalid = (name: string) =>
+    value(name).trim() !== '' && parseFieldValue(reviewFieldType(extraction, name), value(name), extraction.language) === null;
+  const isSettled = (name: string) =>
+    !needsReview(extraction, name) || confirmed.has(name) || edits[name] !== undefined;
+  const categorySettled =
+    !categoryNeedsReview(extraction) || confirmed.has(CATEGORY_FIELD) || category !== extraction.category;
+
+  const outstanding = names.filter(name => !isSettled(name)).length + (categorySettled ? 0 : 1);
+  const invalid = names.filter(isInvalid);
+  const highlighted = hovered ?? focused;
+
+  const confirm = (name: string) => setConfirmed(prev => new Set(prev).add(name));
+
+  // Focusing a field turns to the page it was read from
+  const focusField = (name: string) => {
+    setFocused(name);
+    const page = extraction.fields[name]?.location?.page;
+    if (page) setPageNumber(page);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const saved = await saveReview(document, {
+        category,
+        values: Object.fromEntries(names.map(name => [name, value(name)]))
+      });
+      setEdits({});
+      setConfirmed(new Set());
+      onSaved?.(saved);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save the review');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError(null);
+    try {
+      const data = toJsonLines(await buildTrainingData());
+      const url = URL.createObjectURL(new Blob([data], { type: 'application/x-ndjson' }));
+      const link = window.document.createElement('a');
+      link.href = url;
+      link.download = `training-data-${new Date().toISOString().slice(0, 10)}.jsonl`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to export training data');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const reviewFlag = (name: string, settled: boolean) =>
+    settled ? (
+      confirmed.has(name) && <span className="flex items-center text-xs text-green-600"><Check className="h-3 w-3 mr-1" />Confirmed</span>
+    ) : (
+      <button
+        onClick={() => confirm(name)}
+        className="flex items-center px-2 py-0.5 rounded text-xs font-medium bg-red-100 text-red-700 hover:bg-red-200"
+        title="Mark the value as checked"
+      >
+        <AlertTriangle className="h-3 w-3 mr-1" />
+        Needs review · Confirm
+      </button>
+    );
+
+  // Names that refer to a customer record are marked as such
+  const entityName = (name: string, link?: EntityLink) => (
+    <span className={link ? 'inline-flex items-center font-medium text-purple-700' : 'font-medium text-gray-900'}>
+      {name}
+      {link && (
+        <Link2
+          className="h-3 w-3 ml-1"
+          aria-label={link.customer_id === customer?.id ? 'This customer' : `Customer record, by ${link.matched}`}
+        />
+      )}
+    </span>
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h3 className="text-xl font-semibold text-gray-900">Review Extraction</h3>
+          <p className="text-sm text-gray-500">
+            {document.name}
+            {extraction.reviewed_at && (
+              <> · Reviewed by {extraction.reviewed_by} on {new Date(extraction.reviewed_at).toLocaleString()}</>
+            )}
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={handleExport}
+            disabled={exporting}
+            className="flex items-center px-3 py-1 text-sm border rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            title="Download reviewed documents as labeled examples"
+          >
+            {exporting ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Download className="h-4 w-4 mr-1" />}
+            Export training data
+          </button>
+          {onClose && (
+            <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition-colors" title="Close">
+              <X className="h-5 w-5 text-gray-600" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && <div className="mb-4 rounded-md bg-red-50 p-3 text-sm text-red-700">{error}</div>}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Page */}
+        <div>
+          <div className="flex items-center justify-center mb-2 space-x-2 text-sm text-gray-600">
+            <button
+              onClick={() => setPageNumber(prev => Math.max(prev - 1, 1))}
+              disabled={pageNumber <= 1}
+              className="p-1 hover:bg-gray-100 rounded disabled:opacity-50"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </button>
+            <span>Page {pageNumber} of {numPages || '?'}</span>
+            <button
+              onClick={() => setPageNumber(prev => Math.min(prev + 1, numPages || 1))}
+              disabled={pageNumber >= (numPages || 1)}
+              className="p-1 hover:bg-gray-100 rounded disabled:opacity-50"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </button>
+          </div>
+          <div className="flex justify-center bg-gray-100 rounded-lg p-4 overflow-auto max-h-[70vh]">
+            {!pdfUrl ? (
+              <div className="flex items-center justify-center h-96 text-gray-500">
+                {findPreviewFile(document) ? <Loader2 className="h-8 w-8 animate-spin text-blue-600" /> : 'No file to show'}
+              </div>
+            ) : (
+              <Document file={pdfUrl} onLoadSuccess={({ numPages }) => setNumPages(numPages)}>
+                <div className="relative shadow-lg">
+                  <Page pageNumber={pageNumber} width={PAGE_WIDTH} renderTextLayer={false} renderAnnotationLayer={false} />
+                  <div className="absolute inset-0">
+                    {fieldBoxes.map(({ name, box }, i) => (
+                      <div
+                        key={`${name}-${i}`}
+                        onMouseEnter={() => setHovered(name)}
+                        onMouseLeave={() => setHovered(null)}
+                        onClick={() => inputs.current[name]?.focus()}
+                        title={fieldLabel(name)}
+                        className={`absolute border cursor-pointer ${
+                          name === highlighted
+                            ? 'bg-blue-400/40 border-blue-600 border-2'
+                            : isSettled(name)
+                              ? 'bg-yellow-300/30 border-yellow-500'
+                              : 'bg-red-500/10 border-red-500'
+                        }`}
+                        style={boxPercentages(box)}
+                      />
+                    ))}
+                  </div>
+                </div>
+              </Document>
+            )}
+          </div>
+        </div>
+
+        {/* Form */}
+        <div className="space-y-4">
+          <div className="p-3 rounded-lg border">
+            <div className="flex items-center justify-between mb-1">
+              <label htmlFor="review-category" className="text-sm font-medium text-gray-700">Category</label>
+              <div className="flex items-center space-x-2">
+                <span className={`text-xs ${extraction.category_confidence >= REVIEW_CONFIDENCE ? 'text-green-600' : 'text-yellow-600'}`}>
+                  {extraction.category_confidence}%
+                </span>
+                {reviewFlag(CATEGORY_FIELD, categorySettled)}
+              </div>
+            </div>
+            <select
+              id="review-category"
+              value={category}
+              onChange={event => setCategory(event.target.value)}
+              className="w-full border rounded-lg px-3 py-2 text-sm"
+            >
+              {!documentCategoryNames.includes(category) && <option value={category}>{category || 'Unclassified'}</option>}
+              {documentCategoryNames.map(name => (
+                <option key={name} value={name}>{fieldLabel(name)}</option>
+              ))}
+            </select>
+          </div>
+
+          {names.map(name => {
+            const field = extraction.fields[name];
+            const type = reviewFieldType(extraction, name);
+            return (
+              <div
+                key={name}
+                onMouseEnter={() => setHovered(name)}
+                onMouseLeave={() => setHovered(null)}
+                className={`p-3 rounded-lg border ${name === highlighted ? 'border-blue-400 bg-blue-50' : ''}`}
+              >
+                <div className="flex items-center justify-between mb-1">
+                  <label htmlFor={`review-${name}`} className="text-sm font-medium text-gray-700">
+                    {fieldLabel(name)}
+                    <span className="ml-2 text-xs font-normal text-gray-400">{type}</span>
+                  </label>
+                  <div className="flex items-center space-x-2">
+                    {field ? (
+                      <span className={`text-xs ${field.confidence >= REVIEW_CONFIDENCE ? 'text-green-600' : 'text-yellow-600'}`}>
+                        {field.reviewed ? 'reviewed' : `${field.confidence}%`}
+                      </span>
+                    ) : (
+                      <span className="text-xs text-gray-400">not found</span>
+                    )}
+                    {reviewFlag(name, isSettled(name))}
+                  </div>
+                </div>
+                <input
+                  id={`review-${name}`}
+                  ref={element => {
+                    inputs.current[name] = element;
+                  }}
+                  value={value(name)}
+                  placeholder={placeholders[type]}
+                  onChange={event => setEdits(prev => ({ ...prev, [name]: event.target.value }))}
+                  onFocus={() => focusField(name)}
+                  onBlur={() => setFocused(null)}
+                  className={`w-full border rounded-lg px-3 py-2 text-sm ${isInvalid(name) ? 'border-red-500' : ''}`}
+                />
+                {isInvalid(name) && <p className="mt-1 text-xs text-red-600">Not a valid {type}</p>}
+                {field && field.raw !== value(name) && (
+                  <p className="mt-1 text-xs text-gray-500">Read as “{field.raw}”</p>
+                )}
+                {field?.alternatives && !field.reviewed && (
+                  <p className="mt-1 text-xs text-yellow-700">
+                    Day and month could be either way round; it could also be
+                    {field.alternatives.map(alternative => (
+                      <button
+                        key={alternative}
+                        onClick={() => setEdits(prev => ({ ...prev, [name]: alternative }))}
+                        className="ml-1 underline hover:text-yellow-900"
+                      >
+                        {alternative}
+                      </button>
+                    ))}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+
+          {relationships.length > 0 && (
+            <div className="p-3 rounded-lg border">
+              <div className="text-sm font-medium text-gray-700 mb-2">Parties</div>
+              <ul className="space-y-1 text-sm">
+                {relationships.map(relationship => (
+                  <li key={`${relationship.entity1}|${relationship.relationship}|${relationship.entity2}`}>
+                    {entityName(relationship.entity1, relationship.entity1_link)}
+                    <span className="mx-1 text-gray-500">{relationshipLabels[relationship.relationship]}</span>
+                    {entityName(relationship.entity2, relationship.entity2_link)}
+                  </li>
+                ))}
+              </ul>
+              {mismatches.map(mismatch => (
+                <p key={mismatch} className="mt-2 flex items-start text-xs text-yellow-700">
+                  <AlertTriangle className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0" />
+                  {mismatch}
+                </p>
+              ))}
+            </div>
+          )}
+
+          {extraction.validation_issues && extraction.validation_issues.length > 0 && (
+            <div className="p-3 rounded-lg border">
+              <div className="text-sm font-medium text-gray-700 mb-2">Rule checks</div>
+              <ul className="space-y-2 text-sm">
+                {extraction.validation_issues.map(issue => (
+                  <li key={issue.rule_id} className="flex items-start">
+                    <span className={`mr-2 px-2 py-0.5 rounded text-xs font-medium ${validationSeverityColors[issue.severity]}`}>
+                      {issue.severity}
+                    </span>
+                    <span>
+                      <span className="font-medium text-gray-900">{issue.rule_name}</span>
+                      <span className="block text-xs text-gray-600">{issue.message}</span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between pt-2">
+            <span className="text-sm text-gray-600">
+              {outstanding > 0
+                ? `${outstanding} value${outstanding === 1 ? '' : 's'} still need${outstanding === 1 ? 's' : ''} review`
+                : 'Leave a value empty if the document doesn’t have it'}
+            </span>
+            <button
+              onClick={handleSave}
+              disabled={saving || outstanding > 0 || invalid.length > 0}
+              className="flex items-center px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50"
+            >
+              {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+              Save Review
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ExtractionReview;
\ No newline at end of file
@@ -0,0 +1,263 @@
+import { useEffect, useState } from 'react';
+import { CheckCircle, EyeOff, FileText, Link2, Loader2, ShieldCheck, X } from 'lucide-react';
+import type { CustomerDocument, RedactionLogEntry } from '../types';
+import { signedFileUrl } from '../lib/documentStorage';
+import { piiKindLabels } from '../lib/piiDetection';
+import type { Redaction } from '../lib/redaction';
+import {
+  approveRedactedCopy,
+  createRedactedCopy,
+  findRedactedFile,
+  proposeRedactions,
+  redactionLog,
+  shareRedactedCopy
+} from '../lib/redaction';
+
+interface RedactionReviewProps {
+  document: CustomerDocument;
+  onChange?: (document: CustomerDocument) => void;
+  onClose?: () => void;
+}
+
+// Lists the personal data found in a document for the reviewer to confirm,
+// makes the redacted copy, and hands out a link once the copy is approved
+function RedactionReview({ document: initial, onChange, onClose }: RedactionReviewProps) {
+  const [document, setDocument] = useState(initial);
+  // Null until the pages have been searched; no copy is made without that
+  const [redactions, setRedactions] = useState<Redaction[] | null>(null);
+  const [log, setLog] = useState<RedactionLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    setDocument(initial);
+    setRedactions(null);
+
+    Promise.all([proposeRedactions(initial), redactionLog(initial)])
+      .then(([proposed, entries]) => {
+        if (cancelled) return;
+        setRedactions(proposed);
+        setLog(entries);
+      })
+      .catch(error => {
+        if (!cancelled) setError(error instanceof Error ? error.message : 'Failed to look for personal data');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [initial]);
+
+  const copy = findRedactedFile(document);
+
+  // Runs a step that changes the document, keeping the parent in step
+  const run = async (step: () => Promise<CustomerDocument>, failure: string) => {
+    setWorking(true);
+    setError(null);
+    try {
+      const updated = await step();
+      setDocument(updated);
+      onChange?.(updated);
+      setLog(await redactionLog(updated));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : failure);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleCreate = () => {
+    if (!redactions) return;
+    setShareUrl(null);
+    return run(() => createRedactedCopy(document, redactions), 'Failed to make the redacted copy');
+  };
+
+  const handleApprove = () => run(() => approveRedactedCopy(document), 'Failed to approve the copy');
+
+  const handleOpen = async () => {
+    if (!copy) return;
+    try {
+      window.open(await signedFileUrl(copy), '_blank', 'noopener');
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to open the copy');
+    }
+  };
+
+  const handleShare = async () => {
+    setError(null);
+    try {
+      const url = await shareRedactedCopy(document);
+      setShareUrl(url);
+      await navigator.clipboard?.writeText(url);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to make a share link');
+    }
+  };
+
+  const toggle = (id: string) => {
+    setRedactions(prev => prev && prev.map(redaction => (redaction.id === id ? { ...redaction, redact: !redaction.redact } : redaction)));
+  };
+
+  const selected = redactions?.filter(redaction => redaction.redact).length ?? 0;
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h3 className="text-xl font-semibold text-gray-900">Share a Redacted Copy</h3>
+          <p className="text-sm text-gray-500">{document.name}</p>
+        </div>
+        {onClose && (
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition-colors" title="Close">
+            <X className="h-5 w-5 text-gray-600" />
+          </button>
+        )}
+      </div>
+
+      {error && <div className="mb-4 rounded-md bg-red-50 p-3 text-sm text-red-700">{error}</div>}
+
+      {loading ? (
+        <div className="flex items-center justify-center h-48">
+          <Loader2 className="h-8 w-8 animate-spin text-purple-600" />
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <div>
+            <h4 className="text-sm font-medium text-gray-700 mb-2">Personal data found</h4>
+            {!redactions ? (
+              <p className="text-sm text-gray-500">The pages could not be searched for personal data.</p>
+            ) : redactions.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                Nothing was found. The copy is still made from page images, so no text can be copied out of it.
+              </p>
+            ) : (
+              <ul className="divide-y border rounded-lg">
+                {redactions.map(redaction => (
+                  <li key={redaction.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                    <label className="flex items-center min-w-0 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={redaction.redact}
+                        onChange={() => toggle(redaction.id)}
+                        className="mr-3"
+                      />
+                      <span className="font-medium text-gray-700 mr-2">{piiKindLabels[redaction.kind]}</span>
+                      <span className={`truncate font-mono ${redaction.redact ? 'text-gray-500' : 'text-yellow-700'}`}>
+                        {redaction.text}
+                      </span>
+                    </label>
+                    <span className="ml-2 text-xs text-gray-400 flex-shrink-0">Page {redaction.page}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="flex items-center justify-between pt-3">
+              <span className="text-sm text-gray-600">
+                {redactions && redactions.length > 0 && `${selected} of ${redactions.length} will be blacked out`}
+              </span>
+              <button
+                onClick={handleCreate}
+                disabled={working || !redactions}
+                className="flex items-center px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50"
+              >
+                {working ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <EyeOff className="h-4 w-4 mr-2" />}
+                {copy ? 'Make a New Copy' : 'Make Redacted Copy'}
+              </button>
+            </div>
+          </div>
+
+          {copy && (
+            <div className="rounded-lg border p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center min-w-0">
+                  <FileText className="h-5 w-5 text-gray-400 mr-2 flex-shrink-0" />
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium text-gray-900 truncate">{copy.name}</div>
+                    <div className="text-xs text-gray-500">
+                      {copy.approved_at
+                        ? `Approved by ${copy.approved_by} on ${new Date(copy.approved_at).toLocaleString()}`
+                        : `Made ${new Date(copy.uploaded_at).toLocaleString()}; check it before sharing`}
+                    </div>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2 flex-shrink-0">
+                  <button onClick={handleOpen} className="px-3 py-1.5 text-sm border rounded-lg hover:bg-gray-50">
+                    Open
+                  </button>
+                  {copy.approved_at ? (
+                    <button
+                      onClick={handleShare}
+                      className="flex items-center px-3 py-1.5 text-sm bg-purple-600 text-white rounded-lg hover:bg-purple-700"
+                    >
+                      <Link2 className="h-4 w-4 mr-1" />
+                      Copy Share Link
+                    </button>
+                  ) : (
+                    <button
+                      onClick={handleApprove}
+                      disabled={working}
+                      className="flex items-center px-3 py-1.5 text-sm border border-purple-600 text-purple-700 rounded-lg hover:bg-purple-50 disabled:opacity-50"
+                    >
+                      <ShieldCheck className="h-4 w-4 mr-1" />
+                      Approve for Sharing
+                    </button>
+                  )}
+                </div>
+              </div>
+              {shareUrl && (
+                <div className="flex items-center text-xs text-green-700">
+                  <CheckCircle className="h-3 w-3 mr-1 flex-shrink-0" />
+                  <span className="truncate">Link copied: {shareUrl}</span>
+                </div>
+              )}
+            </div>
+          )}
+
+          {log.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-700 mb-2">Redaction log</h4>
+              <div className="max-h-48 overflow-auto border rounded-lg">
+                <table className="min-w-full text-xs">
+                  <thead className="bg-gray-50 text-gray-500">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium">When</th>
+                      <th className="px-3 py-2 text-left font-medium">Page</th>
+                      <th className="px-3 py-2 text-left font-medium">Kind</th>
+                      <th className="px-3 py-2 text-left font-medium">Value</th>
+                      <th className="px-3 py-2 text-left font-medium">Decision</th>
+                      <th className="px-3 py-2 text-left font-medium">By</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {log.map(entry => (
+                      <tr key={entry.id}>
+                        <td className="px-3 py-1.5 text-gray-500">{new Date(entry.redacted_at).toLocaleString()}</td>
+                        <td className="px-3 py-1.5">{entry.page}</td>
+                        <td className="px-3 py-1.5">{piiKindLabels[entry.kind]}</td>
+                        <td className="px-3 py-1.5 font-mono">{entry.masked_value}</td>
+                        <td className={`px-3 py-1.5 ${entry.redacted ? 'text-gray-700' : 'text-yellow-700'}`}>
+                          {entry.redacted ? 'Redacted' : 'Left visible'}
+                        </td>
+                        <td className="px-3 py-1.5 text-gray-500">{entry.redacted_by}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default RedactionReview;
\ No newline at end of file
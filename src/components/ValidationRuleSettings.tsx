@@ -0,0 +1,397 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Loader2, Plus, ShieldCheck, Trash2 } from 'lucide-react';
+import type { ValidationCheck, ValidationRule, ValidationSeverity } from '../types';
+import { fieldLabel } from '../lib/extractionReview';
+import { fieldNames } from '../lib/fieldExtraction';
+import { repositories } from '../lib/repositories';
+import { newValidationRuleSchema, validationCheckLabels, validationSeverityColors } from '../lib/validationRules';
+
+type CheckType = ValidationCheck['type'];
+
+// Everything the form can hold, whichever kind of check is picked
+interface RuleForm {
+  documentType: string;
+  name: string;
+  severity: ValidationSeverity;
+  message: string;
+  type: CheckType;
+  field: string;
+  otherField: string;
+  ignoreCase: boolean;
+  pattern: string;
+  flags: string;
+  min: string;
+  max: string;
+  when: 'past' | 'future';
+  withinDays: string;
+  expression: string;
+}
+
+const emptyForm: RuleForm = {
+  documentType: '',
+  name: '',
+  severity: 'error',
+  message: '',
+  type: 'required',
+  field: '',
+  otherField: '',
+  ignoreCase: false,
+  pattern: '',
+  flags: '',
+  min: '',
+  max: '',
+  when: 'past',
+  withinDays: '',
+  expression: ''
+};
+
+const inputClass = 'w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500';
+
+function optionalNumber(text: string): number | undefined {
+  return text.trim() === '' ? undefined : Number(text);
+}
+
+function buildCheck(form: RuleForm): Record<string, unknown> {
+  switch (form.type) {
+    case 'required':
+      return { type: 'required', field: form.field };
+    case 'pattern':
+      return { type: 'pattern', field: form.field || undefined, pattern: form.pattern, flags: form.flags || undefined };
+    case 'range':
+      return { type: 'range', field: form.field, min: optionalNumber(form.min), max: optionalNumber(form.max) };
+    case 'date':
+      return { type: 'date', field: form.field, when: form.when, within_days: optionalNumber(form.withinDays) };
+    case 'equals':
+      return { type: 'equals', field: form.field, other_field: form.otherField, ignore_case: form.ignoreCase || undefined };
+    case 'expression':
+      return { type: 'expression', expression: form.expression };
+  }
+}
+
+function describeCheck(check: ValidationCheck): string {
+  switch (check.type) {
+    case 'required':
+      return `${fieldLabel(check.field)} is present`;
+    case 'pattern':
+      return `${check.field ? fieldLabel(check.field) : 'Document text'} matches /${check.pattern}/${check.flags ?? ''}`;
+    case 'range':
+      return `${fieldLabel(check.field)} between ${check.min ?? '…'} and ${check.max ?? '…'}`;
+    case 'date':
+      return `${fieldLabel(check.field)} in the ${check.when}${check.within_days !== undefined ? `, within ${check.within_days} days` : ''}`;
+    case 'equals':
+      return `${fieldLabel(check.field)} equals ${fieldLabel(check.other_field)}${check.ignore_case ? ' (ignoring case)' : ''}`;
+    case 'expression':
+      return check.expression;
+  }
+}
+
+// Checks run on every document of a type after its fields are read, such as
+// a proof of address that has to be dated within the last 90 days
+function ValidationRuleSettings() {
+  const [rules, setRules] = useState<ValidationRule[]>([]);
+  const [documentTypes, setDocumentTypes] = useState<string[]>([]);
+  const [form, setForm] = useState<RuleForm>(emptyForm);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([repositories.validationRules.list(), repositories.documents.listAll()])
+      .then(([loaded, documents]) => {
+        if (cancelled) return;
+        setRules(loaded);
+        setDocumentTypes(Array.from(new Set(Object.values(documents).flat().map(doc => doc.type))).sort());
+      })
+      .catch(error => {
+        if (!cancelled) setError(error instanceof Error ? error.message : 'Failed to load the rules');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const byType = useMemo(() => {
+    const groups = new Map<string, ValidationRule[]>();
+    for (const rule of rules) {
+      groups.set(rule.document_type, [...(groups.get(rule.document_type) ?? []), rule]);
+    }
+    return Array.from(groups.entries()).sort(([a], [b]) => a.localeCompare(b));
+  }, [rules]);
+
+  const update = <K extends keyof RuleForm>(key: K, value: RuleForm[K]) => setForm(prev => ({ ...prev, [key]: value }));
+
+  const handleAdd = async () => {
+    const parsed = newValidationRuleSchema.safeParse({
+      document_type: form.documentType.trim(),
+      name: form.name.trim(),
+      severity: form.severity,
+      message: form.message.trim() || undefined,
+      check: buildCheck(form),
+      enabled: true
+    });
+    if (!parsed.success) {
+      setErrors(parsed.error.issues.map(issue => `${issue.path.map(String).map(fieldLabel).join(' › ')}: ${issue.message}`));
+      return;
+    }
+
+    setErrors([]);
+    setSaving(true);
+    setError(null);
+    try {
+      const created = await repositories.validationRules.create(parsed.data);
+      setRules(prev => [...prev, created]);
+      setForm({ ...emptyForm, documentType: form.documentType });
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save the rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (rule: ValidationRule) => {
+    setError(null);
+    try {
+      const updated = await repositories.validationRules.update(rule.id, { enabled: !rule.enabled });
+      setRules(prev => prev.map(r => (r.id === rule.id ? updated : r)));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to update the rule');
+    }
+  };
+
+  const handleRemove = async (rule: ValidationRule) => {
+    if (!window.confirm(`Delete the rule "${rule.name}"?`)) return;
+    setError(null);
+    try {
+      await repositories.validationRules.remove(rule.id);
+      setRules(prev => prev.filter(r => r.id !== rule.id));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to delete the rule');
+    }
+  };
+
+  const fieldSelect = (key: 'field' | 'otherField', label: string, optional = false) => (
+    <label className="block">
+      <span className="block text-xs font-medium text-gray-600 mb-1">{label}</span>
+      <select value={form[key]} onChange={e => update(key, e.target.value)} className={inputClass}>
+        <option value="">{optional ? 'Whole document' : 'Choose a field'}</option>
+        {fieldNames.map(name => (
+          <option key={name} value={name}>{fieldLabel(name)}</option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6">
+      <div className="flex items-center mb-6">
+        <ShieldCheck className="h-6 w-6 text-purple-600 mr-2" />
+        <div>
+          <h3 className="text-xl font-semibold text-gray-900">Validation Rules</h3>
+          <p className="text-sm text-gray-500">Checked on each document of the type when it is processed</p>
+        </div>
+      </div>
+
+      {error && <div className="mb-4 rounded-md bg-red-50 p-3 text-sm text-red-700">{error}</div>}
+
+      {loading ? (
+        <div className="flex items-center justify-center h-32">
+          <Loader2 className="h-8 w-8 animate-spin text-purple-600" />
+        </div>
+      ) : byType.length === 0 ? (
+        <p className="mb-6 text-sm text-gray-500">No rules yet. Documents are only checked for their category's required fields.</p>
+      ) : (
+        <div className="mb-6 space-y-4">
+          {byType.map(([documentType, typeRules]) => (
+            <div key={documentType}>
+              <h4 className="text-sm font-medium text-gray-700 mb-2">{documentType}</h4>
+              <ul className="divide-y border rounded-lg">
+                {typeRules.map(rule => (
+                  <li key={rule.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                    <div className={`min-w-0 ${rule.enabled ? '' : 'opacity-50'}`}>
+                      <div className="flex items-center">
+                        <span className={`mr-2 px-2 py-0.5 rounded text-xs font-medium ${validationSeverityColors[rule.severity]}`}>
+                          {rule.severity}
+                        </span>
+                        <span className="font-medium text-gray-900 truncate">{rule.name}</span>
+                      </div>
+                      <div className="text-xs text-gray-500 font-mono truncate">{describeCheck(rule.check)}</div>
+                    </div>
+                    <div className="flex items-center space-x-2 flex-shrink-0 ml-2">
+                      <label className="flex items-center text-xs text-gray-600 cursor-pointer">
+                        <input type="checkbox" checked={rule.enabled} onChange={() => handleToggle(rule)} className="mr-1" />
+                        Enabled
+                      </label>
+                      <button
+                        onClick={() => handleRemove(rule)}
+                        className="p-1 text-gray-400 hover:text-red-600 rounded"
+                        title="Delete rule"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="border-t pt-4 space-y-3">
+        <h4 className="text-sm font-medium text-gray-700">Add a rule</h4>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <label className="block">
+            <span className="block text-xs font-medium text-gray-600 mb-1">Document type</span>
+            <input
+              value={form.documentType}
+              onChange={e => update('documentType', e.target.value)}
+              list="validation-document-types"
+              placeholder="e.g. Proof of Address"
+              className={inputClass}
+            />
+            <datalist id="validation-document-types">
+              {documentTypes.map(type => <option key={type} value={type} />)}
+            </datalist>
+          </label>
+          <label className="block">
+            <span className="block text-xs font-medium text-gray-600 mb-1">Name</span>
+            <input
+              value={form.name}
+              onChange={e => update('name', e.target.value)}
+              placeholder="e.g. Dated within 90 days"
+              className={inputClass}
+            />
+          </label>
+          <label className="block">
+            <span className="block text-xs font-medium text-gray-600 mb-1">Severity</span>
+            <select value={form.severity} onChange={e => update('severity', e.target.value as ValidationSeverity)} className={inputClass}>
+              <option value="error">Error: the document fails validation</option>
+              <option value="warning">Warning</option>
+              <option value="info">Info</option>
+            </select>
+          </label>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <label className="block">
+            <span className="block text-xs font-medium text-gray-600 mb-1">Check</span>
+            <select value={form.type} onChange={e => update('type', e.target.value as CheckType)} className={inputClass}>
+              {(Object.keys(validationCheckLabels) as CheckType[]).map(type => (
+                <option key={type} value={type}>{validationCheckLabels[type]}</option>
+              ))}
+            </select>
+          </label>
+
+          {form.type === 'expression' ? (
+            <label className="block md:col-span-2">
+              <span className="block text-xs font-medium text-gray-600 mb-1">Expression</span>
+              <input
+                value={form.expression}
+                onChange={e => update('expression', e.target.value)}
+                placeholder="days_since(date) <= 90"
+                className={`${inputClass} font-mono`}
+              />
+            </label>
+          ) : (
+            fieldSelect('field', 'Field', form.type === 'pattern')
+          )}
+
+          {form.type === 'equals' && fieldSelect('otherField', 'Other field')}
+          {form.type === 'pattern' && (
+            <div className="grid grid-cols-3 gap-2">
+              <label className="block col-span-2">
+                <span className="block text-xs font-medium text-gray-600 mb-1">Pattern</span>
+                <input value={form.pattern} onChange={e => update('pattern', e.target.value)} className={`${inputClass} font-mono`} />
+              </label>
+              <label className="block">
+                <span className="block text-xs font-medium text-gray-600 mb-1">Flags</span>
+                <input value={form.flags} onChange={e => update('flags', e.target.value)} placeholder="i" className={`${inputClass} font-mono`} />
+              </label>
+            </div>
+          )}
+          {form.type === 'range' && (
+            <div className="grid grid-cols-2 gap-2">
+              <label className="block">
+                <span className="block text-xs font-medium text-gray-600 mb-1">Minimum</span>
+                <input type="number" value={form.min} onChange={e => update('min', e.target.value)} className={inputClass} />
+              </label>
+              <label className="block">
+                <span className="block text-xs font-medium text-gray-600 mb-1">Maximum</span>
+                <input type="number" value={form.max} onChange={e => update('max', e.target.value)} className={inputClass} />
+              </label>
+            </div>
+          )}
+          {form.type === 'date' && (
+            <div className="grid grid-cols-2 gap-2">
+              <label className="block">
+                <span className="block text-xs font-medium text-gray-600 mb-1">When</span>
+                <select value={form.when} onChange={e => update('when', e.target.value as RuleForm['when'])} className={inputClass}>
+                  <option value="past">In the past</option>
+                  <option value="future">In the future</option>
+                </select>
+              </label>
+              <label className="block">
+                <span className="block text-xs font-medium text-gray-600 mb-1">Within days</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={form.withinDays}
+                  onChange={e => update('withinDays', e.target.value)}
+                  placeholder="Any"
+                  className={inputClass}
+                />
+              </label>
+            </div>
+          )}
+        </div>
+
+        {form.type === 'equals' && (
+          <label className="flex items-center text-sm text-gray-600">
+            <input type="checkbox" checked={form.ignoreCase} onChange={e => update('ignoreCase', e.target.checked)} className="mr-2" />
+            Ignore case
+          </label>
+        )}
+        {form.type === 'expression' && (
+          <p className="text-xs text-gray-500">
+            Fields by name, numbers, 'text' and the operators || && == != &lt; &lt;= &gt; &gt;= + - * / !. Functions: today(),
+            days_since(date), days_until(date), present(field), lower(text), length(text).
+          </p>
+        )}
+
+        <label className="block">
+          <span className="block text-xs font-medium text-gray-600 mb-1">Message (optional)</span>
+          <input
+            value={form.message}
+            onChange={e => update('message', e.target.value)}
+            placeholder="Shown when the check fails; a description of the check is used otherwise"
+            className={inputClass}
+          />
+        </label>
+
+        {errors.length > 0 && (
+          <ul className="rounded-md bg-red-50 p-3 text-sm text-red-700 list-disc list-inside">
+            {errors.map(message => <li key={message}>{message}</li>)}
+          </ul>
+        )}
+
+        <div className="flex justify-end">
+          <button
+            onClick={handleAdd}
+            disabled={saving}
+            className="flex items-center px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50"
+          >
+            {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+            Add Rule
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ValidationRuleSettings;
\ No newline at end of file
@@ -0,0 +1,32 @@
+import type { MalwareScanner, ScannerReport } from './malwareScanning';
+
+// Scans with ClamAV through the clamav-scan Edge Function, which streams the
+// file on to a clamd daemon. The browser can't reach clamd's socket itself.
+export interface ClamdScannerConfig {
+  endpoint: string;
+  headers?: () => Promise<Record<string, string>>;
+}
+
+export class ClamdScanner implements MalwareScanner {
+  readonly name = 'clamav';
+
+  constructor(private config: ClamdScannerConfig) {}
+
+  async scan(bytes: Uint8Array, fileName: string): Promise<ScannerReport> {
+    const response = await fetch(this.config.endpoint, {
+      method: 'POST',
+      headers: { ...(await this.config.headers?.()), 'Content-Type': 'application/octet-stream' },
+      body: bytes
+    });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok || typeof body.infected !== 'boolean') {
+      throw new Error(`Failed to scan ${fileName}: ${body.error ?? `server responded ${response.status}`}`);
+    }
+    return body.infected
+      ? {
+        infected: true,
+        findings: [{ scanner: this.name, signature: body.signature, description: `ClamAV detected ${body.signature}` }]
+      }
+      : { infected: false, findings: [] };
+  }
+}
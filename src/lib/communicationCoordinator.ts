@@ -1,7 +1,7 @@
 import { Customer, CustomerDocument } from '../types';
 import { smartMessaging } from './smartMessaging';
 import { sentimentAnalyzer } from './sentimentAnalysis';
-import { documentProcessor } from './documentProcessing';
+import { documentProcessor } from './documentProcessor';
 
 interface ChannelConfig {
   type: 'email' | 'whatsapp' | 'phone' | 'sms' | 'portal';
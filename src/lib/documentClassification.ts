@@ -1,4 +1,6 @@
 import { CustomerDocument } from '../types';
+import type { MachineReadableZone } from './mrz';
+import { readMachineReadableZone } from './mrz';
 
 export interface DocumentCategory {
   id: string;
@@ -21,6 +23,8 @@ export interface AutoTagResult {
     entities: string[];
     keyPhrases: string[];
   };
+  // Read from the passport or ID card's machine-readable zone
+  identity?: MachineReadableZone;
 }
 
 export class DocumentClassifier {
@@ -63,7 +67,9 @@ export class DocumentClassifier {
         keywords: ['passport', 'license', 'id', 'identification', 'certificate'],
         patterns: [
           /\b[A-Z]{2}[0-9]{6}\b/,
-          /\b\d{3}-\d{2}-\d{4}\b/
+          /\b\d{3}-\d{2}-\d{4}\b/,
+          // A machine-readable zone line, e.g. "P<UTOERIKSSON<<ANNA<MARIA<<<"
+          /^(?=[A-Z0-9<]*<<)[A-Z0-9<]{30,44}$/m
         ],
         requirements: ['photo', 'expiration date', 'document number']
       }
@@ -115,6 +121,15 @@ export class DocumentClassifier {
       confidenceCount++;
     });
 
+    // Add identity tags: verified only when every MRZ check digit matches
+    const identity = readMachineReadableZone(extractedText);
+    if (identity) {
+      tags.add(identity.valid ? 'verified' : 'needs_review');
+      if (identity.expiryDate && new Date(identity.expiryDate) < new Date()) {
+        tags.add('expired');
+      }
+    }
+
     // Add urgency-based tags
     if (doc.ai_urgency_score > 80) {
       tags.add('urgent');
@@ -151,7 +166,8 @@ export class DocumentClassifier {
       tags: Array.from(tags),
       confidence: confidenceCount > 0 ? confidenceSum / confidenceCount : 0,
       suggestedTags: Array.from(suggestedTags),
-      metadata
+      metadata,
+      ...(identity && { identity })
     };
   }
 
@@ -0,0 +1,161 @@
+import type { CustomerDocument, DocumentStatus, DocumentStatusChange } from '../types';
+import type { DocumentRepository } from './repositories';
+import { repositories } from './repositories';
+import { documentStatusLabels } from './documentStatus';
+
+export interface TransitionContext {
+  actor?: string;
+  reason?: string;
+  now?: Date;
+}
+
+export interface DocumentTransitionEvent extends DocumentStatusChange {
+  documentId: string;
+  customerId?: string;
+  document: CustomerDocument;
+}
+
+type TransitionGuard = (doc: CustomerDocument, context: TransitionContext) => string | null;
+type TransitionListener = (event: DocumentTransitionEvent) => void;
+
+// Every status a document may move to from its current one
+// Any submission can turn out to be infected; a quarantined document waits
+// for a clean copy from the customer
+export const DOCUMENT_TRANSITIONS: Record<DocumentStatus, DocumentStatus[]> = {
+  requested: ['pending', 'received', 'quarantined', 'archived'],
+  pending: ['overdue', 'received', 'quarantined', 'archived'],
+  overdue: ['pending', 'received', 'quarantined', 'archived'],
+  received: ['under_review', 'rejected', 'quarantined', 'archived'],
+  under_review: ['approved', 'rejected', 'quarantined'],
+  rejected: ['pending', 'received', 'quarantined', 'archived'],
+  approved: ['expired', 'archived'],
+  expired: ['pending', 'quarantined', 'archived'],
+  quarantined: ['pending', 'archived'],
+  archived: []
+};
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// Guards return the reason a transition is blocked, or null when it may proceed
+const guards: Partial<Record<DocumentStatus, TransitionGuard>> = {
+  overdue: (doc, { now = new Date() }) =>
+    new Date(doc.due_date) < startOfDay(now) ? null : 'Document is not past its due date',
+  approved: (doc) =>
+    doc.validation_passed ? null : 'Document must pass validation before it can be approved',
+  rejected: (_doc, { reason }) =>
+    reason?.trim() ? null : 'A reason is required to reject a document',
+  quarantined: (_doc, { reason }) =>
+    reason?.trim() ? null : 'The scan findings are required to quarantine a document',
+  expired: (doc, { now = new Date() }) => {
+    if (!doc.expiration_date) return 'Document has no expiration date';
+    return new Date(doc.expiration_date) <= now ? null : 'Document has not expired yet';
+  }
+};
+
+export class DocumentLifecycle {
+  private listeners: Set<TransitionListener> = new Set();
+
+  constructor(private documents: DocumentRepository) {}
+
+  canTransition(
+    doc: CustomerDocument,
+    to: DocumentStatus,
+    context: TransitionContext = {}
+  ): { allowed: boolean; reason?: string } {
+    if (!DOCUMENT_TRANSITIONS[doc.status].includes(to)) {
+      return {
+        allowed: false,
+        reason: `Cannot move from ${documentStatusLabels[doc.status]} to ${documentStatusLabels[to]}`
+      };
+    }
+
+    const blocked = guards[to]?.(doc, context);
+    return blocked ? { allowed: false, reason: blocked } : { allowed: true };
+  }
+
+  availableTransitions(doc: CustomerDocument, context: TransitionContext = {}): DocumentStatus[] {
+    return DOCUMENT_TRANSITIONS[doc.status].filter(to => this.canTransition(doc, to, context).allowed);
+  }
+
+  // Pure: returns the document as it would look after the transition
+  transition(
+    doc: CustomerDocument,
+    to: DocumentStatus,
+    context: TransitionContext = {}
+  ): { document: CustomerDocument; change: DocumentStatusChange } {
+    const check = this.canTransition(doc, to, context);
+    if (!check.allowed) {
+      throw new Error(check.reason);
+    }
+
+    const change: DocumentStatusChange = {
+      from: doc.status,
+      to,
+      at: (context.now ?? new Date()).toISOString(),
+      ...(context.actor && { actor: context.actor }),
+      ...(context.reason && { reason: context.reason })
+    };
+
+    return {
+      document: {
+        ...doc,
+        status: to,
+        status_changed_at: change.at,
+        status_history: [...(doc.status_history ?? []), change]
+      },
+      change
+    };
+  }
+
+  // Transitions, persists and notifies listeners
+  async apply(
+    doc: CustomerDocument,
+    to: DocumentStatus,
+    context: TransitionContext = {}
+  ): Promise<CustomerDocument> {
+    const { document, change } = this.transition(doc, to, context);
+
+    const saved = await this.documents.update(doc.id, {
+      status: document.status,
+      status_changed_at: document.status_changed_at,
+      status_history: document.status_history
+    });
+
+    const event: DocumentTransitionEvent = {
+      ...change,
+      documentId: saved.id,
+      customerId: saved.customer_id,
+      document: saved
+    };
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Document transition listener failed:', error);
+      }
+    });
+
+    return saved;
+  }
+
+  // Time-driven transitions: pending documents past due, approved ones past expiry
+  async applyDeadlines(doc: CustomerDocument, now: Date = new Date()): Promise<CustomerDocument> {
+    const context: TransitionContext = { actor: 'system', now };
+    if (doc.status === 'pending' && this.canTransition(doc, 'overdue', context).allowed) {
+      return this.apply(doc, 'overdue', context);
+    }
+    if (doc.status === 'approved' && this.canTransition(doc, 'expired', context).allowed) {
+      return this.apply(doc, 'expired', context);
+    }
+    return doc;
+  }
+
+  onTransition(listener: TransitionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export const documentLifecycle = new DocumentLifecycle(repositories.documents);
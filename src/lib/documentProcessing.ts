@@ -1,135 +0,0 @@
-import { z } from 'zod';
-import type { CustomerDocument } from '../types';
-
-export interface ProcessingStatus {
-  id: string;
-  documentId: string;
-  stage: 'queued' | 'processing' | 'completed' | 'failed';
-  progress: number;
-  startTime: Date;
-  endTime?: Date;
-  error?: string;
-  metadata: {
-    processingSteps: Array<{
-      name: string;
-      status: 'pending' | 'completed' | 'failed';
-      duration?: number;
-    }>;
-    extractedData?: Record<string, any>;
-    confidence: number;
-  };
-}
-
-export interface ProcessingMetrics {
-  averageProcessingTime: number;
-  successRate: number;
-  errorRate: number;
-  confidenceScore: number;
-}
-
-class DocumentProcessor {
-  private processingQueue: Map<string, ProcessingStatus> = new Map();
-  private processingHistory: ProcessingStatus[] = [];
-
-  async processDocument(doc: CustomerDocument): Promise<ProcessingStatus> {
-    const status: ProcessingStatus = {
-      id: crypto.randomUUID(),
-      documentId: doc.id,
-      stage: 'queued',
-      progress: 0,
-      startTime: new Date(),
-      metadata: {
-        processingSteps: [
-          { name: 'Validation', status: 'pending' },
-          { name: 'Text Extraction', status: 'pending' },
-          { name: 'Classification', status: 'pending' },
-          { name: 'Metadata Extraction', status: 'pending' }
-        ],
-        confidence: 0
-      }
-    };
-
-    this.processingQueue.set(status.id, status);
-
-    try {
-      // Simulate document processing steps
-      await this.validateDocument(status);
-      await this.extractText(status);
-      await this.classifyDocument(status);
-      await this.extractMetadata(status);
-
-      status.stage = 'completed';
-      status.progress = 100;
-      status.endTime = new Date();
-      status.metadata.confidence = this.calculateConfidence(status);
-
-    } catch (error) {
-      status.stage = 'failed';
-      status.error = error instanceof Error ? error.message : 'Unknown error';
-      status.endTime = new Date();
-    }
-
-    this.processingHistory.push({ ...status });
-    return status;
-  }
-
-  private async validateDocument(status: ProcessingStatus): Promise<void> {
-    status.stage = 'processing';
-    status.progress = 25;
-    status.metadata.processingSteps[0].status = 'completed';
-    await new Promise(resolve => setTimeout(resolve, 1000));
-  }
-
-  private async extractText(status: ProcessingStatus): Promise<void> {
-    status.progress = 50;
-    status.metadata.processingSteps[1].status = 'completed';
-    await new Promise(resolve => setTimeout(resolve, 1500));
-  }
-
-  private async classifyDocument(status: ProcessingStatus): Promise<void> {
-    status.progress = 75;
-    status.metadata.processingSteps[2].status = 'completed';
-    await new Promise(resolve => setTimeout(resolve, 1000));
-  }
-
-  private async extractMetadata(status: ProcessingStatus): Promise<void> {
-    status.progress = 90;
-    status.metadata.processingSteps[3].status = 'completed';
-    status.metadata.extractedData = {
-      dates: ['2024-03-15', '2024-04-01'],
-      entities: ['Company XYZ', 'John Doe'],
-      keywords: ['invoice', 'payment', 'due date']
-    };
-    await new Promise(resolve => setTimeout(resolve, 1000));
-  }
-
-  private calculateConfidence(status: ProcessingStatus): number {
-    const completedSteps = status.metadata.processingSteps.filter(
-      step => step.status === 'completed'
-    ).length;
-    return (completedSteps / status.metadata.processingSteps.length) * 100;
-  }
-
-  getProcessingStatus(statusId: string): ProcessingStatus | undefined {
-    return this.processingQueue.get(statusId);
-  }
-
-  getProcessingMetrics(): ProcessingMetrics {
-    const completed = this.processingHistory.filter(s => s.stage === 'completed');
-    const failed = this.processingHistory.filter(s => s.stage === 'failed');
-
-    const averageTime = completed.reduce((acc, curr) => {
-      const duration = curr.endTime!.getTime() - curr.startTime.getTime();
-      return acc + duration;
-    }, 0) / (completed.length || 1);
-
-    return {
-      averageProcessingTime: averageTime / 1000, // Convert to seconds
-      successRate: (completed.length / this.processingHistory.length) * 100,
-      errorRate: (failed.length / this.processingHistory.length) * 100,
-      confidenceScore: completed.reduce((acc, curr) => acc + curr.metadata.confidence, 0) / (completed.length || 1)
-    };
-  }
-}
-
-export const documentProcessor = new DocumentProcessor();
\ No newline at end of file
@@ -3,13 +3,42 @@ import natural from 'natural';
 import compromise from 'compromise';
 import winkNLP from 'wink-nlp';
 import model from 'wink-eng-lite-model';
-import type { CustomerDocument } from '../types';
+import type { ValidationIssue, ValidationRule } from '../types';
+import type { NormalizedDocument } from './imageNormalization';
+import { fitToA4, isNormalizedDocument } from './imageNormalization';
+import { validateDocument as validateFile } from './documentValidation';
+import { detectFileType, isImageType } from './fileInspection';
+import { extractPdfPageText, hasUsableText, openPdfRenderer } from './pdfText';
+import { preprocessPageImage } from './imagePreprocessing';
+import type { ExtractedFields } from './fieldExtraction';
+import { extractFields as extractRequiredFields } from './fieldExtraction';
+import type { Transaction } from './tableExtraction';
+import { extractTransactions } from './tableExtraction';
+import type { NormalizedAmount, NormalizedDate } from './localeFormats';
+import { dateReading, readAmounts, readDates } from './localeFormats';
+import type { MachineReadableZone } from './mrz';
+import type { PageSegment } from './pageClassification';
+import { proposeSegments } from './pageClassification';
+import type { Relationship } from './relationshipExtraction';
+import { extractRelationships } from './relationshipExtraction';
+import { mrzIssues, readMachineReadableZone } from './mrz';
+import type { LanguageName } from './languageDetection';
+import { DEFAULT_LANGUAGE, detectLanguages, isLanguageName, tesseractLanguages } from './languageDetection';
+import type { ValidationResult } from './documentValidation';
+import type { LayoutBox, LayoutLine, PageLayout } from './textLayout';
+import { FULL_PAGE, layoutFromOcr } from './textLayout';
+import { evaluateRules, parseValidationRules, ruleFields } from './validationRules';
 
 const nlp = winkNLP(model);
 const tokenizer = new natural.WordTokenizer();
 const TfIdf = natural.TfIdf;
 const tfidf = new TfIdf();
 
+// Scans are read with these, in turn, to find their language. English
+// traineddata reads the other Latin-script languages well enough to tell
+// them apart; Chinese needs its own.
+const PROBE_LANGUAGES: LanguageName[] = ['english', 'chinese'];
+
 // Enhanced document categories with more specific rules
 const documentCategories = {
   financial: {
@@ -168,57 +197,67 @@ const documentCategories = {
   }
 };
 
-// Language support configurations
-const languageConfigs = {
-  english: {
-    worker: 'eng',
-    dateFormats: ['MM/DD/YYYY', 'YYYY-MM-DD'],
-    numberFormat: /^[0-9,.]+$/,
-    currencySymbol: '$'
-  },
-  spanish: {
-    worker: 'spa',
-    dateFormats: ['DD/MM/YYYY', 'YYYY-MM-DD'],
-    numberFormat: /^[0-9,.]+$/,
-    currencySymbol: '€'
-  },
-  french: {
-    worker: 'fra',
-    dateFormats: ['DD/MM/YYYY', 'YYYY-MM-DD'],
-    numberFormat: /^[0-9,.]+$/,
-    currencySymbol: '€'
-  },
-  german: {
-    worker: 'deu',
-    dateFormats: ['DD.MM.YYYY', 'YYYY-MM-DD'],
-    numberFormat: /^[0-9,.]+$/,
-    currencySymbol: '€'
-  },
-  chinese: {
-    worker: 'chi_sim',
-    dateFormats: ['YYYY年MM月DD日', 'YYYY-MM-DD'],
-    numberFormat: /^[0-9,.]+$/,
-    currencySymbol: '¥'
-  }
-};
+export const documentCategoryNames = Object.keys(documentCategories);
+
+// The fields a category's documents must have; none for unknown categories
+export function categoryFields(category: string): readonly string[] {
+  return documentCategories[category as keyof typeof documentCategories]?.requiredFields ?? [];
+}
 
-interface ProcessingResult {
+// Where a page's text came from: the PDF's own text layer, or OCR
+export type PageTextMethod = 'text_layer' | 'ocr';
+
+export interface ProcessedPage {
+  // 1-based
+  number: number;
+  method: PageTextMethod;
+  confidence: number;
+  // Fixes made to the scan before OCR, e.g. "deskewed by 2.5°"
+  corrections?: string[];
+}
+
+export interface ProcessingResult {
   text: string;
   confidence: number;
   metadata: {
+    // Main language, then any other language found, as named in languageConfigs
     language: string;
+    languages: string[];
     orientation: number;
     wordCount: number;
     processingTime: number;
     readabilityScore: number;
     complexity: 'low' | 'medium' | 'high';
+    pageCount: number;
+    pages: ProcessedPage[];
+    // Set when the input was an image normalized into a PDF rendition
+    source?: {
+      type: NormalizedDocument['sourceType'];
+      originalName: string;
+      renditionName: string;
+    };
   };
+  // Where each page's lines and words sit, for the preview's text layer
+  layout: PageLayout[];
+  // Scanned pages as cleaned up for OCR, in page order, to rebuild the
+  // rendition from. Only set for normalized image uploads.
+  pageImages?: Blob[];
+  // The category's required fields that were found, with typed values
+  fields: ExtractedFields;
+  // Rows of the statement or invoice tables found in the layout
+  transactions: Transaction[];
+  // The passport or ID card's machine-readable zone, when the document has one
+  identity?: MachineReadableZone;
+  // Page ranges that read as separate documents; a single range when the
+  // file is one document
+  segments: PageSegment[];
+  // Dates and amounts are normalized for the document's locale
   entities: {
-    dates: string[];
+    dates: NormalizedDate[];
     names: string[];
     organizations: string[];
     locations: string[];
-    amounts: string[];
+    amounts: NormalizedAmount[];
   };
   classification: {
     category: string;
@@ -227,8 +266,11 @@ interface ProcessingResult {
     summary: string;
   };
   validation: {
+    // False when a required field is missing or an error-level rule failed
     isValid: boolean;
     issues: string[];
+    // Every custom rule that failed, warnings and notes included
+    ruleIssues: ValidationIssue[];
     requiredFields: {
       name: string;
       found: boolean;
@@ -241,41 +283,506 @@ interface ProcessingResult {
     urgency: number;
     keyPhrases: string[];
     topics: string[];
-    relationships: Array<{
-      entity1: string;
-      relationship: string;
-      entity2: string;
-    }>;
+    // Subject–relation–object triples, e.g. "Jane Doe employed by Acme"
+    relationships: Relationship[];
+  };
+}
+
+export type ProcessingStageStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+// Working state handed from stage to stage; each stage fills in its part
+export interface ProcessingContext {
+  input: File | NormalizedDocument;
+  // The file as the customer sent it, before any normalization
+  original: File;
+  options: ProcessingOptions;
+  // One entry per page. Text extraction fills in pages that have a text
+  // layer; OCR reads the rest from their image.
+  pages: Array<{
+    number: number;
+    image?: Blob;
+    text?: string;
+    method?: PageTextMethod;
+    confidence?: number;
+    lines?: LayoutLine[];
+    corrections?: string[];
+  }>;
+  // The original PDF, kept for rendering pages that need OCR
+  pdfBytes?: Uint8Array;
+  text: string;
+  confidence: number;
+  language: string;
+  // Languages OCR reads with, main one first
+  languages: LanguageName[];
+  orientation: number;
+  tokens: string[];
+  fileValidation?: ValidationResult;
+  entities?: ProcessingResult['entities'];
+  fields?: ExtractedFields;
+  transactions?: Transaction[];
+  identity?: MachineReadableZone;
+  segments?: PageSegment[];
+  classification?: ProcessingResult['classification'];
+  validation?: ProcessingResult['validation'];
+  analysis?: ProcessingResult['analysis'];
+  // Progress within the running stage, from 0 to 1
+  report(fraction: number, message?: string): void;
+}
+
+export interface ProcessingStage {
+  name: string;
+  label: string;
+  // Share of the overall progress bar relative to the other stages
+  weight: number;
+  run(context: ProcessingContext): Promise<void>;
+}
+
+export interface ProcessingOptions {
+  // Skips detection, e.g. 'spanish' or 'english+spanish'
+  language?: string;
+  category?: string;
+  // Checked against the rule schema before the run starts
+  customValidations?: ValidationRule[];
+  // Lets listeners tell which document a run belongs to
+  documentId?: string;
+}
+
+export interface ProcessingRun {
+  id: string;
+  documentId?: string;
+  status: 'running' | 'completed' | 'failed';
+  progress: number;
+  startTime: Date;
+  endTime?: Date;
+  error?: string;
+  stages: Array<{
+    name: string;
+    label: string;
+    status: ProcessingStageStatus;
+    progress: number;
+    message?: string;
+    duration?: number;
+  }>;
+  result?: ProcessingResult;
+}
+
+export interface ProcessingEvent {
+  type: 'run_started' | 'stage_started' | 'stage_progress' | 'stage_completed' | 'stage_failed' | 'run_completed' | 'run_failed';
+  stage?: string;
+  // Snapshot of the run at the time of the event
+  run: ProcessingRun;
+}
+
+type ProcessingListener = (event: ProcessingEvent) => void;
+
+export interface ProcessingMetrics {
+  averageProcessingTime: number;
+  successRate: number;
+  errorRate: number;
+  confidenceScore: number;
+}
+
+async function imageSize(image: Blob): Promise<{ width: number; height: number }> {
+  const bitmap = await createImageBitmap(image);
+  const { width, height } = bitmap;
+  bitmap.close();
+  return { width, height };
+}
+
+// The part of its rendition page a normalized image covers
+function renditionFrame(image: { width: number; height: number }): LayoutBox {
+  const placement = fitToA4(image.width, image.height);
+  return {
+    left: placement.x / placement.pageWidth,
+    top: placement.y / placement.pageHeight,
+    width: placement.width / placement.pageWidth,
+    height: placement.height / placement.pageHeight
   };
 }
 
+function snapshot(run: ProcessingRun): ProcessingRun {
+  return { ...run, stages: run.stages.map(stage => ({ ...stage })) };
+}
+
+// Runs registered stages in order and reports progress as it goes. The
+// default stages are validate, extract text, clean up images, detect
+// language, OCR, classify, extract fields, extract tables, detect document
+// boundaries and validate fields; registerStage adds or replaces one.
 class DocumentProcessor {
   private worker: Tesseract.Worker | null = null;
-  private language: string = 'english';
+  // Tesseract language string the worker has loaded
+  private ocrLanguages: string | null = null;
   private customModels: Map<string, any> = new Map();
+  private stages: ProcessingStage[] = [];
+  private listeners: Set<ProcessingListener> = new Set();
+  private latestRuns: Map<string, ProcessingRun> = new Map();
+  private history: ProcessingRun[] = [];
+  // Tesseract reports progress through a single logger per worker, so the
+  // OCR stage points it at the page being recognized
+  private ocrProgress: ((fraction: number) => void) | null = null;
 
-  async initialize(language: string = 'english') {
-    this.language = language;
+  constructor() {
+    this.registerStage({ name: 'validate', label: 'Validation', weight: 1, run: context => this.validateInput(context) });
+    this.registerStage({ name: 'extract_text', label: 'Text Extraction', weight: 1, run: context => this.extractText(context) });
+    this.registerStage({ name: 'preprocess', label: 'Image Cleanup', weight: 2, run: context => this.preprocessImages(context) });
+    this.registerStage({ name: 'detect_language', label: 'Language Detection', weight: 1, run: context => this.detectLanguage(context) });
+    this.registerStage({ name: 'ocr', label: 'OCR', weight: 6, run: context => this.recognizePages(context) });
+    this.registerStage({ name: 'classify', label: 'Classification', weight: 1, run: async context => this.classify(context) });
+    this.registerStage({ name: 'extract_fields', label: 'Field Extraction', weight: 1, run: async context => this.extractFields(context) });
+    this.registerStage({ name: 'extract_tables', label: 'Table Extraction', weight: 1, run: async context => this.extractTables(context) });
+    this.registerStage({ name: 'detect_documents', label: 'Document Boundaries', weight: 1, run: async context => this.detectDocuments(context) });
+    this.registerStage({ name: 'validate_fields', label: 'Field Validation', weight: 1, run: async context => this.checkFields(context) });
+  }
+
+  // Loads traineddata for the languages, swapping it out when the worker
+  // already has a different set loaded
+  async initialize(languages: LanguageName[] = [DEFAULT_LANGUAGE]) {
+    const code = tesseractLanguages(languages);
     if (!this.worker) {
-      this.worker = await createWorker(languageConfigs[language].worker);
+      this.worker = await createWorker(code, undefined, {
+        logger: message => {
+          if (message.status === 'recognizing text') this.ocrProgress?.(message.progress);
+        }
+      });
+    } else if (code !== this.ocrLanguages) {
+      await this.worker.reinitialize(code);
     }
+    this.ocrLanguages = code;
   }
 
-  async processDocument(file: File, options: {
-    language?: string;
-    category?: string;
-    customValidations?: any[];
-  } = {}): Promise<ProcessingResult> {
-    await this.initialize(options.language);
-    const startTime = Date.now();
+  // A stage with an existing name replaces it in place; otherwise it goes
+  // before or after the named stage, or last
+  registerStage(stage: ProcessingStage, position: { before?: string; after?: string } = {}) {
+    const existing = this.stages.findIndex(s => s.name === stage.name);
+    if (existing >= 0) {
+      this.stages[existing] = stage;
+      return;
+    }
 
-    // Extract text using OCR with language support
-    const { data } = await this.worker!.recognize(file);
-    const text = data.text;
+    const anchor = position.before ?? position.after;
+    const index = anchor ? this.stages.findIndex(s => s.name === anchor) : -1;
+    if (anchor && index < 0) {
+      throw new Error(`Unknown processing stage: ${anchor}`);
+    }
+    const at = index < 0 ? this.stages.length : position.before ? index : index + 1;
+    this.stages.splice(at, 0, stage);
+  }
 
-    // Process with NLP using language-specific models
-    const doc = nlp.readDoc(text);
-    const tokens = tokenizer.tokenize(text);
+  getStages(): Array<Pick<ProcessingStage, 'name' | 'label'>> {
+    return this.stages.map(({ name, label }) => ({ name, label }));
+  }
+
+  onProgress(listener: ProcessingListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Most recent run for a document, so a view opened mid-run can catch up
+  getLatestRun(documentId: string): ProcessingRun | undefined {
+    const run = this.latestRuns.get(documentId);
+    return run && snapshot(run);
+  }
+
+  private emit(type: ProcessingEvent['type'], run: ProcessingRun, stage?: string) {
+    const event: ProcessingEvent = { type, stage, run: snapshot(run) };
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Document processing listener failed:', error);
+      }
+    });
+  }
+
+  // Runs in a worker report back through here so views subscribe in one place
+  relay(event: ProcessingEvent) {
+    const { run } = event;
+    if (run.documentId) this.latestRuns.set(run.documentId, run);
+    if (event.type === 'run_completed' || event.type === 'run_failed') {
+      this.history.push(snapshot(run));
+    }
+    this.emit(event.type, run, event.stage);
+  }
+
+  async processDocument(input: File | NormalizedDocument, options: ProcessingOptions = {}): Promise<ProcessingResult> {
+    // A malformed rule is a configuration mistake, so it fails before the run starts
+    if (options.customValidations) parseValidationRules(options.customValidations);
+
+    const stages = [...this.stages];
+    const totalWeight = stages.reduce((sum, stage) => sum + stage.weight, 0);
+    const run: ProcessingRun = {
+      id: crypto.randomUUID(),
+      documentId: options.documentId,
+      status: 'running',
+      progress: 0,
+      startTime: new Date(),
+      stages: stages.map(({ name, label }) => ({ name, label, status: 'pending', progress: 0 }))
+    };
+    if (options.documentId) this.latestRuns.set(options.documentId, run);
+    this.emit('run_started', run);
+
+    let completedWeight = 0;
+    let current = 0;
+    const context: ProcessingContext = {
+      input,
+      original: isNormalizedDocument(input) ? input.original : input,
+      options,
+      pages: [],
+      text: '',
+      confidence: 0,
+      language: '',
+      languages: [],
+      orientation: 0,
+      tokens: [],
+      report: (fraction, message) => {
+        const step = run.stages[current];
+        step.progress = Math.round(Math.min(Math.max(fraction, 0), 1) * 100);
+        if (message !== undefined) step.message = message;
+        run.progress = Math.round(((completedWeight + stages[current].weight * step.progress / 100) / totalWeight) * 100);
+        this.emit('stage_progress', run, step.name);
+      }
+    };
+
+    try {
+      for (current = 0; current < stages.length; current++) {
+        const stage = stages[current];
+        const step = run.stages[current];
+        const started = Date.now();
+        step.status = 'running';
+        this.emit('stage_started', run, stage.name);
+
+        try {
+          await stage.run(context);
+        } catch (error) {
+          step.status = 'failed';
+          step.duration = Date.now() - started;
+          this.emit('stage_failed', run, stage.name);
+          throw error;
+        }
+
+        step.status = 'completed';
+        step.progress = 100;
+        step.duration = Date.now() - started;
+        completedWeight += stage.weight;
+        run.progress = Math.round((completedWeight / totalWeight) * 100);
+        this.emit('stage_completed', run, stage.name);
+      }
+
+      const result = this.buildResult(context, run.startTime.getTime());
+      run.status = 'completed';
+      run.progress = 100;
+      run.endTime = new Date();
+      run.result = result;
+      this.history.push(snapshot(run));
+      this.emit('run_completed', run);
+      return result;
+    } catch (error) {
+      run.status = 'failed';
+      run.error = error instanceof Error ? error.message : 'Unknown error';
+      run.endTime = new Date();
+      this.history.push(snapshot(run));
+      this.emit('run_failed', run);
+      throw error;
+    }
+  }
+
+  getProcessingMetrics(): ProcessingMetrics {
+    const completed = this.history.filter(run => run.status === 'completed');
+    const failed = this.history.filter(run => run.status === 'failed');
+    const total = this.history.length || 1;
+
+    const averageTime = completed.reduce(
+      (sum, run) => sum + (run.endTime!.getTime() - run.startTime.getTime()),
+      0
+    ) / (completed.length || 1);
+
+    return {
+      averageProcessingTime: averageTime / 1000,
+      successRate: (completed.length / total) * 100,
+      errorRate: (failed.length / total) * 100,
+      confidenceScore: completed.reduce((sum, run) => sum + (run.result?.confidence ?? 0), 0) / (completed.length || 1)
+    };
+  }
+
+  private async validateInput(context: ProcessingContext): Promise<void> {
+    const validation = await validateFile(context.original);
+    context.fileValidation = validation;
+    if (!validation.passed) {
+      const problem = validation.issues.find(issue => issue.severity === 'error');
+      throw new Error(problem?.message ?? 'Document failed validation');
+    }
+  }
+
+  // Born-digital PDFs get their text straight from the text layer, page by
+  // page; images normalized on upload are left for OCR
+  private async extractText(context: ProcessingContext): Promise<void> {
+    const { input, original } = context;
+
+    if (isNormalizedDocument(input)) {
+      context.pages = input.pageImages.map((image, i) => ({ number: i + 1, image }));
+      context.report(1, `${context.pages.length} scanned page${context.pages.length === 1 ? '' : 's'}`);
+      return;
+    }
+
+    const bytes = new Uint8Array(await original.arrayBuffer());
+    const type = detectFileType(bytes);
+    if (isImageType(type)) {
+      context.pages = [{ number: 1, image: input }];
+      context.report(1, '1 scanned page');
+      return;
+    }
+    if (type !== 'pdf') {
+      throw new Error(`Text extraction is not supported for ${type} files`);
+    }
+
+    context.pdfBytes = bytes;
+    context.pages = (await extractPdfPageText(bytes)).map(({ text, lines }, i) => hasUsableText(text)
+      ? { number: i + 1, text, method: 'text_layer', confidence: 100, lines }
+      : { number: i + 1 });
+    const withText = context.pages.filter(page => page.method === 'text_layer').length;
+    context.report(1, `${withText} of ${context.pages.length} pages have a text layer`);
+  }
+
+  // Scanned pages are cropped, turned upright, straightened and binarized
+  // before anything reads them. Pages rendered from a PDF are left alone,
+  // since the PDF itself stays the rendition.
+  private async preprocessImages(context: ProcessingContext): Promise<void> {
+    const scans = context.pages.filter(page => page.image && page.method === undefined);
+    if (scans.length === 0) {
+      context.report(1, 'Not needed, no scanned pages');
+      return;
+    }
+
+    for (let i = 0; i < scans.length; i++) {
+      const page = scans[i];
+      context.report(i / scans.length, `Page ${page.number} of ${context.pages.length}`);
+      const { image, corrections } = await preprocessPageImage(page.image!);
+      page.image = image;
+      page.corrections = corrections;
+    }
+  }
+
+  // An explicit options.language wins. Otherwise the text layer gives the
+  // language away, or failing that a first OCR pass over one scanned page.
+  private async detectLanguage(context: ProcessingContext): Promise<void> {
+    const requested = context.options.language;
+    if (requested) {
+      const names = requested.split('+');
+      const unknown = names.find(name => !isLanguageName(name));
+      if (unknown) {
+        throw new Error(`Unsupported OCR language: ${unknown}`);
+      }
+      context.languages = names as LanguageName[];
+    } else {
+      const layerText = context.pages
+        .filter(page => page.method === 'text_layer')
+        .map(page => page.text)
+        .join('\n');
+      let languages = detectLanguages(layerText);
+      const firstScan = context.pages.find(page => page.method === undefined);
+      if (languages.length === 0 && firstScan) {
+        languages = await this.probeLanguages(context, firstScan);
+      }
+      context.languages = languages.length > 0 ? languages : [DEFAULT_LANGUAGE];
+    }
+
+    context.language = context.languages[0];
+    context.report(1, context.languages.join(' + '));
+  }
+
+  // Reads the page with each probe language until its text says which
+  // language it is in. When that is the probe language the page keeps its
+  // text, so it isn't recognized twice.
+  private async probeLanguages(context: ProcessingContext, page: ProcessingContext['pages'][number]): Promise<LanguageName[]> {
+    if (!page.image) {
+      const renderer = await openPdfRenderer(context.pdfBytes!);
+      try {
+        page.image = await renderer.render(page.number);
+      } finally {
+        await renderer.close();
+      }
+    }
+
+    let detected: LanguageName[] = [];
+    for (let i = 0; i < PROBE_LANGUAGES.length && detected.length === 0; i++) {
+      const probe = PROBE_LANGUAGES[i];
+      await this.initialize([probe]);
+      await this.recognizePage(context, page, page.image, fraction => context.report(
+        (i + fraction) / PROBE_LANGUAGES.length,
+        `Reading page ${page.number} to find its language`
+      ));
+      detected = detectLanguages(page.text ?? '');
+      if (tesseractLanguages(detected) !== tesseractLanguages([probe])) {
+        Object.assign(page, { text: undefined, method: undefined, confidence: undefined, lines: undefined });
+      }
+    }
+    return detected;
+  }
+
+  private async recognizePage(
+    context: ProcessingContext,
+    page: ProcessingContext['pages'][number],
+    image: Blob,
+    progress: (fraction: number) => void
+  ): Promise<void> {
+    this.ocrProgress = progress;
+    try {
+      const { data } = await this.worker!.recognize(image);
+      // Boxes come back in image pixels; normalized images sit inset on their page
+      const size = await imageSize(image);
+      const frame = isNormalizedDocument(context.input) ? renditionFrame(size) : FULL_PAGE;
+      // Orientation is taken from the first page read
+      if (!context.pages.some(other => other !== page && other.method === 'ocr')) {
+        context.orientation = data.orientation;
+      }
+      Object.assign(page, {
+        text: data.text,
+        method: 'ocr',
+        confidence: data.confidence,
+        lines: layoutFromOcr(data.lines, size, frame)
+      });
+    } finally {
+      this.ocrProgress = null;
+    }
+  }
+
+  // Only pages without usable text are recognized
+  private async recognizePages(context: ProcessingContext): Promise<void> {
+    const pending = context.pages.filter(page => page.method === undefined);
+
+    if (pending.length > 0) {
+      await this.initialize(context.languages);
+      const renderer = context.pdfBytes && pending.some(page => !page.image)
+        ? await openPdfRenderer(context.pdfBytes)
+        : null;
+
+      try {
+        // Extract text using OCR with language support, one page image at a time
+        for (let i = 0; i < pending.length; i++) {
+          const page = pending[i];
+          const message = `Page ${page.number} of ${context.pages.length}`;
+          context.report(i / pending.length, message);
+          const image = page.image ?? await renderer!.render(page.number);
+          await this.recognizePage(context, page, image, fraction => context.report((i + fraction) / pending.length, message));
+        }
+      } finally {
+        await renderer?.close();
+      }
+    } else {
+      context.report(1, 'Not needed, every page has been read');
+    }
+
+    context.text = context.pages.map(page => page.text ?? '').join('\n\f\n');
+    context.confidence = context.pages.length > 0
+      ? context.pages.reduce((sum, page) => sum + (page.confidence ?? 0), 0) / context.pages.length
+      : 0;
+  }
+
+  private classify(context: ProcessingContext) {
+    const { text, options } = context;
+    context.tokens = tokenizer.tokenize(text) ?? [];
 
     // Apply custom NLP model if available
     if (options.category && this.customModels.has(options.category)) {
@@ -283,39 +790,121 @@ class DocumentProcessor {
       // Apply custom model processing here
     }
 
+    context.classification = this.classifyDocument(text, context.tokens, options.category);
+  }
+
+  private extractFields(context: ProcessingContext) {
+    // Read the category's required fields next to their labels, and whatever
+    // else the custom rules check
+    const names = [...categoryFields(context.classification?.category ?? ''), ...ruleFields(context.options.customValidations ?? [])];
+    context.fields = extractRequiredFields(context.text, Array.from(new Set(names)), {
+      language: context.language,
+      pageConfidence: context.pages.map(page => page.confidence ?? 0)
+    });
+
+    // Process with NLP using language-specific models
+    const doc = nlp.readDoc(context.text);
+
     // Extract entities with enhanced NLP
-    const entities = this.extractEntities(doc, text);
-    
-    // Classify document
-    const classification = this.classifyDocument(text, tokens, options.category);
-    
-    // Validate document with enhanced rules
-    const validation = this.validateDocument(text, classification.category, options.customValidations);
-    
+    context.entities = this.extractEntities(doc, context.text, context.language);
+
     // Analyze content
-    const analysis = this.analyzeContent(doc, text);
+    context.analysis = this.analyzeContent(doc, context.text);
+  }
+
+  private extractTables(context: ProcessingContext) {
+    context.transactions = extractTransactions(
+      context.pages.map(page => ({ number: page.number, lines: page.lines ?? [] })),
+      { language: context.language }
+    );
+    const count = context.transactions.length;
+    context.report(1, count > 0 ? `${count} transaction${count === 1 ? '' : 's'}` : 'No tables found');
+  }
+
+  // Packets scanned into one file: each page is classified on its own to
+  // find where one document ends and the next begins
+  private detectDocuments(context: ProcessingContext) {
+    context.segments = proposeSegments(context.pages.map(page => ({ number: page.number, text: page.text ?? '' })));
+    const count = context.segments.length;
+    context.report(1, count > 1 ? `${count} documents in this file` : 'One document');
+  }
+
+  private checkFields(context: ProcessingContext) {
+    // Validate document with enhanced rules
+    context.validation = this.validateFields(
+      context.text,
+      context.fields ?? {},
+      context.classification?.category ?? '',
+      context.options.customValidations
+    );
+
+    // Day and month could be either way round; a person has to say which
+    for (const field of Object.values(context.fields ?? {})) {
+      if (field.type !== 'date' || !field.alternatives) continue;
+      context.validation.issues.push(
+        `Ambiguous date for ${field.name}: ${field.raw} could be ${[field.value, ...field.alternatives].join(' or ')}`
+      );
+      context.validation.isValid = false;
+    }
+
+    // Passports and ID cards: every check digit has to match and the
+    // document must still be valid
+    const identity = readMachineReadableZone(context.text);
+    if (identity) {
+      context.identity = identity;
+      const issues = mrzIssues(identity);
+      if (issues.length > 0) {
+        context.validation.issues.push(...issues);
+        context.validation.isValid = false;
+      }
+    }
+  }
+
+  private buildResult(context: ProcessingContext, startTime: number): ProcessingResult {
+    const { input, text } = context;
 
     // Calculate readability
     const readabilityScore = this.calculateReadabilityScore(text);
 
-    const result: ProcessingResult = {
+    return {
       text,
-      confidence: data.confidence,
+      confidence: context.confidence,
       metadata: {
-        language: data.language,
-        orientation: data.orientation,
-        wordCount: tokens.length,
+        language: context.language,
+        languages: context.languages,
+        orientation: context.orientation,
+        wordCount: context.tokens.length,
         processingTime: Date.now() - startTime,
         readabilityScore,
-        complexity: this.determineComplexity(readabilityScore)
+        complexity: this.determineComplexity(readabilityScore),
+        pageCount: context.pages.length,
+        pages: context.pages.map(page => ({
+          number: page.number,
+          method: page.method ?? 'ocr',
+          confidence: page.confidence ?? 0,
+          ...(page.corrections && { corrections: page.corrections })
+        })),
+        ...(isNormalizedDocument(input) && {
+          source: {
+            type: input.sourceType,
+            originalName: input.original.name,
+            renditionName: input.rendition.name
+          }
+        })
       },
-      entities,
-      classification,
-      validation,
-      analysis
+      layout: context.pages.map(page => ({ number: page.number, lines: page.lines ?? [] })),
+      ...(isNormalizedDocument(input) && context.pages.every(page => page.image) && {
+        pageImages: context.pages.map(page => page.image!)
+      }),
+      fields: context.fields ?? {},
+      transactions: context.transactions ?? [],
+      ...(context.identity && { identity: context.identity }),
+      segments: context.segments ?? [],
+      entities: context.entities ?? { dates: [], names: [], organizations: [], locations: [], amounts: [] },
+      classification: context.classification ?? { category: '', confidence: 0, keywords: [], summary: '' },
+      validation: context.validation ?? { isValid: true, issues: [], ruleIssues: [], requiredFields: [], completeness: 0 },
+      analysis: context.analysis ?? { sentiment: 0, urgency: 0, keyPhrases: [], topics: [], relationships: [] }
     };
-
-    return result;
   }
 
   // Add custom NLP model for specific document types
@@ -323,45 +912,22 @@ class DocumentProcessor {
     this.customModels.set(category, model);
   }
 
-  private extractEntities(doc: any, text: string) {
-    const entities = {
-      dates: [] as string[],
-      names: [] as string[],
-      organizations: [] as string[],
-      locations: [] as string[],
-      amounts: [] as string[]
-    };
-
-    // Extract dates
-    const datePatterns = [
-      /\d{4}-\d{2}-\d{2}/g,
-      /\d{2}\/\d{2}\/\d{4}/g,
-      /\d{1,2}\s(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\s\d{4}/gi
-    ];
-
-    datePatterns.forEach(pattern => {
-      const matches = text.match(pattern);
-      if (matches) {
-        entities.dates.push(...matches);
-      }
-    });
+  private extractEntities(doc: any, text: string, language: string): ProcessingResult['entities'] {
+    // Dates and amounts as the document's locale writes them
+    const dates = readDates(text, dateReading(language, text));
+    const amounts = readAmounts(text, language, true);
 
     // Extract names and organizations using compromise
     const compromiseDoc = compromise(text);
-    entities.names = compromiseDoc.people().out('array');
-    entities.organizations = compromiseDoc.organizations().out('array');
-    
-    // Extract locations
-    entities.locations = compromiseDoc.places().out('array');
-
-    // Extract monetary amounts
-    const amountPattern = /\$\s?\d+(?:\.\d{2})?|\d+(?:\.\d{2})?\s?(?:USD|EUR|GBP)/g;
-    const amounts = text.match(amountPattern);
-    if (amounts) {
-      entities.amounts = amounts;
-    }
 
-    return entities;
+    return {
+      dates,
+      names: compromiseDoc.people().out('array'),
+      organizations: compromiseDoc.organizations().out('array'),
+      // Extract locations
+      locations: compromiseDoc.places().out('array'),
+      amounts
+    };
   }
 
   private classifyDocument(text: string, tokens: string[], category?: string): ProcessingResult['classification'] {
@@ -402,10 +968,19 @@ class DocumentProcessor {
     };
   }
 
-  private validateDocument(text: string, category: string, customValidations?: any[]): ProcessingResult['validation'] {
+  private validateFields(
+    text: string,
+    fields: ExtractedFields,
+    category: string,
+    customValidations: ValidationRule[] = []
+  ): ProcessingResult['validation'] {
+    // Only errors make the document invalid; warnings and notes are kept for review
+    const ruleIssues = evaluateRules(customValidations, fields, text);
+    const ruleErrors = ruleIssues.filter(issue => issue.severity === 'error').map(issue => issue.message);
     const validation = {
-      isValid: true,
-      issues: [] as string[],
+      isValid: ruleErrors.length === 0,
+      issues: [...ruleErrors],
+      ruleIssues,
       requiredFields: [] as { name: string; found: boolean; value?: string }[],
       completeness: 0
     };
@@ -417,51 +992,26 @@ class DocumentProcessor {
     const totalFields = categoryConfig.requiredFields.length;
 
     categoryConfig.requiredFields.forEach(field => {
-      const fieldResult = this.findField(text, field, categoryConfig.patterns);
+      const extracted = fields[field as keyof ExtractedFields];
       validation.requiredFields.push({
         name: field,
-        found: fieldResult.found,
-        value: fieldResult.value
+        found: extracted !== undefined,
+        value: extracted?.raw
       });
 
-      if (!fieldResult.found) {
+      if (!extracted) {
         validation.issues.push(`Missing required field: ${field}`);
       } else {
         foundFields++;
       }
     });
 
-    // Apply custom validations if provided
-    if (customValidations) {
-      customValidations.forEach(customValidation => {
-        const validationResult = this.applyCustomValidation(text, customValidation);
-        if (!validationResult.valid) {
-          validation.issues.push(validationResult.issue);
-        }
-      });
-    }
-
     validation.completeness = (foundFields / totalFields) * 100;
     validation.isValid = validation.issues.length === 0;
 
     return validation;
   }
 
-  private findField(text: string, field: string, patterns: RegExp[]): { found: boolean; value?: string } {
-    for (const pattern of patterns) {
-      const match = text.match(pattern);
-      if (match) {
-        return { found: true, value: match[0] };
-      }
-    }
-    return { found: false };
-  }
-
-  private applyCustomValidation(text: string, validation: any): { valid: boolean; issue?: string } {
-    // Implement custom validation logic
-    return { valid: true };
-  }
-
   private analyzeContent(doc: any, text: string): ProcessingResult['analysis'] {
     // Extract key phrases using TextRank algorithm
     const keyPhrases = this.extractKeyPhrases(text);
@@ -558,7 +1108,8 @@ class DocumentProcessor {
   }
 
   private findRelationships(doc: any): ProcessingResult['analysis']['relationships'] {
-    return [];
+    // wink splits the sentences; compromise tags the people and companies in each
+    return extractRelationships(doc.sentences().out());
   }
 
   async terminate() {
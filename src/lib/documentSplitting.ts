@@ -0,0 +1,199 @@
+// Splits a file that holds several documents into one CustomerDocument per
+// page range. The ranges start from what processing proposed and are
+// confirmed or adjusted by a person first. Ranges that match an open request
+// fulfil it; the rest become new documents for the customer.
+import { PDFDocument } from 'pdf-lib';
+import type { CustomerDocument, StoredDocumentFile } from '../types';
+import { documentLifecycle } from './documentLifecycle';
+import { isOutstanding } from './documentStatus';
+import {
+  attachFiles,
+  documentFileKey,
+  documentStorage,
+  downloadStoredFile,
+  findPreviewFile,
+  persistDocumentFiles
+} from './documentStorage';
+import { currentReviewer } from './extractionReview';
+import { processingQueue } from './jobQueue';
+import type { PageSegment } from './pageClassification';
+import { matchRequests, pageKindLabel } from './pageClassification';
+import { repositories } from './repositories';
+
+export interface SplitPart {
+  // 1-based and inclusive
+  from: number;
+  to: number;
+  name: string;
+  // The open request these pages fulfil; a new document when unset
+  requestId?: string;
+}
+
+export interface SplitResult {
+  // One per part, in page order
+  parts: CustomerDocument[];
+  // The packet, archived when its status allows
+  original: CustomerDocument;
+}
+
+// The customer's requests that a part could still be handed in for
+export async function openRequests(document: CustomerDocument): Promise<CustomerDocument[]> {
+  if (!document.customer_id) return [];
+  const documents = await repositories.documents.listByCustomer(document.customer_id);
+  return documents.filter(candidate =>
+    candidate.id !== document.id &&
+    isOutstanding(candidate.status) &&
+    documentLifecycle.canTransition(candidate, 'received').allowed
+  );
+}
+
+function pageRange(from: number, to: number): string {
+  return from === to ? `page ${from}` : `pages ${from}–${to}`;
+}
+
+// The proposal as parts: matched requests lend their name, the rest are
+// named after what they look like
+export function proposeParts(document: CustomerDocument, segments: PageSegment[], requests: CustomerDocument[]): SplitPart[] {
+  const matches = matchRequests(segments, requests);
+  return segments.map((segment, i) => {
+    const request = requests.find(candidate => candidate.id === matches[i]);
+    return {
+      from: segment.from,
+      to: segment.to,
+      name: request?.name ?? (segment.kind ? pageKindLabel(segment.kind) : `${document.name} (${pageRange(segment.from, segment.to)})`),
+      ...(request && { requestId: request.id })
+    };
+  });
+}
+
+// Parts have to cover every page once, in order
+export function checkParts(parts: SplitPart[], pageCount: number): string | null {
+  if (parts.length < 2) return 'Split into at least two documents';
+  let next = 1;
+  for (const part of parts) {
+    if (part.from !== next || part.to < part.from) return `The parts must run in order from page 1 without gaps (at page ${next})`;
+    if (!part.name.trim()) return `The part with ${pageRange(part.from, part.to)} needs a name`;
+    next = part.to + 1;
+  }
+  if (next !== pageCount + 1) return `The parts must end on the last page, ${pageCount}`;
+  const requestIds = parts.flatMap(part => (part.requestId ? [part.requestId] : []));
+  if (new Set(requestIds).size !== requestIds.length) return 'Each request can only be fulfilled by one part';
+  return null;
+}
+
+function fileName(name: string): string {
+  return `${name.trim().replace(/[\\/:*?"<>|]+/g, '-')}.pdf`;
+}
+
+// Copies each part's pages into a PDF of its own, files it under its
+// document and queues it for processing. The packet is archived once every
+// part has been stored.
+// Puts back what a failed split changed: requests get the files and status
+// they had, documents made for it go, and so do the parts' files, except one
+// a request already had under the same key
+async function undoSplit(made: CustomerDocument[], requests: CustomerDocument[], files: StoredDocumentFile[]): Promise<void> {
+  const kept = new Set(requests.flatMap(request => (request.files ?? []).map(file => file.key)));
+  await Promise.all([
+    ...requests.map(request => repositories.documents.update(request.id, {
+      files: request.files ?? [],
+      validation_passed: request.validation_passed,
+      status: request.status,
+      status_changed_at: request.status_changed_at,
+      status_history: request.status_history ?? []
+    })),
+    ...made.map(doc => repositories.documents.remove(doc.id)),
+    ...files.filter(file => !kept.has(file.key)).map(file => documentStorage.remove(file.key))
+  ]);
+}
+
+export async function splitDocument(document: CustomerDocument, parts: SplitPart[]): Promise<SplitResult> {
+  const source = findPreviewFile(document);
+  if (!source) {
+    throw new Error('Only PDF documents can be split');
+  }
+  const pdf = await PDFDocument.load(await (await downloadStoredFile(source)).arrayBuffer());
+  const problem = checkParts(parts, pdf.getPageCount());
+  if (problem) {
+    throw new Error(problem);
+  }
+  if (!document.customer_id) {
+    throw new Error('The document has to belong to a customer to be split');
+  }
+
+  const actor = await currentReviewer();
+  const now = new Date().toISOString();
+
+  // Everything that can fail without leaving a trace goes first: the requests
+  // are looked up and every part's PDF is built
+  const prepared: Array<{ part: SplitPart; file: File; request?: CustomerDocument }> = [];
+  for (const part of parts) {
+    const request = part.requestId ? await repositories.documents.get(part.requestId) : undefined;
+    if (part.requestId && !request) {
+      throw new Error(`The request for ${part.name} no longer exists`);
+    }
+    const output = await PDFDocument.create();
+    const indices = Array.from({ length: part.to - part.from + 1 }, (_, i) => part.from - 1 + i);
+    (await output.copyPages(pdf, indices)).forEach(page => output.addPage(page));
+    const file = new File([await output.save()], fileName(part.name), { type: 'application/pdf' });
+    prepared.push({ part, file, request: request ?? undefined });
+  }
+
+  // Then the new documents, every part's file, the links between them and the
+  // packet's archiving. If any of it fails the split is undone and the packet
+  // stays as it was; the parts are only queued for processing after that.
+  const made: CustomerDocument[] = [];
+  const touched: CustomerDocument[] = [];
+  const stored: Array<{ target: CustomerDocument; files: StoredDocumentFile[]; reason: string }> = [];
+  const created: CustomerDocument[] = [];
+  let original: CustomerDocument;
+  try {
+    for (const { part, file, request } of prepared) {
+      const target = request ?? await repositories.documents.create(document.customer_id, {
+        name: part.name.trim(),
+        type: document.type,
+        status: 'received',
+        status_changed_at: now,
+        due_date: now.slice(0, 10),
+        last_reminder: now,
+        reminder_count: 0,
+        ai_urgency_score: document.ai_urgency_score
+      });
+      if (!request) made.push(target);
+      const key = documentFileKey({ customerId: target.customer_id, documentId: target.id }, 'original', file.name);
+      stored.push({
+        target,
+        files: await persistDocumentFiles([{ kind: 'original', key, file }]),
+        reason: `Split from ${document.name}, ${pageRange(part.from, part.to)}`
+      });
+    }
+
+    for (const { target, files, reason } of stored) {
+      if (!made.includes(target)) touched.push(target);
+      // The packet was scanned when it came in, and the parts are its pages
+      let linked = await attachFiles(target, files, { validation_passed: document.validation_passed });
+      if (documentLifecycle.canTransition(linked, 'received').allowed) {
+        linked = await documentLifecycle.apply(linked, 'received', { actor, reason });
+      }
+      created.push(linked);
+    }
+
+    const archive = { actor, reason: `Split into ${parts.length} documents` };
+    original = documentLifecycle.canTransition(document, 'archived', archive).allowed
+      ? await documentLifecycle.apply(document, 'archived', archive)
+      : document;
+  } catch (error) {
+    await undoSplit(made, touched, stored.flatMap(({ files }) => files))
+      .catch(cleanup => console.error('A failed split could not be fully undone:', cleanup));
+    throw error;
+  }
+
+  for (const part of created) {
+    try {
+      await processingQueue.enqueue(part.id);
+    } catch (error) {
+      console.error('Document could not be queued for processing:', error);
+    }
+  }
+
+  return { parts: created, original };
+}
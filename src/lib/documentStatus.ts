@@ -0,0 +1,50 @@
+import type { DocumentStatus } from '../types';
+
+export const DOCUMENT_STATUSES: DocumentStatus[] = [
+  'requested',
+  'pending',
+  'overdue',
+  'received',
+  'under_review',
+  'rejected',
+  'approved',
+  'expired',
+  'quarantined',
+  'archived'
+];
+
+export const documentStatusLabels: Record<DocumentStatus, string> = {
+  requested: 'Requested',
+  pending: 'Pending',
+  overdue: 'Overdue',
+  received: 'Received',
+  under_review: 'Under Review',
+  rejected: 'Rejected',
+  approved: 'Approved',
+  expired: 'Expired',
+  quarantined: 'Quarantined',
+  archived: 'Archived'
+};
+
+export const documentStatusColors: Record<DocumentStatus, string> = {
+  requested: 'bg-gray-100 text-gray-800',
+  pending: 'bg-yellow-100 text-yellow-800',
+  overdue: 'bg-red-100 text-red-800',
+  received: 'bg-blue-100 text-blue-800',
+  under_review: 'bg-indigo-100 text-indigo-800',
+  rejected: 'bg-orange-100 text-orange-800',
+  approved: 'bg-green-100 text-green-800',
+  expired: 'bg-red-100 text-red-800',
+  quarantined: 'bg-purple-100 text-purple-800',
+  archived: 'bg-gray-100 text-gray-500'
+};
+
+// Still waiting on the customer
+export function isOutstanding(status: DocumentStatus): boolean {
+  return ['requested', 'pending', 'overdue', 'rejected', 'expired'].includes(status);
+}
+
+// The customer has handed something in
+export function isSubmitted(status: DocumentStatus): boolean {
+  return ['received', 'under_review', 'approved'].includes(status);
+}
@@ -0,0 +1,348 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CustomerDocument, StorageBackendName, StoredDocumentFile } from '../types';
+import type { DocumentFingerprint } from './duplicateDetection';
+import type { DocumentLayout } from './textLayout';
+import { supabase } from './supabase';
+import { repositories } from './repositories';
+import type { NewCustomerDocument } from './repositories';
+
+export const UPLOAD_BUCKET = 'documents';
+
+// Signed URLs are handed straight to the preview or a download link, so they
+// only need to outlive a single page view
+export const SIGNED_URL_TTL_SECONDS = 5 * 60;
+
+export interface SignedUrlOptions {
+  expiresIn?: number;
+  // File name to download as; omitted for inline preview
+  download?: string;
+}
+
+export interface DocumentStorage {
+  readonly backend: StorageBackendName;
+  put(key: string, body: Blob, contentType: string): Promise<void>;
+  exists(key: string): Promise<boolean>;
+  signedUrl(key: string, options?: SignedUrlOptions): Promise<string>;
+  remove(key: string): Promise<void>;
+}
+
+function splitKey(key: string): { directory: string; name: string } {
+  const slash = key.lastIndexOf('/');
+  return slash < 0
+    ? { directory: '', name: key }
+    : { directory: key.slice(0, slash), name: key.slice(slash + 1) };
+}
+
+export class SupabaseDocumentStorage implements DocumentStorage {
+  readonly backend = 'supabase';
+
+  constructor(private client: SupabaseClient, private bucket: string) {}
+
+  private get objects() {
+    return this.client.storage.from(this.bucket);
+  }
+
+  async put(key: string, body: Blob, contentType: string): Promise<void> {
+    const { error } = await this.objects.upload(key, body, { contentType, upsert: true });
+    if (error) throw new Error(`Failed to store ${key}: ${error.message}`);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    const { directory, name } = splitKey(key);
+    const { data, error } = await this.objects.list(directory, { search: name, limit: 100 });
+    if (error) throw new Error(`Failed to look up ${key}: ${error.message}`);
+    return data.some(object => object.name === name);
+  }
+
+  async signedUrl(key: string, options: SignedUrlOptions = {}): Promise<string> {
+    const { data, error } = await this.objects.createSignedUrl(
+      key,
+      options.expiresIn ?? SIGNED_URL_TTL_SECONDS,
+      { download: options.download ?? false }
+    );
+    if (error || !data) throw new Error(`Failed to sign ${key}: ${error?.message ?? 'no URL returned'}`);
+    return data.signedUrl;
+  }
+
+  async remove(key: string): Promise<void> {
+    const { error } = await this.objects.remove([key]);
+    if (error) throw new Error(`Failed to delete ${key}: ${error.message}`);
+  }
+}
+
+type S3Operation = 'put' | 'get' | 'head' | 'delete';
+
+export interface S3StorageConfig {
+  // Signs requests for the bucket, e.g. the s3-presign Edge Function
+  presignEndpoint: string;
+  headers?: () => Promise<Record<string, string>>;
+}
+
+// Works against AWS S3 and S3-compatible servers such as a local MinIO. The
+// bucket's credentials stay on the server: every request goes to a
+// presigned URL from the presign endpoint, so the bucket's CORS rules have
+// to allow this origin.
+export class S3DocumentStorage implements DocumentStorage {
+  readonly backend = 's3';
+
+  constructor(private config: S3StorageConfig) {}
+
+  private async presign(
+    operation: S3Operation,
+    key: string,
+    options: SignedUrlOptions & { contentType?: string } = {}
+  ): Promise<string> {
+    const response = await fetch(this.config.presignEndpoint, {
+      method: 'POST',
+      headers: { ...(await this.config.headers?.()), 'Content-Type': 'application/json' },
+      body: JSON.stringify({ operation, key, ...options })
+    });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok || typeof body.url !== 'string') {
+      throw new Error(`Failed to sign ${key}: ${body.error ?? `server responded ${response.status}`}`);
+    }
+    return body.url;
+  }
+
+  async put(key: string, body: Blob, contentType: string): Promise<void> {
+    const response = await fetch(await this.presign('put', key, { contentType }), {
+      method: 'PUT',
+      headers: { 'Content-Type': contentType },
+      body
+    });
+    if (!response.ok) throw new Error(`Failed to store ${key}: ${response.status} ${response.statusText}`);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    const response = await fetch(await this.presign('head', key), { method: 'HEAD' });
+    if (response.status === 404) return false;
+    if (!response.ok) throw new Error(`Failed to look up ${key}: ${response.status} ${response.statusText}`);
+    return true;
+  }
+
+  signedUrl(key: string, options: SignedUrlOptions = {}): Promise<string> {
+    return this.presign('get', key, { expiresIn: options.expiresIn ?? SIGNED_URL_TTL_SECONDS, download: options.download });
+  }
+
+  async remove(key: string): Promise<void> {
+    const response = await fetch(await this.presign('delete', key), { method: 'DELETE' });
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Failed to delete ${key}: ${response.status} ${response.statusText}`);
+    }
+  }
+}
+
+// Keeps files in the browser's origin private file system, which survives
+// reloads without any server. "Signed" URLs are object URLs revoked once
+// they expire.
+export class FileSystemDocumentStorage implements DocumentStorage {
+  readonly backend = 'filesystem';
+
+  constructor(private rootName: string = UPLOAD_BUCKET) {}
+
+  private async directory(path: string, create: boolean): Promise<FileSystemDirectoryHandle> {
+    let handle = await (await navigator.storage.getDirectory()).getDirectoryHandle(this.rootName, { create: true });
+    for (const segment of path.split('/').filter(Boolean)) {
+      handle = await handle.getDirectoryHandle(segment, { create });
+    }
+    return handle;
+  }
+
+  private async fileHandle(key: string, create: boolean): Promise<FileSystemFileHandle> {
+    const { directory, name } = splitKey(key);
+    return (await this.directory(directory, create)).getFileHandle(name, { create });
+  }
+
+  async put(key: string, body: Blob): Promise<void> {
+    const writable = await (await this.fileHandle(key, true)).createWritable();
+    await writable.write(body);
+    await writable.close();
+  }
+
+  // Bytes written so far, or null when there is no such file
+  async size(key: string): Promise<number | null> {
+    try {
+      return (await (await this.fileHandle(key, false)).getFile()).size;
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'NotFoundError') return null;
+      throw error;
+    }
+  }
+
+  // Writes a chunk at an offset, keeping what is already there, so a file
+  // can be written a part at a time
+  async write(key: string, offset: number, chunk: Blob): Promise<void> {
+    const writable = await (await this.fileHandle(key, false)).createWritable({ keepExistingData: true });
+    await writable.write({ type: 'write', position: offset, data: chunk });
+    await writable.close();
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await this.fileHandle(key, false);
+      return true;
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'NotFoundError') return false;
+      throw error;
+    }
+  }
+
+  async signedUrl(key: string, options: SignedUrlOptions = {}): Promise<string> {
+    const file = await (await this.fileHandle(key, false)).getFile();
+    const url = URL.createObjectURL(file);
+    setTimeout(() => URL.revokeObjectURL(url), (options.expiresIn ?? SIGNED_URL_TTL_SECONDS) * 1000);
+    return url;
+  }
+
+  async remove(key: string): Promise<void> {
+    const { directory, name } = splitKey(key);
+    await (await this.directory(directory, false)).removeEntry(name);
+  }
+}
+
+// VITE_STORAGE_BACKEND picks the backend; without it Supabase Storage is
+// used when configured and the browser file system otherwise. S3 requests
+// are signed by VITE_S3_PRESIGN_URL, or the project's s3-presign function.
+function createDocumentStorage(): DocumentStorage {
+  const env = import.meta.env;
+  const backend = env.VITE_STORAGE_BACKEND as StorageBackendName | undefined;
+
+  if (backend === 's3') {
+    const client = supabase;
+    const presignEndpoint = env.VITE_S3_PRESIGN_URL
+      ?? (env.VITE_SUPABASE_URL && `${env.VITE_SUPABASE_URL}/functions/v1/s3-presign`);
+    if (!presignEndpoint) {
+      throw new Error('The s3 storage backend needs VITE_S3_PRESIGN_URL or a Supabase project to sign requests');
+    }
+    return new S3DocumentStorage({
+      presignEndpoint,
+      headers: async (): Promise<Record<string, string>> => {
+        if (!client) return {};
+        const { data } = await client.auth.getSession();
+        return { authorization: `Bearer ${data.session?.access_token ?? env.VITE_SUPABASE_ANON_KEY}` };
+      }
+    });
+  }
+
+  if (backend !== 'filesystem' && supabase) {
+    return new SupabaseDocumentStorage(supabase, UPLOAD_BUCKET);
+  }
+
+  return new FileSystemDocumentStorage();
+}
+
+export const documentStorage = createDocumentStorage();
+
+// Objects live under the owning customer and document so a document's files
+// can be listed or removed together
+export function documentFileKey(
+  owner: { customerId?: string; documentId: string },
+  kind: StoredDocumentFile['kind'],
+  fileName: string
+): string {
+  return `${owner.customerId ?? 'unassigned'}/${owner.documentId}/${kind}/${fileName}`;
+}
+
+// Makes sure each file is in storage (resumable uploads may already have put
+// it there) and returns the records to link to the document row
+export async function persistDocumentFiles(
+  entries: Array<{
+    kind: StoredDocumentFile['kind'];
+    key: string;
+    file: File;
+    fingerprint?: DocumentFingerprint;
+  }>,
+  storage: DocumentStorage = documentStorage
+): Promise<StoredDocumentFile[]> {
+  const uploadedAt = new Date().toISOString();
+  return Promise.all(entries.map(async ({ kind, key, file, fingerprint }) => {
+    const contentType = file.type || 'application/octet-stream';
+    if (!(await storage.exists(key))) {
+      await storage.put(key, file, contentType);
+    }
+    return {
+      kind,
+      backend: storage.backend,
+      key,
+      name: file.name,
+      content_type: contentType,
+      size: file.size,
+      uploaded_at: uploadedAt,
+      ...(fingerprint && {
+        sha256: fingerprint.sha256,
+        perceptual_hashes: fingerprint.perceptualHashes
+      })
+    };
+  }));
+}
+
+// Replaces the document's files of the same kinds with the new ones
+export async function attachFiles(
+  document: CustomerDocument,
+  files: StoredDocumentFile[],
+  changes: Partial<NewCustomerDocument> = {}
+): Promise<CustomerDocument> {
+  const kinds = new Set(files.map(file => file.kind));
+  return repositories.documents.update(document.id, {
+    ...changes,
+    files: [...(document.files ?? []).filter(file => !kinds.has(file.kind)), ...files]
+  });
+}
+
+// The PDF rendition when there is one, since that is what the viewer renders
+export function findPreviewFile(document: Pick<CustomerDocument, 'files'>): StoredDocumentFile | undefined {
+  return document.files?.find(file => file.kind === 'rendition')
+    ?? document.files?.find(file => file.kind === 'original' && file.content_type === 'application/pdf');
+}
+
+export function findOriginalFile(document: Pick<CustomerDocument, 'files'>): StoredDocumentFile | undefined {
+  return document.files?.find(file => file.kind === 'original');
+}
+
+export function signedFileUrl(file: StoredDocumentFile, options: SignedUrlOptions = {}): Promise<string> {
+  if (file.backend !== documentStorage.backend) {
+    return Promise.reject(new Error(`${file.name} is kept in ${file.backend} storage, which is not configured`));
+  }
+  return documentStorage.signedUrl(file.key, options);
+}
+
+// Fetches a stored file back into a File, e.g. to process it again
+export async function downloadStoredFile(file: StoredDocumentFile): Promise<File> {
+  const response = await fetch(await signedFileUrl(file));
+  if (!response.ok) {
+    throw new Error(`Failed to download ${file.name}: ${response.status} ${response.statusText}`);
+  }
+  return new File([await response.blob()], file.name, { type: file.content_type });
+}
+
+// Writes a file that processing derives from the document in place of the
+// one of the same kind. These change from run to run, so they are put even
+// when the key already exists.
+export async function replaceDocumentFile(
+  document: CustomerDocument,
+  kind: StoredDocumentFile['kind'],
+  file: File,
+  storage: DocumentStorage = documentStorage
+): Promise<CustomerDocument> {
+  const key = documentFileKey({ customerId: document.customer_id, documentId: document.id }, kind, file.name);
+  await storage.put(key, file, file.type || 'application/octet-stream');
+  return attachFiles(document, await persistDocumentFiles([{ kind, key, file }], storage));
+}
+
+// Writes the text layout of a processed document next to its files
+export function storeDocumentLayout(
+  document: CustomerDocument,
+  layout: DocumentLayout,
+  storage: DocumentStorage = documentStorage
+): Promise<CustomerDocument> {
+  const file = new File([JSON.stringify(layout)], 'layout.json', { type: 'application/json' });
+  return replaceDocumentFile(document, 'layout', file, storage);
+}
+
+// Null when the document hasn't been processed since layouts were kept
+export async function loadDocumentLayout(document: Pick<CustomerDocument, 'files'>): Promise<DocumentLayout | null> {
+  const stored = document.files?.find(file => file.kind === 'layout');
+  if (!stored) return null;
+  const file = await downloadStoredFile(stored);
+  return JSON.parse(await file.text()) as DocumentLayout;
+}
@@ -1,68 +1,309 @@
 import { CustomerDocument } from '../types';
+import {
+  detectFileType,
+  inspectImage,
+  inspectOle,
+  inspectPdf,
+  inspectZip,
+  isEncryptedOoxml,
+  readZipEntry
+} from './fileInspection';
+import type { DetectedFileType, ImageFileType } from './fileInspection';
+
+export type ValidationIssueCode =
+  | 'EMPTY_FILE'
+  | 'FILE_TOO_LARGE'
+  | 'UNSUPPORTED_FORMAT'
+  | 'TYPE_MISMATCH'
+  | 'PDF_MISSING_HEADER'
+  | 'PDF_TRUNCATED'
+  | 'PDF_MISSING_XREF'
+  | 'PDF_ENCRYPTED'
+  | 'PDF_NO_PAGES'
+  | 'PDF_PAGE_COUNT_UNKNOWN'
+  | 'DOCX_CORRUPT'
+  | 'DOCX_MISSING_PART'
+  | 'DOCX_EMPTY'
+  | 'DOCX_ENCRYPTED'
+  | 'DOC_CORRUPT'
+  | 'DOC_EMPTY'
+  | 'IMAGE_CORRUPT'
+  | 'IMAGE_LOW_RESOLUTION';
+
+export interface ValidationIssue {
+  code: ValidationIssueCode;
+  severity: 'error' | 'warning';
+  message: string;
+  remediation: string;
+}
 
 export interface ValidationResult {
   passed: boolean;
-  type: string;
+  // Type as sniffed from the file's bytes, not the browser-reported MIME type
+  type: DetectedFileType;
+  declaredType: string;
   size: number;
   format: string;
-  issues: string[];
-  confidence: number;
-  extractedData?: {
-    title?: string;
-    date?: string;
-    category?: string;
+  issues: ValidationIssue[];
+  details: {
+    pdfVersion?: string;
+    pageCount?: number;
+    encrypted?: boolean;
+    width?: number;
+    height?: number;
   };
 }
 
-export async function validateDocument(file: File): Promise<ValidationResult> {
-  // Simulate API call
-  await new Promise(resolve => setTimeout(resolve, 1000));
+// A file sent in one request has to fit in memory and in one request;
+// resumable uploads send it in chunks, so large scans can come in
+export const MAX_FILE_SIZE = 10 * 1024 * 1024;
+export const MAX_RESUMABLE_FILE_SIZE = 100 * 1024 * 1024;
+// Below roughly 150 DPI on a letter-sized page OCR becomes unreliable
+const MIN_IMAGE_EDGE = 1000;
 
-  const issues: string[] = [];
-  
-  // Check file type
-  const allowedTypes = ['application/pdf', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'];
-  if (!allowedTypes.includes(file.type)) {
-    issues.push('Invalid file type. Only PDF and Word documents are allowed.');
+const remediations: Record<ValidationIssueCode, string> = {
+  EMPTY_FILE: 'The file has no content. Export or scan the document again and re-upload it.',
+  FILE_TOO_LARGE: 'Reduce the file size, for example by scanning at 200 DPI or splitting it into parts.',
+  UNSUPPORTED_FORMAT: 'Upload the document as a PDF, Word (.doc, .docx) or image (JPEG, PNG, HEIC, TIFF) file.',
+  TYPE_MISMATCH: 'Rename the file with the correct extension, or re-save it in the format its name suggests.',
+  PDF_MISSING_HEADER: 'The file is not a readable PDF. Re-export it from the original application using "Save as PDF".',
+  PDF_TRUNCATED: 'The PDF appears to be cut off. Download or export it again and re-upload the complete file.',
+  PDF_MISSING_XREF: 'The PDF structure is damaged. Open it in a PDF viewer and use "Print to PDF" to produce a repaired copy.',
+  PDF_ENCRYPTED: 'Remove the password protection (open the PDF and save an unprotected copy) before uploading.',
+  PDF_NO_PAGES: 'The PDF contains no pages. Check that the right file was selected.',
+  PDF_PAGE_COUNT_UNKNOWN: 'No action needed; the page count will be confirmed during processing.',
+  DOCX_CORRUPT: 'The Word file is damaged. Open it in Word and use "Save As" to create a new copy.',
+  DOCX_MISSING_PART: 'The file is missing parts of a Word document. Re-save it from Word as .docx.',
+  DOCX_EMPTY: 'The Word document has no body text. Check that the right file was selected.',
+  DOCX_ENCRYPTED: 'Remove the password in Word (File > Info > Protect Document) and upload an unprotected copy.',
+  DOC_CORRUPT: 'The Word file is damaged. Open it in Word and use "Save As" to create a new copy, preferably as .docx.',
+  DOC_EMPTY: 'The Word document has no content. Check that the right file was selected.',
+  IMAGE_CORRUPT: 'The image could not be read. Take the photo or scan again and re-upload it.',
+  IMAGE_LOW_RESOLUTION: 'Scan at 200 DPI or more, or photograph the document so it fills the frame.'
+};
+
+const formatLabels: Record<DetectedFileType, string> = {
+  pdf: 'PDF',
+  docx: 'DOCX',
+  doc: 'DOC',
+  zip: 'ZIP',
+  ole: 'OLE',
+  jpeg: 'JPEG',
+  png: 'PNG',
+  heic: 'HEIC',
+  tiff: 'TIFF',
+  unknown: 'UNKNOWN'
+};
+
+const expectedExtensions: Partial<Record<DetectedFileType, string[]>> = {
+  pdf: ['pdf'],
+  docx: ['docx'],
+  doc: ['doc'],
+  jpeg: ['jpg', 'jpeg'],
+  png: ['png'],
+  heic: ['heic', 'heif'],
+  tiff: ['tif', 'tiff']
+};
+
+function issue(code: ValidationIssueCode, message: string, severity: ValidationIssue['severity'] = 'error'): ValidationIssue {
+  return { code, severity, message, remediation: remediations[code] };
+}
+
+function validatePdf(bytes: Uint8Array, details: ValidationResult['details']): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const pdf = inspectPdf(bytes);
+
+  details.pdfVersion = pdf.version ?? undefined;
+  details.encrypted = pdf.encrypted;
+  if (pdf.pageCount !== null) details.pageCount = pdf.pageCount;
+
+  if (!pdf.hasHeader) {
+    issues.push(issue('PDF_MISSING_HEADER', 'PDF header is missing or malformed'));
+    return issues;
   }
+  if (!pdf.hasEofMarker) {
+    issues.push(issue('PDF_TRUNCATED', 'PDF end-of-file marker is missing; the file may be incomplete'));
+  }
+  if (!pdf.hasXref) {
+    issues.push(issue('PDF_MISSING_XREF', 'PDF cross-reference table could not be located'));
+  }
+  if (pdf.encrypted) {
+    issues.push(issue('PDF_ENCRYPTED', 'PDF is encrypted or password-protected'));
+  }
+  if (pdf.pageCount === 0) {
+    issues.push(issue('PDF_NO_PAGES', 'PDF contains no pages'));
+  } else if (pdf.pageCount === null) {
+    issues.push(issue('PDF_PAGE_COUNT_UNKNOWN', 'Page count could not be determined from the file structure', 'warning'));
+  }
+
+  return issues;
+}
 
-  // Check file size (max 10MB)
-  const maxSize = 10 * 1024 * 1024;
-  if (file.size > maxSize) {
-    issues.push('File size exceeds 10MB limit.');
+async function validateDocx(bytes: Uint8Array): Promise<ValidationIssue[]> {
+  const zip = inspectZip(bytes);
+  if (!zip.valid) {
+    return [issue('DOCX_CORRUPT', `Word file is damaged: ${zip.error}`)];
   }
 
-  // Randomly determine if the document is valid (50% chance)
-  const isValid = Math.random() >= 0.5;
+  const issues: ValidationIssue[] = [];
+  const entries = new Map(zip.entries.map(entry => [entry.name, entry]));
 
-  if (!isValid) {
-    issues.push(...[
-      'Document appears to be corrupted or unreadable',
-      'Invalid document structure detected',
-      'Missing required metadata'
-    ]);
+  ['[Content_Types].xml', 'word/document.xml'].forEach(part => {
+    if (!entries.has(part)) {
+      issues.push(issue('DOCX_MISSING_PART', `Required part ${part} is missing`));
+    }
+  });
+
+  if (zip.entries.some(entry => entry.encrypted)) {
+    issues.push(issue('DOCX_ENCRYPTED', 'Word file contains encrypted parts'));
+    return issues;
   }
 
-  // Random confidence score
-  const randomConfidence = isValid ? 
-    Math.floor(Math.random() * 20) + 80 : // 80-100 for valid docs
-    Math.floor(Math.random() * 30) + 20;  // 20-50 for invalid docs
+  const body = entries.get('word/document.xml');
+  if (body) {
+    let xml: string;
+    try {
+      xml = new TextDecoder().decode(await readZipEntry(bytes, body));
+    } catch (error) {
+      issues.push(issue('DOCX_CORRUPT', `word/document.xml could not be read: ${error instanceof Error ? error.message : error}`));
+      return issues;
+    }
+    // Text runs with something in them, or pictures for a scanned page
+    const hasContent = /<w:t(?:\s[^>]*)?>[^<]*[^<\s]/.test(xml) || /<w:drawing\b|<w:pict\b/.test(xml);
+    if (!hasContent) {
+      issues.push(issue('DOCX_EMPTY', 'Word document body is empty'));
+    }
+  }
 
-  // Mock extracted data
-  const extractedData = isValid ? {
-    title: file.name.split('.')[0],
-    date: new Date().toISOString().split('T')[0],
-    category: ['Invoice', 'Contract', 'Report', 'ID Document'][Math.floor(Math.random() * 4)]
-  } : undefined;
+  return issues;
+}
+
+// A .doc is an OLE2 compound file whose WordDocument stream holds the text
+function validateDoc(bytes: Uint8Array): ValidationIssue[] {
+  const ole = inspectOle(bytes);
+  if (!ole.valid) {
+    return [issue('DOC_CORRUPT', `Word file is damaged: ${ole.error}`)];
+  }
+  const word = ole.streams.find(stream => stream.name === 'WordDocument');
+  if (!word) {
+    return [issue('DOC_CORRUPT', 'Word file has no WordDocument stream')];
+  }
+  if (word.size === 0) {
+    return [issue('DOC_EMPTY', 'Word document stream is empty')];
+  }
+  return [];
+}
+
+function validateImage(
+  bytes: Uint8Array,
+  type: ImageFileType,
+  details: ValidationResult['details']
+): ValidationIssue[] {
+  const image = inspectImage(bytes, type);
+  if (!image.valid) {
+    return [issue('IMAGE_CORRUPT', `${formatLabels[type]} image is damaged: ${image.error}`)];
+  }
+
+  details.pageCount = image.pageCount;
+  if (image.width !== null && image.height !== null) {
+    details.width = image.width;
+    details.height = image.height;
+    if (Math.max(image.width, image.height) < MIN_IMAGE_EDGE) {
+      return [issue(
+        'IMAGE_LOW_RESOLUTION',
+        `Image is only ${image.width}×${image.height} pixels; text may not be legible`,
+        'warning'
+      )];
+    }
+  }
+
+  return [];
+}
+
+function fileExtension(name: string): string {
+  const dot = name.lastIndexOf('.');
+  return dot >= 0 ? name.slice(dot + 1).toLowerCase() : '';
+}
+
+export async function validateDocument(file: File, maxFileSize: number = MAX_FILE_SIZE): Promise<ValidationResult> {
+  const issues: ValidationIssue[] = [];
+  const details: ValidationResult['details'] = {};
+
+  if (file.size === 0) {
+    issues.push(issue('EMPTY_FILE', 'File is empty'));
+    return {
+      passed: false,
+      type: 'unknown',
+      declaredType: file.type,
+      size: 0,
+      format: formatLabels.unknown,
+      issues,
+      details
+    };
+  }
+
+  if (file.size > maxFileSize) {
+    issues.push(issue('FILE_TOO_LARGE', `File size exceeds ${Math.round(maxFileSize / (1024 * 1024))}MB limit`));
+  }
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let type = detectFileType(bytes);
+
+  switch (type) {
+    case 'pdf':
+      issues.push(...validatePdf(bytes, details));
+      break;
+    case 'docx':
+      issues.push(...(await validateDocx(bytes)));
+      break;
+    case 'zip':
+      // A zip named .docx that lacks word/document.xml is a broken Word file
+      if (fileExtension(file.name) === 'docx') {
+        type = 'docx';
+        issues.push(...(await validateDocx(bytes)));
+      } else {
+        issues.push(issue('UNSUPPORTED_FORMAT', 'ZIP archives are not accepted'));
+      }
+      break;
+    case 'ole':
+      if (isEncryptedOoxml(bytes)) {
+        type = 'docx';
+        issues.push(issue('DOCX_ENCRYPTED', 'Word file is password-protected'));
+      } else {
+        issues.push(issue('UNSUPPORTED_FORMAT', 'Office file is not a Word document'));
+      }
+      break;
+    case 'doc':
+      issues.push(...validateDoc(bytes));
+      break;
+    case 'jpeg':
+    case 'png':
+    case 'heic':
+    case 'tiff':
+      issues.push(...validateImage(bytes, type, details));
+      break;
+    default:
+      issues.push(issue('UNSUPPORTED_FORMAT', 'File content is not a PDF, Word document or supported image'));
+  }
+
+  const expected = expectedExtensions[type];
+  const extension = fileExtension(file.name);
+  if (expected && extension && !expected.includes(extension)) {
+    issues.push(issue(
+      'TYPE_MISMATCH',
+      `File is named .${extension} but its content is ${formatLabels[type]}`,
+      'warning'
+    ));
+  }
 
   return {
-    passed: isValid && issues.length === 0,
-    type: file.type,
+    passed: !issues.some(i => i.severity === 'error'),
+    type,
+    declaredType: file.type,
     size: file.size,
-    format: file.type.split('/')[1].toUpperCase(),
+    format: formatLabels[type],
     issues,
-    confidence: randomConfidence,
-    extractedData
+    details
   };
 }
 
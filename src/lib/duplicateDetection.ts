@@ -0,0 +1,180 @@
+import type { CustomerDocument, StoredDocumentFile } from '../types';
+import { openPdfRenderer } from './pdfText';
+import { repositories } from './repositories';
+
+// Hashes that identify an upload: SHA-256 of the exact bytes, and a
+// perceptual hash per page image that survives re-scans, re-encoding and
+// resizing
+export interface DocumentFingerprint {
+  sha256: string;
+  perceptualHashes: string[];
+}
+
+export interface DuplicateMatch {
+  kind: 'exact' | 'near';
+  // Whether the earlier document belongs to the same customer or another one
+  scope: 'customer' | 'tenant';
+  document: CustomerDocument;
+  file: StoredDocumentFile;
+  // 0-100, from the closest pair of page hashes for near matches
+  similarity: number;
+}
+
+// dHash compares neighbouring pixels of a 9x8 grayscale thumbnail
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+const HASH_BITS = (HASH_WIDTH - 1) * HASH_HEIGHT;
+// Up to 6 of 64 bits may differ before two pages stop counting as the same
+const NEAR_DUPLICATE_MAX_DISTANCE = 6;
+// A near duplicate shares its first page or at least this many pages; any
+// one page alone could be a form or cover sheet many documents have
+const NEAR_DUPLICATE_MIN_PAGES = 2;
+// Blank and nearly uniform pages, such as the back of a scanned sheet, all
+// hash alike, so pages whose thumbnail varies less than this aren't hashed
+const MIN_LUMINANCE_DEVIATION = 5;
+// A re-scan matches on its first pages; rendering the rest costs more than it finds
+const MAX_HASHED_PDF_PAGES = 3;
+// 72 DPI is plenty for a 9x8 thumbnail
+const HASH_RENDER_SCALE = 1;
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export async function sha256Hex(blob: Blob): Promise<string> {
+  return toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', await blob.arrayBuffer())));
+}
+
+// null for a page too uniform to tell apart from any other
+export async function perceptualHash(image: Blob): Promise<string | null> {
+  const bitmap = await createImageBitmap(image, {
+    resizeWidth: HASH_WIDTH,
+    resizeHeight: HASH_HEIGHT,
+    resizeQuality: 'high'
+  });
+  const canvas = document.createElement('canvas');
+  canvas.width = HASH_WIDTH;
+  canvas.height = HASH_HEIGHT;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas 2D context is not available');
+  }
+  context.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  const { data } = context.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+  const luminance = (x: number, y: number) => {
+    const i = (y * HASH_WIDTH + x) * 4;
+    return 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  };
+
+  const values = Array.from({ length: HASH_WIDTH * HASH_HEIGHT }, (_, i) => luminance(i % HASH_WIDTH, Math.floor(i / HASH_WIDTH)));
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const deviation = Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length);
+  if (deviation < MIN_LUMINANCE_DEVIATION) return null;
+
+  const bytes = new Uint8Array(HASH_BITS / 8);
+  let bit = 0;
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      if (luminance(x, y) > luminance(x + 1, y)) {
+        bytes[bit >> 3] |= 0x80 >> (bit & 7);
+      }
+      bit++;
+    }
+  }
+  return toHex(bytes);
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 2) {
+    let diff = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+// Page images of a PDF upload, so a re-scanned PDF gets page hashes like an image does
+export async function renderPdfPages(file: Blob, maxPages: number = MAX_HASHED_PDF_PAGES): Promise<Blob[]> {
+  const renderer = await openPdfRenderer(new Uint8Array(await file.arrayBuffer()));
+  try {
+    const images: Blob[] = [];
+    for (let page = 1; page <= Math.min(renderer.pageCount, maxPages); page++) {
+      images.push(await renderer.render(page, HASH_RENDER_SCALE));
+    }
+    return images;
+  } finally {
+    await renderer.close();
+  }
+}
+
+export async function fingerprintDocument(file: File, pageImages: Blob[] = []): Promise<DocumentFingerprint> {
+  const [sha256, perceptualHashes] = await Promise.all([
+    sha256Hex(file),
+    Promise.all(pageImages.map(perceptualHash))
+  ]);
+  return { sha256, perceptualHashes: perceptualHashes.filter((hash): hash is string => hash !== null) };
+}
+
+// A uniform page hashes to all zeros; older uploads still have some stored
+function isBlankHash(hash: string): boolean {
+  return /^0+$/.test(hash);
+}
+
+// Closest page pair between two near-duplicate documents, or null when they
+// don't share their first page or enough pages
+function nearDistance(a: string[], b: string[]): number | null {
+  const left = a.filter(hash => !isBlankHash(hash));
+  const right = b.filter(hash => !isBlankHash(hash));
+  if (left.length === 0 || right.length === 0) return null;
+
+  const closest = left.map(page => Math.min(...right.map(other => hammingDistance(page, other))));
+  const matching = closest.filter(distance => distance <= NEAR_DUPLICATE_MAX_DISTANCE).length;
+  const firstPagesMatch = hammingDistance(left[0], right[0]) <= NEAR_DUPLICATE_MAX_DISTANCE;
+  return firstPagesMatch || matching >= NEAR_DUPLICATE_MIN_PAGES ? Math.min(...closest) : null;
+}
+
+// Checks every stored original in the tenant; matches for the customer's own
+// documents come first, then exact before near matches
+export async function findDuplicates(
+  fingerprint: DocumentFingerprint,
+  customerId?: string
+): Promise<DuplicateMatch[]> {
+  const documentsByCustomer = await repositories.documents.listAll();
+  const matches: DuplicateMatch[] = [];
+
+  Object.entries(documentsByCustomer).forEach(([ownerId, documents]) => {
+    const scope = ownerId === customerId ? 'customer' : 'tenant';
+    documents.forEach(document => {
+      (document.files ?? [])
+        .filter(file => file.kind === 'original')
+        .forEach(file => {
+          if (file.sha256 === fingerprint.sha256) {
+            matches.push({ kind: 'exact', scope, document, file, similarity: 100 });
+            return;
+          }
+
+          const distance = nearDistance(fingerprint.perceptualHashes, file.perceptual_hashes ?? []);
+          if (distance !== null) {
+            matches.push({
+              kind: 'near',
+              scope,
+              document,
+              file,
+              similarity: Math.round((1 - distance / HASH_BITS) * 100)
+            });
+          }
+        });
+    });
+  });
+
+  return matches.sort((a, b) =>
+    (a.scope === b.scope ? 0 : a.scope === 'customer' ? -1 : 1) ||
+    (a.kind === b.kind ? 0 : a.kind === 'exact' ? -1 : 1) ||
+    b.similarity - a.similarity
+  );
+}
@@ -0,0 +1,270 @@
+// Watches documents that have come in for their expiry date. Certificates,
+// IDs and licenses have to be replaced before they lapse, so ahead of the
+// date the tracker opens a request for the renewed document and schedules a
+// follow-up asking the customer for it.
+import type { Customer, CustomerDocument, DocumentStatus } from '../types';
+import { REVIEW_CONFIDENCE } from './extractionReview';
+import type { Repositories } from './repositories';
+import { repositories } from './repositories';
+import type { MessagePersonalizationContext } from './smartMessaging';
+import { smartMessaging } from './smartMessaging';
+
+export interface ExpiryTrackerOptions {
+  // How many days before expiry the renewal request goes out
+  leadTimeDays: number;
+  checkIntervalMs: number;
+}
+
+const DEFAULT_OPTIONS: ExpiryTrackerOptions = {
+  leadTimeDays: 30,
+  checkIntervalMs: 60 * 60 * 1000
+};
+
+// Documents the customer has sent; ones still being requested have nothing
+// to expire yet
+const TRACKED_STATUSES: DocumentStatus[] = ['received', 'under_review', 'approved', 'expired'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Time given to send the renewal when the old document has already lapsed
+const LAPSED_RENEWAL_DAYS = 14;
+
+export interface DocumentExpiry {
+  // YYYY-MM-DD
+  date: string;
+  // Read from the document by processing, or set on the document itself
+  source: 'extraction' | 'document';
+}
+
+export interface UpcomingExpiry {
+  document: CustomerDocument;
+  expiresOn: string;
+  source: DocumentExpiry['source'];
+  // Negative once the date has passed
+  daysLeft: number;
+  // The request opened for the replacement, once there is one
+  renewal?: CustomerDocument;
+}
+
+type ExpiryListener = (expirations: UpcomingExpiry[]) => void;
+
+// An extracted date is only taken when it was read next to a label (the MRZ
+// counts as one) with enough confidence, or a reviewer confirmed it. Field
+// extraction falls back to any date in the text, which may be an issue date.
+function trustedExpiry(document: CustomerDocument): { date: string; reviewed: boolean } | null {
+  const field = document.extraction?.fields.expiration_date;
+  if (field?.type !== 'date' || typeof field.value !== 'string') return null;
+  const reviewed = Boolean(field.reviewed);
+  return reviewed || (field.label && field.confidence >= REVIEW_CONFIDENCE) ? { date: field.value, reviewed } : null;
+}
+
+// A reviewed extraction wins over the column, since a person checked it
+// against the document. Otherwise a date set on the document is kept, and an
+// unreviewed extraction only fills in a missing one.
+export function documentExpiry(document: CustomerDocument): DocumentExpiry | null {
+  const extracted = trustedExpiry(document);
+  if (extracted?.reviewed) {
+    return { date: extracted.date, source: 'extraction' };
+  }
+  if (document.expiration_date) {
+    return { date: document.expiration_date.slice(0, 10), source: 'document' };
+  }
+  if (extracted) {
+    return { date: extracted.date, source: 'extraction' };
+  }
+  return null;
+}
+
+// Whole days from today to the date, both taken as calendar days
+export function daysUntil(date: string, now: Date = new Date()): number {
+  const today = Date.UTC(now.getFullYear(), now.getMonth(), now.getDate());
+  return Math.round((Date.parse(date) - today) / DAY_MS);
+}
+
+function messageContext(customer: Customer, document: CustomerDocument): MessagePersonalizationContext {
+  const preferences = customer.communication_preferences;
+  const interactions = customer.interaction_history ?? [];
+  return {
+    previousInteractions: interactions.map(interaction => ({
+      date: new Date(interaction.date),
+      channel: interaction.channel,
+      sentiment: interaction.sentiment,
+      wasReplied: interaction.type === 'received',
+      responseTime: interaction.response_time
+    })),
+    documentHistory: (document.status_history ?? []).map(change => ({
+      date: new Date(change.at),
+      action: 'transition',
+      status: change.to
+    })),
+    customerPreferences: {
+      preferredChannel: preferences?.preferred_channel ?? 'email',
+      preferredLanguage: preferences?.preferred_language ?? 'en',
+      responseRate: interactions.length > 0
+        ? interactions.filter(interaction => interaction.type === 'received').length / interactions.length
+        : 0.8,
+      typicalResponseTime: 24
+    }
+  };
+}
+
+// Index of upcoming expirations, rebuilt from the documents repository on
+// every check. Renewal requests are documents like any other, linked back
+// through renewal_of, so a reload doesn't request the same renewal twice;
+// the repository keeps checks in other tabs from doing so either.
+export class ExpiryTracker {
+  private options: ExpiryTrackerOptions;
+  private index: UpcomingExpiry[] = [];
+  private listeners: Set<ExpiryListener> = new Set();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private checking: Promise<UpcomingExpiry[]> | null = null;
+  private running = false;
+
+  constructor(
+    private repositories: Repositories,
+    options: Partial<ExpiryTrackerOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  start(): Promise<void> {
+    this.running = true;
+    return this.tick();
+  }
+
+  stop() {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  get leadTimeDays(): number {
+    return this.options.leadTimeDays;
+  }
+
+  // Documents already inside the new lead time get their request on the next check
+  setLeadTime(days: number) {
+    if (!Number.isInteger(days) || days < 0) {
+      throw new Error('Lead time must be a whole number of days');
+    }
+    this.options.leadTimeDays = days;
+  }
+
+  // Soonest first
+  list(): UpcomingExpiry[] {
+    return [...this.index];
+  }
+
+  onChange(listener: ExpiryListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Overlapping calls share one run
+  check(now: Date = new Date()): Promise<UpcomingExpiry[]> {
+    this.checking ??= this.run(now).finally(() => {
+      this.checking = null;
+    });
+    return this.checking;
+  }
+
+  private async tick() {
+    try {
+      await this.check();
+    } catch (error) {
+      console.error('Expiry check failed:', error);
+    }
+    if (!this.running) return;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.tick(), this.options.checkIntervalMs);
+  }
+
+  private async run(now: Date): Promise<UpcomingExpiry[]> {
+    const documents = Object.values(await this.repositories.documents.listAll()).flat();
+    const renewals = new Map(
+      documents.filter(doc => doc.renewal_of).map(doc => [doc.renewal_of!, doc])
+    );
+
+    const index: UpcomingExpiry[] = [];
+    for (let document of documents) {
+      if (!TRACKED_STATUSES.includes(document.status)) continue;
+      const expiry = documentExpiry(document);
+      if (!expiry) continue;
+
+      // Keeps the column in step with the extraction, which the lifecycle's
+      // expired transition reads
+      if (expiry.source === 'extraction' && document.expiration_date?.slice(0, 10) !== expiry.date) {
+        document = await this.repositories.documents.update(document.id, { expiration_date: expiry.date });
+      }
+
+      const entry: UpcomingExpiry = {
+        document,
+        expiresOn: expiry.date,
+        source: expiry.source,
+        daysLeft: daysUntil(expiry.date, now),
+        renewal: renewals.get(document.id)
+      };
+      if (!entry.renewal && entry.daysLeft <= this.options.leadTimeDays) {
+        try {
+          entry.renewal = await this.requestRenewal(document, expiry.date, now);
+        } catch (error) {
+          // Tried again on the next check
+          console.error(`Renewal request for ${document.name} failed:`, error);
+        }
+      }
+      index.push(entry);
+    }
+
+    this.index = index.sort((a, b) => a.expiresOn.localeCompare(b.expiresOn));
+    const snapshot = this.list();
+    this.listeners.forEach(listener => {
+      try {
+        listener(snapshot);
+      } catch (error) {
+        console.error('Expiry listener failed:', error);
+      }
+    });
+    return snapshot;
+  }
+
+  // A new request for the same kind of document, due the day the old one
+  // expires (or a little later if it already has), with a follow-up asking
+  // for it
+  private async requestRenewal(document: CustomerDocument, expiresOn: string, now: Date): Promise<CustomerDocument | undefined> {
+    if (!document.customer_id) return undefined;
+    const customer = await this.repositories.customers.get(document.customer_id);
+    if (!customer) return undefined;
+
+    const { document: renewal, created } = await this.repositories.documents.createRenewal(customer.id, {
+      name: document.name,
+      type: document.type,
+      status: 'requested',
+      status_changed_at: now.toISOString(),
+      due_date: daysUntil(expiresOn, now) > 0
+        ? expiresOn
+        : new Date(now.getTime() + LAPSED_RENEWAL_DAYS * DAY_MS).toISOString().slice(0, 10),
+      last_reminder: now.toISOString(),
+      reminder_count: 0,
+      ai_urgency_score: document.ai_urgency_score,
+      renewal_of: document.id
+    });
+    // Another tab or colleague opened it and sent the follow-up
+    if (!created) return renewal;
+
+    // The repository gives the follow-up its own id
+    const followUp = await smartMessaging.generateSmartMessage(
+      customer,
+      renewal,
+      messageContext(customer, renewal),
+      'renewal'
+    );
+    await this.repositories.followUps.schedule(followUp);
+    return renewal;
+  }
+}
+
+export const expiryTracker = new ExpiryTracker(repositories);
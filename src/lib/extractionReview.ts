@@ -0,0 +1,241 @@
+// Human review of what processing read from a document. Reviewers confirm or
+// correct each value; corrections are kept with who made them and double as
+// labels for retraining the classifier and the field extractors.
+import type { CustomerDocument, DocumentExtraction, DocumentFieldValue, FieldCorrection } from '../types';
+import { loadDocumentLayout } from './documentStorage';
+import type { FieldType } from './fieldExtraction';
+import { fieldType, isFieldName, parseFieldValue } from './fieldExtraction';
+import { repositories } from './repositories';
+import type { NewFieldCorrection } from './repositories';
+import { supabase } from './supabase';
+
+// Values read with less confidence than this have to be looked at before a
+// review can be saved
+export const REVIEW_CONFIDENCE = 70;
+
+// Corrections to the classification are recorded under this field name
+export const CATEGORY_FIELD = 'category';
+
+// Recorded as the reviewer when there is no signed-in user
+const LOCAL_REVIEWER = 'local user';
+
+export function fieldLabel(name: string): string {
+  const label = name.replace(/_/g, ' ');
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+export function reviewFieldType(extraction: DocumentExtraction, name: string): FieldType {
+  return extraction.fields[name]?.type ?? (isFieldName(name) ? fieldType(name) : 'text');
+}
+
+function valueText(value: DocumentFieldValue['value']): string {
+  if (typeof value === 'string') return value;
+  return value.currency ? `${value.amount.toFixed(2)} ${value.currency}` : value.amount.toFixed(2);
+}
+
+// The value as shown in the review form. Corrections are recorded in this
+// form too, so they read back with parseFieldValue.
+export function editableValue(field: DocumentFieldValue | undefined): string {
+  return field ? valueText(field.value) : '';
+}
+
+// A required value that wasn't found needs a look until someone has
+// reviewed the document and left it empty
+export function needsReview(extraction: DocumentExtraction, name: string): boolean {
+  const field = extraction.fields[name];
+  if (!field) return !extraction.reviewed_at;
+  return !field.reviewed && field.confidence < REVIEW_CONFIDENCE;
+}
+
+export function categoryNeedsReview(extraction: DocumentExtraction): boolean {
+  return !extraction.reviewed_at && extraction.category_confidence < REVIEW_CONFIDENCE;
+}
+
+// Replays corrections over an extraction, oldest first, so the latest one
+// for each field wins. Also used after reprocessing, so a reviewer's fixes
+// outlive a rerun.
+export function applyCorrections(extraction: DocumentExtraction, corrections: FieldCorrection[]): DocumentExtraction {
+  const result: DocumentExtraction = { ...extraction, fields: { ...extraction.fields } };
+  const ordered = [...corrections].sort((a, b) => a.corrected_at.localeCompare(b.corrected_at));
+
+  for (const correction of ordered) {
+    if (correction.field === CATEGORY_FIELD) {
+      result.category = correction.corrected_value;
+      result.category_confidence = 100;
+      continue;
+    }
+    const existing = result.fields[correction.field];
+    const type = reviewFieldType(result, correction.field);
+    const value = parseFieldValue(type, correction.corrected_value, result.language);
+    if (value === null) {
+      // Cleared: the document doesn't have this value
+      delete result.fields[correction.field];
+      continue;
+    }
+    // The raw text and location still point at where the value sits on the page
+    result.fields[correction.field] = {
+      ...(existing ?? { raw: correction.corrected_value.trim() }),
+      type,
+      value,
+      confidence: 100,
+      reviewed: true,
+      alternatives: undefined
+    };
+  }
+  return result;
+}
+
+// The signed-in user's email, or a stand-in when running without Supabase
+export async function currentReviewer(): Promise<string> {
+  if (!supabase) return LOCAL_REVIEWER;
+  const { data } = await supabase.auth.getSession();
+  return data.session?.user.email ?? LOCAL_REVIEWER;
+}
+
+export interface ReviewInput {
+  category: string;
+  // Each field's value as left in the form; empty when the document has none
+  values: Record<string, string>;
+}
+
+// Records what the reviewer changed and marks every value in the form as reviewed
+export async function saveReview(document: CustomerDocument, input: ReviewInput): Promise<CustomerDocument> {
+  const extraction = document.extraction;
+  if (!extraction) {
+    throw new Error('This document has not been processed yet');
+  }
+
+  const invalid = Object.entries(input.values).find(([name, text]) =>
+    text.trim() && parseFieldValue(reviewFieldType(extraction, name), text, extraction.language) === null
+  );
+  if (invalid) {
+    throw new Error(`${fieldLabel(invalid[0])} is not a valid ${reviewFieldType(extraction, invalid[0])}`);
+  }
+
+  const correctedBy = await currentReviewer();
+  const correctedAt = new Date().toISOString();
+  const changes: NewFieldCorrection[] = [];
+
+  if (input.category !== extraction.category) {
+    changes.push({
+      document_id: document.id,
+      field: CATEGORY_FIELD,
+      previous_value: extraction.category,
+      corrected_value: input.category,
+      previous_confidence: extraction.category_confidence,
+      corrected_by: correctedBy,
+      corrected_at: correctedAt
+    });
+  }
+  for (const [name, text] of Object.entries(input.values)) {
+    const previous = extraction.fields[name];
+    // Normalized, so "$120" over "120.00 USD" isn't a change
+    const value = parseFieldValue(reviewFieldType(extraction, name), text, extraction.language);
+    const corrected = value === null ? '' : valueText(value);
+    if (corrected === editableValue(previous)) continue;
+    changes.push({
+      document_id: document.id,
+      field: name,
+      previous_value: previous ? editableValue(previous) : null,
+      corrected_value: corrected,
+      previous_confidence: previous?.confidence ?? null,
+      corrected_by: correctedBy,
+      corrected_at: correctedAt
+    });
+  }
+
+  const corrections = await Promise.all(changes.map(change => repositories.corrections.create(change)));
+  const reviewed = applyCorrections(extraction, corrections);
+  for (const name of Object.keys(input.values)) {
+    const field = reviewed.fields[name];
+    // Reviewed dates have been read one way or the other
+    if (field) reviewed.fields[name] = { ...field, reviewed: true, alternatives: undefined };
+  }
+  return repositories.documents.update(document.id, {
+    extraction: { ...reviewed, reviewed_at: correctedAt, reviewed_by: correctedBy }
+  });
+}
+
+export interface ClassificationExample {
+  task: 'classification';
+  document_id: string;
+  text: string;
+  label: string;
+  predicted: string;
+}
+
+export interface ExtractionExample {
+  task: 'extraction';
+  document_id: string;
+  category: string;
+  field: string;
+  type: FieldType;
+  // null when the document doesn't have the value
+  label: string | null;
+  predicted: string | null;
+  raw: string | null;
+  location?: DocumentFieldValue['location'];
+  corrected: boolean;
+}
+
+export type TrainingExample = ClassificationExample | ExtractionExample;
+
+// Labeled examples from every reviewed document: its text and category for
+// the classifier, and each reviewed value next to the prediction for the
+// extractors. The first correction of a field holds what was predicted.
+export async function buildTrainingData(): Promise<TrainingExample[]> {
+  const [documents, corrections] = await Promise.all([
+    repositories.documents.listAll(),
+    repositories.corrections.list()
+  ]);
+  const examples: TrainingExample[] = [];
+
+  for (const document of Object.values(documents).flat()) {
+    const extraction = document.extraction;
+    if (!extraction?.reviewed_at) continue;
+    const own = corrections.filter(correction => correction.document_id === document.id);
+    const firstCorrection = (field: string) => own.find(correction => correction.field === field);
+
+    // Without a stored layout there is no text to classify
+    const layout = await loadDocumentLayout(document);
+    if (layout) {
+      examples.push({
+        task: 'classification',
+        document_id: document.id,
+        text: layout.pages.map(page => page.lines.map(line => line.text).join('\n')).join('\n\f\n'),
+        label: extraction.category,
+        predicted: firstCorrection(CATEGORY_FIELD)?.previous_value ?? extraction.category
+      });
+    }
+
+    const names = new Set([
+      ...Object.keys(extraction.fields),
+      ...own.map(correction => correction.field).filter(field => field !== CATEGORY_FIELD)
+    ]);
+    for (const name of names) {
+      const field = extraction.fields[name];
+      const correction = firstCorrection(name);
+      // Values nobody looked at aren't labels
+      if (!field?.reviewed && !correction) continue;
+      const label = field ? editableValue(field) : null;
+      examples.push({
+        task: 'extraction',
+        document_id: document.id,
+        category: extraction.category,
+        field: name,
+        type: reviewFieldType(extraction, name),
+        label,
+        predicted: correction ? correction.previous_value : label,
+        raw: field?.raw ?? null,
+        location: field?.location,
+        corrected: correction !== undefined
+      });
+    }
+  }
+  return examples;
+}
+
+// One JSON object per line, the format most training tools read
+export function toJsonLines(examples: TrainingExample[]): string {
+  return examples.map(example => JSON.stringify(example)).join('\n');
+}
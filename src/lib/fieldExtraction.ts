@@ -0,0 +1,368 @@
+// Key/value extraction for the fields each document category requires.
+// Values are looked for next to their labels ("Policy #: AB123456"), read
+// with a parser for their type, and scored for how sure the match is.
+import type { DateReading, Money } from './localeFormats';
+import { dateReading, formatDate, formatMoney, readAmount, readAmounts, readDate } from './localeFormats';
+
+export type FieldType = 'date' | 'money' | 'id' | 'name' | 'text';
+
+// Where the value was read from. Offsets are into the processed text, where
+// pages are separated by form feeds.
+export interface FieldLocation {
+  start: number;
+  end: number;
+  // 1-based
+  page: number;
+  line: number;
+}
+
+interface BaseField<T extends FieldType, V> {
+  name: FieldName;
+  type: T;
+  value: V;
+  // The text as it appears in the document
+  raw: string;
+  // 0 to 100
+  confidence: number;
+  // The label the value was found next to; absent for unlabeled matches
+  label?: string;
+  location: FieldLocation;
+}
+
+// Dates are ISO 8601 (YYYY-MM-DD). Alternatives are the other reading of a
+// date like 03/04/2024 when the document doesn't say which order it uses.
+export type DateField = BaseField<'date', string> & { alternatives?: string[] };
+export type MoneyField = BaseField<'money', Money>;
+export type IdField = BaseField<'id', string>;
+export type NameField = BaseField<'name', string>;
+export type TextField = BaseField<'text', string>;
+export type ExtractedField = DateField | MoneyField | IdField | NameField | TextField;
+
+interface FieldSpec {
+  type: FieldType;
+  // Most specific first; matched case-insensitively as whole words
+  labels: readonly string[];
+  // Replaces the type's parser when the value has a known shape
+  pattern?: RegExp;
+  // Found anywhere in the text when no label turns up
+  fallback?: RegExp;
+}
+
+const fieldSpecs = {
+  // Financial
+  amount: { type: 'money', labels: ['total amount', 'amount due', 'total due', 'balance due', 'grand total', 'total', 'amount'] },
+  date: { type: 'date', labels: ['invoice date', 'statement date', 'date of service', 'issue date', 'dated', 'date'] },
+  payee: { type: 'name', labels: ['payee', 'pay to the order of', 'pay to', 'paid to', 'payable to'] },
+  description: { type: 'text', labels: ['description', 'memo', 'details', 'reference'] },
+  account_number: { type: 'id', labels: ['account number', 'account no', 'acct no', 'account'], pattern: /\b\d[\d -]{4,}\d\b/ },
+  transaction_type: { type: 'text', labels: ['transaction type', 'type of transaction', 'payment method'] },
+  // Legal
+  parties: { type: 'text', labels: ['between'], pattern: /(.+?)\s+and\s+(.+?)(?=[,.;(]|$)/ },
+  terms: { type: 'text', labels: ['terms', 'term'] },
+  signatures: { type: 'text', labels: ['signed by', 'signatures', 'signature'] },
+  governing_law: { type: 'text', labels: ['governing law', 'governed by', 'laws of'] },
+  effective_date: { type: 'date', labels: ['effective date', 'effective as of', 'effective from', 'effective'] },
+  // Medical
+  patient_name: { type: 'name', labels: ['patient name', 'name of patient', 'patient'] },
+  patient_id: { type: 'id', labels: ['patient id', 'patient no', 'patient number', 'medical record number', 'mrn'] },
+  doctor_name: { type: 'name', labels: ['physician', 'attending', 'doctor', 'provider'], fallback: /\bDr\.?\s+[A-Z][a-z]+(?:\s+[A-Z][a-z]+)?/ },
+  diagnosis: { type: 'text', labels: ['diagnosis', 'assessment', 'impression'] },
+  treatment: { type: 'text', labels: ['treatment', 'plan', 'prescription', 'medication'] },
+  // Employment
+  employee_name: { type: 'name', labels: ['employee name', 'name of employee', 'employee'] },
+  employee_id: { type: 'id', labels: ['employee id', 'employee no', 'employee number', 'staff id'] },
+  position: { type: 'text', labels: ['position', 'job title', 'role', 'title'] },
+  salary: { type: 'money', labels: ['annual salary', 'base salary', 'salary', 'compensation', 'wage'] },
+  start_date: { type: 'date', labels: ['start date', 'commencement date', 'date of hire', 'hire date'] },
+  department: { type: 'text', labels: ['department', 'dept', 'division'] },
+  // Educational
+  student_name: { type: 'name', labels: ['student name', 'name of student', 'student'] },
+  student_id: { type: 'id', labels: ['student id', 'student no', 'student number', 'matriculation number'] },
+  institution: {
+    type: 'text',
+    labels: ['institution', 'school name'],
+    fallback: /\b(?:University|College|Institute|School) of(?: [A-Z][a-z]+)+|\b(?:[A-Z][a-z]+ )+(?:University|College|Institute)\b/
+  },
+  program: { type: 'text', labels: ['program', 'programme', 'degree', 'major', 'course of study'] },
+  grades: { type: 'text', labels: ['grades', 'grade', 'gpa'] },
+  // Insurance
+  policy_number: { type: 'id', labels: ['policy number', 'policy no', 'policy'] },
+  insured_name: { type: 'name', labels: ['insured name', 'name of insured', 'policyholder', 'insured'] },
+  coverage_type: { type: 'text', labels: ['coverage type', 'type of coverage', 'plan type', 'coverage'] },
+  premium_amount: { type: 'money', labels: ['premium amount', 'total premium', 'premium'] },
+  expiration_date: { type: 'date', labels: ['expiration date', 'expiry date', 'date of expiry', 'valid until', 'expires', 'expiration', 'expiry'] }
+} as const satisfies Record<string, FieldSpec>;
+
+export type FieldName = keyof typeof fieldSpecs;
+
+export const fieldNames = Object.keys(fieldSpecs) as FieldName[];
+
+type FieldOfType<T extends FieldType> = Extract<ExtractedField, { type: T }>;
+
+// What was found for each field, typed by the field's kind of value
+export type ExtractedFields = {
+  [K in FieldName]?: FieldOfType<(typeof fieldSpecs)[K]['type']>;
+};
+
+export function isFieldName(name: string): name is FieldName {
+  return name in fieldSpecs;
+}
+
+export function fieldType(name: FieldName): FieldType {
+  return fieldSpecs[name].type;
+}
+
+// How the value sits relative to its label, as a starting confidence
+const PLACEMENT_CONFIDENCE = {
+  // "Total: $120.00"
+  separated: 90,
+  // "Total $120.00"
+  adjacent: 75,
+  // Label on one line, value on the next
+  below: 60,
+  // No label at all
+  unlabeled: 35
+};
+
+const MAX_TEXT_LENGTH = 200;
+
+interface Parsed<V> {
+  value: V;
+  raw: string;
+  // Offset of raw within the searched segment
+  index: number;
+  // How well the text fits the type, from 0 to 1
+  quality: number;
+  alternatives?: string[];
+}
+
+// Dates that could be read day first or month first are left for a person
+const AMBIGUOUS_QUALITY = 0.5;
+
+function parseDate(segment: string, reading: DateReading): Parsed<string> | null {
+  // The earliest date in the segment is the one next to the label
+  const date = readDate(segment, reading);
+  if (!date) return null;
+  return { ...date, quality: date.alternatives ? AMBIGUOUS_QUALITY : 1 };
+}
+
+function parseMoney(segment: string, language?: string): Parsed<Money> | null {
+  const money = readAmount(segment, language);
+  if (!money) return null;
+  const cents = /[.,]\d{1,2}(?!\d)/.test(money.raw);
+  return { ...money, quality: money.value.currency ? 1 : cents ? 0.9 : 0.7 };
+}
+
+function parseId(segment: string, pattern?: RegExp): Parsed<string> | null {
+  const match = (pattern ?? /\b(?=[A-Z0-9/-]*\d)[A-Z0-9][A-Z0-9/-]{3,}\b/i).exec(segment);
+  return match ? { value: match[0].trim(), raw: match[0].trim(), index: match.index, quality: 1 } : null;
+}
+
+function parseName(segment: string): Parsed<string> | null {
+  // Single spaces only: a wider gap is the next column
+  const match = /\b(?:Dr\.? )?[A-Z][a-zA-Z'-]+(?: [A-Z][a-zA-Z'.-]*){0,3}/.exec(segment);
+  if (!match) return null;
+  const raw = match[0].trim();
+  return { value: raw, raw, index: match.index, quality: raw.includes(' ') ? 0.9 : 0.7 };
+}
+
+function parseText(segment: string, pattern?: RegExp): Parsed<string> | null {
+  if (pattern) {
+    const match = pattern.exec(segment);
+    return match ? { value: match[0].trim(), raw: match[0].trim(), index: match.index, quality: 0.9 } : null;
+  }
+  const raw = segment.trim().split(/\s{2,}|\t/)[0].slice(0, MAX_TEXT_LENGTH);
+  return raw ? { value: raw, raw, index: segment.indexOf(raw), quality: 0.8 } : null;
+}
+
+// How the document writes dates and numbers
+interface Locale {
+  language?: string;
+  reading: DateReading;
+}
+
+function parseValue(spec: FieldSpec, segment: string, locale: Locale): Parsed<string | Money> | null {
+  switch (spec.type) {
+    case 'date':
+      return parseDate(segment, locale.reading);
+    case 'money':
+      return parseMoney(segment, locale.language);
+    case 'id':
+      return parseId(segment, spec.pattern);
+    case 'name':
+      return parseName(segment);
+    case 'text':
+      return parseText(segment, spec.pattern);
+  }
+}
+
+function escapeLabel(label: string): string {
+  return label.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+}
+
+function labelPattern(label: string, flags: string): RegExp {
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escapeLabel(label)}(?![\\p{L}\\p{N}])`, flags);
+}
+
+// Where other fields' longer labels take in this one, such as "expiration
+// date" around "date". A hit inside one of these belongs to that field.
+function enclosingLabelSpans(name: FieldName, label: string, text: string): Array<[number, number]> {
+  const inner = labelPattern(label, 'iu');
+  const spans: Array<[number, number]> = [];
+  for (const other of fieldNames) {
+    if (other === name) continue;
+    for (const longer of fieldSpecs[other].labels) {
+      if (longer.length <= label.length || !inner.test(longer)) continue;
+      for (const match of text.matchAll(labelPattern(longer, 'giu'))) {
+        spans.push([match.index!, match.index! + match[0].length]);
+      }
+    }
+  }
+  return spans;
+}
+
+function locate(text: string, start: number, end: number): FieldLocation {
+  const before = text.slice(0, start);
+  const page = before.split('\f').length;
+  // Pages are joined with "\n\f\n", so a page's first line starts after the newline
+  const pageStart = before.lastIndexOf('\f') + 1;
+  const onPage = text.slice(pageStart, start).replace(/^\n/, '');
+  return { start, end, page, line: onPage.split('\n').length };
+}
+
+export interface FieldExtractionOptions {
+  // How dates and amounts are written; named as in languageConfigs
+  language?: string;
+  // OCR confidence of each page, 0 to 100, in page order. Values read from
+  // shaky pages are trusted less.
+  pageConfidence?: number[];
+}
+
+interface Candidate {
+  parsed: Parsed<string | Money>;
+  start: number;
+  confidence: number;
+  label?: string;
+}
+
+// Without a label only a value that shows what it is will do: a match for
+// the field's fallback pattern, or an amount written with its currency. Any
+// date will do only for the document's own date; for the others, such as an
+// expiry, the first date in the text is as likely to be the issue date.
+function findUnlabeled(name: FieldName, spec: FieldSpec, text: string, locale: Locale): Pick<Candidate, 'parsed' | 'start'> | null {
+  if (spec.fallback) {
+    const fallback = spec.fallback.exec(text);
+    const parsed = fallback && parseValue(spec, fallback[0], locale);
+    return fallback && parsed ? { parsed, start: fallback.index + parsed.index } : null;
+  }
+  if (spec.type === 'money') {
+    const [money] = readAmounts(text, locale.language, true);
+    return money ? { parsed: { ...money, quality: 1 }, start: money.index } : null;
+  }
+  if (name === 'date') {
+    const parsed = parseDate(text, locale.reading);
+    return parsed ? { parsed, start: parsed.index } : null;
+  }
+  return null;
+}
+
+function findField(name: FieldName, text: string, options: FieldExtractionOptions, locale: Locale): ExtractedField | undefined {
+  const spec: FieldSpec = fieldSpecs[name];
+  const candidates: Candidate[] = [];
+
+  spec.labels.forEach((label, rank) => {
+    // Less specific labels ("total" rather than "amount due") count for a bit less
+    const specificity = rank * 2;
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${escapeLabel(label)}(?![\\p{L}\\p{N}])([ \\t]*[#:.\\-–]*[ \\t]*)`, 'giu');
+    const claimed = enclosingLabelSpans(name, label, text);
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text))) {
+      const labelStart = match.index;
+      const labelEnd = labelStart + match[0].length - match[1].length;
+      if (claimed.some(([start, end]) => start <= labelStart && labelEnd <= end)) continue;
+      const valueStart = match.index + match[0].length;
+      const lineEnd = text.indexOf('\n', valueStart);
+      const rest = text.slice(valueStart, lineEnd < 0 ? text.length : lineEnd);
+      const separated = /[#:\-–]/.test(match[1]);
+
+      const sameLine = parseValue(spec, rest, locale);
+      if (sameLine && sameLine.index <= 2) {
+        candidates.push({
+          parsed: sameLine,
+          start: valueStart + sameLine.index,
+          confidence: (separated ? PLACEMENT_CONFIDENCE.separated : PLACEMENT_CONFIDENCE.adjacent) - specificity,
+          label
+        });
+      } else if (!rest.trim() && lineEnd >= 0) {
+        // Forms often put the label above its box
+        const nextEnd = text.indexOf('\n', lineEnd + 1);
+        const next = text.slice(lineEnd + 1, nextEnd < 0 ? text.length : nextEnd);
+        const below = parseValue(spec, next, locale);
+        if (below && below.index <= next.length - next.trimStart().length + 2) {
+          candidates.push({ parsed: below, start: lineEnd + 1 + below.index, confidence: PLACEMENT_CONFIDENCE.below - specificity, label });
+        }
+      }
+    }
+  });
+
+  if (candidates.length === 0) {
+    const unlabeled = findUnlabeled(name, spec, text, locale);
+    if (unlabeled) {
+      candidates.push({ ...unlabeled, confidence: PLACEMENT_CONFIDENCE.unlabeled });
+    }
+  }
+
+  const scored = candidates.map(candidate => {
+    const location = locate(text, candidate.start, candidate.start + candidate.parsed.raw.length);
+    const pageConfidence = options.pageConfidence?.[location.page - 1] ?? 100;
+    return {
+      ...candidate,
+      location,
+      confidence: Math.round(candidate.confidence * candidate.parsed.quality * (pageConfidence / 100))
+    };
+  });
+  // Highest confidence wins; on a tie, the first in the document
+  const best = scored.sort((a, b) => b.confidence - a.confidence || a.start - b.start)[0];
+  if (!best) return undefined;
+
+  return {
+    name,
+    type: spec.type,
+    value: best.parsed.value,
+    raw: best.parsed.raw,
+    confidence: best.confidence,
+    ...(best.label && { label: best.label }),
+    location: best.location,
+    ...(best.parsed.alternatives && { alternatives: best.parsed.alternatives })
+  } as ExtractedField;
+}
+
+// Extracts the named fields; names without a spec are skipped
+export function extractFields(text: string, names: readonly string[], options: FieldExtractionOptions = {}): ExtractedFields {
+  const fields: Partial<Record<FieldName, ExtractedField>> = {};
+  // Dates elsewhere in the document can settle how 03/04 is read
+  const locale: Locale = { language: options.language, reading: dateReading(options.language, text) };
+  for (const name of names) {
+    if (!isFieldName(name)) continue;
+    const field = findField(name, text, options, locale);
+    if (field) fields[name] = field;
+  }
+  return fields as ExtractedFields;
+}
+
+// Reads a value typed in by hand, such as a reviewer's correction. Dates and
+// amounts must parse; other types take the text as it is.
+export function parseFieldValue(type: FieldType, text: string, language?: string): string | Money | null {
+  const trimmed = text.trim().replace(/\s+/g, ' ');
+  if (!trimmed) return null;
+  if (type === 'date') return readDate(trimmed, dateReading(language))?.value ?? null;
+  if (type === 'money') return readAmount(trimmed, language)?.value ?? null;
+  return trimmed;
+}
+
+// Display form of a field's value
+export function formatFieldValue(field: ExtractedField): string {
+  if (field.type === 'money') return formatMoney(field.value);
+  if (field.type === 'date') return formatDate(field);
+  return field.value;
+}
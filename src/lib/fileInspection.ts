@@ -0,0 +1,391 @@
+// Byte-level inspection of uploaded files. Nothing here trusts the browser's
+// File.type or the file extension; formats are identified from their content.
+import * as UTIF from 'utif';
+
+export type ImageFileType = 'jpeg' | 'png' | 'heic' | 'tiff';
+export type DetectedFileType = 'pdf' | 'docx' | 'doc' | 'zip' | 'ole' | ImageFileType | 'unknown';
+
+export interface ImageInspection {
+  valid: boolean;
+  error?: string;
+  width: number | null;
+  height: number | null;
+  pageCount: number;
+}
+
+export interface PdfInspection {
+  version: string | null;
+  hasHeader: boolean;
+  hasEofMarker: boolean;
+  hasXref: boolean;
+  xrefKind: 'table' | 'stream' | null;
+  encrypted: boolean;
+  pageCount: number | null;
+  usesObjectStreams: boolean;
+}
+
+export interface ZipEntry {
+  name: string;
+  compressedSize: number;
+  uncompressedSize: number;
+  compressionMethod: number;
+  localHeaderOffset: number;
+  encrypted: boolean;
+}
+
+export interface ZipInspection {
+  valid: boolean;
+  error?: string;
+  entries: ZipEntry[];
+}
+
+export interface OleStream {
+  name: string;
+  size: number;
+}
+
+export interface OleInspection {
+  valid: boolean;
+  error?: string;
+  streams: OleStream[];
+}
+
+const PDF_MAGIC = [0x25, 0x50, 0x44, 0x46, 0x2d]; // %PDF-
+const ZIP_MAGIC = [0x50, 0x4b, 0x03, 0x04]; // PK\x03\x04
+const EMPTY_ZIP_MAGIC = [0x50, 0x4b, 0x05, 0x06];
+const OLE_MAGIC = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+const JPEG_MAGIC = [0xff, 0xd8, 0xff];
+const PNG_MAGIC = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const TIFF_LE_MAGIC = [0x49, 0x49, 0x2a, 0x00]; // II*\0
+const TIFF_BE_MAGIC = [0x4d, 0x4d, 0x00, 0x2a]; // MM\0*
+const HEIC_BRANDS = ['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx', 'mif1', 'msf1'];
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+export function startsWith(bytes: Uint8Array, magic: number[], offset = 0): boolean {
+  if (bytes.length < offset + magic.length) return false;
+  return magic.every((byte, i) => bytes[offset + i] === byte);
+}
+
+// Latin-1 keeps a 1:1 byte-to-char mapping, which is what PDF syntax needs
+export function bytesToLatin1(bytes: Uint8Array): string {
+  let result = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    result += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return result;
+}
+
+export function detectFileType(bytes: Uint8Array): DetectedFileType {
+  // The PDF spec allows junk before the header within the first 1024 bytes
+  const head = bytesToLatin1(bytes.subarray(0, 1024));
+  if (startsWith(bytes, PDF_MAGIC) || head.includes('%PDF-')) return 'pdf';
+
+  if (startsWith(bytes, ZIP_MAGIC) || startsWith(bytes, EMPTY_ZIP_MAGIC)) {
+    const zip = inspectZip(bytes);
+    const names = new Set(zip.entries.map(entry => entry.name));
+    return names.has('word/document.xml') ? 'docx' : 'zip';
+  }
+
+  if (startsWith(bytes, OLE_MAGIC)) {
+    return isWordBinary(bytes) ? 'doc' : 'ole';
+  }
+
+  if (startsWith(bytes, JPEG_MAGIC)) return 'jpeg';
+  if (startsWith(bytes, PNG_MAGIC)) return 'png';
+  if (startsWith(bytes, TIFF_LE_MAGIC) || startsWith(bytes, TIFF_BE_MAGIC)) return 'tiff';
+  if (isHeic(bytes)) return 'heic';
+
+  return 'unknown';
+}
+
+export function isImageType(type: DetectedFileType): type is ImageFileType {
+  return type === 'jpeg' || type === 'png' || type === 'heic' || type === 'tiff';
+}
+
+// HEIF files open with an ISO-BMFF "ftyp" box naming a HEIF brand
+function isHeic(bytes: Uint8Array): boolean {
+  if (bytes.length < 16 || bytesToLatin1(bytes.subarray(4, 8)) !== 'ftyp') return false;
+  const boxSize = Math.min(new DataView(bytes.buffer, bytes.byteOffset).getUint32(0), bytes.length);
+  const brands = bytesToLatin1(bytes.subarray(8, boxSize));
+  return HEIC_BRANDS.some(brand => brands.includes(brand));
+}
+
+export function inspectImage(bytes: Uint8Array, type: ImageFileType): ImageInspection {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  switch (type) {
+    case 'png': {
+      if (bytes.length < 33 || bytesToLatin1(bytes.subarray(12, 16)) !== 'IHDR') {
+        return { valid: false, error: 'PNG header chunk is missing', width: null, height: null, pageCount: 0 };
+      }
+      return { valid: true, width: view.getUint32(16), height: view.getUint32(20), pageCount: 1 };
+    }
+
+    case 'jpeg': {
+      // Walk the marker segments until a start-of-frame marker gives the size
+      let offset = 2;
+      while (offset + 9 < bytes.length) {
+        if (bytes[offset] !== 0xff) {
+          return { valid: false, error: 'JPEG marker structure is damaged', width: null, height: null, pageCount: 0 };
+        }
+        const marker = bytes[offset + 1];
+        const length = view.getUint16(offset + 2);
+        const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker);
+        if (isStartOfFrame) {
+          return { valid: true, height: view.getUint16(offset + 5), width: view.getUint16(offset + 7), pageCount: 1 };
+        }
+        offset += 2 + length;
+      }
+      return { valid: false, error: 'JPEG frame header not found', width: null, height: null, pageCount: 0 };
+    }
+
+    case 'tiff': {
+      try {
+        const pages = UTIF.decode(bytes.slice().buffer).filter(ifd => ifd.t256 !== undefined);
+        if (pages.length === 0) {
+          return { valid: false, error: 'TIFF contains no images', width: null, height: null, pageCount: 0 };
+        }
+        const first = pages[0];
+        return {
+          valid: true,
+          width: Number((first.t256 as number[])[0]),
+          height: Number((first.t257 as number[])[0]),
+          pageCount: pages.length
+        };
+      } catch (error) {
+        return {
+          valid: false,
+          error: error instanceof Error ? error.message : 'TIFF could not be read',
+          width: null,
+          height: null,
+          pageCount: 0
+        };
+      }
+    }
+
+    case 'heic':
+      // Dimensions live deep in the item property boxes; the decoder reports them later
+      return { valid: true, width: null, height: null, pageCount: 1 };
+  }
+}
+
+export function inspectPdf(bytes: Uint8Array): PdfInspection {
+  const text = bytesToLatin1(bytes);
+  const head = text.slice(0, 1024);
+  const tail = text.slice(-2048);
+
+  const versionMatch = head.match(/%PDF-(\d\.\d)/);
+  const startXrefMatch = tail.match(/startxref\s+(\d+)/);
+
+  let xrefKind: PdfInspection['xrefKind'] = null;
+  if (startXrefMatch) {
+    const offset = Number(startXrefMatch[1]);
+    const atOffset = text.slice(offset, offset + 64);
+    if (/^\s*xref/.test(atOffset)) {
+      xrefKind = 'table';
+    } else if (/^\s*\d+\s+\d+\s+obj/.test(atOffset) && text.slice(offset, offset + 2048).includes('/XRef')) {
+      xrefKind = 'stream';
+    }
+  }
+
+  // Leaf pages are "/Type /Page" not followed by an "s"
+  const leafPages = text.match(/\/Type\s*\/Page(?![a-zA-Z])/g)?.length ?? 0;
+  const usesObjectStreams = /\/Type\s*\/ObjStm/.test(text);
+
+  let pageCount: number | null = leafPages;
+  if (leafPages === 0) {
+    // Fall back to the page tree root, which may still be outside an object stream
+    const counts = Array.from(text.matchAll(/\/Type\s*\/Pages\b[^>]*?\/Count\s+(\d+)|\/Count\s+(\d+)[^>]*?\/Type\s*\/Pages\b/g))
+      .map(match => Number(match[1] ?? match[2]));
+    if (counts.length > 0) {
+      pageCount = Math.max(...counts);
+    } else if (usesObjectStreams) {
+      // Page objects are compressed inside object streams and can't be counted here
+      pageCount = null;
+    }
+  }
+
+  return {
+    version: versionMatch ? versionMatch[1] : null,
+    hasHeader: Boolean(versionMatch),
+    hasEofMarker: tail.includes('%%EOF'),
+    hasXref: xrefKind !== null,
+    xrefKind,
+    encrypted: /\/Encrypt\s+(\d+\s+\d+\s+R|<<)/.test(text),
+    pageCount,
+    usesObjectStreams
+  };
+}
+
+export function inspectZip(bytes: Uint8Array): ZipInspection {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // The end-of-central-directory record sits in the last 22 + 65535 bytes
+  let eocd = -1;
+  const searchStart = Math.max(0, bytes.length - 22 - 0xffff);
+  for (let i = bytes.length - 22; i >= searchStart; i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    return { valid: false, error: 'End of central directory not found', entries: [] };
+  }
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  const directorySize = view.getUint32(eocd + 12, true);
+  const directoryOffset = view.getUint32(eocd + 16, true);
+  if (directoryOffset + directorySize > eocd) {
+    return { valid: false, error: 'Central directory lies outside the file', entries: [] };
+  }
+
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  let cursor = directoryOffset;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (cursor + 46 > bytes.length || view.getUint32(cursor, true) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      return { valid: false, error: `Central directory entry ${i + 1} is corrupt`, entries };
+    }
+
+    const flags = view.getUint16(cursor + 8, true);
+    const nameLength = view.getUint16(cursor + 28, true);
+    const extraLength = view.getUint16(cursor + 30, true);
+    const commentLength = view.getUint16(cursor + 32, true);
+    const entry: ZipEntry = {
+      name: decoder.decode(bytes.subarray(cursor + 46, cursor + 46 + nameLength)),
+      compressionMethod: view.getUint16(cursor + 10, true),
+      compressedSize: view.getUint32(cursor + 20, true),
+      uncompressedSize: view.getUint32(cursor + 24, true),
+      localHeaderOffset: view.getUint32(cursor + 42, true),
+      encrypted: (flags & 0x1) === 0x1
+    };
+
+    const local = entry.localHeaderOffset;
+    if (local + 30 > bytes.length || view.getUint32(local, true) !== LOCAL_HEADER_SIGNATURE) {
+      return { valid: false, error: `Local header for ${entry.name} is missing`, entries };
+    }
+    const dataStart = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+    if (dataStart + entry.compressedSize > bytes.length) {
+      return { valid: false, error: `${entry.name} is truncated`, entries };
+    }
+
+    entries.push(entry);
+    cursor += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return { valid: true, entries };
+}
+
+// An entry's contents, inflated when the entry is deflated. Only stored and
+// deflated entries occur in Office files.
+export async function readZipEntry(bytes: Uint8Array, entry: ZipEntry): Promise<Uint8Array> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const local = entry.localHeaderOffset;
+  const dataStart = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+  const data = bytes.subarray(dataStart, dataStart + entry.compressedSize);
+
+  if (entry.compressionMethod === 0) return data;
+  if (entry.compressionMethod !== 8) {
+    throw new Error(`${entry.name} uses unsupported compression method ${entry.compressionMethod}`);
+  }
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+const OLE_FREE_SECTOR = 0xffffffff;
+const OLE_END_OF_CHAIN = 0xfffffffe;
+const OLE_STREAM_ENTRY = 2;
+
+// Reads the sector allocation table and the directory of an OLE2 compound
+// file, enough to list its streams and their sizes
+export function inspectOle(bytes: Uint8Array): OleInspection {
+  const fail = (error: string): OleInspection => ({ valid: false, error, streams: [] });
+  if (!startsWith(bytes, OLE_MAGIC)) return fail('Compound file signature is missing');
+  if (bytes.length < 512) return fail('Compound file header is truncated');
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (view.getUint16(0x1c, true) !== 0xfffe) return fail('Compound file byte order mark is invalid');
+  const sectorShift = view.getUint16(0x1e, true);
+  if (sectorShift !== 9 && sectorShift !== 12) return fail(`Sector size 2^${sectorShift} is invalid`);
+
+  const sectorSize = 1 << sectorShift;
+  const sectorCount = Math.floor((bytes.length - sectorSize) / sectorSize);
+  const sectorOffset = (sector: number) => (sector + 1) * sectorSize;
+  const isSector = (sector: number) => sector < sectorCount;
+
+  // The header lists the first 109 allocation table sectors; larger files
+  // continue the list in a chain of DIFAT sectors
+  const fatSectors: number[] = [];
+  for (let i = 0; i < 109; i++) {
+    const sector = view.getUint32(0x4c + i * 4, true);
+    if (sector !== OLE_FREE_SECTOR) fatSectors.push(sector);
+  }
+  let difat = view.getUint32(0x44, true);
+  const perSector = sectorSize / 4 - 1;
+  for (let hops = 0; difat !== OLE_END_OF_CHAIN && difat !== OLE_FREE_SECTOR; hops++) {
+    if (!isSector(difat) || hops > sectorCount) return fail('DIFAT chain is broken');
+    for (let i = 0; i < perSector; i++) {
+      const sector = view.getUint32(sectorOffset(difat) + i * 4, true);
+      if (sector !== OLE_FREE_SECTOR) fatSectors.push(sector);
+    }
+    difat = view.getUint32(sectorOffset(difat) + perSector * 4, true);
+  }
+  if (fatSectors.length === 0 || !fatSectors.every(isSector)) {
+    return fail('Sector allocation table lies outside the file');
+  }
+
+  const fat: number[] = [];
+  for (const sector of fatSectors) {
+    for (let i = 0; i < sectorSize / 4; i++) fat.push(view.getUint32(sectorOffset(sector) + i * 4, true));
+  }
+
+  // Directory entries are 128 bytes each, in a sector chain of their own
+  const streams: OleStream[] = [];
+  let sector = view.getUint32(0x30, true);
+  for (let hops = 0; sector !== OLE_END_OF_CHAIN; hops++) {
+    if (!isSector(sector) || hops > sectorCount) return fail('Directory chain is broken');
+    for (let offset = sectorOffset(sector); offset < sectorOffset(sector) + sectorSize; offset += 128) {
+      const nameLength = view.getUint16(offset + 0x40, true);
+      if (view.getUint8(offset + 0x42) !== OLE_STREAM_ENTRY || nameLength < 2 || nameLength > 64) continue;
+      const name = String.fromCharCode(
+        ...Array.from({ length: nameLength / 2 - 1 }, (_, i) => view.getUint16(offset + i * 2, true))
+      );
+      streams.push({ name, size: view.getUint32(offset + 0x78, true) });
+    }
+    sector = fat[sector] ?? OLE_END_OF_CHAIN;
+  }
+
+  return { valid: true, streams };
+}
+
+// OLE2 compound files hold .doc, .xls, .ppt and password-protected OOXML.
+// The directory entry names are UTF-16, so look for them as such.
+function hasOleStream(bytes: Uint8Array, name: string): boolean {
+  const pattern = Array.from(name).flatMap(char => [char.charCodeAt(0), 0]);
+  outer: for (let i = 512; i <= bytes.length - pattern.length; i++) {
+    for (let j = 0; j < pattern.length; j++) {
+      if (bytes[i + j] !== pattern[j]) continue outer;
+    }
+    return true;
+  }
+  return false;
+}
+
+export function isWordBinary(bytes: Uint8Array): boolean {
+  return hasOleStream(bytes, 'WordDocument');
+}
+
+export function isEncryptedOoxml(bytes: Uint8Array): boolean {
+  return startsWith(bytes, OLE_MAGIC) && hasOleStream(bytes, 'EncryptionInfo');
+}
+
+// Word, Excel and PowerPoint binaries keep VBA source under a _VBA_PROJECT stream
+export function hasOleMacros(bytes: Uint8Array): boolean {
+  return startsWith(bytes, OLE_MAGIC) && hasOleStream(bytes, '_VBA_PROJECT');
+}
@@ -0,0 +1,157 @@
+import { PDFDocument, PageSizes } from 'pdf-lib';
+import * as UTIF from 'utif';
+import type { ImageFileType } from './fileInspection';
+
+// An image upload together with the single PDF it was normalized into.
+// The original is always kept; the rendition is what gets previewed and filed.
+export interface NormalizedDocument {
+  original: File;
+  rendition: File;
+  // One raster per PDF page, in page order, for OCR
+  pageImages: Blob[];
+  sourceType: ImageFileType;
+}
+
+const RENDITION_QUALITY = 0.92;
+
+function toCanvas(source: ImageBitmap | ImageData): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = source.width;
+  canvas.height = source.height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas 2D context is not available');
+  }
+
+  // JPEG has no alpha channel, so transparent areas would otherwise turn black
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  if (source instanceof ImageData) {
+    const layer = document.createElement('canvas');
+    layer.width = source.width;
+    layer.height = source.height;
+    layer.getContext('2d')!.putImageData(source, 0, 0);
+    context.drawImage(layer, 0, 0);
+  } else {
+    context.drawImage(source, 0, 0);
+    source.close();
+  }
+  return canvas;
+}
+
+function canvasToJpeg(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Could not encode page image'))),
+      'image/jpeg',
+      RENDITION_QUALITY
+    );
+  });
+}
+
+// EXIF orientation is applied so photos taken sideways come out upright
+async function decodeBitmap(blob: Blob): Promise<HTMLCanvasElement> {
+  const bitmap = await createImageBitmap(blob, { imageOrientation: 'from-image' });
+  return toCanvas(bitmap);
+}
+
+async function decodeHeic(file: File): Promise<HTMLCanvasElement[]> {
+  // The HEIF decoder is large, so it is only loaded when a HEIC file shows up
+  const { default: heic2any } = await import('heic2any');
+  const converted = await heic2any({ blob: file, toType: 'image/png', multiple: true });
+  const images = Array.isArray(converted) ? converted : [converted];
+  return Promise.all(images.map(decodeBitmap));
+}
+
+async function decodeTiff(file: File): Promise<HTMLCanvasElement[]> {
+  const buffer = await file.arrayBuffer();
+  // Every top-level IFD with a width is a page; thumbnails and EXIF blocks are skipped
+  const pages = UTIF.decode(buffer).filter(ifd => ifd.t256 !== undefined);
+  if (pages.length === 0) {
+    throw new Error('TIFF contains no images');
+  }
+
+  return pages.map(ifd => {
+    UTIF.decodeImage(buffer, ifd);
+    const rgba = UTIF.toRGBA8(ifd);
+    return toCanvas(new ImageData(new Uint8ClampedArray(rgba.buffer, rgba.byteOffset, rgba.byteLength), ifd.width, ifd.height));
+  });
+}
+
+async function decodePages(file: File, type: ImageFileType): Promise<HTMLCanvasElement[]> {
+  switch (type) {
+    case 'jpeg':
+    case 'png':
+      return [await decodeBitmap(file)];
+    case 'heic':
+      return decodeHeic(file);
+    case 'tiff':
+      return decodeTiff(file);
+  }
+}
+
+function renditionName(name: string): string {
+  const dot = name.lastIndexOf('.');
+  return `${dot > 0 ? name.slice(0, dot) : name}.pdf`;
+}
+
+// Where an image of the given size lands on its rendition page, in PDF points
+export interface PagePlacement {
+  pageWidth: number;
+  pageHeight: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Fits an image onto an A4 sheet turned to match its orientation, centered
+export function fitToA4(imageWidth: number, imageHeight: number): PagePlacement {
+  const [shortEdge, longEdge] = PageSizes.A4;
+  const landscape = imageWidth > imageHeight;
+  const pageWidth = landscape ? longEdge : shortEdge;
+  const pageHeight = landscape ? shortEdge : longEdge;
+  const scale = Math.min(pageWidth / imageWidth, pageHeight / imageHeight);
+  const width = imageWidth * scale;
+  const height = imageHeight * scale;
+  return { pageWidth, pageHeight, x: (pageWidth - width) / 2, y: (pageHeight - height) / 2, width, height };
+}
+
+async function buildPdf(pageImages: Blob[], title: string): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(title);
+  pdf.setProducer('Document normalization');
+
+  for (const image of pageImages) {
+    // Pages are JPEG as decoded, or PNG once preprocessing has binarized them
+    const bytes = await image.arrayBuffer();
+    const embedded = image.type === 'image/png' ? await pdf.embedPng(bytes) : await pdf.embedJpg(bytes);
+    const { pageWidth, pageHeight, x, y, width, height } = fitToA4(embedded.width, embedded.height);
+    const page = pdf.addPage([pageWidth, pageHeight]);
+    page.drawImage(embedded, { x, y, width, height });
+  }
+
+  return pdf.save();
+}
+
+// The PDF rendition of an image upload, one page per image
+export async function buildRendition(pageImages: Blob[], originalName: string): Promise<File> {
+  const pdfBytes = await buildPdf(pageImages, originalName);
+  return new File([pdfBytes], renditionName(originalName), { type: 'application/pdf' });
+}
+
+export async function normalizeImage(file: File, type: ImageFileType): Promise<NormalizedDocument> {
+  const canvases = await decodePages(file, type);
+  const pageImages = await Promise.all(canvases.map(canvasToJpeg));
+
+  return {
+    original: file,
+    rendition: await buildRendition(pageImages, file.name),
+    pageImages,
+    sourceType: type
+  };
+}
+
+export function isNormalizedDocument(value: unknown): value is NormalizedDocument {
+  return typeof value === 'object' && value !== null && 'rendition' in value && 'original' in value;
+}
@@ -0,0 +1,531 @@
+// Cleans up photographed and scanned pages before OCR: crops to the page,
+// turns it upright, straightens it, then binarizes and removes noise.
+// Works on plain pixel arrays, so it runs in the processing worker.
+
+// One byte of luminance per pixel, row by row. Binarized images hold 0 for
+// ink and 255 for paper.
+export interface GrayImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export interface PreprocessedPage {
+  image: Blob;
+  // What was done to the page, for the processing log
+  corrections: string[];
+}
+
+type Point = { x: number; y: number };
+
+// Corners of the page in the photo, clockwise from top left
+type Quad = [Point, Point, Point, Point];
+
+// OCR wants about 300 DPI, which an A4 page reaches at this size
+const MAX_SIDE = 3500;
+// Page and text detection run on a reduced copy this size
+const ANALYSIS_SIDE = 1000;
+const PAGE_DETECTION_SIDE = 400;
+// A detected page smaller than this share of the photo is more likely a
+// label or a sticker than the document
+const MIN_PAGE_AREA = 0.2;
+// A page filling more than this share of the frame is left uncropped
+const MAX_PAGE_AREA = 0.9;
+const MAX_SKEW_DEGREES = 15;
+// Skew below this is not worth resampling the page for
+const MIN_SKEW_DEGREES = 0.3;
+// Ink blobs this small are sensor noise or dust
+const MAX_SPECK_PIXELS = 4;
+// Bradley thresholding: a pixel is ink when this much darker than its surroundings
+const THRESHOLD_SENSITIVITY = 0.15;
+
+function createGray(width: number, height: number, fill: number = 255): GrayImage {
+  return { width, height, data: new Uint8ClampedArray(width * height).fill(fill) };
+}
+
+function toGray(image: ImageData): GrayImage {
+  const gray = createGray(image.width, image.height);
+  for (let i = 0; i < gray.data.length; i++) {
+    const r = image.data[i * 4];
+    const g = image.data[i * 4 + 1];
+    const b = image.data[i * 4 + 2];
+    gray.data[i] = 0.299 * r + 0.587 * g + 0.114 * b;
+  }
+  return gray;
+}
+
+function toImageData(gray: GrayImage): ImageData {
+  const rgba = new Uint8ClampedArray(gray.width * gray.height * 4);
+  for (let i = 0; i < gray.data.length; i++) {
+    rgba[i * 4] = rgba[i * 4 + 1] = rgba[i * 4 + 2] = gray.data[i];
+    rgba[i * 4 + 3] = 255;
+  }
+  return new ImageData(rgba, gray.width, gray.height);
+}
+
+// Bilinear sample; outside the image is paper
+function sample(gray: GrayImage, x: number, y: number): number {
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  if (x0 < 0 || y0 < 0 || x0 >= gray.width - 1 || y0 >= gray.height - 1) {
+    return x0 >= 0 && y0 >= 0 && x0 < gray.width && y0 < gray.height ? gray.data[y0 * gray.width + x0] : 255;
+  }
+  const fx = x - x0;
+  const fy = y - y0;
+  const i = y0 * gray.width + x0;
+  const top = gray.data[i] * (1 - fx) + gray.data[i + 1] * fx;
+  const bottom = gray.data[i + gray.width] * (1 - fx) + gray.data[i + gray.width + 1] * fx;
+  return top * (1 - fy) + bottom * fy;
+}
+
+// Averages factor × factor blocks
+function shrink(gray: GrayImage, factor: number): GrayImage {
+  if (factor <= 1) return gray;
+  const small = createGray(Math.ceil(gray.width / factor), Math.ceil(gray.height / factor), 0);
+  const counts = new Uint32Array(small.data.length);
+  const sums = new Uint32Array(small.data.length);
+  for (let y = 0; y < gray.height; y++) {
+    for (let x = 0; x < gray.width; x++) {
+      const i = Math.floor(y / factor) * small.width + Math.floor(x / factor);
+      sums[i] += gray.data[y * gray.width + x];
+      counts[i]++;
+    }
+  }
+  for (let i = 0; i < small.data.length; i++) small.data[i] = sums[i] / counts[i];
+  return small;
+}
+
+function shrinkTo(gray: GrayImage, side: number): { image: GrayImage; factor: number } {
+  const factor = Math.max(1, Math.ceil(Math.max(gray.width, gray.height) / side));
+  return { image: shrink(gray, factor), factor };
+}
+
+// Otsu's method: the level that best splits the histogram into two classes
+function otsuThreshold(gray: GrayImage): number {
+  const histogram = new Array(256).fill(0);
+  gray.data.forEach(value => histogram[value]++);
+  const total = gray.data.length;
+  const sumAll = histogram.reduce((sum, count, level) => sum + count * level, 0);
+
+  let best = 127;
+  let bestVariance = -1;
+  let weightBelow = 0;
+  let sumBelow = 0;
+  for (let level = 0; level < 256; level++) {
+    weightBelow += histogram[level];
+    if (weightBelow === 0) continue;
+    const weightAbove = total - weightBelow;
+    if (weightAbove === 0) break;
+    sumBelow += level * histogram[level];
+    const meanBelow = sumBelow / weightBelow;
+    const meanAbove = (sumAll - sumBelow) / weightAbove;
+    const variance = weightBelow * weightAbove * (meanBelow - meanAbove) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = level;
+    }
+  }
+  return best;
+}
+
+// Pixels of the connected region matching `inside`, starting anywhere;
+// returns the largest one
+function largestRegion(gray: GrayImage, inside: (value: number) => boolean): number[] {
+  const seen = new Uint8Array(gray.data.length);
+  const stack = new Int32Array(gray.data.length);
+  let largest: number[] = [];
+
+  for (let start = 0; start < gray.data.length; start++) {
+    if (seen[start] || !inside(gray.data[start])) continue;
+    const region: number[] = [];
+    let top = 0;
+    stack[top++] = start;
+    seen[start] = 1;
+    while (top > 0) {
+      const i = stack[--top];
+      region.push(i);
+      const x = i % gray.width;
+      const neighbours = [
+        x > 0 ? i - 1 : -1,
+        x < gray.width - 1 ? i + 1 : -1,
+        i - gray.width,
+        i + gray.width
+      ];
+      for (const n of neighbours) {
+        if (n >= 0 && n < gray.data.length && !seen[n] && inside(gray.data[n])) {
+          seen[n] = 1;
+          stack[top++] = n;
+        }
+      }
+    }
+    if (region.length > largest.length) largest = region;
+  }
+  return largest;
+}
+
+function quadArea(quad: Quad): number {
+  let area = 0;
+  for (let i = 0; i < 4; i++) {
+    const a = quad[i];
+    const b = quad[(i + 1) % 4];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(area) / 2;
+}
+
+// The page is taken to be the largest bright region; its corners are the
+// points furthest out along the diagonals
+function findPageQuad(gray: GrayImage): Quad | null {
+  const { image: small, factor } = shrinkTo(gray, PAGE_DETECTION_SIDE);
+  const threshold = otsuThreshold(small);
+  const region = largestRegion(small, value => value > threshold);
+  const frameArea = small.width * small.height;
+  if (region.length < frameArea * MIN_PAGE_AREA) return null;
+
+  // Extremes of x + y and x - y, in the order of a Quad
+  const extremes = [
+    { pick: (x: number, y: number) => -(x + y), best: -Infinity, at: region[0] },
+    { pick: (x: number, y: number) => x - y, best: -Infinity, at: region[0] },
+    { pick: (x: number, y: number) => x + y, best: -Infinity, at: region[0] },
+    { pick: (x: number, y: number) => y - x, best: -Infinity, at: region[0] }
+  ];
+  for (const i of region) {
+    const x = i % small.width;
+    const y = Math.floor(i / small.width);
+    for (const extreme of extremes) {
+      const value = extreme.pick(x, y);
+      if (value > extreme.best) {
+        extreme.best = value;
+        extreme.at = i;
+      }
+    }
+  }
+
+  const quad = extremes.map(({ at }) => ({
+    x: ((at % small.width) + 0.5) * factor,
+    y: (Math.floor(at / small.width) + 0.5) * factor
+  })) as Quad;
+  return quadArea(quad) > gray.width * gray.height * MAX_PAGE_AREA ? null : quad;
+}
+
+// Solves a square linear system by Gaussian elimination with partial pivoting
+function solve(matrix: number[][], values: number[]): number[] {
+  const n = values.length;
+  const rows = matrix.map((row, i) => [...row, values[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(rows[row][col]) > Math.abs(rows[pivot][col])) pivot = row;
+    }
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+    for (let row = col + 1; row < n; row++) {
+      const f = rows[row][col] / rows[col][col];
+      for (let k = col; k <= n; k++) rows[row][k] -= f * rows[col][k];
+    }
+  }
+  const result = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = rows[row][n];
+    for (let k = row + 1; k < n; k++) sum -= rows[row][k] * result[k];
+    result[row] = sum / rows[row][row];
+  }
+  return result;
+}
+
+// Maps the quad onto an upright rectangle the size of its longer edges
+function warpPerspective(gray: GrayImage, quad: Quad): GrayImage {
+  const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+  const width = Math.round(Math.max(distance(quad[0], quad[1]), distance(quad[3], quad[2])));
+  const height = Math.round(Math.max(distance(quad[0], quad[3]), distance(quad[1], quad[2])));
+  const corners: Point[] = [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }];
+
+  // Homography from output pixels back to photo pixels
+  const matrix: number[][] = [];
+  const values: number[] = [];
+  corners.forEach(({ x, y }, i) => {
+    const { x: u, y: v } = quad[i];
+    matrix.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+    values.push(u);
+    matrix.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+    values.push(v);
+  });
+  const [a, b, c, d, e, f, g, h] = solve(matrix, values);
+
+  const warped = createGray(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const w = g * x + h * y + 1;
+      warped.data[y * width + x] = sample(gray, (a * x + b * y + c) / w, (d * x + e * y + f) / w);
+    }
+  }
+  return warped;
+}
+
+// Quarter turns clockwise
+function rotateQuarter(gray: GrayImage, turns: number): GrayImage {
+  const t = ((turns % 4) + 4) % 4;
+  if (t === 0) return gray;
+  const { width, height } = gray;
+  const rotated = createGray(t === 2 ? width : height, t === 2 ? height : width);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = gray.data[y * width + x];
+      if (t === 1) rotated.data[x * rotated.width + (height - 1 - y)] = value;
+      else if (t === 2) rotated.data[(height - 1 - y) * width + (width - 1 - x)] = value;
+      else rotated.data[(width - 1 - x) * rotated.width + y] = value;
+    }
+  }
+  return rotated;
+}
+
+// Turns lines that slope down at the given angle level, growing the image
+// to keep the corners
+function straighten(gray: GrayImage, degrees: number): GrayImage {
+  const angle = (degrees * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const width = Math.ceil(Math.abs(gray.width * cos) + Math.abs(gray.height * sin));
+  const height = Math.ceil(Math.abs(gray.width * sin) + Math.abs(gray.height * cos));
+  const cx = gray.width / 2;
+  const cy = gray.height / 2;
+
+  const rotated = createGray(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const dx = x - width / 2;
+      const dy = y - height / 2;
+      rotated.data[y * width + x] = sample(gray, cx + dx * cos - dy * sin, cy + dx * sin + dy * cos);
+    }
+  }
+  return rotated;
+}
+
+// Bradley's adaptive threshold: each pixel is compared with the mean of the
+// window around it, so shadows and uneven lighting don't swallow the text
+function adaptiveThreshold(gray: GrayImage): GrayImage {
+  const { width, height } = gray;
+  const integral = new Float64Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let row = 0;
+    for (let x = 0; x < width; x++) {
+      row += gray.data[y * width + x];
+      integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + row;
+    }
+  }
+
+  const half = Math.max(7, Math.round(Math.max(width, height) / 64));
+  const binary = createGray(width, height);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - half);
+    const y1 = Math.min(height, y + half + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - half);
+      const x1 = Math.min(width, x + half + 1);
+      const sum = integral[y1 * (width + 1) + x1] - integral[y0 * (width + 1) + x1]
+        - integral[y1 * (width + 1) + x0] + integral[y0 * (width + 1) + x0];
+      const mean = sum / ((x1 - x0) * (y1 - y0));
+      binary.data[y * width + x] = gray.data[y * width + x] < mean * (1 - THRESHOLD_SENSITIVITY) ? 0 : 255;
+    }
+  }
+  return binary;
+}
+
+// 3 × 3 median, which drops salt-and-pepper noise but keeps edges
+function median(gray: GrayImage): GrayImage {
+  const { width, height } = gray;
+  const filtered = createGray(width, height);
+  const window = new Uint8Array(9);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let n = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        const yy = Math.min(height - 1, Math.max(0, y + dy));
+        for (let dx = -1; dx <= 1; dx++) {
+          const xx = Math.min(width - 1, Math.max(0, x + dx));
+          window[n++] = gray.data[yy * width + xx];
+        }
+      }
+      window.sort();
+      filtered.data[y * width + x] = window[4];
+    }
+  }
+  return filtered;
+}
+
+// Clears ink blobs too small to be part of a character
+function despeckle(binary: GrayImage): GrayImage {
+  const { width, height, data } = binary;
+  const cleaned = { width, height, data: data.slice() };
+  const seen = new Uint8Array(data.length);
+  const blob: number[] = [];
+
+  for (let start = 0; start < data.length; start++) {
+    if (seen[start] || data[start] !== 0) continue;
+    blob.length = 0;
+    blob.push(start);
+    seen[start] = 1;
+    // Stop following a blob once it's clearly big enough to keep
+    for (let k = 0; k < blob.length && blob.length <= MAX_SPECK_PIXELS; k++) {
+      const i = blob[k];
+      const x = i % width;
+      const y = Math.floor(i / width);
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          const n = ny * width + nx;
+          if (!seen[n] && data[n] === 0) {
+            seen[n] = 1;
+            blob.push(n);
+          }
+        }
+      }
+    }
+    if (blob.length <= MAX_SPECK_PIXELS) {
+      blob.forEach(i => (cleaned.data[i] = 255));
+    }
+  }
+  return cleaned;
+}
+
+// Ink per row of a binarized image
+function rowProfile(binary: GrayImage): number[] {
+  const rows = new Array(binary.height).fill(0);
+  for (let y = 0; y < binary.height; y++) {
+    for (let x = 0; x < binary.width; x++) {
+      if (binary.data[y * binary.width + x] === 0) rows[y]++;
+    }
+  }
+  return rows;
+}
+
+// How strongly a profile alternates between ink and gaps, independent of scale
+function contrast(profile: number[]): number {
+  const mean = profile.reduce((sum, value) => sum + value, 0) / profile.length;
+  if (mean === 0) return 0;
+  const variance = profile.reduce((sum, value) => sum + (value - mean) ** 2, 0) / profile.length;
+  return variance / mean ** 2;
+}
+
+// Latin text has more ascenders (b, d, h, k, l, t) than descenders (g, p, q,
+// y), so upright lines carry more ink above their x-height band than below
+function isUpsideDown(binary: GrayImage): boolean {
+  const rows = rowProfile(binary);
+  const peak = Math.max(...rows);
+  if (peak === 0) return false;
+
+  let above = 0;
+  let below = 0;
+  let y = 0;
+  while (y < rows.length) {
+    if (rows[y] <= peak * 0.05) {
+      y++;
+      continue;
+    }
+    const start = y;
+    while (y < rows.length && rows[y] > peak * 0.05) y++;
+    const line = rows.slice(start, y);
+    if (line.length < 3) continue;
+    const lineMax = Math.max(...line);
+    const first = line.findIndex(value => value >= lineMax * 0.5);
+    const last = line.length - 1 - [...line].reverse().findIndex(value => value >= lineMax * 0.5);
+    above += line.slice(0, first).reduce((sum, value) => sum + value, 0);
+    below += line.slice(last + 1).reduce((sum, value) => sum + value, 0);
+  }
+  return below > above * 1.2;
+}
+
+// Quarter turns clockwise that bring the text upright. Lines of text make
+// the row profile much spikier than the column profile.
+function detectOrientation(binary: GrayImage): number {
+  const sideways = contrast(rowProfile(rotateQuarter(binary, 1))) > contrast(rowProfile(binary)) * 1.5;
+  const turned = sideways ? rotateQuarter(binary, 1) : binary;
+  return (sideways ? 1 : 0) + (isUpsideDown(turned) ? 2 : 0);
+}
+
+// Projection profile search: the angle at which ink piles up into the
+// fewest, fullest rows is the angle the text lines run at
+function detectSkew(binary: GrayImage): number {
+  const points: Point[] = [];
+  for (let y = 0; y < binary.height; y++) {
+    for (let x = 0; x < binary.width; x++) {
+      if (binary.data[y * binary.width + x] === 0) points.push({ x, y });
+    }
+  }
+  if (points.length === 0) return 0;
+  const step = Math.max(1, Math.floor(points.length / 50000));
+  const used = points.filter((_, i) => i % step === 0);
+
+  const offset = binary.width;
+  const bins = new Float64Array(binary.height + binary.width * 2);
+  const score = (degrees: number) => {
+    const angle = (degrees * Math.PI) / 180;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    bins.fill(0);
+    for (const { x, y } of used) bins[Math.round(y * cos - x * sin) + offset]++;
+    return bins.reduce((sum, count) => sum + count * count, 0);
+  };
+  const search = (from: number, to: number, by: number, best: number) => {
+    let bestScore = score(best);
+    for (let degrees = from; degrees <= to + 1e-9; degrees += by) {
+      const value = score(degrees);
+      if (value > bestScore) {
+        bestScore = value;
+        best = degrees;
+      }
+    }
+    return best;
+  };
+
+  const coarse = search(-MAX_SKEW_DEGREES, MAX_SKEW_DEGREES, 0.5, 0);
+  return search(coarse - 0.5, coarse + 0.5, 0.1, coarse);
+}
+
+// Runs the corrections on a grayscale page and returns the cleaned-up,
+// binarized page
+export function correctPage(page: GrayImage): { image: GrayImage; corrections: string[] } {
+  const corrections: string[] = [];
+  let gray = page;
+
+  const quad = findPageQuad(gray);
+  if (quad) {
+    gray = warpPerspective(gray, quad);
+    corrections.push('cropped to the page edges');
+  }
+
+  const { image: small } = shrinkTo(gray, ANALYSIS_SIDE);
+  const turns = detectOrientation(adaptiveThreshold(small));
+  if (turns > 0) {
+    gray = rotateQuarter(gray, turns);
+    corrections.push(`rotated ${turns * 90}°`);
+  }
+
+  const skew = detectSkew(adaptiveThreshold(shrinkTo(gray, ANALYSIS_SIDE).image));
+  if (Math.abs(skew) >= MIN_SKEW_DEGREES) {
+    gray = straighten(gray, skew);
+    corrections.push(`deskewed by ${skew.toFixed(1)}°`);
+  }
+
+  corrections.push('binarized');
+  return { image: despeckle(adaptiveThreshold(median(gray))), corrections };
+}
+
+export async function preprocessPageImage(image: Blob): Promise<PreprocessedPage> {
+  const bitmap = await createImageBitmap(image);
+  const scale = Math.min(1, MAX_SIDE / Math.max(bitmap.width, bitmap.height));
+  const input = new OffscreenCanvas(Math.round(bitmap.width * scale), Math.round(bitmap.height * scale));
+  const inputContext = input.getContext('2d');
+  if (!inputContext) {
+    throw new Error('Canvas 2D context is not available');
+  }
+  inputContext.drawImage(bitmap, 0, 0, input.width, input.height);
+  bitmap.close();
+
+  const { image: corrected, corrections } = correctPage(toGray(inputContext.getImageData(0, 0, input.width, input.height)));
+  const output = new OffscreenCanvas(corrected.width, corrected.height);
+  output.getContext('2d')!.putImageData(toImageData(corrected), 0, 0);
+  // Black and white pages compress far better losslessly than as JPEG
+  return { image: await output.convertToBlob({ type: 'image/png' }), corrections };
+}
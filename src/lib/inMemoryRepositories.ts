@@ -0,0 +1,361 @@
+import type {
+  Customer,
+  CustomerDocument,
+  FieldCorrection,
+  ProcessingJob,
+  RedactionLogEntry,
+  SmartFollowUp,
+  ValidationRule
+} from '../types';
+import type {
+  CustomerRepository,
+  DocumentRepository,
+  FieldCorrectionRepository,
+  FollowUpRepository,
+  NewCustomer,
+  NewCustomerDocument,
+  NewFieldCorrection,
+  NewFollowUp,
+  NewProcessingJob,
+  NewRedactionLogEntry,
+  NewValidationRule,
+  ProcessingJobRepository,
+  RedactionLogRepository,
+  Repositories,
+  ValidationRuleRepository
+} from './repositories';
+import { UNASSIGNED_CUSTOMER } from './repositories';
+import { isOutstanding, isSubmitted } from './documentStatus';
+
+interface InMemorySeed {
+  customers?: Customer[];
+  documents?: Record<string, CustomerDocument[]>;
+  followUps?: SmartFollowUp[];
+}
+
+// Records are cloned on the way in and out so callers can't mutate the store
+const clone = <T>(value: T): T => structuredClone(value);
+
+export class InMemoryDocumentRepository implements DocumentRepository {
+  // document id -> owning customer id
+  private owners: Map<string, string> = new Map();
+  private documents: Map<string, CustomerDocument> = new Map();
+
+  constructor(seed: Record<string, CustomerDocument[]> = {}) {
+    Object.entries(seed).forEach(([customerId, docs]) => {
+      docs.forEach(doc => {
+        this.owners.set(doc.id, customerId);
+        this.documents.set(doc.id, { ...clone(doc), customer_id: customerId });
+      });
+    });
+  }
+
+  async listByCustomer(customerId: string): Promise<CustomerDocument[]> {
+    return Array.from(this.documents.values())
+      .filter(doc => this.owners.get(doc.id) === customerId)
+      .map(clone);
+  }
+
+  async listAll(): Promise<Record<string, CustomerDocument[]>> {
+    const grouped: Record<string, CustomerDocument[]> = {};
+    this.documents.forEach(doc => {
+      const customerId = this.owners.get(doc.id) ?? UNASSIGNED_CUSTOMER;
+      (grouped[customerId] ??= []).push(clone(doc));
+    });
+    return grouped;
+  }
+
+  async get(id: string): Promise<CustomerDocument | null> {
+    const doc = this.documents.get(id);
+    return doc ? clone(doc) : null;
+  }
+
+  async create(customerId: string | null, document: NewCustomerDocument): Promise<CustomerDocument> {
+    const created: CustomerDocument = {
+      ...clone(document),
+      id: crypto.randomUUID(),
+      customer_id: customerId ?? undefined,
+      created_at: new Date().toISOString()
+    };
+    if (customerId) this.owners.set(created.id, customerId);
+    this.documents.set(created.id, created);
+    return clone(created);
+  }
+
+  async createRenewal(
+    customerId: string,
+    document: NewCustomerDocument & { renewal_of: string }
+  ): Promise<{ document: CustomerDocument; created: boolean }> {
+    const existing = Array.from(this.documents.values()).find(doc => doc.renewal_of === document.renewal_of);
+    if (existing) return { document: clone(existing), created: false };
+    return { document: await this.create(customerId, document), created: true };
+  }
+
+  async update(id: string, changes: Partial<NewCustomerDocument>): Promise<CustomerDocument> {
+    const existing = this.documents.get(id);
+    if (!existing) {
+      throw new Error(`Document not found: ${id}`);
+    }
+    const updated = { ...existing, ...clone(changes), id, customer_id: existing.customer_id };
+    this.documents.set(id, updated);
+    return clone(updated);
+  }
+
+  async remove(id: string): Promise<void> {
+    this.documents.delete(id);
+    this.owners.delete(id);
+  }
+}
+
+export class InMemoryFollowUpRepository implements FollowUpRepository {
+  private followUps: Map<string, SmartFollowUp> = new Map();
+
+  constructor(seed: SmartFollowUp[] = []) {
+    seed.forEach(followUp => this.followUps.set(followUp.id, clone(followUp)));
+  }
+
+  async listByCustomer(customerId: string): Promise<SmartFollowUp[]> {
+    return this.sorted(f => f.customer_id === customerId);
+  }
+
+  async listByDocument(documentId: string): Promise<SmartFollowUp[]> {
+    return this.sorted(f => f.document_id === documentId);
+  }
+
+  async schedule(followUp: NewFollowUp): Promise<SmartFollowUp> {
+    const created: SmartFollowUp = { ...clone(followUp), id: crypto.randomUUID() };
+    this.followUps.set(created.id, created);
+    return clone(created);
+  }
+
+  async updateStatus(id: string, status: SmartFollowUp['status']): Promise<SmartFollowUp> {
+    const existing = this.followUps.get(id);
+    if (!existing) {
+      throw new Error(`Follow-up not found: ${id}`);
+    }
+    const updated = { ...existing, status };
+    this.followUps.set(id, updated);
+    return clone(updated);
+  }
+
+  private sorted(predicate: (followUp: SmartFollowUp) => boolean): SmartFollowUp[] {
+    return Array.from(this.followUps.values())
+      .filter(predicate)
+      .sort((a, b) => a.scheduled_time.localeCompare(b.scheduled_time))
+      .map(clone);
+  }
+}
+
+export class InMemoryFieldCorrectionRepository implements FieldCorrectionRepository {
+  private corrections: FieldCorrection[] = [];
+
+  async list(): Promise<FieldCorrection[]> {
+    return this.corrections
+      .slice()
+      .sort((a, b) => a.corrected_at.localeCompare(b.corrected_at))
+      .map(clone);
+  }
+
+  async listByDocument(documentId: string): Promise<FieldCorrection[]> {
+    return (await this.list()).filter(correction => correction.document_id === documentId);
+  }
+
+  async create(correction: NewFieldCorrection): Promise<FieldCorrection> {
+    const created: FieldCorrection = { ...clone(correction), id: crypto.randomUUID() };
+    this.corrections.push(created);
+    return clone(created);
+  }
+}
+
+export class InMemoryRedactionLogRepository implements RedactionLogRepository {
+  private entries: RedactionLogEntry[] = [];
+
+  async listByDocument(documentId: string): Promise<RedactionLogEntry[]> {
+    return this.entries
+      .filter(entry => entry.document_id === documentId)
+      .sort((a, b) => a.redacted_at.localeCompare(b.redacted_at))
+      .map(clone);
+  }
+
+  async create(entry: NewRedactionLogEntry): Promise<RedactionLogEntry> {
+    const created: RedactionLogEntry = { ...clone(entry), id: crypto.randomUUID() };
+    this.entries.push(created);
+    return clone(created);
+  }
+}
+
+// Jobs last as long as the page, like the in-memory documents they refer
+// to: a job kept across a reload would only find its document gone. Supabase
+// keeps both when queued processing has to survive a reload.
+export class InMemoryProcessingJobRepository implements ProcessingJobRepository {
+  private jobs: Map<string, ProcessingJob> = new Map();
+
+  async list(): Promise<ProcessingJob[]> {
+    return Array.from(this.jobs.values())
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .map(clone);
+  }
+
+  async create(job: NewProcessingJob): Promise<ProcessingJob> {
+    const now = new Date().toISOString();
+    const created: ProcessingJob = { ...clone(job), id: crypto.randomUUID(), created_at: now, updated_at: now };
+    this.jobs.set(created.id, created);
+    return clone(created);
+  }
+
+  async update(id: string, changes: Partial<NewProcessingJob>): Promise<ProcessingJob> {
+    const existing = this.jobs.get(id);
+    if (!existing) {
+      throw new Error(`Processing job not found: ${id}`);
+    }
+    const updated = { ...existing, ...clone(changes), id, updated_at: new Date().toISOString() };
+    this.jobs.set(id, updated);
+    return clone(updated);
+  }
+
+  async remove(id: string): Promise<void> {
+    this.jobs.delete(id);
+  }
+}
+
+// Mirrored to Web Storage like the jobs, so rules set up without a database
+// are still there after a reload
+export class InMemoryValidationRuleRepository implements ValidationRuleRepository {
+  private static readonly STORAGE_KEY = 'validation-rules';
+  private rules: Map<string, ValidationRule> = new Map();
+
+  constructor(private storage?: Storage) {
+    const saved = storage?.getItem(InMemoryValidationRuleRepository.STORAGE_KEY);
+    if (saved) {
+      try {
+        (JSON.parse(saved) as ValidationRule[]).forEach(rule => this.rules.set(rule.id, rule));
+      } catch {
+        storage!.removeItem(InMemoryValidationRuleRepository.STORAGE_KEY);
+      }
+    }
+  }
+
+  async list(): Promise<ValidationRule[]> {
+    return Array.from(this.rules.values())
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .map(clone);
+  }
+
+  async listByDocumentType(documentType: string): Promise<ValidationRule[]> {
+    return (await this.list()).filter(rule => rule.document_type === documentType);
+  }
+
+  async create(rule: NewValidationRule): Promise<ValidationRule> {
+    const created: ValidationRule = { ...clone(rule), id: crypto.randomUUID(), created_at: new Date().toISOString() };
+    this.rules.set(created.id, created);
+    this.save();
+    return clone(created);
+  }
+
+  async update(id: string, changes: Partial<NewValidationRule>): Promise<ValidationRule> {
+    const existing = this.rules.get(id);
+    if (!existing) {
+      throw new Error(`Validation rule not found: ${id}`);
+    }
+    const updated = { ...existing, ...clone(changes), id };
+    this.rules.set(id, updated);
+    this.save();
+    return clone(updated);
+  }
+
+  async remove(id: string): Promise<void> {
+    this.rules.delete(id);
+    this.save();
+  }
+
+  private save() {
+    this.storage?.setItem(
+      InMemoryValidationRuleRepository.STORAGE_KEY,
+      JSON.stringify(Array.from(this.rules.values()))
+    );
+  }
+}
+
+export class InMemoryCustomerRepository implements CustomerRepository {
+  private customers: Map<string, Customer> = new Map();
+
+  constructor(
+    seed: Customer[] = [],
+    private documents?: InMemoryDocumentRepository,
+    private followUps?: InMemoryFollowUpRepository
+  ) {
+    seed.forEach(customer => this.customers.set(customer.id, clone(customer)));
+  }
+
+  async list(): Promise<Customer[]> {
+    const customers = Array.from(this.customers.values());
+    return Promise.all(customers.map(customer => this.withDerivedFields(customer)));
+  }
+
+  async get(id: string): Promise<Customer | null> {
+    const customer = this.customers.get(id);
+    return customer ? this.withDerivedFields(customer) : null;
+  }
+
+  async create(customer: NewCustomer): Promise<Customer> {
+    const created: Customer = {
+      ...clone(customer),
+      id: crypto.randomUUID(),
+      documents_pending: 0,
+      documents_completed: 0,
+      next_follow_up: null
+    };
+    this.customers.set(created.id, created);
+    return this.withDerivedFields(created);
+  }
+
+  async update(id: string, changes: Partial<NewCustomer>): Promise<Customer> {
+    const existing = this.customers.get(id);
+    if (!existing) {
+      throw new Error(`Customer not found: ${id}`);
+    }
+    const updated = { ...existing, ...clone(changes), id };
+    this.customers.set(id, updated);
+    return this.withDerivedFields(updated);
+  }
+
+  async remove(id: string): Promise<void> {
+    this.customers.delete(id);
+  }
+
+  // Document counts and the next follow-up are derived from the other stores
+  // when they're wired in, mirroring what the Supabase implementation selects.
+  private async withDerivedFields(customer: Customer): Promise<Customer> {
+    const result = clone(customer);
+
+    if (this.documents) {
+      const docs = await this.documents.listByCustomer(customer.id);
+      if (docs.length > 0) {
+        result.documents_pending = docs.filter(doc => isOutstanding(doc.status)).length;
+        result.documents_completed = docs.filter(doc => isSubmitted(doc.status)).length;
+      }
+    }
+
+    if (this.followUps) {
+      const upcoming = (await this.followUps.listByCustomer(customer.id))
+        .find(followUp => followUp.status === 'pending');
+      if (upcoming) {
+        result.next_follow_up = upcoming.scheduled_time;
+      }
+    }
+
+    return result;
+  }
+}
+
+export function createInMemoryRepositories(seed: InMemorySeed = {}): Repositories {
+  const documents = new InMemoryDocumentRepository(seed.documents);
+  const followUps = new InMemoryFollowUpRepository(seed.followUps);
+  const customers = new InMemoryCustomerRepository(seed.customers, documents, followUps);
+  const storage = typeof localStorage === 'undefined' ? undefined : localStorage;
+  const jobs = new InMemoryProcessingJobRepository();
+  const corrections = new InMemoryFieldCorrectionRepository();
+  const redactions = new InMemoryRedactionLogRepository();
+  const validationRules = new InMemoryValidationRuleRepository(storage);
+  return { customers, documents, followUps, jobs, corrections, redactions, validationRules };
+}
@@ -0,0 +1,447 @@
+import type { Customer, CustomerDocument, DocumentExtraction, ProcessingJob, ProcessingJobSummary, ValidationRule } from '../types';
+import type { ProcessingEvent, ProcessingResult } from './documentProcessor';
+import { documentProcessor } from './documentProcessor';
+import { downloadStoredFile, findOriginalFile, replaceDocumentFile, storeDocumentLayout } from './documentStorage';
+import { applyCorrections } from './extractionReview';
+import { detectFileType, isImageType } from './fileInspection';
+import type { NormalizedDocument } from './imageNormalization';
+import { buildRendition, isNormalizedDocument, normalizeImage } from './imageNormalization';
+import { linkRelationships } from './relationshipExtraction';
+import { repositories } from './repositories';
+import type { ProcessingJobRepository } from './repositories';
+import type { DocumentLayout, LayoutField } from './textLayout';
+
+// Messages between the queue and a processing worker
+export type ProcessingWorkerRequest = {
+  type: 'process';
+  jobId: string;
+  documentId: string;
+  input: File | NormalizedDocument;
+  // The enabled rules for the document's type
+  customValidations: ValidationRule[];
+};
+
+export type ProcessingWorkerResponse =
+  | { type: 'event'; jobId: string; event: ProcessingEvent }
+  | { type: 'done'; jobId: string; result: ProcessingResult }
+  | { type: 'error'; jobId: string; message: string };
+
+// The part of a Web Worker or Node worker thread the runner needs
+export interface WorkerHandle {
+  postMessage(message: ProcessingWorkerRequest): void;
+  onMessage(listener: (message: ProcessingWorkerResponse) => void): void;
+  onError(listener: (error: Error) => void): void;
+  terminate(): void;
+}
+
+export interface JobRunner {
+  run(job: ProcessingJob): Promise<ProcessingJobSummary>;
+  // Stops a running job; its run() rejects
+  cancel(jobId: string): void;
+}
+
+export interface JobQueueOptions {
+  concurrency: number;
+  maxAttempts: number;
+  // Backoff before retry n is baseDelayMs * 2^(n-1), capped at maxDelayMs
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+type JobListener = (jobs: ProcessingJob[]) => void;
+
+const DEFAULT_OPTIONS: JobQueueOptions = {
+  concurrency: 2,
+  maxAttempts: 5,
+  baseDelayMs: 2000,
+  maxDelayMs: 5 * 60 * 1000
+};
+
+export function isFinished(job: ProcessingJob): boolean {
+  return job.status === 'completed' || job.status === 'cancelled' || job.status === 'dead_letter';
+}
+
+export function summarize(result: ProcessingResult): ProcessingJobSummary {
+  return {
+    category: result.classification.category,
+    confidence: result.confidence,
+    page_count: result.metadata.pageCount,
+    completeness: result.validation.completeness
+  };
+}
+
+// The page layout plus the values worth pointing out on it
+function documentLayout(result: ProcessingResult): DocumentLayout {
+  const fields: LayoutField[] = [
+    ...Object.values(result.fields).map(field => ({ name: field.name, value: field.raw })),
+    ...result.entities.dates.map(date => ({ name: 'date', value: date.raw })),
+    ...result.entities.amounts.map(amount => ({ name: 'amount', value: amount.raw })),
+    ...result.entities.names.map(value => ({ name: 'name', value })),
+    ...result.entities.organizations.map(value => ({ name: 'organization', value }))
+  ];
+  const seen = new Set<string>();
+  return {
+    pages: result.layout,
+    fields: fields.filter(field => !seen.has(field.value) && seen.add(field.value))
+  };
+}
+
+// What the run read, in the form kept on the document for review. The
+// people and companies it names are linked to the customers they refer to.
+function documentExtraction(result: ProcessingResult, customers: Customer[]): DocumentExtraction {
+  const fields: DocumentExtraction['fields'] = Object.fromEntries(
+    Object.values(result.fields).map(({ name, ...field }) => [name, field])
+  );
+  // Passports and ID cards print their expiry in the MRZ rather than by a
+  // label; a zone that fails its check digits is left for review
+  const identity = result.identity;
+  if (identity?.expiryDate && !fields.expiration_date) {
+    fields.expiration_date = {
+      type: 'date',
+      value: identity.expiryDate,
+      raw: identity.lines[1],
+      confidence: identity.valid ? 95 : 40,
+      label: 'MRZ'
+    };
+  }
+
+  return {
+    category: result.classification.category,
+    category_confidence: Math.round(result.classification.confidence),
+    language: result.metadata.language,
+    fields,
+    ...(result.transactions.length > 0 && { transactions: result.transactions }),
+    ...(result.segments.length > 1 && { segments: result.segments }),
+    ...(result.analysis.relationships.length > 0 && {
+      relationships: linkRelationships(result.analysis.relationships, customers)
+    }),
+    ...(result.validation.ruleIssues.length > 0 && { validation_issues: result.validation.ruleIssues }),
+    extracted_at: new Date().toISOString()
+  };
+}
+
+// Loads the stored original; images are normalized here because that needs a
+// canvas, which workers don't have
+export async function loadProcessingInput(document: CustomerDocument): Promise<File | NormalizedDocument> {
+  const stored = findOriginalFile(document);
+  if (!stored) {
+    throw new Error('No file has been uploaded for this document yet');
+  }
+  const file = await downloadStoredFile(stored);
+  const type = detectFileType(new Uint8Array(await file.arrayBuffer()));
+  return isImageType(type) ? normalizeImage(file, type) : file;
+}
+
+export function createWebWorker(): WorkerHandle {
+  const worker = new Worker(new URL('./processingWorker.ts', import.meta.url), { type: 'module' });
+  return {
+    postMessage: message => worker.postMessage(message),
+    onMessage: listener => worker.addEventListener('message', event => listener(event.data)),
+    onError: listener => worker.addEventListener('error', event => listener(new Error(event.message))),
+    terminate: () => worker.terminate()
+  };
+}
+
+interface PooledWorker {
+  handle: WorkerHandle;
+  current?: {
+    jobId: string;
+    resolve: (result: ProcessingResult) => void;
+    reject: (error: Error) => void;
+  };
+}
+
+// Keeps one worker per concurrent job and reuses idle ones, since each
+// worker loads its own OCR engine
+export class WorkerJobRunner implements JobRunner {
+  private workers: PooledWorker[] = [];
+
+  constructor(private spawn: () => WorkerHandle = createWebWorker) {}
+
+  async run(job: ProcessingJob): Promise<ProcessingJobSummary> {
+    const document = await repositories.documents.get(job.document_id);
+    if (!document) {
+      throw new Error(`Document not found: ${job.document_id}`);
+    }
+    const input = await loadProcessingInput(document);
+    const rules = await repositories.validationRules.listByDocumentType(document.type);
+    const customValidations = rules.filter(rule => rule.enabled);
+    const worker = this.idleWorker();
+
+    const result = await new Promise<ProcessingResult>((resolve, reject) => {
+      worker.current = { jobId: job.id, resolve, reject };
+      worker.handle.postMessage({ type: 'process', jobId: job.id, documentId: job.document_id, input, customValidations });
+    });
+    // Files may have changed while the job ran, so results join the latest list
+    let latest = (await repositories.documents.get(job.document_id)) ?? document;
+    if (result.pageImages && isNormalizedDocument(input)) {
+      // The preview shows the pages as cleaned up for OCR, which is also what the layout matches
+      latest = await replaceDocumentFile(latest, 'rendition', await buildRendition(result.pageImages, input.original.name));
+    }
+    await storeDocumentLayout(latest, documentLayout(result));
+    // Values a reviewer already put right stay that way
+    const corrections = await repositories.corrections.listByDocument(job.document_id);
+    const customers = await repositories.customers.list();
+    await repositories.documents.update(job.document_id, {
+      extraction: applyCorrections(documentExtraction(result, customers), corrections)
+    });
+    return summarize(result);
+  }
+
+  cancel(jobId: string) {
+    const worker = this.workers.find(w => w.current?.jobId === jobId);
+    if (worker) {
+      this.discard(worker, new Error('Processing was cancelled'));
+    }
+  }
+
+  private idleWorker(): PooledWorker {
+    const idle = this.workers.find(w => !w.current);
+    if (idle) return idle;
+
+    const worker: PooledWorker = { handle: this.spawn() };
+    worker.handle.onMessage(message => {
+      const current = worker.current;
+      if (!current || message.jobId !== current.jobId) return;
+
+      if (message.type === 'event') {
+        documentProcessor.relay(message.event);
+      } else if (message.type === 'done') {
+        worker.current = undefined;
+        current.resolve(message.result);
+      } else {
+        worker.current = undefined;
+        current.reject(new Error(message.message));
+      }
+    });
+    // A crashed worker may be left in any state, so it is not reused
+    worker.handle.onError(error => this.discard(worker, error));
+    this.workers.push(worker);
+    return worker;
+  }
+
+  private discard(worker: PooledWorker, error: Error) {
+    const current = worker.current;
+    worker.current = undefined;
+    worker.handle.terminate();
+    this.workers = this.workers.filter(w => w !== worker);
+    current?.reject(error);
+  }
+}
+
+// Durable queue of processing jobs. Jobs are kept in the jobs repository, so
+// with a database a reload picks up where the last session stopped; a job
+// that was running at the time is started again.
+export class JobQueue {
+  private options: JobQueueOptions;
+  private jobs: Map<string, ProcessingJob> = new Map();
+  private active: Set<string> = new Set();
+  private cancelled: Set<string> = new Set();
+  private listeners: Set<JobListener> = new Set();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private starting: Promise<void> | null = null;
+  private running = false;
+
+  constructor(
+    private repository: ProcessingJobRepository,
+    private runner: JobRunner,
+    options: Partial<JobQueueOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  start(): Promise<void> {
+    this.running = true;
+    this.starting ??= this.recover();
+    return this.starting.then(() => this.pump());
+  }
+
+  // Stops starting new jobs; running ones finish
+  stop() {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  setConcurrency(concurrency: number) {
+    if (concurrency < 1) {
+      throw new Error('Concurrency must be at least 1');
+    }
+    this.options.concurrency = concurrency;
+    this.pump();
+  }
+
+  list(): ProcessingJob[] {
+    return Array.from(this.jobs.values()).sort((a, b) => a.created_at.localeCompare(b.created_at));
+  }
+
+  onChange(listener: JobListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // A document already waiting or running is not queued twice
+  async enqueue(documentId: string): Promise<ProcessingJob> {
+    await this.start();
+    const pending = this.list().find(job => job.document_id === documentId && !isFinished(job));
+    if (pending) return pending;
+
+    const job = await this.repository.create({
+      document_id: documentId,
+      status: 'queued',
+      attempts: 0,
+      max_attempts: this.options.maxAttempts,
+      run_at: new Date().toISOString(),
+      last_error: null,
+      summary: null
+    });
+    this.store(job);
+    this.pump();
+    return job;
+  }
+
+  async cancel(jobId: string): Promise<void> {
+    const job = this.jobs.get(jobId);
+    if (!job || isFinished(job)) return;
+
+    if (this.active.has(jobId)) {
+      // execute() records the cancellation once the runner lets go
+      this.cancelled.add(jobId);
+      this.runner.cancel(jobId);
+      return;
+    }
+    this.store(await this.repository.update(jobId, { status: 'cancelled' }));
+  }
+
+  // Gives a dead-lettered or cancelled job a fresh set of attempts
+  async retry(jobId: string): Promise<void> {
+    const job = this.jobs.get(jobId);
+    if (!job || (job.status !== 'dead_letter' && job.status !== 'cancelled')) return;
+
+    this.store(await this.repository.update(jobId, {
+      status: 'queued',
+      attempts: 0,
+      run_at: new Date().toISOString(),
+      last_error: null
+    }));
+    this.pump();
+  }
+
+  // Drops finished jobs from the list
+  async clearFinished(): Promise<void> {
+    const finished = this.list().filter(isFinished);
+    await Promise.all(finished.map(job => this.repository.remove(job.id)));
+    finished.forEach(job => this.jobs.delete(job.id));
+    this.notify();
+  }
+
+  private async recover(): Promise<void> {
+    const jobs = await this.repository.list();
+    for (const job of jobs) {
+      this.jobs.set(job.id, job.status === 'running'
+        ? await this.repository.update(job.id, { status: 'queued' })
+        : job);
+    }
+    this.notify();
+  }
+
+  private store(job: ProcessingJob) {
+    this.jobs.set(job.id, job);
+    this.notify();
+  }
+
+  private notify() {
+    const jobs = this.list();
+    this.listeners.forEach(listener => {
+      try {
+        listener(jobs);
+      } catch (error) {
+        console.error('Job queue listener failed:', error);
+      }
+    });
+  }
+
+  private backoff(attempt: number): number {
+    const delay = Math.min(this.options.baseDelayMs * 2 ** (attempt - 1), this.options.maxDelayMs);
+    // Jitter keeps a failed batch from retrying in lockstep
+    return delay * (0.8 + Math.random() * 0.4);
+  }
+
+  private pump() {
+    if (!this.running || !this.starting) return;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const now = Date.now();
+    const waiting = this.list().filter(job => job.status === 'queued' && !this.active.has(job.id));
+    for (const job of waiting) {
+      if (this.active.size >= this.options.concurrency) break;
+      if (Date.parse(job.run_at) <= now) {
+        this.execute(job);
+      }
+    }
+
+    // Wake up for the earliest retry that isn't due yet
+    const next = waiting
+      .filter(job => !this.active.has(job.id))
+      .reduce<number | null>((earliest, job) => {
+        const at = Date.parse(job.run_at);
+        return earliest === null || at < earliest ? at : earliest;
+      }, null);
+    if (next !== null && this.active.size < this.options.concurrency) {
+      this.timer = setTimeout(() => this.pump(), Math.max(next - now, 0));
+    }
+  }
+
+  private async execute(job: ProcessingJob) {
+    this.active.add(job.id);
+    try {
+      const started = await this.repository.update(job.id, { status: 'running', attempts: job.attempts + 1 });
+      this.store(started);
+
+      try {
+        const summary = await this.runner.run(started);
+        // A cancel that arrived before the worker picked the job up can't stop it
+        this.store(await this.repository.update(job.id, this.cancelled.has(job.id)
+          ? { status: 'cancelled' }
+          : { status: 'completed', summary, last_error: null }));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Processing failed';
+        if (this.cancelled.has(job.id)) {
+          this.store(await this.repository.update(job.id, { status: 'cancelled', last_error: null }));
+        } else if (started.attempts >= started.max_attempts) {
+          this.store(await this.repository.update(job.id, { status: 'dead_letter', last_error: message }));
+        } else {
+          this.store(await this.repository.update(job.id, {
+            status: 'queued',
+            last_error: message,
+            run_at: new Date(Date.now() + this.backoff(started.attempts)).toISOString()
+          }));
+        }
+      }
+    } catch (error) {
+      // The repository itself failed; try again later rather than spin. The
+      // job may already be marked running locally, and pump only picks up
+      // queued jobs.
+      console.error(`Processing job ${job.id} could not be updated:`, error);
+      const current = this.jobs.get(job.id) ?? job;
+      this.jobs.set(job.id, {
+        ...current,
+        status: 'queued',
+        run_at: new Date(Date.now() + this.backoff(current.attempts + 1)).toISOString()
+      });
+    } finally {
+      this.active.delete(job.id);
+      this.cancelled.delete(job.id);
+      this.pump();
+    }
+  }
+}
+
+export const processingQueue = new JobQueue(repositories.jobs, new WorkerJobRunner());
@@ -0,0 +1,112 @@
+// Works out which languages a document is written in, so OCR loads the
+// matching Tesseract traineddata and later parsing knows the locale.
+
+// Language support configurations
+export const languageConfigs = {
+  english: {
+    worker: 'eng',
+    // US documents put the month first, British and most others the day
+    dateFormats: ['MM/DD/YYYY', 'DD/MM/YYYY', 'YYYY-MM-DD'],
+    decimalSeparator: '.',
+    currencySymbol: '$'
+  },
+  spanish: {
+    worker: 'spa',
+    dateFormats: ['DD/MM/YYYY', 'YYYY-MM-DD'],
+    decimalSeparator: ',',
+    currencySymbol: '€'
+  },
+  french: {
+    worker: 'fra',
+    dateFormats: ['DD/MM/YYYY', 'YYYY-MM-DD'],
+    decimalSeparator: ',',
+    currencySymbol: '€'
+  },
+  german: {
+    worker: 'deu',
+    dateFormats: ['DD.MM.YYYY', 'YYYY-MM-DD'],
+    decimalSeparator: ',',
+    currencySymbol: '€'
+  },
+  chinese: {
+    worker: 'chi_sim',
+    dateFormats: ['YYYY年MM月DD日', 'YYYY-MM-DD'],
+    decimalSeparator: '.',
+    currencySymbol: '¥'
+  }
+};
+
+export type LanguageName = keyof typeof languageConfigs;
+
+export const DEFAULT_LANGUAGE: LanguageName = 'english';
+
+// Short, frequent words that mostly belong to one language. Some are shared
+// (Spanish and French both use "de" and "que") and count for less.
+const stopwords: Record<Exclude<LanguageName, 'chinese'>, Set<string>> = {
+  english: new Set([
+    'the', 'and', 'of', 'to', 'is', 'in', 'that', 'for', 'with', 'this',
+    'are', 'be', 'on', 'you', 'your', 'from', 'will', 'have', 'by', 'not'
+  ]),
+  spanish: new Set([
+    'el', 'la', 'los', 'las', 'de', 'del', 'que', 'y', 'en', 'por',
+    'para', 'con', 'una', 'es', 'su', 'se', 'le', 'al', 'como', 'usted', 'fecha'
+  ]),
+  french: new Set([
+    'le', 'la', 'les', 'des', 'du', 'de', 'et', 'est', 'une', 'pour',
+    'dans', 'que', 'qui', 'sur', 'avec', 'pas', 'vous', 'au', 'aux', 'ce'
+  ]),
+  german: new Set([
+    'der', 'die', 'das', 'und', 'ist', 'nicht', 'mit', 'für', 'von', 'den',
+    'dem', 'ein', 'eine', 'zu', 'auf', 'sie', 'wir', 'bitte', 'des', 'im'
+  ])
+};
+
+// Letters that only turn up in one of the Latin languages
+const distinctiveLetters: Array<[RegExp, LanguageName]> = [
+  [/[ñ¿¡]/g, 'spanish'],
+  [/[çœèêëàâîïûù]/g, 'french'],
+  [/[äöüß]/g, 'german']
+];
+
+// Below this much evidence the text says too little to go on
+const MIN_SCORE = 3;
+// A second language is only loaded when it carries this share of the evidence
+const MIN_SECONDARY_SHARE = 0.3;
+// Each extra traineddata slows OCR down and adds confusion between languages
+const MAX_LANGUAGES = 2;
+
+export function isLanguageName(value: string): value is LanguageName {
+  return value in languageConfigs;
+}
+
+// Languages found in the text, strongest first; empty when it's inconclusive
+export function detectLanguages(text: string): LanguageName[] {
+  const lower = text.toLowerCase();
+  const scores: Record<LanguageName, number> = { english: 0, spanish: 0, french: 0, german: 0, chinese: 0 };
+
+  for (const word of lower.match(/\p{L}+/gu) ?? []) {
+    // A word shared between languages is split between them
+    const matches = (Object.keys(stopwords) as Array<keyof typeof stopwords>).filter(language => stopwords[language].has(word));
+    matches.forEach(language => (scores[language] += 1 / matches.length));
+  }
+  for (const [pattern, language] of distinctiveLetters) {
+    scores[language] += (lower.match(pattern)?.length ?? 0) * 2;
+  }
+  // Chinese has no spaces, so characters stand in for words at roughly two apiece
+  scores.chinese = (text.match(/\p{Script=Han}/gu)?.length ?? 0) / 2;
+
+  const total = Object.values(scores).reduce((sum, score) => sum + score, 0);
+  if (total < MIN_SCORE) return [];
+
+  return (Object.entries(scores) as Array<[LanguageName, number]>)
+    .filter(([, score]) => score > 0)
+    .sort((a, b) => b[1] - a[1])
+    .filter(([, score], i) => i === 0 || score / total >= MIN_SECONDARY_SHARE)
+    .slice(0, MAX_LANGUAGES)
+    .map(([language]) => language);
+}
+
+// Tesseract's language string, e.g. "eng+spa"
+export function tesseractLanguages(languages: LanguageName[]): string {
+  return languages.map(language => languageConfigs[language].worker).join('+');
+}
@@ -0,0 +1,200 @@
+// Reads dates and amounts the way the document's locale writes them and
+// normalizes them: dates to ISO 8601, amounts to a number and currency.
+// "03/04/2024" is March 4 in the US and 3 April most other places; when
+// neither the locale nor the rest of the document settles which, the date
+// keeps both readings so it can be flagged rather than guessed.
+import type { LanguageName } from './languageDetection';
+import { isLanguageName, languageConfigs } from './languageDetection';
+
+export interface Money {
+  amount: number;
+  // ISO 4217, when the document shows a symbol or code
+  currency?: string;
+}
+
+export interface NormalizedDate {
+  // ISO 8601 (YYYY-MM-DD); the preferred reading when there are others
+  value: string;
+  // The text as it appears in the document
+  raw: string;
+  // Offset of raw within the text searched
+  index: number;
+  // The other reading when day and month could be swapped
+  alternatives?: string[];
+}
+
+export interface NormalizedAmount {
+  value: Money;
+  raw: string;
+  index: number;
+}
+
+type NumericOrder = 'dmy' | 'mdy';
+
+// How numeric dates are read in a document
+export interface DateReading {
+  // Order for dates where day and month could swap
+  order: NumericOrder;
+  // False when both orders are in use, so such dates are ambiguous
+  settled: boolean;
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_PATTERN = '(jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?';
+
+const CURRENCIES: Record<string, string> = { '$': 'USD', '€': 'EUR', '£': 'GBP', '¥': 'CNY' };
+
+const NUMERIC_DATE = /\b(\d{1,2})[-/.](\d{1,2})[-/.](\d{4}|\d{2})\b/g;
+const AMOUNT = /(?:([$€£¥])\s?|\b(USD|EUR|GBP|CNY|JPY)\s?)?(?<![\d.,])(\d{1,3}(?:([., \u00a0\u202f])\d{3})(?:\4\d{3})*|\d+)(?:([.,])(\d{1,2}))?(?![\d])(?:\s?([$€£¥])|\s?(USD|EUR|GBP|CNY|JPY)\b)?/gi;
+
+function isoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+function fullYear(year: string): number {
+  const value = Number(year);
+  if (year.length > 2) return value;
+  return value < 50 ? 2000 + value : 1900 + value;
+}
+
+function localeConfig(language?: string) {
+  return language && isLanguageName(language) ? languageConfigs[language as LanguageName] : undefined;
+}
+
+// The day/month orders the locale's numeric formats use
+function localeOrders(language?: string): NumericOrder[] {
+  const config = localeConfig(language);
+  if (!config) return ['mdy', 'dmy'];
+  const orders = config.dateFormats
+    .filter(format => /^(DD|MM)\W/.test(format))
+    .map(format => (format.startsWith('DD') ? 'dmy' : 'mdy') as NumericOrder);
+  // Locales that only write dates year first have no say
+  return orders.length > 0 ? [...new Set(orders)] : ['mdy', 'dmy'];
+}
+
+// A date such as 25/03/2024 can only be read one way, and tells how the rest
+// of the document's dates are written. The locale decides when the text
+// doesn't, and a locale that writes both orders (English) leaves it open.
+export function dateReading(language?: string, text = ''): DateReading {
+  const seen = new Set<NumericOrder>();
+  for (const match of text.matchAll(NUMERIC_DATE)) {
+    const [a, b] = [Number(match[1]), Number(match[2])];
+    if (a > 12 && b <= 12) seen.add('dmy');
+    if (b > 12 && a <= 12) seen.add('mdy');
+  }
+  if (seen.size === 1) {
+    return { order: [...seen][0], settled: true };
+  }
+  const orders = localeOrders(language);
+  return { order: orders[0], settled: orders.length === 1 };
+}
+
+function numericDate(match: RegExpMatchArray, reading: DateReading): NormalizedDate | null {
+  const [a, b] = [Number(match[1]), Number(match[2])];
+  const year = fullYear(match[3]);
+  // A part over 12 can only be the day, whatever the locale says
+  const dayFirst = a > 12 ? true : b > 12 ? false : reading.order === 'dmy';
+  const value = dayFirst ? isoDate(year, b, a) : isoDate(year, a, b);
+  if (!value) return null;
+
+  const other = a <= 12 && b <= 12 && a !== b && !reading.settled
+    ? (dayFirst ? isoDate(year, a, b) : isoDate(year, b, a))
+    : null;
+  return { value, raw: match[0], index: match.index ?? 0, ...(other && { alternatives: [other] }) };
+}
+
+// Every date in the text, in the order they appear
+export function readDates(text: string, reading: DateReading): NormalizedDate[] {
+  const found: NormalizedDate[] = [];
+  const add = (match: RegExpMatchArray, value: string | null) => {
+    if (value) found.push({ value, raw: match[0], index: match.index ?? 0 });
+  };
+
+  for (const match of text.matchAll(/\b(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})\b/g)) {
+    add(match, isoDate(Number(match[1]), Number(match[2]), Number(match[3])));
+  }
+  for (const match of text.matchAll(NUMERIC_DATE)) {
+    const date = numericDate(match, reading);
+    if (date) found.push(date);
+  }
+  for (const match of text.matchAll(new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+${MONTH_PATTERN},?\\s+(\\d{4})\\b`, 'gi'))) {
+    add(match, isoDate(Number(match[3]), MONTHS.indexOf(match[2].toLowerCase().slice(0, 3)) + 1, Number(match[1])));
+  }
+  for (const match of text.matchAll(new RegExp(`\\b${MONTH_PATTERN}\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`, 'gi'))) {
+    add(match, isoDate(Number(match[3]), MONTHS.indexOf(match[1].toLowerCase().slice(0, 3)) + 1, Number(match[2])));
+  }
+  for (const match of text.matchAll(/(\d{4})\s*年\s*(\d{1,2})\s*月\s*(\d{1,2})\s*日/g)) {
+    add(match, isoDate(Number(match[1]), Number(match[2]), Number(match[3])));
+  }
+
+  // A date inside another ("2024-03-04" holds no "24-03-04") only counts once
+  let end = 0;
+  return found
+    .sort((a, b) => a.index - b.index || b.raw.length - a.raw.length)
+    .filter(date => {
+      if (date.index < end) return false;
+      end = date.index + date.raw.length;
+      return true;
+    });
+}
+
+// The first date in the text
+export function readDate(text: string, reading: DateReading): NormalizedDate | null {
+  return readDates(text, reading)[0] ?? null;
+}
+
+// "1.234,56", "1,234.56" and "1 234,56" are all the same amount. A lone
+// separator before three digits groups thousands, unless it's the locale's
+// decimal separator.
+function parseNumber(whole: string, group: string | undefined, decimal: string | undefined, fraction: string | undefined, language?: string): number {
+  const decimalSeparator = localeConfig(language)?.decimalSeparator;
+  if (!decimal && group && group === decimalSeparator && whole.split(group).length === 2) {
+    return Number(whole.replace(group, '.'));
+  }
+  const digits = group ? whole.split(group).join('') : whole;
+  return Number(fraction ? `${digits}.${fraction}` : digits);
+}
+
+function amountAt(match: RegExpMatchArray, language?: string): NormalizedAmount | null {
+  const [raw, prefixSymbol, prefixCode, whole, group, decimal, fraction, suffixSymbol, suffixCode] = match;
+  // Grouped with the same character as the decimals, so not an amount at all
+  if (group && decimal && group === decimal) return null;
+  const symbol = prefixSymbol ?? suffixSymbol;
+  const code = prefixCode ?? suffixCode;
+  const currency = code?.toUpperCase() ?? (symbol ? CURRENCIES[symbol] : undefined);
+  const amount = parseNumber(whole, group, decimal, fraction, language);
+  return {
+    value: currency ? { amount, currency } : { amount },
+    raw: raw.trim(),
+    index: (match.index ?? 0) + (raw.length - raw.trimStart().length)
+  };
+}
+
+// Every amount in the text; with currencyOnly, just those that show a
+// currency, since bare numbers are mostly quantities and references
+export function readAmounts(text: string, language?: string, currencyOnly = false): NormalizedAmount[] {
+  return [...text.matchAll(AMOUNT)]
+    .map(match => amountAt(match, language))
+    .filter((amount): amount is NormalizedAmount => amount !== null && (!currencyOnly || amount.value.currency !== undefined));
+}
+
+// The first amount in the text
+export function readAmount(text: string, language?: string): NormalizedAmount | null {
+  return readAmounts(text, language)[0] ?? null;
+}
+
+// Display form of an amount
+export function formatMoney({ amount, currency }: Money): string {
+  return currency
+    ? amount.toLocaleString(undefined, { style: 'currency', currency })
+    : amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+// Display form of a date, with the other reading when it's ambiguous
+export function formatDate(date: Pick<NormalizedDate, 'value' | 'raw' | 'alternatives'>): string {
+  return date.alternatives ? `${date.raw} (${[date.value, ...date.alternatives].join(' or ')}?)` : date.value;
+}
@@ -0,0 +1,175 @@
+import { ClamdScanner } from './clamdScanner';
+import { bytesToLatin1, detectFileType, hasOleMacros, inspectZip } from './fileInspection';
+import { supabase } from './supabase';
+
+export interface ScanFinding {
+  scanner: string;
+  // Short machine-readable name, e.g. "PDF.JavaScript" or "OLE.Macro"
+  signature: string;
+  description: string;
+}
+
+// What a single scanner reports
+export interface ScannerReport {
+  infected: boolean;
+  findings: ScanFinding[];
+}
+
+export interface MalwareScanner {
+  readonly name: string;
+  scan(bytes: Uint8Array, fileName: string): Promise<ScannerReport>;
+}
+
+export interface ScanResult {
+  // 'error' means a scanner could not give an answer; callers fail closed
+  verdict: 'clean' | 'infected' | 'error';
+  findings: ScanFinding[];
+  scannedBy: string[];
+  errors: string[];
+}
+
+// Actions that run code or open other files when a PDF is viewed
+const PDF_ACTIVE_CONTENT: Array<{ pattern: RegExp; signature: string; description: string }> = [
+  { pattern: /\/(JS|JavaScript)(?![A-Za-z])/, signature: 'PDF.JavaScript', description: 'PDF contains embedded JavaScript' },
+  { pattern: /\/Launch(?![A-Za-z])/, signature: 'PDF.LaunchAction', description: 'PDF contains a Launch action that can start programs' }
+];
+
+// PDF names may hide characters as #xx hex escapes, e.g. /J#61vaScript
+function decodePdfNames(text: string): string {
+  return text.replace(/\/[^\s/<>[\]()]+/g, name =>
+    name.replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+  );
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// Object streams compress whole dictionaries, so actions inside them are
+// invisible until the streams are inflated
+async function expandObjectStreams(text: string, bytes: Uint8Array): Promise<string[]> {
+  const expanded: string[] = [];
+  const objectStream = /\/Type\s*\/ObjStm\b[^]*?\bstream\r?\n/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = objectStream.exec(text)) !== null) {
+    // The filter may come before or after /Type in the stream dictionary
+    const dictionary = text.slice(Math.max(0, match.index - 256), match.index + match[0].length);
+    if (!/\/FlateDecode/.test(dictionary)) continue;
+    const start = match.index + match[0].length;
+    const end = text.indexOf('endstream', start);
+    if (end < 0) continue;
+    try {
+      expanded.push(bytesToLatin1(await inflate(bytes.subarray(start, end))));
+    } catch {
+      // A stream that won't inflate can't be inspected; the rest still is
+    }
+  }
+  return expanded;
+}
+
+// Flags active content by structure rather than signature: PDF JavaScript and
+// Launch actions, and VBA macros in Word files
+export class HeuristicScanner implements MalwareScanner {
+  readonly name = 'heuristic';
+
+  async scan(bytes: Uint8Array): Promise<ScannerReport> {
+    const findings: ScanFinding[] = [];
+    const type = detectFileType(bytes);
+
+    if (type === 'pdf') {
+      const text = bytesToLatin1(bytes);
+      const sources = [text, ...(await expandObjectStreams(text, bytes))].map(decodePdfNames);
+      PDF_ACTIVE_CONTENT.forEach(({ pattern, signature, description }) => {
+        if (sources.some(source => pattern.test(source))) {
+          findings.push({ scanner: this.name, signature, description });
+        }
+      });
+    }
+
+    if (type === 'docx' || type === 'zip') {
+      const macros = inspectZip(bytes).entries.filter(entry => /(^|\/)vbaProject\.bin$/i.test(entry.name));
+      if (macros.length > 0) {
+        findings.push({
+          scanner: this.name,
+          signature: 'OOXML.Macro',
+          description: `Office file contains VBA macros (${macros.map(entry => entry.name).join(', ')})`
+        });
+      }
+    }
+
+    if ((type === 'doc' || type === 'ole') && hasOleMacros(bytes)) {
+      findings.push({
+        scanner: this.name,
+        signature: 'OLE.Macro',
+        description: 'Office file contains VBA macros'
+      });
+    }
+
+    return { infected: findings.length > 0, findings };
+  }
+}
+
+// Runs every registered scanner over a file and merges their reports
+export class MalwareScanService {
+  private scanners: MalwareScanner[];
+
+  constructor(scanners: MalwareScanner[] = []) {
+    this.scanners = [...scanners];
+  }
+
+  register(scanner: MalwareScanner) {
+    this.scanners = [...this.scanners.filter(s => s.name !== scanner.name), scanner];
+  }
+
+  async scan(file: File): Promise<ScanResult> {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const reports = await Promise.all(this.scanners.map(async (scanner): Promise<{
+      scanner: string;
+      report?: ScannerReport;
+      error?: string;
+    }> => {
+      try {
+        return { scanner: scanner.name, report: await scanner.scan(bytes, file.name) };
+      } catch (error) {
+        return { scanner: scanner.name, error: error instanceof Error ? error.message : String(error) };
+      }
+    }));
+
+    const findings = reports.flatMap(r => r.report?.findings ?? []);
+    const errors = reports.filter(r => r.error).map(r => `${r.scanner}: ${r.error}`);
+    const infected = reports.some(r => r.report?.infected);
+
+    return {
+      verdict: infected ? 'infected' : errors.length > 0 ? 'error' : 'clean',
+      findings,
+      scannedBy: reports.filter(r => r.report).map(r => r.scanner),
+      errors
+    };
+  }
+}
+
+// ClamAV joins the heuristic scanner when there is a server to run it on:
+// VITE_CLAMAV_SCAN_URL, or the Supabase project's clamav-scan function.
+// Without one only active content is caught, not known malware.
+function createMalwareScanner(): MalwareScanService {
+  const env = import.meta.env;
+  const client = supabase;
+  const endpoint = env.VITE_CLAMAV_SCAN_URL
+    ?? (client && `${env.VITE_SUPABASE_URL}/functions/v1/clamav-scan`);
+  const service = new MalwareScanService([new HeuristicScanner()]);
+  if (endpoint) {
+    service.register(new ClamdScanner({
+      endpoint,
+      headers: async (): Promise<Record<string, string>> => {
+        if (!client) return {};
+        const { data } = await client.auth.getSession();
+        return { authorization: `Bearer ${data.session?.access_token ?? env.VITE_SUPABASE_ANON_KEY}` };
+      }
+    }));
+  }
+  return service;
+}
+
+export const malwareScanner = createMalwareScanner();
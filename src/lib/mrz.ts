@@ -0,0 +1,226 @@
+// Machine-readable zones of passports and ID cards (ICAO 9303). TD3 is the
+// passport's two 44-character lines, TD2 two lines of 36 and TD1 the three
+// lines of 30 on ID cards. Every field with a check digit is verified.
+
+export type MrzFormat = 'TD1' | 'TD2' | 'TD3';
+
+export type MrzCheckedField = 'document_number' | 'date_of_birth' | 'expiry_date' | 'personal_number' | 'composite';
+
+export interface MrzCheck {
+  field: MrzCheckedField;
+  valid: boolean;
+}
+
+export interface MachineReadableZone {
+  format: MrzFormat;
+  // "P" for passports, "I", "A" or "C" for ID cards
+  documentCode: string;
+  // ISO 3166 alpha-3, or an ICAO code such as "D" for Germany
+  issuingState: string;
+  documentNumber: string;
+  surname: string;
+  givenNames: string;
+  nationality: string;
+  // ISO 8601; null when the zone leaves the date unknown
+  dateOfBirth: string | null;
+  sex: 'M' | 'F' | 'X';
+  expiryDate: string | null;
+  optionalData: string;
+  checks: MrzCheck[];
+  // Every check digit matched
+  valid: boolean;
+  lines: string[];
+}
+
+const LINE_LENGTHS: Record<MrzFormat, { lines: number; length: number }> = {
+  TD1: { lines: 3, length: 30 },
+  TD2: { lines: 2, length: 36 },
+  TD3: { lines: 2, length: 44 }
+};
+
+const CHECK_WEIGHTS = [7, 3, 1];
+
+// OCR mistakes for digits in positions that can only hold one
+const DIGIT_LOOKALIKES: Record<string, string> = { O: '0', Q: '0', D: '0', I: '1', L: '1', Z: '2', S: '5', G: '6', B: '8' };
+
+const checkLabels: Record<MrzCheckedField, string> = {
+  document_number: 'document number',
+  date_of_birth: 'date of birth',
+  expiry_date: 'expiry date',
+  personal_number: 'personal number',
+  composite: 'composite'
+};
+
+// ICAO 9303 check digit: digits count as themselves, A to Z as 10 to 35 and
+// the filler as 0, weighted 7, 3, 1 in turn, modulo 10
+export function mrzCheckDigit(value: string): number {
+  let sum = 0;
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    const code = char === '<' ? 0 : /\d/.test(char) ? Number(char) : char.charCodeAt(0) - 55;
+    sum += code * CHECK_WEIGHTS[i % 3];
+  }
+  return sum % 10;
+}
+
+// Positions on the second line that only ever hold digits: dates and check digits
+const NUMERIC_POSITIONS: Record<MrzFormat, Array<[number, number]>> = {
+  TD1: [[0, 7], [8, 15], [29, 30]],
+  TD2: [[9, 10], [13, 20], [21, 28], [35, 36]],
+  TD3: [[9, 10], [13, 20], [21, 28], [42, 44]]
+};
+
+function fixDigits(line: string, format: MrzFormat): string {
+  const chars = line.split('');
+  for (const [from, to] of NUMERIC_POSITIONS[format]) {
+    for (let i = from; i < to; i++) {
+      chars[i] = DIGIT_LOOKALIKES[chars[i]] ?? chars[i];
+    }
+  }
+  return chars.join('');
+}
+
+// A '<' check digit is allowed over an all-filler field, such as an empty
+// personal number
+function check(field: MrzCheckedField, value: string, digit: string): MrzCheck {
+  const expected = mrzCheckDigit(value);
+  const valid = digit === '<' ? /^<*$/.test(value) : Number(digit) === expected;
+  return { field, valid };
+}
+
+function trimFiller(text: string): string {
+  return text.replace(/<+$/, '').replace(/</g, ' ').trim();
+}
+
+// YYMMDD. Birth dates are in the past; expiry dates are in the coming decades.
+function mrzDate(text: string, kind: 'birth' | 'expiry', today: Date): string | null {
+  if (!/^\d{6}$/.test(text)) return null;
+  const [yy, mm, dd] = [text.slice(0, 2), text.slice(2, 4), text.slice(4, 6)].map(Number);
+  const century = Math.floor(today.getUTCFullYear() / 100) * 100;
+  let year = century + yy;
+  if (kind === 'birth' && year > today.getUTCFullYear()) year -= 100;
+  if (kind === 'expiry' && year > today.getUTCFullYear() + 50) year -= 100;
+
+  const date = new Date(Date.UTC(year, mm - 1, dd));
+  if (date.getUTCMonth() !== mm - 1 || date.getUTCDate() !== dd) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+function names(field: string): { surname: string; givenNames: string } {
+  const [surname, ...rest] = field.split('<<');
+  return { surname: trimFiller(surname), givenNames: trimFiller(rest.join('<<')) };
+}
+
+function sexOf(char: string): MachineReadableZone['sex'] {
+  return char === 'M' || char === 'F' ? char : 'X';
+}
+
+function parseTd1([line1, line2, line3]: string[], today: Date) {
+  // Numbers longer than nine characters run on into the optional data, with
+  // the check digit after them and a filler in the usual check digit place
+  let documentNumber = line1.slice(5, 14);
+  let numberCheck = line1[14];
+  let optionalData = line1.slice(15, 30);
+  if (numberCheck === '<') {
+    const overflow = /^([A-Z0-9]*)([0-9])/.exec(optionalData);
+    if (overflow) {
+      documentNumber += overflow[1];
+      numberCheck = overflow[2];
+      optionalData = optionalData.slice(overflow[0].length);
+    }
+  }
+
+  return {
+    documentCode: trimFiller(line1.slice(0, 2)),
+    issuingState: trimFiller(line1.slice(2, 5)),
+    documentNumber: trimFiller(documentNumber),
+    ...names(line3),
+    nationality: trimFiller(line2.slice(15, 18)),
+    dateOfBirth: mrzDate(line2.slice(0, 6), 'birth', today),
+    sex: sexOf(line2[7]),
+    expiryDate: mrzDate(line2.slice(8, 14), 'expiry', today),
+    optionalData: trimFiller(`${optionalData}<${line2.slice(18, 29)}`),
+    checks: [
+      check('document_number', documentNumber, numberCheck),
+      check('date_of_birth', line2.slice(0, 6), line2[6]),
+      check('expiry_date', line2.slice(8, 14), line2[14]),
+      check('composite', line1.slice(5, 30) + line2.slice(0, 7) + line2.slice(8, 15) + line2.slice(18, 29), line2[29])
+    ]
+  };
+}
+
+// TD2 and TD3 share a layout; TD3's second line has room for a personal number
+function parseTwoLine([line1, line2]: string[], format: 'TD2' | 'TD3', today: Date) {
+  const end = format === 'TD3' ? 43 : 35;
+  const checks = [
+    check('document_number', line2.slice(0, 9), line2[9]),
+    check('date_of_birth', line2.slice(13, 19), line2[19]),
+    check('expiry_date', line2.slice(21, 27), line2[27])
+  ];
+  if (format === 'TD3') {
+    checks.push(check('personal_number', line2.slice(28, 42), line2[42]));
+  }
+  checks.push(check('composite', line2.slice(0, 10) + line2.slice(13, 20) + line2.slice(21, end), line2[end]));
+
+  return {
+    documentCode: trimFiller(line1.slice(0, 2)),
+    issuingState: trimFiller(line1.slice(2, 5)),
+    documentNumber: trimFiller(line2.slice(0, 9)),
+    ...names(line1.slice(5)),
+    nationality: trimFiller(line2.slice(10, 13)),
+    dateOfBirth: mrzDate(line2.slice(13, 19), 'birth', today),
+    sex: sexOf(line2[20]),
+    expiryDate: mrzDate(line2.slice(21, 27), 'expiry', today),
+    optionalData: trimFiller(line2.slice(28, format === 'TD3' ? 42 : 35)),
+    checks
+  };
+}
+
+// Lines that could belong to a zone: only capitals, digits and fillers once
+// OCR spacing is removed, with at least one filler
+function candidateLines(text: string): string[] {
+  return text
+    .split('\n')
+    .map(line => line.replace(/\s+/g, '').replace(/«/g, '<<').toUpperCase())
+    .filter(line => /^[A-Z0-9<]{28,46}$/.test(line) && line.includes('<'));
+}
+
+// OCR tends to drop or add a trailing filler; lines within two characters of
+// the format's length are padded or cut to fit
+function fit(line: string, length: number): string | null {
+  if (Math.abs(line.length - length) > 2) return null;
+  return line.length >= length ? line.slice(0, length) : line.padEnd(length, '<');
+}
+
+// The first zone found in the text, trying the longest format first
+export function readMachineReadableZone(text: string, today: Date = new Date()): MachineReadableZone | null {
+  const lines = candidateLines(text);
+
+  for (const format of ['TD3', 'TD2', 'TD1'] as MrzFormat[]) {
+    const { lines: count, length } = LINE_LENGTHS[format];
+    for (let i = 0; i + count <= lines.length; i++) {
+      const group = lines.slice(i, i + count).map(line => fit(line, length));
+      if (group.some(line => line === null)) continue;
+      const zone = group as string[];
+      zone[1] = fixDigits(zone[1], format);
+      // Each format's first line opens with its document code
+      if (format === 'TD3' && zone[0][0] !== 'P') continue;
+      if (format !== 'TD3' && !/^[ACI]/.test(zone[0])) continue;
+
+      const fields = format === 'TD1' ? parseTd1(zone, today) : parseTwoLine(zone, format, today);
+      return { format, ...fields, valid: fields.checks.every(c => c.valid), lines: zone };
+    }
+  }
+  return null;
+}
+
+// Validation issues for the zone: failed check digits and a past expiry
+export function mrzIssues(zone: MachineReadableZone, today: Date = new Date()): string[] {
+  const issues = zone.checks
+    .filter(c => !c.valid)
+    .map(c => `MRZ check digit failed: ${checkLabels[c.field]}`);
+  if (zone.expiryDate && zone.expiryDate < today.toISOString().slice(0, 10)) {
+    issues.push(`Document expired on ${zone.expiryDate}`);
+  }
+  return issues;
+}
@@ -0,0 +1,181 @@
+// Page-by-page classification for packets scanned into one file, such as an
+// ID, a utility bill and a W-9 sent together. A new document is taken to
+// start where the page numbering starts over or where a page confidently
+// reads as a different kind of document than the pages before it.
+import type { CustomerDocument } from '../types';
+import { readMachineReadableZone } from './mrz';
+
+export interface PageKind {
+  id: string;
+  label: string;
+  // Words in a request's name or type that ask for this kind of document
+  requested: RegExp;
+  // What the page says; each pattern that matches is one piece of evidence
+  evidence: RegExp[];
+}
+
+// The documents customers are usually asked for during onboarding
+export const pageKinds: PageKind[] = [
+  {
+    id: 'identity',
+    label: 'Identity document',
+    requested: /\b(identity|identification|passport|id card|driver'?s? licen[cs]e)\b/i,
+    evidence: [/\bpassport\b/i, /\bdriver'?s?\s+licen[cs]e\b/i, /\b(identity card|national id)\b/i, /\bdate of birth\b/i, /\bnationality\b/i, /\bplace of birth\b/i]
+  },
+  {
+    id: 'tax_form',
+    label: 'W-9 form',
+    requested: /\bw-?9\b/i,
+    evidence: [/\bform\s+w-?9\b/i, /\brequest for taxpayer\b/i, /\btaxpayer identification number\b/i, /\bbackup withholding\b/i]
+  },
+  {
+    id: 'proof_of_address',
+    label: 'Proof of address',
+    requested: /\b(proof of address|address|utility)\b/i,
+    evidence: [/\butility\b/i, /\b(electric(ity)?|water|gas) (bill|service|usage|charges)\b/i, /\bservice address\b/i, /\bkwh\b/i, /\bmeter (reading|number)\b/i, /\bbilling period\b/i]
+  },
+  {
+    id: 'bank_statement',
+    label: 'Bank statement',
+    requested: /\bbank statements?\b/i,
+    evidence: [/\b(opening|closing|beginning|ending) balance\b/i, /\bstatement period\b/i, /\baccount (number|summary)\b/i, /\b(deposits|withdrawals)\b/i]
+  },
+  {
+    id: 'financial_statement',
+    label: 'Financial statement',
+    requested: /\bfinancial statements?\b/i,
+    evidence: [/\bbalance sheet\b/i, /\b(income statement|profit and loss)\b/i, /\btotal (assets|liabilities)\b/i, /\bcash flows?\b/i]
+  },
+  {
+    id: 'tax_return',
+    label: 'Tax return',
+    requested: /\btax returns?\b/i,
+    evidence: [/\bform\s+(1040|1065|1120s?)\b/i, /\badjusted gross income\b/i, /\btaxable income\b/i, /\bincome tax return\b/i]
+  },
+  {
+    id: 'insurance',
+    label: 'Insurance certificate',
+    requested: /\binsurance\b/i,
+    evidence: [/\bcertificate of (liability )?insurance\b/i, /\bpolicy (number|period)\b/i, /\binsured\b/i, /\bcoverage\b/i]
+  },
+  {
+    id: 'business_registration',
+    label: 'Business license or registration',
+    requested: /\b(business licen[cs]e|registration|incorporation)\b/i,
+    evidence: [/\bbusiness licen[cs]e\b/i, /\bcertificate of (incorporation|formation|registration)\b/i, /\bregistration number\b/i, /\bsecretary of state\b/i]
+  },
+  {
+    id: 'employment_contract',
+    label: 'Employment contract',
+    requested: /\bemployment\b/i,
+    evidence: [/\bemployment (agreement|contract)\b/i, /\bemployer\b/i, /\bemployee\b/i, /\bsalary\b/i]
+  }
+];
+
+// Two pieces of evidence make a page confident enough to start a new document
+const CONFIDENT = 90;
+
+export interface PageClassification {
+  // 1-based
+  page: number;
+  // A pageKinds id; null when nothing on the page points anywhere
+  kind: string | null;
+  confidence: number;
+  // "Page 2 of 3" and the like
+  marker?: { index: number; total?: number };
+}
+
+// A run of pages proposed as one document
+export interface PageSegment {
+  // 1-based and inclusive
+  from: number;
+  to: number;
+  kind: string | null;
+  confidence: number;
+  // Why a new document starts here; unset for the first
+  reason?: string;
+}
+
+export function pageKindLabel(kind: string | null): string {
+  return pageKinds.find(candidate => candidate.id === kind)?.label ?? 'Unclassified';
+}
+
+// Only at the end of a line, as in headers and footers, so "see page 3" in
+// running text doesn't count
+function pageMarker(text: string): PageClassification['marker'] {
+  const match = /(?:^|\s)page\s+(\d{1,3})(?:\s*(?:of|\/)\s*(\d{1,3}))?\W*$/im.exec(text);
+  if (!match) return undefined;
+  return { index: Number(match[1]), ...(match[2] && { total: Number(match[2]) }) };
+}
+
+export function classifyPage(page: number, text: string): PageClassification {
+  let best: { kind: string; hits: number } | null = null;
+  for (const kind of pageKinds) {
+    let hits = kind.evidence.filter(pattern => pattern.test(text)).length;
+    // A machine-readable zone is as sure a sign of an ID as there is
+    if (kind.id === 'identity' && readMachineReadableZone(text)) hits += 2;
+    if (hits > 0 && (!best || hits > best.hits)) best = { kind: kind.id, hits };
+  }
+
+  const marker = pageMarker(text);
+  return {
+    page,
+    kind: best?.kind ?? null,
+    confidence: best ? (best.hits >= 2 ? CONFIDENT : 50) : 0,
+    ...(marker && { marker })
+  };
+}
+
+// Splits the pages into runs, one per logical document. Page numbering
+// decides first; a page that says "Page 2" continues its document whatever
+// it looks like.
+export function proposeSegments(pages: Array<{ number: number; text: string }>): PageSegment[] {
+  const segments: PageSegment[] = [];
+  let current: PageSegment | null = null;
+
+  for (const page of pages) {
+    const { kind, confidence, marker } = classifyPage(page.number, page.text);
+    let reason: string | undefined;
+    if (current && marker) {
+      if (marker.index === 1) reason = 'Page numbering starts over';
+    } else if (current && kind && confidence >= CONFIDENT && kind !== current.kind) {
+      reason = `${pageKindLabel(kind)} starts here`;
+    }
+
+    if (!current || reason) {
+      current = { from: page.number, to: page.number, kind, confidence, ...(reason && { reason }) };
+      segments.push(current);
+      continue;
+    }
+    current.to = page.number;
+    // Pages that read as something else without confidence don't change it
+    if (kind && !current.kind) {
+      current.kind = kind;
+      current.confidence = confidence;
+    } else if (kind === current.kind) {
+      current.confidence = Math.max(current.confidence, confidence);
+    }
+  }
+  return segments;
+}
+
+// The kind of document a request asks for; its name says more than its type
+export function requestedKind(request: Pick<CustomerDocument, 'name' | 'type'>): string | null {
+  const kind = pageKinds.find(candidate => candidate.requested.test(request.name))
+    ?? pageKinds.find(candidate => candidate.requested.test(request.type));
+  return kind?.id ?? null;
+}
+
+// Pairs each segment with an open request for the same kind of document,
+// the one due soonest first; null where nothing matches
+export function matchRequests(segments: PageSegment[], requests: CustomerDocument[]): Array<string | null> {
+  const open = [...requests].sort((a, b) => a.due_date.localeCompare(b.due_date));
+  const taken = new Set<string>();
+  return segments.map(segment => {
+    if (!segment.kind) return null;
+    const request = open.find(candidate => !taken.has(candidate.id) && requestedKind(candidate) === segment.kind);
+    if (!request) return null;
+    taken.add(request.id);
+    return request.id;
+  });
+}
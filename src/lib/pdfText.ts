@@ -0,0 +1,153 @@
+import type { PDFPageProxy } from 'pdfjs-dist';
+import type { LayoutBox, LayoutLine, LayoutWord } from './textLayout';
+import { splitIntoWords, unionBox } from './textLayout';
+
+// A page counts as having a text layer when it has at least this many letters
+// or digits, and they make up most of its visible characters. Scans often
+// carry a few stray characters, and fonts without a Unicode map extract as
+// symbol soup.
+const MIN_TEXT_CHARACTERS = 16;
+const MIN_ALPHANUMERIC_RATIO = 0.5;
+
+// OCR wants roughly 300 DPI; PDF user space is 72 units per inch
+const RENDER_SCALE = 300 / 72;
+
+export function hasUsableText(text: string): boolean {
+  const visible = text.replace(/\s/g, '');
+  const alphanumeric = visible.match(/[\p{L}\p{N}]/gu)?.length ?? 0;
+  return alphanumeric >= MIN_TEXT_CHARACTERS && alphanumeric / visible.length >= MIN_ALPHANUMERIC_RATIO;
+}
+
+export interface PdfPageText {
+  text: string;
+  lines: LayoutLine[];
+}
+
+// Text layer of each page, in page order, with where each line sits. Pages
+// that fail to parse come back empty so they fall through to OCR.
+export async function extractPdfPageText(bytes: Uint8Array): Promise<PdfPageText[]> {
+  const renderer = await openPdfRenderer(bytes);
+  try {
+    const pages: PdfPageText[] = [];
+    for (let number = 1; number <= renderer.pageCount; number++) {
+      pages.push(await renderer.text(number).catch(() => ({ text: '', lines: [] })));
+    }
+    return pages;
+  } finally {
+    await renderer.close();
+  }
+}
+
+// Canvases for pdf.js's scratch work, for contexts without a DOM such as
+// the processing worker
+class OffscreenCanvasFactory {
+  create(width: number, height: number) {
+    const canvas = new OffscreenCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d') };
+  }
+
+  reset(target: { canvas: OffscreenCanvas }, width: number, height: number) {
+    target.canvas.width = width;
+    target.canvas.height = height;
+  }
+
+  destroy(target: { canvas: OffscreenCanvas }) {
+    target.canvas.width = 0;
+    target.canvas.height = 0;
+  }
+}
+
+// Items on the same baseline join up; a new baseline starts a new line
+async function readPageText(page: PDFPageProxy): Promise<PdfPageText> {
+  const { items } = await page.getTextContent();
+  const [x0, y0, x1, y1] = page.view;
+  const pageWidth = x1 - x0;
+  const pageHeight = y1 - y0;
+
+  const lines: Array<{ text: string; boxes: LayoutBox[]; words: LayoutWord[] }> = [];
+  let lastY: number | undefined;
+  for (const item of items) {
+    // Marked-content markers carry no text
+    if (!('str' in item)) continue;
+    const { str, transform, width, height } = item;
+    const [, , , , x, y] = transform;
+    if (lastY === undefined || y !== lastY) {
+      lines.push({ text: '', boxes: [], words: [] });
+    }
+    lastY = y;
+    const line = lines[lines.length - 1];
+    line.text += str;
+    if (!str.trim()) continue;
+
+    // The item's box runs from a little below the baseline to the top of the font
+    const fontHeight = height || Math.hypot(transform[2], transform[3]);
+    const box = {
+      left: (x - x0) / pageWidth,
+      top: (y1 - y - fontHeight * 0.8) / pageHeight,
+      width: width / pageWidth,
+      height: fontHeight / pageHeight
+    };
+    line.boxes.push(box);
+    line.words.push(...splitIntoWords(str, box));
+  }
+
+  return {
+    text: lines.map(line => line.text).join('\n'),
+    lines: lines
+      .filter(line => line.words.length > 0)
+      .map(line => ({ text: line.text.trim(), confidence: 100, box: unionBox(line.boxes), words: line.words }))
+  };
+}
+
+export interface PdfPageRenderer {
+  readonly pageCount: number;
+  // Text layer of one page (1-based)
+  text(pageNumber: number): Promise<PdfPageText>;
+  // Rasterizes one page (1-based), at OCR resolution unless told otherwise
+  render(pageNumber: number, scale?: number): Promise<Blob>;
+  close(): Promise<void>;
+}
+
+// pdf.js is loaded on first use rather than with the app
+export async function openPdfRenderer(bytes: Uint8Array): Promise<PdfPageRenderer> {
+  const pdfjs = await import('pdfjs-dist');
+  await import('pdfjs-dist/build/pdf.worker.js');
+
+  // pdf.js takes ownership of the buffer it is given, so it gets a copy
+  const pdf = await pdfjs.getDocument({
+    data: bytes.slice(),
+    canvasFactory: new OffscreenCanvasFactory(),
+    isOffscreenCanvasSupported: true
+  }).promise;
+
+  return {
+    pageCount: pdf.numPages,
+    async text(pageNumber) {
+      const page = await pdf.getPage(pageNumber);
+      try {
+        return await readPageText(page);
+      } finally {
+        page.cleanup();
+      }
+    },
+    async render(pageNumber, scale = RENDER_SCALE) {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale });
+      const canvas = new OffscreenCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+      const context = canvas.getContext('2d');
+      if (!context) {
+        throw new Error('Canvas 2D context is not available');
+      }
+      // Pages without a background would otherwise be transparent, which OCR reads as black
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      await page.render({
+        canvasContext: context as unknown as CanvasRenderingContext2D,
+        viewport
+      }).promise;
+      page.cleanup();
+      return canvas.convertToBlob({ type: 'image/png' });
+    },
+    close: () => pdf.destroy()
+  };
+}
@@ -0,0 +1,175 @@
+// Finds personal data on a document's pages, with the box it occupies, so a
+// copy can be made with it blacked out. Numbers that carry a check digit
+// (cards, IBANs) have to pass it; the rest are only taken next to a label or
+// in a format that leaves little doubt.
+import type { PiiKind } from '../types';
+import { dateReading, readDate } from './localeFormats';
+import type { LayoutBox, LayoutLine, PageLayout } from './textLayout';
+import { unionBox } from './textLayout';
+
+export interface PiiMatch {
+  kind: PiiKind;
+  // 1-based
+  page: number;
+  // As read from the page
+  text: string;
+  box: LayoutBox;
+}
+
+export const piiKindLabels: Record<PiiKind, string> = {
+  ssn: 'Social Security number',
+  bank_account: 'Bank account number',
+  iban: 'IBAN',
+  card_number: 'Card number',
+  passport_number: 'Passport or ID number',
+  date_of_birth: 'Date of birth'
+};
+
+// Digits and letters left readable in the log and the review list
+const VISIBLE_CHARACTERS = 4;
+
+// A value found within a line's text, by character offsets
+interface Hit {
+  kind: PiiKind;
+  start: number;
+  end: number;
+}
+
+// Area 000, 666 and 9xx, group 00 and serial 0000 are never issued
+const SSN = /\b(?!000|666|9\d\d)\d{3}([- ])(?!00)\d{2}\1(?!0000)\d{4}\b/g;
+const SSN_LABELLED = /\b(?:ssn|social security(?: number| no\.?)?)[\s#:.-]*((?!000|666|9\d\d)\d{3}(?!00)\d{2}(?!0000)\d{4})\b/gi;
+const CARD = /\b\d(?:[ -]?\d){12,18}\b/g;
+const IBAN = /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g;
+const ACCOUNT = /\b(?:account|acct|a\/c)(?: number| no\.?| #)?[\s#:.-]*(\d(?:[\d -]{3,}\d))\b/gi;
+// "Document" alone is too common a word to label a number by itself
+const PASSPORT = /\b(?:passport(?: number| no\.?| #)?|document(?: number| no\.?| #))[\s#:.-]*([A-Z0-9]{6,9})\b/gi;
+const BIRTH_LABEL = /\b(?:date of birth|birth ?date|d\.?o\.?b\.?|born(?: on)?|geburtsdatum|fecha de nacimiento|date de naissance)(?![\p{L}])[\s#:.-]*/giu;
+// A line of a passport or ID card's machine-readable zone, which spells out
+// the number, birth date and name
+const MRZ_LINE = /^[A-Z0-9<]{30,44}$/;
+
+function luhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// ISO 13616: country and check digits moved to the end, letters as numbers,
+// and the whole mod 97 is 1
+function validIban(text: string): boolean {
+  const compact = text.replace(/ /g, '');
+  if (compact.length < 15 || compact.length > 34) return false;
+  const rearranged = compact.slice(4) + compact.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const value = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55);
+    for (const digit of value) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+// The value with all but its last few letters and digits blanked out;
+// dates of birth are blanked out whole
+export function maskValue(kind: PiiKind, text: string): string {
+  let visible = kind === 'date_of_birth' ? 0 : VISIBLE_CHARACTERS;
+  return [...text].reverse().map(char => {
+    if (!/[\p{L}\p{N}]/u.test(char)) return char;
+    return visible-- > 0 ? char : '•';
+  }).reverse().join('');
+}
+
+// A line's text rebuilt from its words, with where each word starts
+function lineText(line: LayoutLine): { text: string; starts: number[] } {
+  let text = '';
+  const starts = line.words.map(word => {
+    if (text) text += ' ';
+    const start = text.length;
+    text += word.text;
+    return start;
+  });
+  return { text, starts };
+}
+
+function findInLine(text: string, language?: string): Hit[] {
+  const hits: Hit[] = [];
+  const add = (kind: PiiKind, start: number, value: string) => hits.push({ kind, start, end: start + value.length });
+  // Offset of a label's captured value within the match
+  const captured = (match: RegExpMatchArray) => (match.index ?? 0) + match[0].lastIndexOf(match[1]);
+
+  if (MRZ_LINE.test(text.replace(/\s/g, '')) && text.includes('<')) {
+    add('passport_number', 0, text);
+    return hits;
+  }
+  for (const match of text.matchAll(IBAN)) {
+    if (validIban(match[0])) add('iban', match.index ?? 0, match[0]);
+  }
+  for (const match of text.matchAll(CARD)) {
+    const digits = match[0].replace(/\D/g, '');
+    if (digits.length >= 13 && luhn(digits)) add('card_number', match.index ?? 0, match[0]);
+  }
+  for (const match of text.matchAll(SSN)) add('ssn', match.index ?? 0, match[0]);
+  for (const match of text.matchAll(SSN_LABELLED)) add('ssn', captured(match), match[1]);
+  for (const match of text.matchAll(ACCOUNT)) add('bank_account', captured(match), match[1]);
+  for (const match of text.matchAll(PASSPORT)) {
+    // A number, not a word that happens to follow the label
+    if (/\d/.test(match[1])) add('passport_number', captured(match), match[1]);
+  }
+  for (const match of text.matchAll(BIRTH_LABEL)) {
+    const after = (match.index ?? 0) + match[0].length;
+    const date = readDate(text.slice(after), dateReading(language, text));
+    if (date && date.index <= 2) add('date_of_birth', after + date.index, date.raw);
+  }
+  return hits;
+}
+
+// Labels that sit above their value, as on ID cards, leave the value on the
+// next line
+function findBelowLabels(lines: string[], language?: string): Array<Hit & { line: number }> {
+  const hits: Array<Hit & { line: number }> = [];
+  lines.forEach((text, i) => {
+    const next = lines[i + 1];
+    if (next === undefined) return;
+    for (const match of text.matchAll(BIRTH_LABEL)) {
+      if (text.slice((match.index ?? 0) + match[0].length).trim()) continue;
+      const date = readDate(next, dateReading(language, next));
+      if (date && date.index <= 2) hits.push({ kind: 'date_of_birth', start: date.index, end: date.index + date.raw.length, line: i + 1 });
+    }
+  });
+  return hits;
+}
+
+// Every piece of personal data on the pages. Where two finds overlap (a card
+// number is also a run of digits after "account") the first kind checked
+// wins.
+export function detectPii(pages: PageLayout[], language?: string): PiiMatch[] {
+  const matches: PiiMatch[] = [];
+  for (const page of pages) {
+    const lines = page.lines.map(lineText);
+    const hits = [
+      ...lines.flatMap(({ text }, i) => findInLine(text, language).map(hit => ({ ...hit, line: i }))),
+      ...findBelowLabels(lines.map(({ text }) => text), language)
+    ];
+
+    const taken: Array<{ line: number; start: number; end: number }> = [];
+    for (const hit of hits) {
+      if (taken.some(other => other.line === hit.line && hit.start < other.end && other.start < hit.end)) continue;
+      taken.push(hit);
+
+      const line = page.lines[hit.line];
+      const { text, starts } = lines[hit.line];
+      const words = line.words.filter((word, i) => starts[i] < hit.end && starts[i] + word.text.length > hit.start);
+      if (words.length === 0) continue;
+      matches.push({ kind: hit.kind, page: page.number, text: text.slice(hit.start, hit.end), box: unionBox(words.map(word => word.box)) });
+    }
+  }
+  return matches;
+}
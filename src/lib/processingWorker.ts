@@ -0,0 +1,26 @@
+import { documentProcessor } from './documentProcessor';
+import type { ProcessingWorkerRequest, ProcessingWorkerResponse } from './jobQueue';
+
+// Entry point of a processing worker: runs the pipeline for one job at a time
+// and streams its progress events back. Started as a Web Worker by
+// createWebWorker.
+const post = (message: ProcessingWorkerResponse) => self.postMessage(message);
+
+let currentJob: string | null = null;
+
+documentProcessor.onProgress(event => {
+  if (currentJob) post({ type: 'event', jobId: currentJob, event });
+});
+
+self.onmessage = async (event: MessageEvent<ProcessingWorkerRequest>) => {
+  const { jobId, documentId, input, customValidations } = event.data;
+  currentJob = jobId;
+  try {
+    const result = await documentProcessor.processDocument(input, { documentId, customValidations });
+    post({ type: 'done', jobId, result });
+  } catch (error) {
+    post({ type: 'error', jobId, message: error instanceof Error ? error.message : 'Processing failed' });
+  } finally {
+    currentJob = null;
+  }
+};
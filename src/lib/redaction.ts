@@ -0,0 +1,157 @@
+// Redacted copies for sharing with third parties. Personal data found on the
+// pages is proposed for redaction, a person confirms or drops each box, and
+// the pages are rendered to images with the boxes painted in, so nothing of
+// the text survives underneath. Every decision is logged, and the copy can
+// only be shared once someone has checked it.
+import { PDFDocument } from 'pdf-lib';
+import type { CustomerDocument, RedactionLogEntry, StoredDocumentFile } from '../types';
+import { downloadStoredFile, findPreviewFile, loadDocumentLayout, replaceDocumentFile, signedFileUrl } from './documentStorage';
+import { currentReviewer } from './extractionReview';
+import { openPdfRenderer } from './pdfText';
+import type { PiiMatch } from './piiDetection';
+import { detectPii, maskValue } from './piiDetection';
+import { repositories } from './repositories';
+import type { LayoutBox } from './textLayout';
+
+export interface Redaction extends PiiMatch {
+  id: string;
+  // False when the reviewer wants the value left visible
+  redact: boolean;
+}
+
+// Word boxes from a text layer are estimated from character counts, so
+// boxes are grown a little to be sure they cover the ink
+const PADDING = 0.004;
+
+// Shared links last a week; the preview's links only last a page view
+const SHARE_LINK_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const JPEG_QUALITY = 0.85;
+
+export function findRedactedFile(document: Pick<CustomerDocument, 'files'>): StoredDocumentFile | undefined {
+  return document.files?.find(file => file.kind === 'redacted');
+}
+
+// Everything the detector finds on the processed pages, all marked for redaction
+export async function proposeRedactions(document: CustomerDocument): Promise<Redaction[]> {
+  const layout = await loadDocumentLayout(document);
+  if (!layout) {
+    throw new Error('Process the document first so its text can be located');
+  }
+  return detectPii(layout.pages, document.extraction?.language).map(match => ({
+    ...match,
+    id: crypto.randomUUID(),
+    redact: true
+  }));
+}
+
+function padded(box: LayoutBox): LayoutBox {
+  const left = Math.max(0, box.left - PADDING);
+  const top = Math.max(0, box.top - PADDING);
+  return {
+    left,
+    top,
+    width: Math.min(1, box.left + box.width + PADDING) - left,
+    height: Math.min(1, box.top + box.height + PADDING) - top
+  };
+}
+
+// The page as an image with its boxes painted black
+async function burnIn(page: Blob, boxes: LayoutBox[]): Promise<Blob> {
+  const bitmap = await createImageBitmap(page);
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas 2D context is not available');
+  }
+  context.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  context.fillStyle = '#000000';
+  for (const box of boxes.map(padded)) {
+    context.fillRect(box.left * canvas.width, box.top * canvas.height, box.width * canvas.width, box.height * canvas.height);
+  }
+  return canvas.convertToBlob({ type: 'image/jpeg', quality: JPEG_QUALITY });
+}
+
+function redactedName(name: string): string {
+  const dot = name.lastIndexOf('.');
+  return `${dot > 0 ? name.slice(0, dot) : name} (redacted).pdf`;
+}
+
+// Builds the copy, stores it and logs each decision against it. The new
+// copy starts out unapproved.
+export async function createRedactedCopy(document: CustomerDocument, redactions: Redaction[]): Promise<CustomerDocument> {
+  const source = findPreviewFile(document);
+  if (!source) {
+    throw new Error('Only documents with a PDF or a PDF rendition can be redacted');
+  }
+
+  const bytes = new Uint8Array(await (await downloadStoredFile(source)).arrayBuffer());
+  const original = await PDFDocument.load(bytes);
+  const output = await PDFDocument.create();
+  output.setTitle(redactedName(document.name));
+  output.setProducer('Document redaction');
+
+  const renderer = await openPdfRenderer(bytes);
+  try {
+    for (let i = 0; i < original.getPageCount(); i++) {
+      const boxes = redactions.filter(redaction => redaction.redact && redaction.page === i + 1).map(redaction => redaction.box);
+      const image = await output.embedJpg(await (await burnIn(await renderer.render(i + 1), boxes)).arrayBuffer());
+      // Same size as the page it replaces, with nothing but the image on it
+      const { width, height } = original.getPage(i).getSize();
+      output.addPage([width, height]).drawImage(image, { x: 0, y: 0, width, height });
+    }
+  } finally {
+    await renderer.close();
+  }
+
+  const file = new File([await output.save()], redactedName(document.name), { type: 'application/pdf' });
+  // Takes the place of an earlier copy, approval and all
+  const updated = await replaceDocumentFile(document, 'redacted', file);
+  const key = findRedactedFile(updated)!.key;
+
+  const actor = await currentReviewer();
+  const now = new Date().toISOString();
+  for (const redaction of redactions) {
+    await repositories.redactions.create({
+      document_id: document.id,
+      file_key: key,
+      kind: redaction.kind,
+      page: redaction.page,
+      box: redaction.box,
+      masked_value: maskValue(redaction.kind, redaction.text),
+      redacted: redaction.redact,
+      redacted_by: actor,
+      redacted_at: now
+    });
+  }
+  return updated;
+}
+
+// Records that someone looked over the copy and it can go out
+export async function approveRedactedCopy(document: CustomerDocument): Promise<CustomerDocument> {
+  const copy = findRedactedFile(document);
+  if (!copy) {
+    throw new Error('There is no redacted copy to approve');
+  }
+  const approved: StoredDocumentFile = { ...copy, approved_by: await currentReviewer(), approved_at: new Date().toISOString() };
+  return repositories.documents.update(document.id, {
+    files: (document.files ?? []).map(file => (file === copy ? approved : file))
+  });
+}
+
+// A link to the approved copy that outlives the page it was made on
+export function shareRedactedCopy(document: CustomerDocument): Promise<string> {
+  const copy = findRedactedFile(document);
+  if (!copy) {
+    return Promise.reject(new Error('Make a redacted copy before sharing'));
+  }
+  if (!copy.approved_at) {
+    return Promise.reject(new Error('The redacted copy has to be reviewed before it can be shared'));
+  }
+  return signedFileUrl(copy, { expiresIn: SHARE_LINK_TTL_SECONDS, download: copy.name });
+}
+
+export function redactionLog(document: CustomerDocument): Promise<RedactionLogEntry[]> {
+  return repositories.redactions.listByDocument(document.id);
+}
@@ -0,0 +1,183 @@
+// Who a document says is related to whom: "X employed by Y", "agreement
+// between A and B", "policy insures C", "payment from P to Q". Sentences are
+// tagged with compromise and read with match patterns, and the people and
+// companies found are linked to customer records so a contract can be
+// checked against the customer it was filed for.
+import compromise from 'compromise';
+import type { Customer, DocumentRelationship, EntityLink, RelationshipKind } from '../types';
+
+export interface Relationship {
+  entity1: string;
+  relationship: RelationshipKind;
+  entity2: string;
+}
+
+export const relationshipLabels: Record<RelationshipKind, string> = {
+  employed_by: 'employed by',
+  agreement_with: 'agreement with',
+  insures: 'insures',
+  pays: 'pays'
+};
+
+type Sentence = ReturnType<typeof compromise>;
+
+// A person or company, as compromise tags them
+const ENTITY = '(#Person|#Organization|#ProperNoun)+';
+
+// Subject in group a, object in group b. Patterns without a group a use the
+// subject given, as for a policy that doesn't name its insurer.
+const PATTERNS: Array<{ kind: RelationshipKind; match: string; subject?: string; reversed?: boolean }> = [
+  { kind: 'employed_by', match: `[<a>${ENTITY}] (is|was|are|has been|have been)? (employed|hired|engaged|retained) by [<b>${ENTITY}]` },
+  { kind: 'employed_by', match: `[<a>${ENTITY}] (works|worked|shall work|will work) for [<b>${ENTITY}]` },
+  { kind: 'employed_by', match: `[<a>${ENTITY}] (employs|hires|engages) [<b>${ENTITY}]`, reversed: true },
+  { kind: 'insures', match: `[<a>${ENTITY}] (insures|covers|shall insure|will insure) [<b>${ENTITY}]` },
+  { kind: 'insures', match: `(policy|insurer) (insures|covers|shall insure|will insure) [<b>${ENTITY}]`, subject: 'The policy' },
+  { kind: 'insures', match: `[<b>${ENTITY}] (is|are) (insured|covered) by [<a>${ENTITY}]` },
+  { kind: 'insures', match: `[<b>${ENTITY}] (is|are) (insured|covered) (by|under) the? (policy|insurer)`, subject: 'The policy' },
+  { kind: 'pays', match: `(payment|payments|transfer|remittance|paid|sent) from [<a>${ENTITY}] to [<b>${ENTITY}]` },
+  { kind: 'pays', match: `[<a>${ENTITY}] (pays|paid|shall pay|will pay|agrees to pay) [<b>${ENTITY}]` }
+];
+
+// Contract words that compromise tags as proper nouns when capitalized
+const NOT_ENTITIES = new Set(['agreement', 'contract', 'lease', 'policy', 'insurer', 'insurance', 'employer', 'employee', 'party', 'parties']);
+
+// Suffixes left off when comparing company names
+const COMPANY_SUFFIXES = new Set(['inc', 'incorporated', 'llc', 'ltd', 'limited', 'corp', 'corporation', 'co', 'company', 'plc', 'gmbh', 'sa', 'ag', 'bv']);
+// The ones written with a full stop, as in "Acme Inc."
+const ABBREVIATED_SUFFIXES = new Set(['inc', 'ltd', 'corp', 'co']);
+
+// Quotes, articles and trailing punctuation dropped; a full stop stays when
+// it ends an abbreviation such as Inc.
+function cleanEntity(text: string): string {
+  const cleaned = text
+    .replace(/[“”"()[\]]/g, '')
+    .replace(/^(?:the|a|an)\s+/i, '')
+    .replace(/[\s,;:]+$/, '')
+    .trim();
+  const last = cleaned.split(/\s+/).pop()?.toLowerCase() ?? '';
+  return last.endsWith('.') && !ABBREVIATED_SUFFIXES.has(last.slice(0, -1)) ? cleaned.slice(0, -1) : cleaned;
+}
+
+function isEntity(text: string): boolean {
+  return text !== '' && !text.toLowerCase().split(/\s+/).every(word => NOT_ENTITIES.has(word));
+}
+
+// The parties named after "between", however their roles are written in:
+// 'between Acme Ltd ("Employer") and Bob Brown ("Employee")'
+function agreementParties(sentence: Sentence): string[] {
+  const between = sentence.match('(agreement|contract|lease|deed) .* between .*');
+  if (!between.found) return [];
+  return between
+    .match('between .*')
+    .match(ENTITY)
+    .out('array')
+    .map(cleanEntity)
+    .filter(isEntity);
+}
+
+// Relationships in the text, one per distinct triple. Sentences come from the
+// caller, so the processor's own sentence split is used.
+export function extractRelationships(sentences: string[]): Relationship[] {
+  const found = new Map<string, Relationship>();
+  const add = (relationship: Relationship) => {
+    if (relationship.entity1.toLowerCase() === relationship.entity2.toLowerCase()) return;
+    const key = [relationship.entity1, relationship.relationship, relationship.entity2].join('|').toLowerCase();
+    if (!found.has(key)) found.set(key, relationship);
+  };
+
+  for (const text of sentences) {
+    const sentence = compromise(text);
+    for (const pattern of PATTERNS) {
+      const matches = sentence.match(pattern.match);
+      if (!matches.found) continue;
+      // Named groups are only kept on the whole set of matches, one entry per match
+      const subjects: string[] = (matches.groups('a') as Sentence).out('array');
+      const objects: string[] = (matches.groups('b') as Sentence).out('array');
+      objects.forEach((objectText, i) => {
+        const a = pattern.subject ?? cleanEntity(subjects[i] ?? '');
+        const b = cleanEntity(objectText);
+        if (!isEntity(b) || (!pattern.subject && !isEntity(a))) return;
+        add(pattern.reversed
+          ? { entity1: b, relationship: pattern.kind, entity2: a }
+          : { entity1: a, relationship: pattern.kind, entity2: b });
+      });
+    }
+
+    const parties = agreementParties(sentence);
+    for (let i = 1; i < parties.length; i++) {
+      add({ entity1: parties[0], relationship: 'agreement_with', entity2: parties[i] });
+    }
+  }
+  return Array.from(found.values());
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').split(/\s+/).filter(Boolean);
+}
+
+function companyKey(text: string): string {
+  const kept = words(text);
+  while (kept.length > 1 && COMPANY_SUFFIXES.has(kept[kept.length - 1])) kept.pop();
+  return kept.join(' ');
+}
+
+// A person matches when every part of the customer's name is in the entity,
+// so "Mr. John A. Smith" is John Smith; a company when the names agree
+// without their Inc. or Ltd.
+export function linkEntity(entity: string, customers: Customer[]): EntityLink | undefined {
+  const entityWords = new Set(words(entity));
+  const person = customers.find(customer => {
+    const name = words(customer.full_name);
+    return name.length > 1 && name.every(word => entityWords.has(word));
+  });
+  if (person) return { customer_id: person.id, matched: 'name' };
+
+  const key = companyKey(entity);
+  const company = customers.find(customer => customer.company && companyKey(customer.company) === key);
+  return company ? { customer_id: company.id, matched: 'company' } : undefined;
+}
+
+export function linkRelationships(relationships: Relationship[], customers: Customer[]): DocumentRelationship[] {
+  return relationships.map(relationship => {
+    const entity1Link = linkEntity(relationship.entity1, customers);
+    const entity2Link = linkEntity(relationship.entity2, customers);
+    return {
+      ...relationship,
+      ...(entity1Link && { entity1_link: entity1Link }),
+      ...(entity2Link && { entity2_link: entity2Link })
+    };
+  });
+}
+
+function isCustomer(link: EntityLink | undefined, customer: Customer): boolean {
+  return link?.customer_id === customer.id;
+}
+
+// Where the document disagrees with the customer it was filed for: a
+// contract or policy that doesn't name them, or an employer other than the
+// one on record
+export function relationshipIssues(relationships: DocumentRelationship[], customer: Customer): string[] {
+  const issues: string[] = [];
+  const ofKind = (kind: RelationshipKind) => relationships.filter(relationship => relationship.relationship === kind);
+
+  const agreements = ofKind('agreement_with');
+  if (agreements.length > 0 && !agreements.some(a => isCustomer(a.entity1_link, customer) || isCustomer(a.entity2_link, customer))) {
+    const parties = Array.from(new Set(agreements.flatMap(a => [a.entity1, a.entity2])));
+    issues.push(`${customer.full_name} is not a party to the agreement between ${parties.join(' and ')}`);
+  }
+
+  const insured = ofKind('insures');
+  if (insured.length > 0 && !insured.some(relationship => isCustomer(relationship.entity2_link, customer))) {
+    issues.push(`The policy insures ${insured.map(relationship => relationship.entity2).join(', ')}, not ${customer.full_name}`);
+  }
+
+  if (customer.company) {
+    for (const employment of ofKind('employed_by')) {
+      if (employment.entity1_link?.customer_id !== customer.id || employment.entity1_link.matched !== 'name') continue;
+      if (companyKey(employment.entity2) !== companyKey(customer.company)) {
+        issues.push(`${employment.entity1} is employed by ${employment.entity2}, but the customer record says ${customer.company}`);
+      }
+    }
+  }
+  return issues;
+}
@@ -0,0 +1,105 @@
+import type {
+  Customer,
+  CustomerDocument,
+  FieldCorrection,
+  ProcessingJob,
+  RedactionLogEntry,
+  SmartFollowUp,
+  ValidationRule
+} from '../types';
+import { supabase } from './supabase';
+import { createSupabaseRepositories } from './supabaseRepositories';
+import { createInMemoryRepositories } from './inMemoryRepositories';
+import { mockCustomers, mockDocuments } from '../data/mockData';
+
+export type NewCustomer = Omit<Customer, 'id' | 'documents_pending' | 'documents_completed' | 'next_follow_up'>;
+export type NewCustomerDocument = Omit<CustomerDocument, 'id' | 'created_at'>;
+export type NewFollowUp = Omit<SmartFollowUp, 'id'>;
+export type NewProcessingJob = Omit<ProcessingJob, 'id' | 'created_at' | 'updated_at'>;
+export type NewFieldCorrection = Omit<FieldCorrection, 'id'>;
+export type NewRedactionLogEntry = Omit<RedactionLogEntry, 'id'>;
+export type NewValidationRule = Omit<ValidationRule, 'id' | 'created_at'>;
+
+export interface CustomerRepository {
+  list(): Promise<Customer[]>;
+  get(id: string): Promise<Customer | null>;
+  create(customer: NewCustomer): Promise<Customer>;
+  update(id: string, changes: Partial<NewCustomer>): Promise<Customer>;
+  remove(id: string): Promise<void>;
+}
+
+export const UNASSIGNED_CUSTOMER = 'unassigned';
+
+export interface DocumentRepository {
+  listByCustomer(customerId: string): Promise<CustomerDocument[]>;
+  // Keyed by customer id, the shape the search and batch views work with.
+  // Documents without a customer are under UNASSIGNED_CUSTOMER.
+  listAll(): Promise<Record<string, CustomerDocument[]>>;
+  get(id: string): Promise<CustomerDocument | null>;
+  // null for an upload nobody has matched to a customer yet
+  create(customerId: string | null, document: NewCustomerDocument): Promise<CustomerDocument>;
+  // Opens the renewal request for document.renewal_of unless it already has
+  // one, which is then returned with created false. Each document gets at
+  // most one, however many checks run at once.
+  createRenewal(
+    customerId: string,
+    document: NewCustomerDocument & { renewal_of: string }
+  ): Promise<{ document: CustomerDocument; created: boolean }>;
+  update(id: string, changes: Partial<NewCustomerDocument>): Promise<CustomerDocument>;
+  remove(id: string): Promise<void>;
+}
+
+export interface FollowUpRepository {
+  listByCustomer(customerId: string): Promise<SmartFollowUp[]>;
+  listByDocument(documentId: string): Promise<SmartFollowUp[]>;
+  schedule(followUp: NewFollowUp): Promise<SmartFollowUp>;
+  updateStatus(id: string, status: SmartFollowUp['status']): Promise<SmartFollowUp>;
+}
+
+export interface ProcessingJobRepository {
+  // Oldest first, which is the order the queue picks them up in
+  list(): Promise<ProcessingJob[]>;
+  create(job: NewProcessingJob): Promise<ProcessingJob>;
+  update(id: string, changes: Partial<NewProcessingJob>): Promise<ProcessingJob>;
+  remove(id: string): Promise<void>;
+}
+
+// Corrections are only ever added, so they double as an audit trail
+export interface FieldCorrectionRepository {
+  // Oldest first
+  list(): Promise<FieldCorrection[]>;
+  listByDocument(documentId: string): Promise<FieldCorrection[]>;
+  create(correction: NewFieldCorrection): Promise<FieldCorrection>;
+}
+
+// Like corrections, the log is only ever added to
+export interface RedactionLogRepository {
+  // Oldest first
+  listByDocument(documentId: string): Promise<RedactionLogEntry[]>;
+  create(entry: NewRedactionLogEntry): Promise<RedactionLogEntry>;
+}
+
+export interface ValidationRuleRepository {
+  // Oldest first
+  list(): Promise<ValidationRule[]>;
+  // Disabled rules included
+  listByDocumentType(documentType: string): Promise<ValidationRule[]>;
+  create(rule: NewValidationRule): Promise<ValidationRule>;
+  update(id: string, changes: Partial<NewValidationRule>): Promise<ValidationRule>;
+  remove(id: string): Promise<void>;
+}
+
+export interface Repositories {
+  customers: CustomerRepository;
+  documents: DocumentRepository;
+  followUps: FollowUpRepository;
+  jobs: ProcessingJobRepository;
+  corrections: FieldCorrectionRepository;
+  redactions: RedactionLogRepository;
+  validationRules: ValidationRuleRepository;
+}
+
+// Falls back to the demo data set when no Supabase project is configured
+export const repositories: Repositories = supabase
+  ? createSupabaseRepositories(supabase)
+  : createInMemoryRepositories({ customers: mockCustomers, documents: mockDocuments });
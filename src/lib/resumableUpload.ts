@@ -0,0 +1,476 @@
+import type { DocumentStorage } from './documentStorage';
+import { FileSystemDocumentStorage, documentStorage } from './documentStorage';
+import { supabase } from './supabase';
+
+// Client for the tus 1.0 resumable upload protocol (https://tus.io/protocols/resumable-upload).
+// Files are sent in chunks; the server's offset is the source of truth, so an
+// upload interrupted by a network drop, a pause or a page reload continues
+// from the last byte the server acknowledged.
+
+const TUS_VERSION = '1.0.0';
+const RESUME_STORAGE_KEY = 'resumable-uploads';
+const DEFAULT_RETRY_DELAYS = [0, 1000, 3000, 5000, 10000];
+const FILE_SYSTEM_URL = 'filesystem:';
+
+export type PatchResponse =
+  | { ok: true; offset: number }
+  | { ok: false; status: number };
+
+// The HTTP exchange behind each protocol step. Transports resolve with the
+// server's status instead of throwing for HTTP errors; only a failed
+// connection rejects.
+export interface TusTransport {
+  // Stable identity used to key resumable state, e.g. the endpoint URL
+  readonly id: string;
+  // Preferred chunk size; Supabase Storage requires exactly 6MB
+  readonly chunkSize: number;
+  checksumAlgorithms(): Promise<string[]>;
+  create(length: number, metadata: Record<string, string>): Promise<string>;
+  // null when the server no longer knows the upload (expired or deleted)
+  offset(url: string): Promise<number | null>;
+  patch(
+    url: string,
+    offset: number,
+    chunk: Blob,
+    checksum: string | null,
+    onProgress: (loaded: number) => void,
+    signal: AbortSignal
+  ): Promise<PatchResponse>;
+  terminate(url: string): Promise<void>;
+}
+
+export type UploadOutcome = 'complete' | 'paused' | 'cancelled';
+
+export interface ResumableUploadOptions {
+  transport: TusTransport;
+  metadata?: Record<string, string>;
+  chunkSize?: number;
+  retryDelays?: number[];
+  onProgress?: (bytesUploaded: number, bytesTotal: number) => void;
+}
+
+interface StoredUpload {
+  url: string;
+  createdAt: string;
+}
+
+function encodeMetadata(metadata: Record<string, string>): string {
+  return Object.entries(metadata)
+    .map(([key, value]) => `${key} ${bytesToBase64(new TextEncoder().encode(value))}`)
+    .join(',');
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+async function chunkChecksum(chunk: Blob, algorithm: string): Promise<string> {
+  const digest = await crypto.subtle.digest(algorithm === 'sha256' ? 'SHA-256' : 'SHA-1', await chunk.arrayBuffer());
+  return `${algorithm} ${bytesToBase64(new Uint8Array(digest))}`;
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function readStoredUploads(): Record<string, StoredUpload> {
+  try {
+    return JSON.parse(localStorage.getItem(RESUME_STORAGE_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+}
+
+function writeStoredUploads(uploads: Record<string, StoredUpload>) {
+  try {
+    localStorage.setItem(RESUME_STORAGE_KEY, JSON.stringify(uploads));
+  } catch {
+    // Private browsing or a full quota only costs us resume-after-reload
+  }
+}
+
+export class HttpTusTransport implements TusTransport {
+  readonly id: string;
+
+  constructor(
+    private endpoint: string,
+    readonly chunkSize: number = 5 * 1024 * 1024,
+    private headers: () => Promise<Record<string, string>> = async () => ({})
+  ) {
+    this.id = endpoint;
+  }
+
+  async checksumAlgorithms(): Promise<string[]> {
+    try {
+      const response = await fetch(this.endpoint, {
+        method: 'OPTIONS',
+        headers: { ...(await this.headers()), 'Tus-Resumable': TUS_VERSION }
+      });
+      const extensions = response.headers.get('Tus-Extension') ?? '';
+      if (!extensions.split(',').map(e => e.trim()).includes('checksum')) return [];
+      return (response.headers.get('Tus-Checksum-Algorithm') ?? '')
+        .split(',')
+        .map(algorithm => algorithm.trim().toLowerCase())
+        .filter(Boolean);
+    } catch {
+      // Servers that don't answer OPTIONS simply get no checksums
+      return [];
+    }
+  }
+
+  async create(length: number, metadata: Record<string, string>): Promise<string> {
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: {
+        ...(await this.headers()),
+        'Tus-Resumable': TUS_VERSION,
+        'Upload-Length': String(length),
+        'Upload-Metadata': encodeMetadata(metadata)
+      }
+    });
+    const location = response.headers.get('Location');
+    if (response.status !== 201 || !location) {
+      throw new Error(`Failed to create upload: server responded ${response.status}`);
+    }
+    return new URL(location, this.endpoint).toString();
+  }
+
+  async offset(url: string): Promise<number | null> {
+    const response = await fetch(url, {
+      method: 'HEAD',
+      headers: { ...(await this.headers()), 'Tus-Resumable': TUS_VERSION },
+      cache: 'no-store'
+    });
+    if (response.status === 404 || response.status === 410 || response.status === 403) return null;
+    const offset = response.headers.get('Upload-Offset');
+    if (!response.ok || offset === null) {
+      throw new Error(`Failed to read upload offset: server responded ${response.status}`);
+    }
+    return Number(offset);
+  }
+
+  // XMLHttpRequest rather than fetch, since only XHR reports upload progress
+  async patch(
+    url: string,
+    offset: number,
+    chunk: Blob,
+    checksum: string | null,
+    onProgress: (loaded: number) => void,
+    signal: AbortSignal
+  ): Promise<PatchResponse> {
+    const headers = await this.headers();
+
+    return new Promise((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      xhr.open('PATCH', url);
+      Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+      xhr.setRequestHeader('Tus-Resumable', TUS_VERSION);
+      xhr.setRequestHeader('Upload-Offset', String(offset));
+      xhr.setRequestHeader('Content-Type', 'application/offset+octet-stream');
+      if (checksum) xhr.setRequestHeader('Upload-Checksum', checksum);
+
+      xhr.upload.onprogress = event => onProgress(event.loaded);
+      xhr.onload = () => {
+        const newOffset = xhr.getResponseHeader('Upload-Offset');
+        if (xhr.status >= 200 && xhr.status < 300 && newOffset !== null) {
+          resolve({ ok: true, offset: Number(newOffset) });
+        } else {
+          resolve({ ok: false, status: xhr.status });
+        }
+      };
+      xhr.onerror = () => reject(new Error('Network error while uploading'));
+      xhr.onabort = () => reject(new DOMException('Upload aborted', 'AbortError'));
+      signal.addEventListener('abort', () => xhr.abort(), { once: true });
+
+      xhr.send(chunk);
+    });
+  }
+
+  async terminate(url: string): Promise<void> {
+    await fetch(url, {
+      method: 'DELETE',
+      headers: { ...(await this.headers()), 'Tus-Resumable': TUS_VERSION }
+    });
+  }
+}
+
+// Writes each chunk straight into the browser file system at the object's
+// key, so a finished upload is already in document storage. A partly
+// written file is the upload; its size is the offset.
+export class FileSystemTusTransport implements TusTransport {
+  readonly id = 'filesystem';
+  readonly chunkSize = 1024 * 1024;
+
+  constructor(private storage: FileSystemDocumentStorage) {}
+
+  private key(url: string): string {
+    if (!url.startsWith(FILE_SYSTEM_URL)) throw new Error(`Not a file system upload: ${url}`);
+    return url.slice(FILE_SYSTEM_URL.length);
+  }
+
+  async checksumAlgorithms(): Promise<string[]> {
+    return ['sha256'];
+  }
+
+  async create(_length: number, metadata: Record<string, string>): Promise<string> {
+    if (!metadata.objectName) {
+      throw new Error('Uploads to the file system need an objectName');
+    }
+    await this.storage.put(metadata.objectName, new Blob([]));
+    return `${FILE_SYSTEM_URL}${metadata.objectName}`;
+  }
+
+  async offset(url: string): Promise<number | null> {
+    return this.storage.size(this.key(url));
+  }
+
+  async patch(
+    url: string,
+    offset: number,
+    chunk: Blob,
+    checksum: string | null,
+    onProgress: (loaded: number) => void,
+    signal: AbortSignal
+  ): Promise<PatchResponse> {
+    const key = this.key(url);
+    const size = await this.storage.size(key);
+    if (size === null) return { ok: false, status: 404 };
+    if (size !== offset) return { ok: false, status: 409 };
+    if (signal.aborted) throw new DOMException('Upload aborted', 'AbortError');
+
+    if (checksum) {
+      const [algorithm] = checksum.split(' ');
+      if ((await chunkChecksum(chunk, algorithm)) !== checksum) {
+        return { ok: false, status: 460 };
+      }
+    }
+
+    await this.storage.write(key, offset, chunk);
+    onProgress(chunk.size);
+    return { ok: true, offset: offset + chunk.size };
+  }
+
+  async terminate(url: string): Promise<void> {
+    const key = this.key(url);
+    if ((await this.storage.size(key)) !== null) {
+      await this.storage.remove(key);
+    }
+  }
+}
+
+export class ResumableUpload {
+  private url: string | null = null;
+  private bytesUploaded = 0;
+  private controller: AbortController | null = null;
+  private stopReason: 'paused' | 'cancelled' | null = null;
+  private finished = false;
+
+  constructor(private file: File, private options: ResumableUploadOptions) {}
+
+  get uploadUrl(): string | null {
+    return this.url;
+  }
+
+  get isComplete(): boolean {
+    return this.finished;
+  }
+
+  // Same file, same target: lets a re-selected file pick up after a reload.
+  // The object it goes to is part of it, so the same file sent for another
+  // document starts its own upload.
+  private get fingerprint(): string {
+    return [
+      this.options.transport.id,
+      this.options.metadata?.objectName ?? '',
+      this.file.name,
+      this.file.size,
+      this.file.lastModified
+    ].join(':');
+  }
+
+  // Resolves once the file is fully uploaded, paused or cancelled. Rejects
+  // when the server refuses the upload or retries are exhausted; calling
+  // start() again then resumes from the server's offset.
+  async start(): Promise<UploadOutcome> {
+    if (this.finished) return 'complete';
+
+    const { transport } = this.options;
+    const chunkSize = this.options.chunkSize ?? transport.chunkSize;
+    const retryDelays = this.options.retryDelays ?? DEFAULT_RETRY_DELAYS;
+    this.stopReason = null;
+    this.controller = new AbortController();
+
+    const algorithms = await transport.checksumAlgorithms();
+    const algorithm = ['sha256', 'sha1'].find(a => algorithms.includes(a)) ?? null;
+
+    await this.locateUpload();
+
+    let attempt = 0;
+    while (this.bytesUploaded < this.file.size) {
+      if (this.stopReason) return this.stopReason;
+
+      const chunk = this.file.slice(this.bytesUploaded, this.bytesUploaded + chunkSize);
+      let response: PatchResponse;
+      try {
+        const checksum = algorithm ? await chunkChecksum(chunk, algorithm) : null;
+        response = await transport.patch(
+          this.url!,
+          this.bytesUploaded,
+          chunk,
+          checksum,
+          loaded => this.reportProgress(this.bytesUploaded + loaded),
+          this.controller.signal
+        );
+      } catch (error) {
+        if (this.stopReason) return this.stopReason;
+        // Network failures are retried; the offset is re-read before resending
+        if (attempt >= retryDelays.length) throw error;
+        await wait(retryDelays[attempt++]);
+        await this.syncOffset().catch(() => undefined);
+        continue;
+      }
+
+      if (response.ok) {
+        this.bytesUploaded = response.offset;
+        this.reportProgress(this.bytesUploaded);
+        attempt = 0;
+        continue;
+      }
+
+      switch (response.status) {
+        case 409:
+          // Our offset disagrees with the server's; trust the server
+          await this.syncOffset();
+          break;
+        case 404:
+        case 410:
+          // The server dropped the upload; begin again from scratch
+          this.forget();
+          await this.locateUpload();
+          break;
+        case 460:
+          // Checksum mismatch: the chunk was corrupted in transit
+          if (attempt >= retryDelays.length) {
+            throw new Error('Upload failed: chunk checksum kept mismatching');
+          }
+          attempt++;
+          break;
+        default:
+          if (response.status >= 500 && attempt < retryDelays.length) {
+            await wait(retryDelays[attempt++]);
+            await this.syncOffset().catch(() => undefined);
+            break;
+          }
+          throw new Error(`Upload failed: server responded ${response.status}`);
+      }
+    }
+
+    this.finished = true;
+    this.forget();
+    return 'complete';
+  }
+
+  // The in-flight chunk is aborted; start() resumes from the server's offset
+  pause() {
+    this.stopReason = 'paused';
+    this.controller?.abort();
+  }
+
+  async cancel(): Promise<void> {
+    this.stopReason = 'cancelled';
+    this.controller?.abort();
+    if (this.url) {
+      try {
+        await this.options.transport.terminate(this.url);
+      } catch (error) {
+        console.error('Failed to delete cancelled upload:', error);
+      }
+    }
+    this.forget();
+    this.url = null;
+    this.bytesUploaded = 0;
+  }
+
+  private async locateUpload() {
+    const stored = readStoredUploads()[this.fingerprint];
+    if (stored) {
+      const offset = await this.options.transport.offset(stored.url);
+      if (offset !== null) {
+        this.url = stored.url;
+        this.bytesUploaded = offset;
+        this.reportProgress(offset);
+        return;
+      }
+      this.forget();
+    }
+
+    if (this.url) {
+      const offset = await this.options.transport.offset(this.url);
+      if (offset !== null) {
+        this.bytesUploaded = offset;
+        return;
+      }
+    }
+
+    this.url = await this.options.transport.create(this.file.size, {
+      filename: this.file.name,
+      contentType: this.file.type || 'application/octet-stream',
+      ...this.options.metadata
+    });
+    this.bytesUploaded = 0;
+    this.reportProgress(0);
+    writeStoredUploads({
+      ...readStoredUploads(),
+      [this.fingerprint]: { url: this.url, createdAt: new Date().toISOString() }
+    });
+  }
+
+  private async syncOffset() {
+    if (!this.url) return;
+    const offset = await this.options.transport.offset(this.url);
+    if (offset === null) {
+      this.forget();
+      await this.locateUpload();
+    } else {
+      this.bytesUploaded = offset;
+      this.reportProgress(offset);
+    }
+  }
+
+  private forget() {
+    const stored = readStoredUploads();
+    delete stored[this.fingerprint];
+    writeStoredUploads(stored);
+  }
+
+  private reportProgress(bytes: number) {
+    this.options.onProgress?.(Math.min(bytes, this.file.size), this.file.size);
+  }
+}
+
+// tus is only used where its uploads land in document storage itself:
+// Supabase Storage speaks tus at /storage/v1/upload/resumable, and the
+// browser file system is written chunk by chunk. Other backends get no
+// transport, and persistDocumentFiles stores their files in one put.
+function createUploadTransport(storage: DocumentStorage): TusTransport | null {
+  if (storage instanceof FileSystemDocumentStorage) {
+    return new FileSystemTusTransport(storage);
+  }
+
+  if (storage.backend === 'supabase' && supabase) {
+    const client = supabase;
+    return new HttpTusTransport(
+      `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/upload/resumable`,
+      6 * 1024 * 1024,
+      async () => {
+        const { data } = await client.auth.getSession();
+        return {
+          authorization: `Bearer ${data.session?.access_token ?? import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+          'x-upsert': 'true'
+        };
+      }
+    );
+  }
+
+  return null;
+}
+
+export const uploadTransport = createUploadTransport(documentStorage);
@@ -18,7 +18,7 @@ export interface MessageTemplate {
   content: string;
   tone: 'formal' | 'casual' | 'urgent';
   channel: 'email' | 'whatsapp';
-  useCase: 'reminder' | 'followup' | 'urgent' | 'final';
+  useCase: 'reminder' | 'followup' | 'urgent' | 'final' | 'renewal';
   variables: string[];
   sentiment: 'neutral' | 'positive' | 'negative';
   performance_metrics?: {
@@ -28,7 +28,7 @@ export interface MessageTemplate {
   };
 }
 
-interface MessagePersonalizationContext {
+export interface MessagePersonalizationContext {
   previousInteractions: Array<{
     date: Date;
     channel: string;
@@ -107,15 +107,27 @@ export class SmartMessagingEngine {
         average_response_time: 2,
         positive_sentiment_rate: 45
       }
+    },
+    {
+      id: 'renewal-request',
+      name: 'Renewal Request',
+      content: "Hi {customer_name}, the {document_name} we have on file expires on {due_date}. Could you send us the renewed one before then so your records stay up to date?",
+      tone: 'formal',
+      channel: 'email',
+      useCase: 'renewal',
+      variables: ['customer_name', 'document_name', 'due_date'],
+      sentiment: 'neutral'
     }
   ];
 
   async generateSmartMessage(
     customer: Customer,
     document: CustomerDocument,
-    context: MessagePersonalizationContext
+    context: MessagePersonalizationContext,
+    // Limits the choice to templates written for this use case
+    useCase?: MessageTemplate['useCase']
   ): Promise<SmartFollowUp> {
-    const template = await this.selectBestTemplate(customer, document, context);
+    const template = await this.selectBestTemplate(customer, document, context, useCase);
     const variables = this.prepareTemplateVariables(customer, document);
     const message = this.personalizeMessage(template, variables, context);
     const optimizedMessage = await this.optimizeMessageWithAI(message, context);
@@ -142,14 +154,16 @@ export class SmartMessagingEngine {
   private async selectBestTemplate(
     customer: Customer,
     document: CustomerDocument,
-    context: MessagePersonalizationContext
+    context: MessagePersonalizationContext,
+    useCase?: MessageTemplate['useCase']
   ): Promise<MessageTemplate> {
+    const candidates = this.templates.filter(template => !useCase || template.useCase === useCase);
     const urgencyScore = this.calculateUrgencyScore(document);
     const customerEngagement = this.calculateEngagementLevel(context);
     const previousResponses = context.previousInteractions.slice(-3);
     
     // Calculate template scores based on multiple factors
-    const templateScores = this.templates.map(template => {
+    const templateScores = (candidates.length > 0 ? candidates : this.templates).map(template => {
       let score = 0;
       
       // Match tone with urgency
@@ -354,11 +368,14 @@ export class SmartMessagingEngine {
 
   private calculateCustomerSentiment(context: MessagePersonalizationContext): number {
     const recentInteractions = context.previousInteractions.slice(-5);
+    // Neutral for customers we haven't heard from yet
+    if (recentInteractions.length === 0) return 0.5;
     return recentInteractions.reduce((acc, curr) => acc + curr.sentiment, 0) / recentInteractions.length;
   }
 
   private calculateEngagementLevel(context: MessagePersonalizationContext): number {
     const recentInteractions = context.previousInteractions.slice(-5);
+    if (recentInteractions.length === 0) return 0.5;
     const responseRate = recentInteractions.filter(i => i.wasReplied).length / recentInteractions.length;
     const averageSentiment = this.calculateCustomerSentiment(context);
     
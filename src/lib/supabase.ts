@@ -1,27 +1,64 @@
 import { createClient } from '@supabase/supabase-js';
+import type {
+  Customer as DomainCustomer,
+  CustomerDocument,
+  ProcessingJob as DomainProcessingJob,
+  RedactionLogEntry as DomainRedactionLogEntry,
+  SmartFollowUp,
+  ValidationRule as DomainValidationRule
+} from '../types';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+export const isSupabaseConfigured = Boolean(supabaseUrl && supabaseAnonKey);
+
+// Without credentials the app runs against the in-memory repositories, so the
+// client is only created when both variables are present.
+export const supabase = isSupabaseConfigured
+  ? createClient(supabaseUrl, supabaseAnonKey)
+  : null;
 
 export interface Customer {
   id: string;
   full_name: string;
   email: string;
-  phone: string;
-  preferred_contact_method: string;
+  phone: string | null;
+  preferred_contact_method: string | null;
+  created_at: string;
+  last_contact: string | null;
   engagement_score: number;
+  source: DomainCustomer['source'];
+  company: string;
+  role: string;
+  ai_suggestions: DomainCustomer['ai_suggestions'];
+  communication_preferences: NonNullable<DomainCustomer['communication_preferences']> | null;
+  interaction_history: NonNullable<DomainCustomer['interaction_history']>;
 }
 
 export interface Document {
   id: string;
-  customer_id: string;
+  customer_id: string | null;
   type: string;
   name: string;
-  status: 'pending' | 'received' | 'overdue';
+  status: CustomerDocument['status'];
   due_date: string;
-  ai_confidence_score: number;
+  reminder_count: number | null;
+  ai_confidence_score: number | null;
+  metadata: Record<string, unknown>;
+  created_at: string;
+  updated_at: string;
+  last_reminder: string | null;
+  ai_urgency_score: number;
+  ai_analysis: NonNullable<CustomerDocument['ai_analysis']> | null;
+  follow_up_history: NonNullable<CustomerDocument['follow_up_history']>;
+  status_changed_at: string | null;
+  status_history: NonNullable<CustomerDocument['status_history']>;
+  validation_passed: boolean | null;
+  expiration_date: string | null;
+  renewal_of: string | null;
+  files: NonNullable<CustomerDocument['files']>;
+  extraction: NonNullable<CustomerDocument['extraction']> | null;
 }
 
 export interface FollowUp {
@@ -30,7 +67,58 @@ export interface FollowUp {
   document_id: string;
   channel: 'email' | 'whatsapp';
   scheduled_time: string;
-  message_template: string;
-  status: string;
-  ai_suggested_time: string;
+  message_template: string | null;
+  status: SmartFollowUp['status'];
+  ai_suggested_time: string | null;
+  ai_confidence: number;
+  personalization_context: SmartFollowUp['personalization_context'];
+  created_at: string;
+}
+
+export interface ProcessingJob {
+  id: string;
+  document_id: string;
+  status: DomainProcessingJob['status'];
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  last_error: string | null;
+  summary: DomainProcessingJob['summary'];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface FieldCorrection {
+  id: string;
+  document_id: string;
+  field: string;
+  previous_value: string | null;
+  corrected_value: string;
+  previous_confidence: number | null;
+  corrected_by: string;
+  corrected_at: string;
+}
+
+export interface RedactionLogEntry {
+  id: string;
+  document_id: string;
+  file_key: string;
+  kind: DomainRedactionLogEntry['kind'];
+  page: number;
+  box: DomainRedactionLogEntry['box'];
+  masked_value: string;
+  redacted: boolean;
+  redacted_by: string;
+  redacted_at: string;
+}
+
+export interface ValidationRule {
+  id: string;
+  document_type: string;
+  name: string;
+  severity: DomainValidationRule['severity'];
+  message: string | null;
+  check: DomainValidationRule['check'];
+  enabled: boolean;
+  created_at: string;
 }
\ No newline at end of file
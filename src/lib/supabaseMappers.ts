@@ -0,0 +1,561 @@
+import { z } from 'zod';
+import type {
+  Customer,
+  CustomerDocument,
+  DocumentStatus,
+  FieldCorrection,
+  ProcessingJob,
+  RedactionLogEntry,
+  SmartFollowUp,
+  ValidationRule
+} from '../types';
+import type {
+  Customer as CustomerRow,
+  Document as DocumentRow,
+  FieldCorrection as FieldCorrectionRow,
+  FollowUp as FollowUpRow,
+  ProcessingJob as ProcessingJobRow,
+  RedactionLogEntry as RedactionLogRow,
+  ValidationRule as ValidationRuleRow
+} from './supabase';
+import { DOCUMENT_STATUSES, isOutstanding, isSubmitted } from './documentStatus';
+import { newValidationRuleSchema, validationCheckSchema, validationSeveritySchema } from './validationRules';
+
+// Shared pieces of the domain model, also used to validate jsonb columns
+const channelSchema = z.enum(['email', 'whatsapp']);
+const documentStatusSchema = z.enum(DOCUMENT_STATUSES as [DocumentStatus, ...DocumentStatus[]]);
+const followUpStatusSchema = z.enum(['pending', 'sent', 'failed']);
+
+const aiSuggestionsSchema = z.object({
+  best_contact_time: z.string(),
+  engagement_tips: z.string(),
+  priority_level: z.enum(['High', 'Medium', 'Low'])
+});
+
+const communicationPreferencesSchema = z.object({
+  preferred_channel: channelSchema,
+  preferred_language: z.string(),
+  preferred_time: z.string(),
+  do_not_disturb: z.boolean()
+});
+
+const interactionSchema = z.object({
+  date: z.string(),
+  channel: channelSchema,
+  type: z.enum(['sent', 'received']),
+  sentiment: z.number(),
+  response_time: z.number().optional()
+});
+
+const aiAnalysisSchema = z.object({
+  sentiment_score: z.number(),
+  category_confidence: z.number(),
+  predicted_completion_date: z.string(),
+  risk_level: z.enum(['Low', 'Medium', 'High']),
+  key_insights: z.array(z.string()),
+  suggested_actions: z.array(z.string())
+});
+
+const followUpHistoryEntrySchema = z.object({
+  date: z.string(),
+  channel: channelSchema,
+  template_used: z.string(),
+  was_successful: z.boolean(),
+  response_time: z.number().optional()
+});
+
+const statusChangeSchema = z.object({
+  from: documentStatusSchema,
+  to: documentStatusSchema,
+  at: z.string(),
+  actor: z.string().optional(),
+  reason: z.string().optional()
+});
+
+const storedFileSchema = z.object({
+  kind: z.enum(['original', 'rendition', 'layout', 'redacted']),
+  backend: z.enum(['supabase', 's3', 'filesystem']),
+  key: z.string(),
+  name: z.string(),
+  content_type: z.string(),
+  size: z.number(),
+  uploaded_at: z.string(),
+  sha256: z.string().optional(),
+  perceptual_hashes: z.array(z.string()).optional(),
+  approved_by: z.string().optional(),
+  approved_at: z.string().optional()
+});
+
+const fieldValueSchema = z.object({
+  type: z.enum(['date', 'money', 'id', 'name', 'text']),
+  value: z.union([z.string(), z.object({ amount: z.number(), currency: z.string().optional() })]),
+  raw: z.string(),
+  confidence: z.number(),
+  label: z.string().optional(),
+  location: z.object({
+    start: z.number().int().nonnegative(),
+    end: z.number().int().nonnegative(),
+    page: z.number().int().positive(),
+    line: z.number().int().positive()
+  }).optional(),
+  alternatives: z.array(z.string()).optional(),
+  reviewed: z.boolean().optional()
+});
+
+const transactionSchema = z.object({
+  date: z.string().nullable(),
+  description: z.string(),
+  debit: z.number().nullable(),
+  credit: z.number().nullable(),
+  balance: z.number().nullable(),
+  currency: z.string().optional(),
+  page: z.number().int().positive(),
+  box: z.object({ left: z.number(), top: z.number(), width: z.number(), height: z.number() }),
+  confidence: z.number(),
+  reconciled: z.boolean().optional()
+});
+
+const segmentSchema = z.object({
+  from: z.number().int().positive(),
+  to: z.number().int().positive(),
+  kind: z.string().nullable(),
+  confidence: z.number(),
+  reason: z.string().optional()
+});
+
+const entityLinkSchema = z.object({
+  customer_id: z.string(),
+  matched: z.enum(['name', 'company'])
+});
+
+const relationshipSchema = z.object({
+  entity1: z.string(),
+  relationship: z.enum(['employed_by', 'agreement_with', 'insures', 'pays']),
+  entity2: z.string(),
+  entity1_link: entityLinkSchema.optional(),
+  entity2_link: entityLinkSchema.optional()
+});
+
+const validationIssueSchema = z.object({
+  rule_id: z.string(),
+  rule_name: z.string(),
+  severity: validationSeveritySchema,
+  message: z.string(),
+  field: z.string().optional()
+});
+
+const extractionSchema = z.object({
+  category: z.string(),
+  category_confidence: z.number(),
+  language: z.string(),
+  fields: z.record(fieldValueSchema),
+  transactions: z.array(transactionSchema).optional(),
+  segments: z.array(segmentSchema).optional(),
+  relationships: z.array(relationshipSchema).optional(),
+  validation_issues: z.array(validationIssueSchema).optional(),
+  extracted_at: z.string(),
+  reviewed_at: z.string().optional(),
+  reviewed_by: z.string().optional()
+});
+
+const personalizationContextSchema = z.object({
+  customer_sentiment: z.number(),
+  engagement_level: z.number(),
+  optimal_time_confidence: z.number(),
+  channel_effectiveness: z.object({
+    email: z.number(),
+    whatsapp: z.number()
+  })
+});
+
+// Row schemas mirror supabase/migrations; the annotations keep them in step
+// with the row interfaces in ./supabase
+const customerRowSchema: z.ZodType<CustomerRow> = z.object({
+  id: z.string(),
+  full_name: z.string(),
+  email: z.string(),
+  phone: z.string().nullable(),
+  preferred_contact_method: z.string().nullable(),
+  created_at: z.string(),
+  last_contact: z.string().nullable(),
+  engagement_score: z.number(),
+  source: z.enum(['Hubspot', 'Salesforce', 'Zoho']),
+  company: z.string(),
+  role: z.string(),
+  ai_suggestions: aiSuggestionsSchema,
+  communication_preferences: communicationPreferencesSchema.nullable(),
+  interaction_history: z.array(interactionSchema)
+});
+
+const documentRowSchema: z.ZodType<DocumentRow> = z.object({
+  id: z.string(),
+  customer_id: z.string().nullable(),
+  type: z.string(),
+  name: z.string(),
+  status: documentStatusSchema,
+  due_date: z.string(),
+  reminder_count: z.number().nullable(),
+  ai_confidence_score: z.number().nullable(),
+  metadata: z.record(z.unknown()),
+  created_at: z.string(),
+  updated_at: z.string(),
+  last_reminder: z.string().nullable(),
+  ai_urgency_score: z.number(),
+  ai_analysis: aiAnalysisSchema.nullable(),
+  follow_up_history: z.array(followUpHistoryEntrySchema),
+  status_changed_at: z.string().nullable(),
+  status_history: z.array(statusChangeSchema),
+  validation_passed: z.boolean().nullable(),
+  expiration_date: z.string().nullable(),
+  renewal_of: z.string().nullable(),
+  files: z.array(storedFileSchema),
+  extraction: extractionSchema.nullable()
+});
+
+const followUpRowSchema: z.ZodType<FollowUpRow> = z.object({
+  id: z.string(),
+  customer_id: z.string(),
+  document_id: z.string(),
+  channel: channelSchema,
+  scheduled_time: z.string(),
+  message_template: z.string().nullable(),
+  status: followUpStatusSchema,
+  ai_suggested_time: z.string().nullable(),
+  ai_confidence: z.number(),
+  personalization_context: personalizationContextSchema,
+  created_at: z.string()
+});
+
+const processingJobStatusSchema = z.enum(['queued', 'running', 'completed', 'cancelled', 'dead_letter']);
+
+const processingJobSummarySchema = z.object({
+  category: z.string(),
+  confidence: z.number(),
+  page_count: z.number().int().nonnegative(),
+  completeness: z.number()
+});
+
+const processingJobRowSchema: z.ZodType<ProcessingJobRow> = z.object({
+  id: z.string(),
+  document_id: z.string(),
+  status: processingJobStatusSchema,
+  attempts: z.number().int().nonnegative(),
+  max_attempts: z.number().int().positive(),
+  run_at: z.string(),
+  last_error: z.string().nullable(),
+  summary: processingJobSummarySchema.nullable(),
+  created_at: z.string(),
+  updated_at: z.string()
+});
+
+const fieldCorrectionRowSchema: z.ZodType<FieldCorrectionRow> = z.object({
+  id: z.string(),
+  document_id: z.string(),
+  field: z.string(),
+  previous_value: z.string().nullable(),
+  corrected_value: z.string(),
+  previous_confidence: z.number().nullable(),
+  corrected_by: z.string(),
+  corrected_at: z.string()
+});
+
+const piiKindSchema = z.enum(['ssn', 'bank_account', 'iban', 'card_number', 'passport_number', 'date_of_birth']);
+
+const redactionBoxSchema = z.object({
+  left: z.number(),
+  top: z.number(),
+  width: z.number(),
+  height: z.number()
+});
+
+const redactionLogRowSchema: z.ZodType<RedactionLogRow> = z.object({
+  id: z.string(),
+  document_id: z.string(),
+  file_key: z.string(),
+  kind: piiKindSchema,
+  page: z.number().int().positive(),
+  box: redactionBoxSchema,
+  masked_value: z.string(),
+  redacted: z.boolean(),
+  redacted_by: z.string(),
+  redacted_at: z.string()
+});
+
+const validationRuleRowSchema: z.ZodType<ValidationRuleRow> = z.object({
+  id: z.string(),
+  document_type: z.string(),
+  name: z.string(),
+  severity: validationSeveritySchema,
+  message: z.string().nullable(),
+  check: validationCheckSchema,
+  enabled: z.boolean(),
+  created_at: z.string()
+});
+
+// Customer counts and the next follow-up come from embedded relations
+export const CUSTOMER_SELECT = '*, documents(status), follow_ups(scheduled_time, status)';
+
+const customerWithRelationsSchema = z.intersection(
+  customerRowSchema,
+  z.object({
+    documents: z.array(z.object({ status: documentStatusSchema })),
+    follow_ups: z.array(z.object({ scheduled_time: z.string(), status: followUpStatusSchema }))
+  })
+);
+
+// Domain-side schemas validate what the UI asks us to write
+const newCustomerSchema = z.object({
+  full_name: z.string().min(1),
+  email: z.string().email(),
+  phone: z.string(),
+  source: z.enum(['Hubspot', 'Salesforce', 'Zoho']),
+  company: z.string(),
+  role: z.string(),
+  last_contact: z.string(),
+  engagement_score: z.number(),
+  ai_suggestions: aiSuggestionsSchema,
+  communication_preferences: communicationPreferencesSchema.optional(),
+  interaction_history: z.array(interactionSchema).optional()
+});
+
+const newDocumentSchema = z.object({
+  name: z.string().min(1),
+  type: z.string(),
+  status: documentStatusSchema,
+  due_date: z.string(),
+  last_reminder: z.string(),
+  reminder_count: z.number().int().nonnegative().optional(),
+  ai_urgency_score: z.number(),
+  ai_analysis: aiAnalysisSchema.optional(),
+  follow_up_history: z.array(followUpHistoryEntrySchema).optional(),
+  status_changed_at: z.string().optional(),
+  status_history: z.array(statusChangeSchema).optional(),
+  validation_passed: z.boolean().optional(),
+  expiration_date: z.string().optional(),
+  renewal_of: z.string().optional(),
+  files: z.array(storedFileSchema).optional(),
+  extraction: extractionSchema.optional()
+});
+
+const newFollowUpSchema = z.object({
+  customer_id: z.string(),
+  document_id: z.string(),
+  scheduled_time: z.string(),
+  channel: channelSchema,
+  template_id: z.string(),
+  status: followUpStatusSchema,
+  ai_confidence: z.number(),
+  personalization_context: personalizationContextSchema
+});
+
+const newProcessingJobSchema = z.object({
+  document_id: z.string(),
+  status: processingJobStatusSchema,
+  attempts: z.number().int().nonnegative(),
+  max_attempts: z.number().int().positive(),
+  run_at: z.string(),
+  last_error: z.string().nullable(),
+  summary: processingJobSummarySchema.nullable()
+});
+
+const newFieldCorrectionSchema = z.object({
+  document_id: z.string(),
+  field: z.string().min(1),
+  previous_value: z.string().nullable(),
+  corrected_value: z.string(),
+  previous_confidence: z.number().nullable(),
+  corrected_by: z.string().min(1),
+  corrected_at: z.string()
+});
+
+const newRedactionLogEntrySchema = z.object({
+  document_id: z.string(),
+  file_key: z.string().min(1),
+  kind: piiKindSchema,
+  page: z.number().int().positive(),
+  box: redactionBoxSchema,
+  masked_value: z.string(),
+  redacted: z.boolean(),
+  redacted_by: z.string().min(1),
+  redacted_at: z.string()
+});
+
+export type NewCustomerInput = z.infer<typeof newCustomerSchema>;
+export type NewDocumentInput = z.infer<typeof newDocumentSchema>;
+export type NewFollowUpInput = z.infer<typeof newFollowUpSchema>;
+export type NewProcessingJobInput = z.infer<typeof newProcessingJobSchema>;
+export type NewFieldCorrectionInput = z.infer<typeof newFieldCorrectionSchema>;
+export type NewRedactionLogEntryInput = z.infer<typeof newRedactionLogEntrySchema>;
+export type NewValidationRuleInput = z.infer<typeof newValidationRuleSchema>;
+
+function parse<T>(schema: z.ZodType<T>, value: unknown, label: string): T {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    const details = result.error.issues
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid ${label}: ${details}`);
+  }
+  return result.data;
+}
+
+// Drops keys whose value is undefined so partial updates don't null out columns
+function defined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== undefined)
+  ) as Partial<T>;
+}
+
+export function customerFromRow(value: unknown): Customer {
+  const row = parse(customerWithRelationsSchema, value, 'customer row');
+  const nextFollowUp = row.follow_ups
+    .filter(f => f.status === 'pending')
+    .map(f => f.scheduled_time)
+    .sort()[0];
+
+  return {
+    id: row.id,
+    full_name: row.full_name,
+    email: row.email,
+    phone: row.phone ?? '',
+    source: row.source,
+    company: row.company,
+    role: row.role,
+    last_contact: row.last_contact ?? '',
+    engagement_score: row.engagement_score,
+    documents_pending: row.documents.filter(d => isOutstanding(d.status)).length,
+    documents_completed: row.documents.filter(d => isSubmitted(d.status)).length,
+    next_follow_up: nextFollowUp ?? null,
+    ai_suggestions: row.ai_suggestions,
+    communication_preferences: row.communication_preferences ?? undefined,
+    interaction_history: row.interaction_history
+  };
+}
+
+export function customerToRow(customer: Partial<NewCustomerInput>): Partial<CustomerRow> {
+  const input = parse(newCustomerSchema.partial(), customer, 'customer');
+  return defined({
+    full_name: input.full_name,
+    email: input.email,
+    phone: input.phone,
+    source: input.source,
+    company: input.company,
+    role: input.role,
+    last_contact: input.last_contact === undefined ? undefined : input.last_contact || null,
+    engagement_score: input.engagement_score,
+    ai_suggestions: input.ai_suggestions,
+    communication_preferences: input.communication_preferences,
+    // Kept in sync for older clients that still read the flat column
+    preferred_contact_method: input.communication_preferences?.preferred_channel,
+    interaction_history: input.interaction_history
+  });
+}
+
+export function documentFromRow(value: unknown): CustomerDocument {
+  const row = parse(documentRowSchema, value, 'document row');
+  return {
+    id: row.id,
+    customer_id: row.customer_id ?? undefined,
+    name: row.name,
+    type: row.type,
+    status: row.status,
+    created_at: row.created_at,
+    status_changed_at: row.status_changed_at ?? undefined,
+    status_history: row.status_history,
+    validation_passed: row.validation_passed ?? undefined,
+    expiration_date: row.expiration_date ?? undefined,
+    renewal_of: row.renewal_of ?? undefined,
+    files: row.files,
+    extraction: row.extraction ?? undefined,
+    due_date: row.due_date,
+    last_reminder: row.last_reminder ?? row.updated_at,
+    reminder_count: row.reminder_count ?? 0,
+    ai_urgency_score: row.ai_urgency_score,
+    ai_analysis: row.ai_analysis ?? undefined,
+    follow_up_history: row.follow_up_history
+  };
+}
+
+export function documentToRow(document: Partial<NewDocumentInput>): Partial<DocumentRow> {
+  const input = parse(newDocumentSchema.partial(), document, 'document');
+  return defined({
+    name: input.name,
+    type: input.type,
+    status: input.status,
+    due_date: input.due_date,
+    last_reminder: input.last_reminder,
+    reminder_count: input.reminder_count,
+    ai_urgency_score: input.ai_urgency_score,
+    ai_analysis: input.ai_analysis,
+    follow_up_history: input.follow_up_history,
+    status_changed_at: input.status_changed_at,
+    status_history: input.status_history,
+    validation_passed: input.validation_passed,
+    expiration_date: input.expiration_date,
+    renewal_of: input.renewal_of,
+    files: input.files,
+    extraction: input.extraction
+  });
+}
+
+export function followUpFromRow(value: unknown): SmartFollowUp {
+  const row = parse(followUpRowSchema, value, 'follow-up row');
+  return {
+    id: row.id,
+    customer_id: row.customer_id,
+    document_id: row.document_id,
+    scheduled_time: row.scheduled_time,
+    channel: row.channel,
+    template_id: row.message_template ?? '',
+    status: row.status,
+    ai_confidence: row.ai_confidence,
+    personalization_context: row.personalization_context
+  };
+}
+
+export function followUpToRow(followUp: Partial<NewFollowUpInput>): Partial<FollowUpRow> {
+  const input = parse(newFollowUpSchema.partial(), followUp, 'follow-up');
+  return defined({
+    customer_id: input.customer_id,
+    document_id: input.document_id,
+    scheduled_time: input.scheduled_time,
+    channel: input.channel,
+    message_template: input.template_id,
+    status: input.status,
+    ai_confidence: input.ai_confidence,
+    personalization_context: input.personalization_context
+  });
+}
+
+export function processingJobFromRow(value: unknown): ProcessingJob {
+  return parse(processingJobRowSchema, value, 'processing job row');
+}
+
+export function processingJobToRow(job: Partial<NewProcessingJobInput>): Partial<ProcessingJobRow> {
+  return defined(parse(newProcessingJobSchema.partial(), job, 'processing job'));
+}
+
+export function fieldCorrectionFromRow(value: unknown): FieldCorrection {
+  return parse(fieldCorrectionRowSchema, value, 'field correction row');
+}
+
+export function fieldCorrectionToRow(correction: NewFieldCorrectionInput): Omit<FieldCorrectionRow, 'id'> {
+  return parse(newFieldCorrectionSchema, correction, 'field correction');
+}
+
+export function redactionLogEntryFromRow(value: unknown): RedactionLogEntry {
+  return parse(redactionLogRowSchema, value, 'redaction log row');
+}
+
+export function redactionLogEntryToRow(entry: NewRedactionLogEntryInput): Omit<RedactionLogRow, 'id'> {
+  return parse(newRedactionLogEntrySchema, entry, 'redaction log entry');
+}
+
+export function validationRuleFromRow(value: unknown): ValidationRule {
+  const row = parse(validationRuleRowSchema, value, 'validation rule row');
+  return { ...row, message: row.message ?? undefined };
+}
+
+export function validationRuleToRow(rule: Partial<NewValidationRuleInput>): Partial<ValidationRuleRow> {
+  return defined(parse(newValidationRuleSchema.partial(), rule, 'validation rule'));
+}
\ No newline at end of file
@@ -0,0 +1,380 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  Customer,
+  CustomerDocument,
+  FieldCorrection,
+  ProcessingJob,
+  RedactionLogEntry,
+  SmartFollowUp,
+  ValidationRule
+} from '../types';
+import {
+  CUSTOMER_SELECT,
+  customerFromRow,
+  customerToRow,
+  documentFromRow,
+  documentToRow,
+  fieldCorrectionFromRow,
+  fieldCorrectionToRow,
+  followUpFromRow,
+  followUpToRow,
+  processingJobFromRow,
+  processingJobToRow,
+  redactionLogEntryFromRow,
+  redactionLogEntryToRow,
+  validationRuleFromRow,
+  validationRuleToRow
+} from './supabaseMappers';
+import type {
+  CustomerRepository,
+  DocumentRepository,
+  FieldCorrectionRepository,
+  FollowUpRepository,
+  NewCustomer,
+  NewCustomerDocument,
+  NewFieldCorrection,
+  NewFollowUp,
+  NewProcessingJob,
+  NewRedactionLogEntry,
+  NewValidationRule,
+  ProcessingJobRepository,
+  RedactionLogRepository,
+  Repositories,
+  ValidationRuleRepository
+} from './repositories';
+import { UNASSIGNED_CUSTOMER } from './repositories';
+
+// Postgres's error code for a row a unique index already has
+const UNIQUE_VIOLATION = '23505';
+
+function unwrap<T>(result: { data: T | null; error: { message: string } | null }, action: string): T {
+  if (result.error) {
+    throw new Error(`Failed to ${action}: ${result.error.message}`);
+  }
+  if (result.data === null) {
+    throw new Error(`Failed to ${action}: no data returned`);
+  }
+  return result.data;
+}
+
+export class SupabaseCustomerRepository implements CustomerRepository {
+  constructor(private client: SupabaseClient) {}
+
+  async list(): Promise<Customer[]> {
+    const result = await this.client
+      .from('customers')
+      .select(CUSTOMER_SELECT)
+      .order('full_name');
+    return unwrap<unknown[]>(result, 'load customers').map(customerFromRow);
+  }
+
+  async get(id: string): Promise<Customer | null> {
+    const result = await this.client
+      .from('customers')
+      .select(CUSTOMER_SELECT)
+      .eq('id', id)
+      .maybeSingle();
+    if (result.error) {
+      throw new Error(`Failed to load customer ${id}: ${result.error.message}`);
+    }
+    return result.data ? customerFromRow(result.data) : null;
+  }
+
+  async create(customer: NewCustomer): Promise<Customer> {
+    const result = await this.client
+      .from('customers')
+      .insert(customerToRow(customer))
+      .select(CUSTOMER_SELECT)
+      .single();
+    return customerFromRow(unwrap<unknown>(result, 'create customer'));
+  }
+
+  async update(id: string, changes: Partial<NewCustomer>): Promise<Customer> {
+    const result = await this.client
+      .from('customers')
+      .update(customerToRow(changes))
+      .eq('id', id)
+      .select(CUSTOMER_SELECT)
+      .single();
+    return customerFromRow(unwrap<unknown>(result, `update customer ${id}`));
+  }
+
+  async remove(id: string): Promise<void> {
+    const { error } = await this.client.from('customers').delete().eq('id', id);
+    if (error) {
+      throw new Error(`Failed to delete customer ${id}: ${error.message}`);
+    }
+  }
+}
+
+export class SupabaseDocumentRepository implements DocumentRepository {
+  constructor(private client: SupabaseClient) {}
+
+  async listByCustomer(customerId: string): Promise<CustomerDocument[]> {
+    const result = await this.client
+      .from('documents')
+      .select('*')
+      .eq('customer_id', customerId)
+      .order('due_date');
+    return unwrap<unknown[]>(result, `load documents for ${customerId}`).map(documentFromRow);
+  }
+
+  async listAll(): Promise<Record<string, CustomerDocument[]>> {
+    const result = await this.client
+      .from('documents')
+      .select('*')
+      .order('due_date');
+    return unwrap<Array<{ customer_id: string | null }>>(result, 'load documents').reduce((acc, row) => {
+      (acc[row.customer_id ?? UNASSIGNED_CUSTOMER] ??= []).push(documentFromRow(row));
+      return acc;
+    }, {} as Record<string, CustomerDocument[]>);
+  }
+
+  async get(id: string): Promise<CustomerDocument | null> {
+    const result = await this.client
+      .from('documents')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+    if (result.error) {
+      throw new Error(`Failed to load document ${id}: ${result.error.message}`);
+    }
+    return result.data ? documentFromRow(result.data) : null;
+  }
+
+  async create(customerId: string | null, document: NewCustomerDocument): Promise<CustomerDocument> {
+    const result = await this.client
+      .from('documents')
+      .insert({ ...documentToRow(document), customer_id: customerId })
+      .select('*')
+      .single();
+    return documentFromRow(unwrap<unknown>(result, 'create document'));
+  }
+
+  async createRenewal(
+    customerId: string,
+    document: NewCustomerDocument & { renewal_of: string }
+  ): Promise<{ document: CustomerDocument; created: boolean }> {
+    const result = await this.client
+      .from('documents')
+      .insert({ ...documentToRow(document), customer_id: customerId })
+      .select('*')
+      .single();
+    // A conflict on renewal_of means another check got there first
+    if (result.error?.code !== UNIQUE_VIOLATION) {
+      return { document: documentFromRow(unwrap<unknown>(result, 'create renewal request')), created: true };
+    }
+    const existing = await this.client
+      .from('documents')
+      .select('*')
+      .eq('renewal_of', document.renewal_of)
+      .single();
+    return { document: documentFromRow(unwrap<unknown>(existing, 'load renewal request')), created: false };
+  }
+
+  async update(id: string, changes: Partial<NewCustomerDocument>): Promise<CustomerDocument> {
+    const result = await this.client
+      .from('documents')
+      .update({ ...documentToRow(changes), updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select('*')
+      .single();
+    return documentFromRow(unwrap<unknown>(result, `update document ${id}`));
+  }
+
+  async remove(id: string): Promise<void> {
+    const { error } = await this.client.from('documents').delete().eq('id', id);
+    if (error) {
+      throw new Error(`Failed to delete document ${id}: ${error.message}`);
+    }
+  }
+}
+
+export class SupabaseFollowUpRepository implements FollowUpRepository {
+  constructor(private client: SupabaseClient) {}
+
+  async listByCustomer(customerId: string): Promise<SmartFollowUp[]> {
+    return this.listWhere('customer_id', customerId);
+  }
+
+  async listByDocument(documentId: string): Promise<SmartFollowUp[]> {
+    return this.listWhere('document_id', documentId);
+  }
+
+  async schedule(followUp: NewFollowUp): Promise<SmartFollowUp> {
+    const result = await this.client
+      .from('follow_ups')
+      .insert(followUpToRow(followUp))
+      .select('*')
+      .single();
+    return followUpFromRow(unwrap<unknown>(result, 'schedule follow-up'));
+  }
+
+  async updateStatus(id: string, status: SmartFollowUp['status']): Promise<SmartFollowUp> {
+    const result = await this.client
+      .from('follow_ups')
+      .update(followUpToRow({ status }))
+      .eq('id', id)
+      .select('*')
+      .single();
+    return followUpFromRow(unwrap<unknown>(result, `update follow-up ${id}`));
+  }
+
+  private async listWhere(column: 'customer_id' | 'document_id', value: string): Promise<SmartFollowUp[]> {
+    const result = await this.client
+      .from('follow_ups')
+      .select('*')
+      .eq(column, value)
+      .order('scheduled_time');
+    return unwrap<unknown[]>(result, 'load follow-ups').map(followUpFromRow);
+  }
+}
+
+export class SupabaseProcessingJobRepository implements ProcessingJobRepository {
+  constructor(private client: SupabaseClient) {}
+
+  async list(): Promise<ProcessingJob[]> {
+    const result = await this.client
+      .from('processing_jobs')
+      .select('*')
+      .order('created_at');
+    return unwrap<unknown[]>(result, 'load processing jobs').map(processingJobFromRow);
+  }
+
+  async create(job: NewProcessingJob): Promise<ProcessingJob> {
+    const result = await this.client
+      .from('processing_jobs')
+      .insert(processingJobToRow(job))
+      .select('*')
+      .single();
+    return processingJobFromRow(unwrap<unknown>(result, 'create processing job'));
+  }
+
+  async update(id: string, changes: Partial<NewProcessingJob>): Promise<ProcessingJob> {
+    const result = await this.client
+      .from('processing_jobs')
+      .update({ ...processingJobToRow(changes), updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select('*')
+      .single();
+    return processingJobFromRow(unwrap<unknown>(result, `update processing job ${id}`));
+  }
+
+  async remove(id: string): Promise<void> {
+    const { error } = await this.client.from('processing_jobs').delete().eq('id', id);
+    if (error) {
+      throw new Error(`Failed to delete processing job ${id}: ${error.message}`);
+    }
+  }
+}
+
+export class SupabaseFieldCorrectionRepository implements FieldCorrectionRepository {
+  constructor(private client: SupabaseClient) {}
+
+  async list(): Promise<FieldCorrection[]> {
+    const result = await this.client
+      .from('field_corrections')
+      .select('*')
+      .order('corrected_at');
+    return unwrap<unknown[]>(result, 'load field corrections').map(fieldCorrectionFromRow);
+  }
+
+  async listByDocument(documentId: string): Promise<FieldCorrection[]> {
+    const result = await this.client
+      .from('field_corrections')
+      .select('*')
+      .eq('document_id', documentId)
+      .order('corrected_at');
+    return unwrap<unknown[]>(result, 'load field corrections').map(fieldCorrectionFromRow);
+  }
+
+  async create(correction: NewFieldCorrection): Promise<FieldCorrection> {
+    const result = await this.client
+      .from('field_corrections')
+      .insert(fieldCorrectionToRow(correction))
+      .select('*')
+      .single();
+    return fieldCorrectionFromRow(unwrap<unknown>(result, 'save field correction'));
+  }
+}
+
+export class SupabaseRedactionLogRepository implements RedactionLogRepository {
+  constructor(private client: SupabaseClient) {}
+
+  async listByDocument(documentId: string): Promise<RedactionLogEntry[]> {
+    const result = await this.client
+      .from('redaction_log')
+      .select('*')
+      .eq('document_id', documentId)
+      .order('redacted_at');
+    return unwrap<unknown[]>(result, 'load redaction log').map(redactionLogEntryFromRow);
+  }
+
+  async create(entry: NewRedactionLogEntry): Promise<RedactionLogEntry> {
+    const result = await this.client
+      .from('redaction_log')
+      .insert(redactionLogEntryToRow(entry))
+      .select('*')
+      .single();
+    return redactionLogEntryFromRow(unwrap<unknown>(result, 'save redaction log entry'));
+  }
+}
+
+export class SupabaseValidationRuleRepository implements ValidationRuleRepository {
+  constructor(private client: SupabaseClient) {}
+
+  async list(): Promise<ValidationRule[]> {
+    const result = await this.client
+      .from('validation_rules')
+      .select('*')
+      .order('created_at');
+    return unwrap<unknown[]>(result, 'load validation rules').map(validationRuleFromRow);
+  }
+
+  async listByDocumentType(documentType: string): Promise<ValidationRule[]> {
+    const result = await this.client
+      .from('validation_rules')
+      .select('*')
+      .eq('document_type', documentType)
+      .order('created_at');
+    return unwrap<unknown[]>(result, 'load validation rules').map(validationRuleFromRow);
+  }
+
+  async create(rule: NewValidationRule): Promise<ValidationRule> {
+    const result = await this.client
+      .from('validation_rules')
+      .insert(validationRuleToRow(rule))
+      .select('*')
+      .single();
+    return validationRuleFromRow(unwrap<unknown>(result, 'create validation rule'));
+  }
+
+  async update(id: string, changes: Partial<NewValidationRule>): Promise<ValidationRule> {
+    const result = await this.client
+      .from('validation_rules')
+      .update(validationRuleToRow(changes))
+      .eq('id', id)
+      .select('*')
+      .single();
+    return validationRuleFromRow(unwrap<unknown>(result, `update validation rule ${id}`));
+  }
+
+  async remove(id: string): Promise<void> {
+    const { error } = await this.client.from('validation_rules').delete().eq('id', id);
+    if (error) {
+      throw new Error(`Failed to delete validation rule ${id}: ${error.message}`);
+    }
+  }
+}
+
+export function createSupabaseRepositories(client: SupabaseClient): Repositories {
+  return {
+    customers: new SupabaseCustomerRepository(client),
+    documents: new SupabaseDocumentRepository(client),
+    followUps: new SupabaseFollowUpRepository(client),
+    jobs: new SupabaseProcessingJobRepository(client),
+    corrections: new SupabaseFieldCorrectionRepository(client),
+    redactions: new SupabaseRedactionLogRepository(client),
+    validationRules: new SupabaseValidationRuleRepository(client)
+  };
+}
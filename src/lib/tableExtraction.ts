@@ -0,0 +1,297 @@
+// Transaction tables from bank statements and invoices. A table is found by
+// its header row ("Date  Description  Debit  Credit  Balance"); the header's
+// word positions give the columns, and the words below are grouped into rows
+// by their vertical position and into cells by the column they fall under.
+import type { DateReading } from './localeFormats';
+import { dateReading, readAmount, readDate } from './localeFormats';
+import type { LayoutBox, LayoutWord, PageLayout } from './textLayout';
+import { unionBox } from './textLayout';
+
+export interface Transaction {
+  // ISO 8601; null for rows without a date, such as invoice line items
+  date: string | null;
+  description: string;
+  // Money leaving the account, or charged on an invoice
+  debit: number | null;
+  credit: number | null;
+  // Running balance after the row, when the table has one
+  balance: number | null;
+  currency?: string;
+  // 1-based
+  page: number;
+  box: LayoutBox;
+  // Average OCR confidence of the row's words, 0 to 100
+  confidence: number;
+  // Whether the balance follows from the previous one; only set when the
+  // table has a balance column and an earlier balance to go from
+  reconciled?: boolean;
+}
+
+type ColumnRole = 'date' | 'description' | 'debit' | 'credit' | 'amount' | 'balance' | 'ignored';
+
+interface Column {
+  role: ColumnRole;
+  left: number;
+  right: number;
+}
+
+// Header wording for each kind of column, matched against one to three words.
+// Ignored columns (quantities, unit prices) still claim the words under them.
+const columnHeaders: Array<[ColumnRole, RegExp]> = [
+  ['date', /^(date|posted|posting date|transaction date|trans date|value date|fecha|datum|date opération)$/],
+  ['description', /^(description|details|transaction details|particulars|narrative|memo|item|items|payee|concepto|libellé|verwendungszweck)$/],
+  ['debit', /^(debit|debits|withdrawal|withdrawals|paid out|money out|payments|charges|cargo|débit|soll)$/],
+  ['credit', /^(credit|credits|deposit|deposits|paid in|money in|receipts|abono|crédit|haben)$/],
+  ['amount', /^(amount|line total|total|importe|montant|betrag)$/],
+  ['balance', /^(balance|running balance|saldo|solde)$/],
+  ['ignored', /^(qty|quantity|unit price|price|rate|unit|vat|tax|ref|reference|cheque no|check no)$/]
+];
+
+// Rows that close a table rather than belong to it
+const TABLE_END = /^(sub-?total|totals?|closing balance|balance carried forward|carried forward|amount due|total due)\b/i;
+// Undated rows that carry the balance the statement starts from
+const OPENING_BALANCE = /\b(opening balance|balance brought forward|brought forward|previous balance)\b/i;
+
+const MONTH_NAME = /\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?\b/i;
+
+export interface TableExtractionOptions {
+  // How dates and amounts are written; named as in languageConfigs
+  language?: string;
+}
+
+function headerColumns(words: LayoutWord[]): Column[] {
+  const columns: Column[] = [];
+  let i = 0;
+  while (i < words.length) {
+    let matched = 0;
+    // Longest phrase first, so "paid out" wins over a lone "paid"
+    for (let length = Math.min(3, words.length - i); length > 0 && !matched; length--) {
+      const phrase = words.slice(i, i + length).map(word => word.text.toLowerCase().replace(/[:.]$/, '')).join(' ');
+      const role = columnHeaders.find(([, pattern]) => pattern.test(phrase))?.[0];
+      if (role) {
+        const box = unionBox(words.slice(i, i + length).map(word => word.box));
+        columns.push({ role, left: box.left, right: box.left + box.width });
+        matched = length;
+      }
+    }
+    i += matched || 1;
+  }
+  return columns;
+}
+
+// A header needs money to come out of and something to say what it was for
+function isHeader(columns: Column[]): boolean {
+  const roles = new Set(columns.map(column => column.role));
+  const money = roles.has('debit') || roles.has('credit') || roles.has('amount');
+  return money && (roles.has('date') || roles.has('description')) && columns.length >= 3;
+}
+
+// Words grouped into rows by their vertical centre, top to bottom
+function groupRows(words: LayoutWord[]): LayoutWord[][] {
+  const sorted = [...words].sort((a, b) => centerY(a) - centerY(b));
+  const heights = sorted.map(word => word.box.height).sort((a, b) => a - b);
+  const tolerance = (heights[Math.floor(heights.length / 2)] ?? 0) * 0.6;
+
+  const rows: LayoutWord[][] = [];
+  for (const word of sorted) {
+    const row = rows[rows.length - 1];
+    if (row && Math.abs(centerY(word) - average(row.map(centerY))) <= tolerance) {
+      row.push(word);
+    } else {
+      rows.push([word]);
+    }
+  }
+  return rows.map(row => row.sort((a, b) => a.box.left - b.box.left));
+}
+
+function centerY(word: LayoutWord): number {
+  return word.box.top + word.box.height / 2;
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+// Each word goes to the column whose span, widened to halfway to its
+// neighbours, holds the word's centre. Amounts are often right-aligned and
+// stick out past the left edge of their header.
+function cells(row: LayoutWord[], columns: Column[]): Map<ColumnRole, string> {
+  const sorted = [...columns].sort((a, b) => a.left - b.left);
+  const bounds = sorted.map((column, i) => ({
+    role: column.role,
+    from: i === 0 ? -Infinity : (sorted[i - 1].right + column.left) / 2,
+    to: i === sorted.length - 1 ? Infinity : (column.right + sorted[i + 1].left) / 2
+  }));
+
+  const result = new Map<ColumnRole, string>();
+  for (const word of row) {
+    const x = word.box.left + word.box.width / 2;
+    const role = bounds.find(bound => x >= bound.from && x < bound.to)?.role;
+    if (!role) continue;
+    result.set(role, [result.get(role), word.text].filter(Boolean).join(' '));
+  }
+  return result;
+}
+
+interface Amount {
+  value: number;
+  currency?: string;
+}
+
+// Signed amount from a cell: "-12.50", "(12.50)", "12.50-" and "12.50 DR" are negative
+function parseAmount(text: string | undefined, language?: string): Amount | null {
+  if (!text) return null;
+  const negative = /^\s*[-−(]|[-−)]\s*$|\bdr\b/i.test(text);
+  const money = readAmount(text.replace(/[-−()]|\b(dr|cr)\b/gi, ''), language)?.value;
+  if (!money) return null;
+  return { value: negative ? -money.amount : money.amount, ...(money.currency && { currency: money.currency }) };
+}
+
+// Statements often leave the year off each row ("03 Jan"); it's taken from
+// the dates elsewhere in the document
+function parseDate(text: string | undefined, year: number | null, reading: DateReading): string | null {
+  if (!text) return null;
+  const parsed = readDate(text, reading);
+  if (parsed) return parsed.value;
+  if (year === null) return null;
+
+  const withYear = MONTH_NAME.test(text)
+    ? `${text.replace(/,$/, '')} ${year}`
+    : /^\d{1,2}[-/.]\d{1,2}$/.test(text.trim()) ? `${text.trim()}/${year}` : null;
+  return withYear ? readDate(withYear, reading)?.value ?? null : null;
+}
+
+function documentYear(pages: PageLayout[]): number | null {
+  for (const page of pages) {
+    for (const line of page.lines) {
+      const match = /\b(19|20)\d{2}\b/.exec(line.text);
+      if (match) return Number(match[0]);
+    }
+  }
+  return null;
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Transactions from every table in the document, in page order
+export function extractTransactions(pages: PageLayout[], options: TableExtractionOptions = {}): Transaction[] {
+  const year = documentYear(pages);
+  // One date that can only be read one way settles how the rest are read
+  const reading = dateReading(options.language, pages.flatMap(page => page.lines.map(line => line.text)).join('\n'));
+  const transactions: Transaction[] = [];
+  // Tables that run over several pages don't always repeat their header
+  let columns: Column[] | null = null;
+  let balance: number | null = null;
+
+  for (const page of pages) {
+    const header = page.lines.find(line => isHeader(headerColumns(line.words)));
+    if (header) {
+      columns = headerColumns(header.words);
+    }
+    if (!columns) continue;
+
+    const top = header ? header.box.top + header.box.height : 0;
+    const words = page.lines.flatMap(line => line.words).filter(word => centerY(word) > top);
+    const roles = new Set(columns.map(column => column.role));
+    let previous: Transaction | null = null;
+
+    for (const row of groupRows(words)) {
+      const text = row.map(word => word.text).join(' ');
+      if (TABLE_END.test(text)) {
+        columns = null;
+        break;
+      }
+
+      const cell = cells(row, columns);
+      const date = parseDate(cell.get('date'), year, reading);
+      const debit = parseAmount(cell.get('debit'), options.language);
+      const credit = parseAmount(cell.get('credit'), options.language);
+      const amount = parseAmount(cell.get('amount'), options.language);
+      const rowBalance = parseAmount(cell.get('balance'), options.language);
+      const description = cell.get('description') ?? '';
+      const hasMoney = Boolean(debit || credit || amount);
+
+      if (roles.has('date') && !date) {
+        if (rowBalance && OPENING_BALANCE.test(text)) {
+          balance = rowBalance.value;
+        } else if (previous && !hasMoney && description) {
+          // Long descriptions wrap onto the next line
+          previous.description = `${previous.description} ${description}`.trim();
+          previous.box = unionBox([previous.box, ...row.map(word => word.box)]);
+        }
+        continue;
+      }
+      if (!hasMoney) {
+        if (previous && description && !roles.has('date')) {
+          previous.description = `${previous.description} ${description}`.trim();
+          previous.box = unionBox([previous.box, ...row.map(word => word.box)]);
+        }
+        continue;
+      }
+
+      // A single amount column is signed on statements; on invoices (no date
+      // column) each line is a charge and negative lines are discounts
+      let debitValue = debit ? Math.abs(debit.value) : null;
+      let creditValue = credit ? Math.abs(credit.value) : null;
+      if (amount && !debit && !credit) {
+        const charge = roles.has('date') ? amount.value < 0 : amount.value >= 0;
+        if (charge) debitValue = Math.abs(amount.value);
+        else creditValue = Math.abs(amount.value);
+      }
+
+      const transaction: Transaction = {
+        date,
+        description,
+        debit: debitValue,
+        credit: creditValue,
+        balance: rowBalance?.value ?? null,
+        page: page.number,
+        box: unionBox(row.map(word => word.box)),
+        confidence: Math.round(average(row.map(word => word.confidence)))
+      };
+      const currency = debit?.currency ?? credit?.currency ?? amount?.currency ?? rowBalance?.currency;
+      if (currency) transaction.currency = currency;
+
+      if (transaction.balance !== null) {
+        if (balance !== null) {
+          const expected = roundCents(balance + (creditValue ?? 0) - (debitValue ?? 0));
+          transaction.reconciled = Math.abs(expected - transaction.balance) < 0.005;
+        }
+        balance = transaction.balance;
+      }
+      transactions.push(transaction);
+      previous = transaction;
+    }
+  }
+  return transactions;
+}
+
+const CSV_COLUMNS = ['date', 'description', 'debit', 'credit', 'balance', 'currency', 'page'] as const;
+
+function csvCell(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  // Spreadsheets run text that starts like a formula, so it is kept as text.
+  // Numbers are left alone so negative amounts stay numbers.
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function transactionsToCsv(transactions: Transaction[]): string {
+  return [
+    CSV_COLUMNS.join(','),
+    ...transactions.map(transaction => CSV_COLUMNS.map(column => csvCell(transaction[column])).join(','))
+  ].join('\n');
+}
+
+// The rows without their position on the page
+export function transactionsToJson(transactions: Transaction[]): string {
+  return JSON.stringify(
+    transactions.map(({ date, description, debit, credit, balance, currency, page }) => ({
+      date, description, debit, credit, balance, ...(currency && { currency }), page
+    })),
+    null,
+    2
+  );
+}
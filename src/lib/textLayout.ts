@@ -0,0 +1,163 @@
+// Where recognized text sits on each page, so the preview can lay a
+// selectable text layer over scans and point at what was extracted.
+
+// Position as fractions of the page's width and height, measured from its top
+// left corner. Fractions hold at any zoom and for any page size.
+export interface LayoutBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface LayoutWord {
+  text: string;
+  // 0 to 100; text layer words are 100
+  confidence: number;
+  box: LayoutBox;
+}
+
+export interface LayoutLine {
+  text: string;
+  confidence: number;
+  box: LayoutBox;
+  words: LayoutWord[];
+}
+
+export interface PageLayout {
+  // 1-based
+  number: number;
+  lines: LayoutLine[];
+}
+
+// A value the pipeline extracted, to be located on the page
+export interface LayoutField {
+  name: string;
+  value: string;
+}
+
+// What is stored alongside a processed document
+export interface DocumentLayout {
+  pages: PageLayout[];
+  fields: LayoutField[];
+}
+
+// Below this OCR confidence a word is worth a second look
+export const LOW_CONFIDENCE = 60;
+
+// The whole page, for images that fill it
+export const FULL_PAGE: LayoutBox = { left: 0, top: 0, width: 1, height: 1 };
+
+type PixelBox = { x0: number; y0: number; x1: number; y1: number };
+
+// Maps a box in image pixels onto the page, given where the image sits on it
+export function boxFromPixels(
+  bbox: PixelBox,
+  image: { width: number; height: number },
+  frame: LayoutBox = FULL_PAGE
+): LayoutBox {
+  return {
+    left: frame.left + (bbox.x0 / image.width) * frame.width,
+    top: frame.top + (bbox.y0 / image.height) * frame.height,
+    width: ((bbox.x1 - bbox.x0) / image.width) * frame.width,
+    height: ((bbox.y1 - bbox.y0) / image.height) * frame.height
+  };
+}
+
+// The box as CSS percentages, for absolutely positioned overlays
+export function boxPercentages(box: LayoutBox): { left: string; top: string; width: string; height: string } {
+  return {
+    left: `${box.left * 100}%`,
+    top: `${box.top * 100}%`,
+    width: `${box.width * 100}%`,
+    height: `${box.height * 100}%`
+  };
+}
+
+export function unionBox(boxes: LayoutBox[]): LayoutBox {
+  const left = Math.min(...boxes.map(box => box.left));
+  const top = Math.min(...boxes.map(box => box.top));
+  const right = Math.max(...boxes.map(box => box.left + box.width));
+  const bottom = Math.max(...boxes.map(box => box.top + box.height));
+  return { left, top, width: right - left, height: bottom - top };
+}
+
+// Lines and words from a Tesseract result
+export function layoutFromOcr(
+  lines: Array<{ text: string; confidence: number; bbox: PixelBox; words: Array<{ text: string; confidence: number; bbox: PixelBox }> }>,
+  image: { width: number; height: number },
+  frame: LayoutBox = FULL_PAGE
+): LayoutLine[] {
+  return lines
+    .map(line => ({
+      text: line.text.trim(),
+      confidence: line.confidence,
+      box: boxFromPixels(line.bbox, image, frame),
+      words: line.words
+        .filter(word => word.text.trim())
+        .map(word => ({
+          text: word.text.trim(),
+          confidence: word.confidence,
+          box: boxFromPixels(word.bbox, image, frame)
+        }))
+    }))
+    .filter(line => line.words.length > 0);
+}
+
+// Splits a run of text layer text into words. The text layer only gives the
+// run's extent, so each word gets a share of it by character count.
+export function splitIntoWords(text: string, box: LayoutBox): LayoutWord[] {
+  const words: LayoutWord[] = [];
+  const pattern = /\S+/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    words.push({
+      text: match[0],
+      confidence: 100,
+      box: {
+        left: box.left + (match.index / text.length) * box.width,
+        top: box.top,
+        width: (match[0].length / text.length) * box.width,
+        height: box.height
+      }
+    });
+  }
+  return words;
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+// Boxes around each occurrence of the text on the page. Matches are found
+// within a line and may span several words; case and spacing are ignored.
+export function findInLayout(page: PageLayout, query: string): LayoutBox[] {
+  const needle = normalize(query);
+  if (!needle) return [];
+
+  const hits: LayoutBox[] = [];
+  for (const line of page.lines) {
+    // Offsets of each word in the line as rebuilt from its words
+    let haystack = '';
+    const starts = line.words.map(word => {
+      if (haystack) haystack += ' ';
+      const start = haystack.length;
+      haystack += normalize(word.text);
+      return start;
+    });
+
+    let from = 0;
+    let at: number;
+    while ((at = haystack.indexOf(needle, from)) >= 0) {
+      const end = at + needle.length;
+      const covered = line.words.filter((word, i) => starts[i] < end && starts[i] + normalize(word.text).length > at);
+      hits.push(unionBox(covered.map(word => word.box)));
+      from = end;
+    }
+  }
+  return hits;
+}
+
+export function lowConfidenceWords(page: PageLayout, threshold: number = LOW_CONFIDENCE): LayoutWord[] {
+  return page.lines.flatMap(line => line.words.filter(word => word.confidence < threshold));
+}
@@ -0,0 +1,441 @@
+// Custom validation rules, configured per document type and run on the fields
+// extraction read. Rules are data, so every rule is checked against
+// validationRuleSchema before it is stored or run. Expressions are parsed
+// into a tree and interpreted with a handful of operators and functions;
+// nothing in a rule is ever evaluated as code.
+//
+// "Proof of address dated within 90 days" is
+//   { type: 'date', field: 'date', when: 'past', within_days: 90 }
+// or, as an expression, "days_since(date) <= 90".
+import { z } from 'zod';
+import type { ValidationCheck, ValidationIssue, ValidationRule, ValidationSeverity } from '../types';
+import type { ExtractedField, ExtractedFields } from './fieldExtraction';
+import { isFieldName } from './fieldExtraction';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const validationSeverityColors: Record<ValidationSeverity, string> = {
+  error: 'bg-red-100 text-red-800',
+  warning: 'bg-yellow-100 text-yellow-800',
+  info: 'bg-blue-100 text-blue-800'
+};
+
+export const validationCheckLabels: Record<ValidationCheck['type'], string> = {
+  required: 'Field present',
+  pattern: 'Matches pattern',
+  range: 'Number in range',
+  date: 'Date in past or future',
+  equals: 'Fields equal',
+  expression: 'Expression'
+};
+
+type Value = string | number | boolean | null;
+
+type BinaryOperator = '||' | '&&' | '==' | '!=' | '<' | '<=' | '>' | '>=' | '+' | '-' | '*' | '/';
+
+type Expression =
+  | { kind: 'literal'; value: Value }
+  | { kind: 'field'; name: string }
+  | { kind: 'call'; name: FunctionName; args: Expression[] }
+  | { kind: 'not' | 'negate'; operand: Expression }
+  | { kind: 'binary'; operator: BinaryOperator; left: Expression; right: Expression };
+
+interface Scope {
+  fields: ExtractedFields;
+  now: Date;
+}
+
+// Calendar days from a to b, both ISO dates
+function daysBetween(a: string, b: string): number {
+  return Math.round((Date.parse(b) - Date.parse(a)) / DAY_MS);
+}
+
+function today(now: Date): string {
+  return new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate())).toISOString().slice(0, 10);
+}
+
+function isIsoDate(value: Value): value is string {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+// Functions an expression may call, with how many arguments each takes
+const FUNCTIONS = {
+  today: { arity: 0, call: (_: Value[], scope: Scope): Value => today(scope.now) },
+  days_since: {
+    arity: 1,
+    call: ([date]: Value[], scope: Scope): Value => (isIsoDate(date) ? daysBetween(date, today(scope.now)) : null)
+  },
+  days_until: {
+    arity: 1,
+    call: ([date]: Value[], scope: Scope): Value => (isIsoDate(date) ? daysBetween(today(scope.now), date) : null)
+  },
+  present: { arity: 1, call: ([value]: Value[]): Value => value !== null && value !== '' },
+  lower: { arity: 1, call: ([value]: Value[]): Value => (typeof value === 'string' ? value.toLowerCase() : null) },
+  length: { arity: 1, call: ([value]: Value[]): Value => (typeof value === 'string' ? value.length : null) }
+};
+
+type FunctionName = keyof typeof FUNCTIONS;
+
+function isFunctionName(name: string): name is FunctionName {
+  return Object.prototype.hasOwnProperty.call(FUNCTIONS, name);
+}
+
+const TOKEN = /\s*(?:(\d+(?:\.\d+)?)|'((?:[^'\\]|\\.)*)'|"((?:[^"\\]|\\.)*)"|([A-Za-z_]\w*)|(&&|\|\||==|!=|<=|>=|[<>!+\-*/(),]))/y;
+
+type Token = { type: 'number'; value: number } | { type: 'string'; value: string } | { type: 'name' | 'symbol'; value: string };
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  TOKEN.lastIndex = 0;
+  while (TOKEN.lastIndex < source.length) {
+    const at = TOKEN.lastIndex;
+    const match = TOKEN.exec(source);
+    if (!match) {
+      if (source.slice(at).trim() === '') break;
+      throw new Error(`Unexpected character at position ${at + 1}: ${source.slice(at).trim()[0]}`);
+    }
+    const [, number, single, double, name, symbol] = match;
+    if (number !== undefined) tokens.push({ type: 'number', value: Number(number) });
+    else if (single !== undefined || double !== undefined) {
+      tokens.push({ type: 'string', value: (single ?? double).replace(/\\(.)/g, '$1') });
+    } else if (name !== undefined) tokens.push({ type: 'name', value: name });
+    else tokens.push({ type: 'symbol', value: symbol });
+  }
+  return tokens;
+}
+
+// Lowest precedence first
+const BINARY_LEVELS: BinaryOperator[][] = [['||'], ['&&'], ['==', '!=', '<', '<=', '>', '>='], ['+', '-'], ['*', '/']];
+
+// Recursive descent over the tokens; throws on anything it can't read
+export function parseExpression(source: string): Expression {
+  const tokens = tokenize(source);
+  let position = 0;
+
+  const peek = (value: string) => tokens[position]?.type === 'symbol' && tokens[position].value === value;
+  const expect = (value: string) => {
+    if (!peek(value)) throw new Error(`Expected "${value}"`);
+    position++;
+  };
+
+  const binary = (level: number): Expression => {
+    if (level === BINARY_LEVELS.length) return unary();
+    let left = binary(level + 1);
+    // Comparisons don't chain: "a < b < c" is an error
+    const chains = level !== 2;
+    for (;;) {
+      const operator = BINARY_LEVELS[level].find(peek);
+      if (!operator) return left;
+      position++;
+      left = { kind: 'binary', operator, left, right: binary(level + 1) };
+      if (!chains) return left;
+    }
+  };
+
+  const unary = (): Expression => {
+    if (peek('!')) {
+      position++;
+      return { kind: 'not', operand: unary() };
+    }
+    if (peek('-')) {
+      position++;
+      return { kind: 'negate', operand: unary() };
+    }
+    return primary();
+  };
+
+  const primary = (): Expression => {
+    const token = tokens[position++];
+    if (!token) throw new Error('Unexpected end of expression');
+    if (token.type === 'number' || token.type === 'string') return { kind: 'literal', value: token.value };
+    if (token.type === 'symbol') {
+      if (token.value !== '(') throw new Error(`Unexpected "${token.value}"`);
+      const inner = binary(0);
+      expect(')');
+      return inner;
+    }
+    if (token.value === 'true' || token.value === 'false') return { kind: 'literal', value: token.value === 'true' };
+    if (token.value === 'null') return { kind: 'literal', value: null };
+    if (!peek('(')) return { kind: 'field', name: token.value };
+
+    const name = token.value;
+    if (!isFunctionName(name)) throw new Error(`Unknown function: ${name}`);
+    position++;
+    const args: Expression[] = [];
+    while (!peek(')')) {
+      if (args.length > 0) expect(',');
+      args.push(binary(0));
+    }
+    position++;
+    if (args.length !== FUNCTIONS[name].arity) {
+      throw new Error(`${name}() takes ${FUNCTIONS[name].arity} argument${FUNCTIONS[name].arity === 1 ? '' : 's'}`);
+    }
+    return { kind: 'call', name, args };
+  };
+
+  const expression = binary(0);
+  if (position < tokens.length) throw new Error(`Unexpected "${tokens[position].value}"`);
+  return expression;
+}
+
+function fieldNames(expression: Expression): string[] {
+  switch (expression.kind) {
+    case 'field':
+      return [expression.name];
+    case 'call':
+      return expression.args.flatMap(fieldNames);
+    case 'not':
+    case 'negate':
+      return fieldNames(expression.operand);
+    case 'binary':
+      return [...fieldNames(expression.left), ...fieldNames(expression.right)];
+    default:
+      return [];
+  }
+}
+
+// Dates are ISO strings and amounts plain numbers; a field that wasn't
+// found is null
+function fieldValue(field: ExtractedField | undefined): Value {
+  if (!field) return null;
+  return field.type === 'money' ? field.value.amount : field.value;
+}
+
+function truthy(value: Value): boolean {
+  return value !== null && value !== false && value !== 0 && value !== '';
+}
+
+// Anything that doesn't make sense, like adding a name to a date, is null,
+// and ordering against null is false
+function evaluate(expression: Expression, scope: Scope): Value {
+  switch (expression.kind) {
+    case 'literal':
+      return expression.value;
+    case 'field':
+      return isFieldName(expression.name) ? fieldValue(scope.fields[expression.name]) : null;
+    case 'call':
+      return FUNCTIONS[expression.name].call(expression.args.map(arg => evaluate(arg, scope)), scope);
+    case 'not':
+      return !truthy(evaluate(expression.operand, scope));
+    case 'negate': {
+      const value = evaluate(expression.operand, scope);
+      return typeof value === 'number' ? -value : null;
+    }
+    case 'binary': {
+      const { operator } = expression;
+      if (operator === '&&') return truthy(evaluate(expression.left, scope)) && truthy(evaluate(expression.right, scope));
+      if (operator === '||') return truthy(evaluate(expression.left, scope)) || truthy(evaluate(expression.right, scope));
+
+      const left = evaluate(expression.left, scope);
+      const right = evaluate(expression.right, scope);
+      if (operator === '==') return left === right;
+      if (operator === '!=') return left !== right;
+      if (left === null || right === null || typeof left !== typeof right) {
+        return ['<', '<=', '>', '>='].includes(operator) ? false : null;
+      }
+      if (operator === '<') return left < right;
+      if (operator === '<=') return left <= right;
+      if (operator === '>') return left > right;
+      if (operator === '>=') return left >= right;
+      if (typeof left !== 'number' || typeof right !== 'number') return null;
+      if (operator === '+') return left + right;
+      if (operator === '-') return left - right;
+      if (operator === '*') return left * right;
+      return right === 0 ? null : left / right;
+    }
+  }
+}
+
+// Only fields extraction knows how to find can be checked
+const fieldNameSchema = z.string().refine(isFieldName, name => ({ message: `Unknown field: ${name}` }));
+
+export const validationCheckSchema: z.ZodType<ValidationCheck> = z
+  .discriminatedUnion('type', [
+    z.object({ type: z.literal('required'), field: fieldNameSchema }),
+    z.object({
+      type: z.literal('pattern'),
+      field: fieldNameSchema.optional(),
+      pattern: z.string().min(1),
+      flags: z.string().regex(/^[imsu]*$/, 'Flags may only be i, m, s and u').optional()
+    }),
+    z.object({ type: z.literal('range'), field: fieldNameSchema, min: z.number().optional(), max: z.number().optional() }),
+    z.object({
+      type: z.literal('date'),
+      field: fieldNameSchema,
+      when: z.enum(['past', 'future']),
+      within_days: z.number().int().nonnegative().optional()
+    }),
+    z.object({ type: z.literal('equals'), field: fieldNameSchema, other_field: fieldNameSchema, ignore_case: z.boolean().optional() }),
+    z.object({ type: z.literal('expression'), expression: z.string().min(1) })
+  ])
+  .superRefine((check, context) => {
+    if (check.type === 'pattern') {
+      try {
+        new RegExp(check.pattern, check.flags);
+      } catch {
+        context.addIssue({ code: z.ZodIssueCode.custom, path: ['pattern'], message: 'Not a valid regular expression' });
+      }
+    }
+    if (check.type === 'range' && check.min === undefined && check.max === undefined) {
+      context.addIssue({ code: z.ZodIssueCode.custom, path: ['min'], message: 'A range needs a minimum, a maximum or both' });
+    }
+    if (check.type === 'range' && check.min !== undefined && check.max !== undefined && check.min > check.max) {
+      context.addIssue({ code: z.ZodIssueCode.custom, path: ['max'], message: 'The maximum is below the minimum' });
+    }
+    if (check.type === 'expression') {
+      try {
+        const unknown = fieldNames(parseExpression(check.expression)).filter(name => !isFieldName(name));
+        if (unknown.length > 0) {
+          context.addIssue({ code: z.ZodIssueCode.custom, path: ['expression'], message: `Unknown field: ${unknown[0]}` });
+        }
+      } catch (error) {
+        context.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['expression'],
+          message: error instanceof Error ? error.message : 'Not a valid expression'
+        });
+      }
+    }
+  });
+
+export const validationSeveritySchema = z.enum(['error', 'warning', 'info']);
+
+// A rule as it is written, before it has been stored
+export const newValidationRuleSchema = z.object({
+  document_type: z.string().min(1),
+  name: z.string().min(1),
+  severity: validationSeveritySchema,
+  message: z.string().min(1).optional(),
+  check: validationCheckSchema,
+  enabled: z.boolean()
+});
+
+export const validationRuleSchema: z.ZodType<ValidationRule> = newValidationRuleSchema.extend({
+  id: z.string(),
+  created_at: z.string()
+});
+
+// Rules handed to processDocument directly, which have not been through a repository
+export function parseValidationRules(value: unknown): ValidationRule[] {
+  const result = z.array(validationRuleSchema).safeParse(value);
+  if (!result.success) {
+    const details = result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+    throw new Error(`Invalid validation rules: ${details}`);
+  }
+  return result.data;
+}
+
+// The fields the rules read, so extraction looks for them even when the
+// document's category doesn't require them
+export function ruleFields(rules: ValidationRule[]): string[] {
+  const names = rules.flatMap(({ check }) => {
+    switch (check.type) {
+      case 'pattern':
+        return check.field ? [check.field] : [];
+      case 'equals':
+        return [check.field, check.other_field];
+      case 'expression':
+        return fieldNames(parseExpression(check.expression));
+      default:
+        return [check.field];
+    }
+  });
+  return Array.from(new Set(names));
+}
+
+function label(field: string): string {
+  return field.replace(/_/g, ' ');
+}
+
+function comparable(field: ExtractedField, ignoreCase: boolean): string {
+  if (field.type === 'money') return `${field.value.amount} ${field.value.currency ?? ''}`.trim();
+  const text = field.value.trim().replace(/\s+/g, ' ');
+  return ignoreCase ? text.toLowerCase() : text;
+}
+
+// Why the check fails, or null when it passes
+function failure(check: ValidationCheck, scope: Scope, text: string): { message: string; field?: string } | null {
+  if (check.type === 'expression') {
+    return truthy(evaluate(parseExpression(check.expression), scope)) ? null : { message: `${check.expression} does not hold` };
+  }
+  if (check.type === 'pattern' && !check.field) {
+    return new RegExp(check.pattern, check.flags).test(text) ? null : { message: `The document does not contain ${check.pattern}` };
+  }
+
+  const field = check.field!;
+  const found = isFieldName(field) ? scope.fields[field] : undefined;
+  if (!found) {
+    return { message: check.type === 'required' ? `${label(field)} is missing` : `${label(field)} was not found, so it could not be checked`, field };
+  }
+
+  switch (check.type) {
+    case 'required':
+      return null;
+    case 'pattern':
+      return new RegExp(check.pattern, check.flags).test(found.raw)
+        ? null
+        : { message: `${label(field)} "${found.raw}" is not in the expected format`, field };
+    case 'range': {
+      const value = fieldValue(found);
+      if (typeof value !== 'number') {
+        const number = Number(found.raw.replace(/[^\d.-]/g, ''));
+        if (found.raw.trim() === '' || Number.isNaN(number)) return { message: `${label(field)} "${found.raw}" is not a number`, field };
+        return rangeFailure(field, number, check.min, check.max);
+      }
+      return rangeFailure(field, value, check.min, check.max);
+    }
+    case 'date': {
+      if (found.type !== 'date') return { message: `${label(field)} "${found.raw}" is not a date`, field };
+      const days = daysBetween(found.value, today(scope.now));
+      if (check.when === 'past') {
+        if (days < 0) return { message: `${label(field)} ${found.value} is in the future`, field };
+        if (check.within_days !== undefined && days > check.within_days) {
+          return { message: `${label(field)} ${found.value} is ${days} days old, more than ${check.within_days}`, field };
+        }
+      } else {
+        if (days > 0) return { message: `${label(field)} ${found.value} has passed`, field };
+        if (check.within_days !== undefined && -days > check.within_days) {
+          return { message: `${label(field)} ${found.value} is ${-days} days away, more than ${check.within_days}`, field };
+        }
+      }
+      return null;
+    }
+    case 'equals': {
+      const other = isFieldName(check.other_field) ? scope.fields[check.other_field] : undefined;
+      if (!other) return { message: `${label(check.other_field)} was not found, so it could not be checked`, field: check.other_field };
+      return comparable(found, check.ignore_case ?? false) === comparable(other, check.ignore_case ?? false)
+        ? null
+        : { message: `${label(field)} "${found.raw}" does not match ${label(check.other_field)} "${other.raw}"`, field };
+    }
+  }
+}
+
+function rangeFailure(field: string, value: number, min?: number, max?: number): { message: string; field: string } | null {
+  if (min !== undefined && value < min) return { message: `${label(field)} ${value} is below the minimum of ${min}`, field };
+  if (max !== undefined && value > max) return { message: `${label(field)} ${value} is above the maximum of ${max}`, field };
+  return null;
+}
+
+// One issue per enabled rule the document fails. A rule's own message, when
+// it has one, replaces the one made up from the check.
+export function evaluateRules(
+  rules: ValidationRule[],
+  fields: ExtractedFields,
+  text: string,
+  now: Date = new Date()
+): ValidationIssue[] {
+  const scope: Scope = { fields, now };
+  return rules
+    .filter(rule => rule.enabled)
+    .flatMap(rule => {
+      const failed = failure(rule.check, scope, text);
+      if (!failed) return [];
+      return [{
+        rule_id: rule.id,
+        rule_name: rule.name,
+        severity: rule.severity,
+        message: rule.message ?? failed.message[0].toUpperCase() + failed.message.slice(1),
+        ...(failed.field && { field: failed.field })
+      }];
+    });
+}
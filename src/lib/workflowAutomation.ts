@@ -1,11 +1,16 @@
 import { z } from 'zod';
-import type { Customer, CustomerDocument, SmartFollowUp } from '../types';
+import type { Customer, CustomerDocument, DocumentStatus, SmartFollowUp } from '../types';
 import { documentClassifier } from './documentClassification';
 import { smartMessaging } from './smartMessaging';
+import { documentLifecycle } from './documentLifecycle';
+import type { DocumentTransitionEvent } from './documentLifecycle';
+import { repositories } from './repositories';
 
 interface WorkflowRule {
   id: string;
   name: string;
+  // Rules with a trigger run when a document enters that lifecycle status
+  trigger?: DocumentStatus;
   condition: (doc: CustomerDocument, customer: Customer) => boolean;
   actions: WorkflowAction[];
   priority: number;
@@ -13,7 +18,7 @@ interface WorkflowRule {
 }
 
 interface WorkflowAction {
-  type: 'notification' | 'followup' | 'escalation' | 'tag';
+  type: 'notification' | 'followup' | 'escalation' | 'tag' | 'transition';
   params: Record<string, any>;
 }
 
@@ -62,6 +67,7 @@ export class WorkflowAutomation {
     {
       id: 'overdue-document-escalation',
       name: 'Overdue Document Escalation',
+      trigger: 'overdue',
       condition: (doc) => doc.status === 'overdue',
       actions: [
         {
@@ -80,12 +86,78 @@ export class WorkflowAutomation {
       ],
       priority: 2,
       isActive: true
+    },
+    {
+      id: 'rejected-document-resubmission',
+      name: 'Rejected Document Resubmission',
+      trigger: 'rejected',
+      condition: (doc) => doc.status === 'rejected',
+      actions: [
+        {
+          type: 'followup',
+          params: {
+            template: 'resubmission-request',
+            channel: 'email',
+            priority: 'high'
+          }
+        },
+        {
+          type: 'transition',
+          params: {
+            to: 'pending',
+            reason: 'Resubmission requested from customer'
+          }
+        }
+      ],
+      priority: 3,
+      isActive: true
+    },
+    {
+      id: 'validated-document-review',
+      name: 'Queue Validated Documents for Review',
+      trigger: 'received',
+      condition: (doc) => doc.validation_passed === true,
+      actions: [
+        {
+          type: 'transition',
+          params: {
+            to: 'under_review'
+          }
+        }
+      ],
+      priority: 4,
+      isActive: true
     }
   ];
 
   private executions: Map<string, WorkflowExecution> = new Map();
 
-  async processDocument(doc: CustomerDocument, customer: Customer): Promise<WorkflowExecution> {
+  constructor() {
+    documentLifecycle.onTransition(event => {
+      this.processTransition(event).catch(error => {
+        console.error('Workflow failed for transition:', event.documentId, error);
+      });
+    });
+  }
+
+  // Runs the rules triggered by a document entering its new status
+  async processTransition(event: DocumentTransitionEvent): Promise<WorkflowExecution | null> {
+    if (!event.customerId) return null;
+
+    const customer = await repositories.customers.get(event.customerId);
+    if (!customer) return null;
+
+    const triggered = this.rules.filter(rule => rule.trigger === event.to);
+    if (triggered.length === 0) return null;
+
+    return this.processDocument(event.document, customer, triggered);
+  }
+
+  async processDocument(
+    doc: CustomerDocument,
+    customer: Customer,
+    rules: WorkflowRule[] = this.rules
+  ): Promise<WorkflowExecution> {
     // Create execution context
     const execution: WorkflowExecution = {
       id: crypto.randomUUID(),
@@ -99,7 +171,7 @@ export class WorkflowAutomation {
 
     try {
       // Find matching rules
-      const matchingRules = this.rules
+      const matchingRules = rules
         .filter(rule => rule.isActive && rule.condition(doc, customer))
         .sort((a, b) => a.priority - b.priority);
 
@@ -159,6 +231,11 @@ export class WorkflowAutomation {
         return this.escalateDocument(action.params, doc, customer);
       case 'tag':
         return this.addTags(action.params, doc);
+      case 'transition':
+        return documentLifecycle.apply(doc, action.params.to, {
+          actor: 'workflow',
+          reason: action.params.reason
+        });
       default:
         throw new Error(`Unknown action type: ${action.type}`);
     }
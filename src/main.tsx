@@ -2,6 +2,8 @@ import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
 import './index.css';
+// Registers the workflow rules that react to document lifecycle transitions
+import './lib/workflowAutomation';
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
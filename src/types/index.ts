@@ -31,11 +31,188 @@ export interface Customer {
   }>;
 }
 
+export type DocumentStatus =
+  | 'requested'
+  | 'pending'
+  | 'overdue'
+  | 'received'
+  | 'under_review'
+  | 'rejected'
+  | 'approved'
+  | 'expired'
+  | 'quarantined'
+  | 'archived';
+
+export interface DocumentStatusChange {
+  from: DocumentStatus;
+  to: DocumentStatus;
+  at: string;
+  actor?: string;
+  reason?: string;
+}
+
+export type StorageBackendName = 'supabase' | 's3' | 'filesystem';
+
+// A binary kept in document storage. Image uploads have both the original
+// and the PDF rendition made from it.
+export interface StoredDocumentFile {
+  // 'layout' is the JSON text layer written after processing; 'redacted' is
+  // the copy with personal data blacked out, for sharing
+  kind: 'original' | 'rendition' | 'layout' | 'redacted';
+  backend: StorageBackendName;
+  key: string;
+  name: string;
+  content_type: string;
+  size: number;
+  uploaded_at: string;
+  // Content hashes used to spot re-uploads of the same document
+  sha256?: string;
+  perceptual_hashes?: string[];
+  // Redacted copies: who checked the copy, which can't be shared until then
+  approved_by?: string;
+  approved_at?: string;
+}
+
+export type DocumentFieldType = 'date' | 'money' | 'id' | 'name' | 'text';
+
+// A value read from the document, or put right by a reviewer
+export interface DocumentFieldValue {
+  type: DocumentFieldType;
+  // Dates are ISO 8601 (YYYY-MM-DD)
+  value: string | { amount: number; currency?: string };
+  // The text as it appears in the document; what the reviewer typed for
+  // values the extractor didn't find
+  raw: string;
+  // 0 to 100; corrected values are 100
+  confidence: number;
+  label?: string;
+  // Offsets into the processed text, with the 1-based page and line
+  location?: { start: number; end: number; page: number; line: number };
+  // Other readings of a date such as 03/04/2024, when the document didn't
+  // say whether the day or the month comes first
+  alternatives?: string[];
+  // Confirmed or corrected by a reviewer
+  reviewed?: boolean;
+}
+
+// A row of a bank statement or invoice table
+export interface DocumentTransaction {
+  // ISO 8601; null for invoice lines without a date
+  date: string | null;
+  description: string;
+  debit: number | null;
+  credit: number | null;
+  balance: number | null;
+  currency?: string;
+  page: number;
+  // Where the row sits on its page, as fractions of the page size
+  box: { left: number; top: number; width: number; height: number };
+  confidence: number;
+  // Whether the balance follows from the previous row's
+  reconciled?: boolean;
+}
+
+// A run of pages that reads as a document of its own, in a file that holds
+// several
+export interface DocumentSegment {
+  // 1-based and inclusive
+  from: number;
+  to: number;
+  // One of the page kinds in pageClassification; null when unrecognized
+  kind: string | null;
+  confidence: number;
+  // Why a new document starts at this page
+  reason?: string;
+}
+
+export type RelationshipKind = 'employed_by' | 'agreement_with' | 'insures' | 'pays';
+
+// The customer record a person or company named in a document refers to
+export interface EntityLink {
+  customer_id: string;
+  matched: 'name' | 'company';
+}
+
+// Who the document says is related to whom, e.g. "Jane Doe employed by Acme"
+export interface DocumentRelationship {
+  entity1: string;
+  relationship: RelationshipKind;
+  entity2: string;
+  entity1_link?: EntityLink;
+  entity2_link?: EntityLink;
+}
+
+export type ValidationSeverity = 'error' | 'warning' | 'info';
+
+// What a custom validation rule checks. Fields are named as extraction
+// names them, e.g. 'date' or 'policy_number'.
+export type ValidationCheck =
+  | { type: 'required'; field: string }
+  // Against the field's text, or the whole document when no field is given
+  | { type: 'pattern'; field?: string; pattern: string; flags?: string }
+  | { type: 'range'; field: string; min?: number; max?: number }
+  // Optionally no more than within_days before or after the day of processing
+  | { type: 'date'; field: string; when: 'past' | 'future'; within_days?: number }
+  | { type: 'equals'; field: string; other_field: string; ignore_case?: boolean }
+  // e.g. "days_since(date) <= 90 && present(payee)"
+  | { type: 'expression'; expression: string };
+
+// A check configured for one type of document, such as a proof of address
+// that has to be dated within 90 days
+export interface ValidationRule {
+  id: string;
+  // Matched against CustomerDocument.type
+  document_type: string;
+  name: string;
+  severity: ValidationSeverity;
+  // Replaces the issue text made up from the check
+  message?: string;
+  check: ValidationCheck;
+  enabled: boolean;
+  created_at: string;
+}
+
+// A rule a document failed
+export interface ValidationIssue {
+  rule_id: string;
+  rule_name: string;
+  severity: ValidationSeverity;
+  message: string;
+  field?: string;
+}
+
+// What processing read from a document, kept for review
+export interface DocumentExtraction {
+  category: string;
+  category_confidence: number;
+  language: string;
+  fields: Record<string, DocumentFieldValue>;
+  transactions?: DocumentTransaction[];
+  // Only set when the file looks like several documents scanned together
+  segments?: DocumentSegment[];
+  relationships?: DocumentRelationship[];
+  // Custom validation rules the document failed when it was processed
+  validation_issues?: ValidationIssue[];
+  extracted_at: string;
+  reviewed_at?: string;
+  reviewed_by?: string;
+}
+
 export interface CustomerDocument {
   id: string;
+  customer_id?: string;
   name: string;
   type: string;
-  status: 'pending' | 'received' | 'overdue';
+  status: DocumentStatus;
+  created_at?: string;
+  status_changed_at?: string;
+  status_history?: DocumentStatusChange[];
+  validation_passed?: boolean;
+  expiration_date?: string;
+  // Set on a renewal request: the expiring document it replaces
+  renewal_of?: string;
+  files?: StoredDocumentFile[];
+  extraction?: DocumentExtraction;
   due_date: string;
   last_reminder: string;
   reminder_count?: number;
@@ -130,4 +307,65 @@ export interface SmartFollowUp {
       whatsapp: number;
     };
   };
+}
+// Jobs wait in 'queued' both before their first attempt and between retries;
+// 'dead_letter' holds jobs that ran out of attempts
+export type ProcessingJobStatus = 'queued' | 'running' | 'completed' | 'cancelled' | 'dead_letter';
+
+export interface ProcessingJobSummary {
+  category: string;
+  confidence: number;
+  page_count: number;
+  completeness: number;
+}
+
+export interface ProcessingJob {
+  id: string;
+  document_id: string;
+  status: ProcessingJobStatus;
+  attempts: number;
+  max_attempts: number;
+  // Earliest time the job may start; pushed back after each failed attempt
+  run_at: string;
+  last_error: string | null;
+  summary: ProcessingJobSummary | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// A reviewer's change to an extracted value. Kept as an audit trail and as
+// labels for training the classifier and extractors.
+export interface FieldCorrection {
+  id: string;
+  document_id: string;
+  // A field name, or 'category' for the document's classification
+  field: string;
+  // null when the extractor found nothing
+  previous_value: string | null;
+  // Empty when the reviewer cleared a value that isn't in the document
+  corrected_value: string;
+  previous_confidence: number | null;
+  corrected_by: string;
+  corrected_at: string;
+}
+
+export type PiiKind = 'ssn' | 'bank_account' | 'iban' | 'card_number' | 'passport_number' | 'date_of_birth';
+
+// One decision made for a redacted copy: a value blacked out, or one the
+// reviewer chose to leave visible. Entries are only ever added.
+export interface RedactionLogEntry {
+  id: string;
+  document_id: string;
+  // Storage key of the copy the decision went into
+  file_key: string;
+  kind: PiiKind;
+  page: number;
+  // Fractions of the page, as in the text layout
+  box: { left: number; top: number; width: number; height: number };
+  // All but the last few characters masked; the log never holds the value
+  masked_value: string;
+  // False when the reviewer left the value visible
+  redacted: boolean;
+  redacted_by: string;
+  redacted_at: string;
 }
\ No newline at end of file
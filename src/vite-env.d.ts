@@ -1 +1,5 @@
 /// <reference types="vite/client" />
+
+// Loading pdf.js's worker script sets globalThis.pdfjsWorker, which lets
+// pdf.js run without spawning a worker of its own
+declare module 'pdfjs-dist/build/pdf.worker.js';
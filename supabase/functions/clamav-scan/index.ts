@@ -0,0 +1,84 @@
+// Scans an upload with ClamAV. The browser can't open sockets, so it posts
+// the file here and the function streams it on to clamd with INSTREAM.
+//
+// Secrets: CLAMD_HOST and CLAMD_PORT (default 3310) of a clamd reachable
+// from the function. clamd refuses streams over its StreamMaxLength, 25MB by
+// default, so raise it to the app's upload limit.
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+const CLAMD_TIMEOUT_MS = 30_000;
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+}
+
+function lengthPrefix(length: number): Uint8Array {
+  const prefix = new Uint8Array(4);
+  new DataView(prefix.buffer).setUint32(0, length);
+  return prefix;
+}
+
+async function writeAll(conn: Deno.TcpConn, data: Uint8Array) {
+  for (let written = 0; written < data.length;) {
+    written += await conn.write(data.subarray(written));
+  }
+}
+
+// Replies look like "stream: OK", "stream: Eicar-Signature FOUND" or "... ERROR"
+async function scanStream(body: ReadableStream<Uint8Array>): Promise<{ infected: boolean; signature?: string }> {
+  const conn = await Deno.connect({
+    hostname: Deno.env.get('CLAMD_HOST') ?? '127.0.0.1',
+    port: Number(Deno.env.get('CLAMD_PORT') ?? 3310)
+  });
+  const timer = setTimeout(() => conn.close(), CLAMD_TIMEOUT_MS);
+  try {
+    // Each chunk is prefixed with its length; a zero length ends the stream
+    await writeAll(conn, new TextEncoder().encode('zINSTREAM\0'));
+    for await (const chunk of body) {
+      await writeAll(conn, lengthPrefix(chunk.length));
+      await writeAll(conn, chunk);
+    }
+    await writeAll(conn, lengthPrefix(0));
+
+    const reply = (await new Response(conn.readable).text()).replace(/\0/g, '').trim();
+    const found = reply.match(/^stream: (.+) FOUND$/);
+    if (found) return { infected: true, signature: found[1] };
+    if (reply.endsWith('OK')) return { infected: false };
+    throw new Error(`clamd returned "${reply}"`);
+  } finally {
+    clearTimeout(timer);
+    try {
+      conn.close();
+    } catch {
+      // Already closed by clamd or the timeout
+    }
+  }
+}
+
+Deno.serve(async req => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return json({ error: 'Method not allowed' }, 405);
+
+  // Only signed-in users, the same people who can upload
+  const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_ANON_KEY') ?? '', {
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } }
+  });
+  const { data, error } = await supabase.auth.getUser();
+  if (error || !data.user) return json({ error: 'Sign in to scan uploads' }, 401);
+  if (!req.body) return json({ error: 'Expected the file as the request body' }, 400);
+
+  try {
+    return json(await scanStream(req.body));
+  } catch (error) {
+    return json({ error: error instanceof Error ? error.message : 'Scan failed' }, 502);
+  }
+});
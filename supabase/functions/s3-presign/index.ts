@@ -0,0 +1,124 @@
+// Signs S3 requests for the browser so the bucket's credentials never leave
+// the server. A signed-in user asks for one operation on one key and gets a
+// short-lived presigned URL back, which the browser then calls directly.
+//
+// Secrets: S3_REGION, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY, and
+// S3_ENDPOINT for S3-compatible servers such as MinIO.
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  PutObjectCommand,
+  S3Client
+} from 'npm:@aws-sdk/client-s3@3';
+import { getSignedUrl } from 'npm:@aws-sdk/s3-request-presigner@3';
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+
+type Operation = 'put' | 'get' | 'head' | 'delete';
+
+interface PresignRequest {
+  operation: Operation;
+  key: string;
+  contentType?: string;
+  expiresIn?: number;
+  download?: string;
+}
+
+const OPERATIONS: Operation[] = ['put', 'get', 'head', 'delete'];
+const DEFAULT_EXPIRES_IN = 5 * 60;
+// The longest SigV4 allows, which is what share links use
+const MAX_EXPIRES_IN = 7 * 24 * 60 * 60;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+const endpoint = Deno.env.get('S3_ENDPOINT');
+const bucket = Deno.env.get('S3_BUCKET') ?? 'documents';
+const s3 = new S3Client({
+  endpoint,
+  region: Deno.env.get('S3_REGION') ?? 'us-east-1',
+  // MinIO serves buckets by path rather than by subdomain
+  forcePathStyle: Boolean(endpoint),
+  credentials: {
+    accessKeyId: Deno.env.get('S3_ACCESS_KEY_ID') ?? '',
+    secretAccessKey: Deno.env.get('S3_SECRET_ACCESS_KEY') ?? ''
+  }
+});
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+}
+
+// Keys are the app's own customer/document/kind/name paths
+function isValidKey(key: unknown): key is string {
+  return typeof key === 'string'
+    && key.length > 0
+    && key.length <= 1024
+    && !key.startsWith('/')
+    && !key.split('/').some(segment => segment === '' || segment === '.' || segment === '..');
+}
+
+function parseRequest(body: unknown): PresignRequest | string {
+  if (typeof body !== 'object' || body === null) return 'Expected a JSON object';
+  const request = body as Partial<PresignRequest>;
+  if (!OPERATIONS.includes(request.operation as Operation)) return `Unknown operation: ${request.operation}`;
+  if (!isValidKey(request.key)) return 'Invalid key';
+  if (request.expiresIn !== undefined && !(Number.isInteger(request.expiresIn) && request.expiresIn > 0)) {
+    return 'expiresIn must be a positive number of seconds';
+  }
+  return request as PresignRequest;
+}
+
+function command(request: PresignRequest) {
+  const target = { Bucket: bucket, Key: request.key };
+  switch (request.operation) {
+    case 'put':
+      return new PutObjectCommand({ ...target, ContentType: request.contentType });
+    case 'get':
+      return new GetObjectCommand({
+        ...target,
+        ResponseContentDisposition: request.download
+          ? `attachment; filename*=UTF-8''${encodeURIComponent(request.download)}`
+          : undefined
+      });
+    case 'head':
+      return new HeadObjectCommand(target);
+    case 'delete':
+      return new DeleteObjectCommand(target);
+  }
+}
+
+Deno.serve(async req => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return json({ error: 'Method not allowed' }, 405);
+
+  // Only signed-in users, the same people the tables' policies let in
+  const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_ANON_KEY') ?? '', {
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } }
+  });
+  const { data, error } = await supabase.auth.getUser();
+  if (error || !data.user) return json({ error: 'Sign in to access documents' }, 401);
+
+  let request: PresignRequest | string;
+  try {
+    request = parseRequest(await req.json());
+  } catch {
+    request = 'Expected a JSON body';
+  }
+  if (typeof request === 'string') return json({ error: request }, 400);
+
+  try {
+    const url = await getSignedUrl(s3, command(request), {
+      expiresIn: Math.min(request.expiresIn ?? DEFAULT_EXPIRES_IN, MAX_EXPIRES_IN)
+    });
+    return json({ url });
+  } catch (error) {
+    return json({ error: error instanceof Error ? error.message : 'Failed to sign the request' }, 500);
+  }
+});
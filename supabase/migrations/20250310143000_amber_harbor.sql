@@ -0,0 +1,70 @@
+/*
+  # Persist the full customer and document models
+
+  1. Changes to `customers`
+    - `source` (text, CRM the customer was imported from)
+    - `company` (text)
+    - `role` (text)
+    - `ai_suggestions` (jsonb, best contact time, engagement tips, priority level)
+    - `communication_preferences` (jsonb, nullable)
+    - `interaction_history` (jsonb array)
+
+  2. Changes to `documents`
+    - `last_reminder` (timestamptz)
+    - `ai_urgency_score` (double precision)
+    - `ai_analysis` (jsonb, nullable)
+    - `follow_up_history` (jsonb array)
+
+  3. Changes to `follow_ups`
+    - `ai_confidence` (double precision)
+    - `personalization_context` (jsonb)
+
+  4. Data
+    - Backfill `communication_preferences` from `preferred_contact_method`
+    - Move values earlier stored in `documents.metadata` into the new columns
+*/
+
+ALTER TABLE customers
+  ADD COLUMN IF NOT EXISTS source text NOT NULL DEFAULT 'Hubspot'
+    CHECK (source IN ('Hubspot', 'Salesforce', 'Zoho')),
+  ADD COLUMN IF NOT EXISTS company text NOT NULL DEFAULT '',
+  ADD COLUMN IF NOT EXISTS role text NOT NULL DEFAULT '',
+  ADD COLUMN IF NOT EXISTS ai_suggestions jsonb NOT NULL DEFAULT jsonb_build_object(
+    'best_contact_time', '',
+    'engagement_tips', '',
+    'priority_level', 'Medium'
+  ),
+  ADD COLUMN IF NOT EXISTS communication_preferences jsonb,
+  ADD COLUMN IF NOT EXISTS interaction_history jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+UPDATE customers
+SET communication_preferences = jsonb_build_object(
+  'preferred_channel', CASE WHEN preferred_contact_method = 'whatsapp' THEN 'whatsapp' ELSE 'email' END,
+  'preferred_language', 'en',
+  'preferred_time', '',
+  'do_not_disturb', false
+)
+WHERE communication_preferences IS NULL;
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS last_reminder timestamptz,
+  ADD COLUMN IF NOT EXISTS ai_urgency_score double precision NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS ai_analysis jsonb,
+  ADD COLUMN IF NOT EXISTS follow_up_history jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+UPDATE documents
+SET
+  last_reminder = COALESCE((metadata->>'last_reminder')::timestamptz, last_reminder),
+  ai_urgency_score = COALESCE((metadata->>'ai_urgency_score')::double precision, ai_confidence_score * 100, 0),
+  ai_analysis = COALESCE(metadata->'ai_analysis', ai_analysis),
+  follow_up_history = COALESCE(metadata->'follow_up_history', follow_up_history),
+  metadata = metadata - 'last_reminder' - 'ai_urgency_score' - 'ai_analysis' - 'follow_up_history';
+
+ALTER TABLE follow_ups
+  ADD COLUMN IF NOT EXISTS ai_confidence double precision NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS personalization_context jsonb NOT NULL DEFAULT jsonb_build_object(
+    'customer_sentiment', 0,
+    'engagement_level', 0,
+    'optimal_time_confidence', 0,
+    'channel_effectiveness', jsonb_build_object('email', 0, 'whatsapp', 0)
+  );
@@ -0,0 +1,28 @@
+/*
+  # Document lifecycle
+
+  1. Changes to `documents`
+    - `status` is limited to the lifecycle states
+      (requested, pending, overdue, received, under_review, rejected,
+      approved, expired, archived)
+    - `status_changed_at` (timestamptz)
+    - `status_history` (jsonb array of {from, to, at, actor, reason})
+    - `validation_passed` (boolean, required before approval)
+    - `expiration_date` (date)
+*/
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS status_changed_at timestamptz,
+  ADD COLUMN IF NOT EXISTS status_history jsonb NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS validation_passed boolean,
+  ADD COLUMN IF NOT EXISTS expiration_date date;
+
+DO $$ BEGIN
+  ALTER TABLE documents
+    ADD CONSTRAINT documents_status_check CHECK (status IN (
+      'requested', 'pending', 'overdue', 'received', 'under_review',
+      'rejected', 'approved', 'expired', 'archived'
+    ));
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
@@ -0,0 +1,20 @@
+/*
+  # Document storage bucket
+
+  1. Storage
+    - Private `documents` bucket that receives resumable (tus) uploads
+      from the upload screen
+
+  2. Security
+    - Authenticated users can read, upload, replace and delete objects
+      in the bucket
+*/
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('documents', 'documents', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Allow document storage access for authenticated users" ON storage.objects
+  FOR ALL TO authenticated
+  USING (bucket_id = 'documents')
+  WITH CHECK (bucket_id = 'documents');
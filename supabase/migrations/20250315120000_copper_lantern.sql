@@ -0,0 +1,11 @@
+/*
+  # Link stored files to documents
+
+  1. Changes to `documents`
+    - `files` (jsonb array of {kind, backend, key, name, content_type, size, uploaded_at})
+      pointing at the original upload and, for images, its PDF rendition
+      in document storage
+*/
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS files jsonb NOT NULL DEFAULT '[]'::jsonb;
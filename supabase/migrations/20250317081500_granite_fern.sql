@@ -0,0 +1,15 @@
+/*
+  # Quarantine status for infected uploads
+
+  1. Changes to `documents`
+    - `status` may also be `quarantined`, set when the malware scan of an
+      uploaded file finds active content or a known signature
+*/
+
+ALTER TABLE documents DROP CONSTRAINT IF EXISTS documents_status_check;
+
+ALTER TABLE documents
+  ADD CONSTRAINT documents_status_check CHECK (status IN (
+    'requested', 'pending', 'overdue', 'received', 'under_review',
+    'rejected', 'approved', 'expired', 'quarantined', 'archived'
+  ));
@@ -0,0 +1,40 @@
+/*
+  # Processing job queue
+
+  1. New Tables
+    - `processing_jobs`
+      - `document_id` (uuid, the document to OCR and analyse)
+      - `status` (queued, running, completed, cancelled, dead_letter)
+      - `attempts` / `max_attempts` (int, retries with exponential backoff)
+      - `run_at` (timestamptz, earliest start of the next attempt)
+      - `last_error` (text)
+      - `summary` (jsonb {category, confidence, page_count, completeness})
+
+  2. Security
+    - Enable RLS
+    - Authenticated users can manage jobs
+*/
+
+CREATE TABLE IF NOT EXISTS processing_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id uuid NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'queued' CHECK (status IN (
+    'queued', 'running', 'completed', 'cancelled', 'dead_letter'
+  )),
+  attempts int NOT NULL DEFAULT 0,
+  max_attempts int NOT NULL DEFAULT 5 CHECK (max_attempts > 0),
+  run_at timestamptz NOT NULL DEFAULT now(),
+  last_error text,
+  summary jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS processing_jobs_status_run_at_idx
+  ON processing_jobs (status, run_at);
+
+ALTER TABLE processing_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access for authenticated users" ON processing_jobs
+  FOR ALL TO authenticated
+  USING (true);
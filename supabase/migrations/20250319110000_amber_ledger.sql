@@ -0,0 +1,42 @@
+/*
+  # Extraction review
+
+  1. Changes to `documents`
+    - `extraction` (jsonb, the category and field values read by processing,
+      with any reviewer corrections applied)
+
+  2. New Tables
+    - `field_corrections`
+      - `document_id` (uuid, the reviewed document)
+      - `field` (text, a field name or `category`)
+      - `previous_value` / `corrected_value` (text)
+      - `previous_confidence` (numeric, 0 to 100)
+      - `corrected_by` (text, the reviewer)
+      - `corrected_at` (timestamptz)
+
+  3. Security
+    - Enable RLS
+    - Authenticated users can manage corrections
+*/
+
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS extraction jsonb;
+
+CREATE TABLE IF NOT EXISTS field_corrections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id uuid NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  field text NOT NULL,
+  previous_value text,
+  corrected_value text NOT NULL,
+  previous_confidence numeric,
+  corrected_by text NOT NULL,
+  corrected_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS field_corrections_document_id_idx
+  ON field_corrections (document_id, corrected_at);
+
+ALTER TABLE field_corrections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access for authenticated users" ON field_corrections
+  FOR ALL TO authenticated
+  USING (true);
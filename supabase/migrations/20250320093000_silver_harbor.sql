@@ -0,0 +1,16 @@
+/*
+  # Expiry tracking
+
+  1. Changes to `documents`
+    - `renewal_of` (uuid, the expiring document a renewal request replaces)
+    - Index on `expiration_date` for the upcoming expirations list
+*/
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS renewal_of uuid REFERENCES documents(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS documents_renewal_of_idx ON documents (renewal_of);
+
+CREATE INDEX IF NOT EXISTS documents_expiration_date_idx
+  ON documents (expiration_date)
+  WHERE expiration_date IS NOT NULL;
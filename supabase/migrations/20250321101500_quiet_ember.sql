@@ -0,0 +1,41 @@
+/*
+  # Redaction log
+
+  1. New Tables
+    - `redaction_log`
+      - `document_id` (uuid, the document the redacted copy was made from)
+      - `file_key` (text, storage key of the redacted copy)
+      - `kind` (text, the kind of personal data: ssn, iban, card_number...)
+      - `page` (integer, 1-based)
+      - `box` (jsonb, where on the page, as fractions of its size)
+      - `masked_value` (text, the value with all but its last characters masked)
+      - `redacted` (boolean, false when the reviewer left the value visible)
+      - `redacted_by` (text, the reviewer)
+      - `redacted_at` (timestamptz)
+
+  2. Security
+    - Enable RLS
+    - Authenticated users can manage the log
+*/
+
+CREATE TABLE IF NOT EXISTS redaction_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id uuid NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  file_key text NOT NULL,
+  kind text NOT NULL,
+  page integer NOT NULL,
+  box jsonb NOT NULL,
+  masked_value text NOT NULL,
+  redacted boolean NOT NULL,
+  redacted_by text NOT NULL,
+  redacted_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS redaction_log_document_id_idx
+  ON redaction_log (document_id, redacted_at);
+
+ALTER TABLE redaction_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access for authenticated users" ON redaction_log
+  FOR ALL TO authenticated
+  USING (true);
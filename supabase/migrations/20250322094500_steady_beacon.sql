@@ -0,0 +1,38 @@
+/*
+  # Validation rules
+
+  1. New Tables
+    - `validation_rules`
+      - `document_type` (text, the document type the rule applies to)
+      - `name` (text)
+      - `severity` (text, error, warning or info)
+      - `message` (text, optional, replaces the issue text made up from the check)
+      - `check` (jsonb, what the rule checks: required, pattern, range, date,
+        equals or expression)
+      - `enabled` (boolean)
+      - `created_at` (timestamptz)
+
+  2. Security
+    - Enable RLS
+    - Authenticated users can manage the rules
+*/
+
+CREATE TABLE IF NOT EXISTS validation_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_type text NOT NULL,
+  name text NOT NULL,
+  severity text NOT NULL CHECK (severity IN ('error', 'warning', 'info')),
+  message text,
+  "check" jsonb NOT NULL,
+  enabled boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS validation_rules_document_type_idx
+  ON validation_rules (document_type, created_at);
+
+ALTER TABLE validation_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access for authenticated users" ON validation_rules
+  FOR ALL TO authenticated
+  USING (true);
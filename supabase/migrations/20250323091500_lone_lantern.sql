@@ -0,0 +1,26 @@
+/*
+  # One renewal request per document
+
+  1. Changes to `documents`
+    - `renewal_of` is unique where set, so two browsers checking expiry at
+      the same time can't both open a renewal request for one document
+    - Duplicates made before this keep the earliest request as the renewal;
+      the rest stay as ordinary requests
+*/
+
+UPDATE documents
+SET renewal_of = NULL
+WHERE id IN (
+  SELECT id FROM (
+    SELECT id, row_number() OVER (PARTITION BY renewal_of ORDER BY created_at, id) AS position
+    FROM documents
+    WHERE renewal_of IS NOT NULL
+  ) renewals
+  WHERE position > 1
+);
+
+DROP INDEX IF EXISTS documents_renewal_of_idx;
+
+CREATE UNIQUE INDEX IF NOT EXISTS documents_renewal_of_key
+  ON documents (renewal_of)
+  WHERE renewal_of IS NOT NULL;